@@ -0,0 +1,65 @@
+import express from "express";
+import cors from "cors";
+import helmet from "helmet";
+import rateLimit from "express-rate-limit";
+import { config } from "./config";
+import { errorHandler } from "./middleware/errorHandler";
+import { requireApiKeyForWrites } from "./middleware/auth";
+import agentRoutes from "./routes/agents";
+import taskRoutes from "./routes/tasks";
+import validatorRoutes from "./routes/validators";
+import healthRoutes from "./routes/health";
+import reputationRoutes from "./routes/reputation";
+import identityRoutes from "./routes/identity";
+import streamRoutes from "./routes/stream";
+import webhookRoutes from "./routes/webhooks";
+
+const app = express();
+
+// Middleware
+app.use(helmet());
+app.use(cors({
+  origin: config.corsOrigin,
+  methods: ['GET', 'POST', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'X-API-Key'],
+}));
+app.use(express.json());
+
+// H-2: API key authentication on all routes (GET passes through, writes require key; /webhooks requires it for reads too)
+app.use(requireApiKeyForWrites);
+
+// Rate limiting
+const readLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 100,                  // 100 requests per minute for reads
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: "Too many requests, please try again later" },
+});
+
+const writeLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000,
+  max: 10,                   // 10 writes per minute
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: "Too many write requests, please try again later" },
+});
+
+app.post("*", writeLimiter);
+app.use("/health", readLimiter);
+app.use("/contracts", readLimiter);
+
+// Routes (with rate limiting)
+app.use("/", healthRoutes);
+app.use("/agents", readLimiter, agentRoutes);
+app.use("/tasks", readLimiter, taskRoutes);
+app.use("/validators", readLimiter, validatorRoutes);
+app.use("/v2/reputation", readLimiter, reputationRoutes);
+app.use("/v2/identity", readLimiter, identityRoutes);
+app.use("/stream", readLimiter, streamRoutes);
+app.use("/webhooks", readLimiter, webhookRoutes);
+
+// Error handler (must be last)
+app.use(errorHandler);
+
+export default app;
@@ -7,15 +7,52 @@ function env(key: string, fallback?: string): string {
   return v;
 }
 
+function protocolVersion(): "v1" | "v2" {
+  const v = env("PROTOCOL_VERSION", "v2");
+  if (v !== "v1" && v !== "v2") throw new Error(`PROTOCOL_VERSION must be v1 or v2, got ${v}`);
+  return v;
+}
+
+function ipfsBackend(): "pinata" | "local" {
+  const fallback = process.env.PINATA_API_KEY && process.env.PINATA_SECRET_KEY ? "pinata" : "local";
+  const v = env("IPFS_BACKEND", fallback);
+  if (v !== "pinata" && v !== "local") throw new Error(`IPFS_BACKEND must be pinata or local, got ${v}`);
+  return v;
+}
+
 export const config = {
   port: parseInt(env("PORT", "3000"), 10),
   rpcUrl: env("RPC_URL", "http://localhost:8545"),
+  // Selects the ABBCore / ValidatorPool ABIs; the registries and escrow are shared
+  protocolVersion: protocolVersion(),
   contracts: {
     abbCore: env("ABBCORE_ADDRESS", "0x0000000000000000000000000000000000000000"),
     agentRegistry: env("AGENT_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
     taskRegistry: env("TASK_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
     validatorPool: env("VALIDATOR_POOL_ADDRESS", "0x0000000000000000000000000000000000000000"),
     bountyEscrow: env("BOUNTY_ESCROW_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    agentIdentity: env("AGENT_IDENTITY_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    reputationRegistry: env("REPUTATION_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
   },
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000',
+  indexer: {
+    dbPath: env("INDEXER_DB_PATH", "./data/indexer.db"),
+    startBlock: parseInt(env("INDEXER_START_BLOCK", "0"), 10),
+    batchSize: parseInt(env("INDEXER_BATCH_SIZE", "2000"), 10),
+    pollIntervalMs: parseInt(env("INDEXER_POLL_INTERVAL_MS", "4000"), 10),
+    reorgDepth: parseInt(env("INDEXER_REORG_DEPTH", "64"), 10),
+  },
+  metadata: {
+    dbPath: env("METADATA_DB_PATH", "./data/metadata.db"),
+  },
+  webhooks: {
+    dbPath: env("WEBHOOK_DB_PATH", "./data/webhooks.db"),
+    maxAttempts: parseInt(env("WEBHOOK_MAX_ATTEMPTS", "8"), 10),
+    timeoutMs: parseInt(env("WEBHOOK_TIMEOUT_MS", "10000"), 10),
+  },
+  ipfs: {
+    backend: ipfsBackend(),
+    gateway: env("IPFS_GATEWAY", "https://gateway.pinata.cloud/ipfs"),
+    localDir: env("IPFS_LOCAL_DIR", "./data/ipfs"),
+  },
 };
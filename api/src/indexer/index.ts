@@ -0,0 +1,16 @@
+import { config } from "../config";
+import { Indexer } from "./indexer";
+import { IndexerStore } from "./store";
+
+export const store = new IndexerStore(config.indexer.dbPath);
+export const indexer = new Indexer(store, config.indexer);
+
+export type {
+  StoredEvent,
+  StoredTask,
+  StoredAgent,
+  StoredValidator,
+  TaskQuery,
+  TaskCursor,
+  TaskSortField,
+} from "./store";
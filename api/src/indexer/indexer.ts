@@ -0,0 +1,433 @@
+import { EventEmitter } from "events";
+import { BaseContract, Indexed, Log, ZeroAddress, id as keccakId, isError } from "ethers";
+import {
+  provider,
+  abbCore,
+  agentRegistry,
+  taskRegistry,
+  validatorPool,
+  bountyEscrow,
+  agentIdentity,
+  reputationRegistry,
+  readTask,
+  formatAgent,
+  formatValidator,
+} from "../services/contracts";
+import { prefetchDocuments } from "../metadata";
+import { logger } from "../utils/logger";
+import { IndexerStore, StoredEvent } from "./store";
+
+interface EventSource {
+  contract: BaseContract;
+  name: string;
+  events: string[];
+  /** Event-only sources are stored for history but never trigger snapshot refreshes */
+  eventsOnly?: boolean;
+}
+
+/**
+ * Events tailed per contract. Every event here marks the task, agent or
+ * validator it references as dirty; dirty entities are re-read from chain at
+ * the end of each batch so the stored snapshot always matches contract state.
+ * Events missing from the loaded ABI (e.g. V2-only events against a V1
+ * deployment) are skipped.
+ */
+const INDEXED_EVENTS: EventSource[] = [
+  {
+    contract: abbCore,
+    name: "ABBCore",
+    events: [
+      "TaskCreatedAndFunded",
+      "TaskClaimedByAgent",
+      "WorkSubmittedForReview",
+      "ReviewFinalized",
+      "DisputeRaised",
+      "DisputeResolved",
+      "TaskCancelledAndRefunded",
+    ],
+  },
+  {
+    // reclaimExpiredTask only emits TaskRegistry.TaskCancelled, never an ABBCore event
+    contract: taskRegistry,
+    name: "TaskRegistry",
+    events: ["TaskCancelled"],
+  },
+  {
+    contract: agentRegistry,
+    name: "AgentRegistry",
+    events: ["AgentRegistered", "AgentDeregistered", "AgentMetadataUpdated", "ReputationUpdated"],
+  },
+  {
+    contract: validatorPool,
+    name: "ValidatorPool",
+    events: [
+      "ValidatorRegistered",
+      "StakeAdded",
+      "UnstakeRequested",
+      "UnstakeCompleted",
+      "ValidatorDeactivated",
+      "ValidatorSlashed",
+      "ReputationUpdated",
+      // Validation rounds (task timeline)
+      "PanelRequested",
+      "PanelSelected",
+      "MicroPanelSelected",
+      "PanelSelectionFailed",
+      "VRFRequestCancelled",
+      "ScoreCommitted",
+      "ScoreRevealed",
+      "DirectScoreSubmitted",
+      "RoundFinalized",
+    ],
+  },
+  {
+    contract: bountyEscrow,
+    name: "BountyEscrow",
+    events: ["Deposited", "Released", "Refunded"],
+  },
+  {
+    // agentId here is the ERC-8004 identity token, not the AgentRegistry ID
+    contract: reputationRegistry,
+    name: "ReputationRegistry8004",
+    events: ["NewFeedback", "FeedbackTags", "FeedbackDetails", "FeedbackRevoked"],
+    eventsOnly: true,
+  },
+  {
+    // Metadata keys can only be listed from MetadataSet; the values are read live
+    contract: agentIdentity,
+    name: "AgentIdentity8004",
+    events: ["Registered", "URIUpdated", "MetadataSet", "AgentWalletSet", "AgentWalletCleared"],
+    eventsOnly: true,
+  },
+];
+
+export interface IndexerOptions {
+  startBlock: number;
+  batchSize: number;
+  pollIntervalMs: number;
+  reorgDepth: number;
+}
+
+export interface IndexerStatus {
+  running: boolean;
+  lastIndexedBlock: number | null;
+  headBlock: number | null;
+  lag: number | null;
+  lastError: string | null;
+}
+
+interface Dirty {
+  tasks: Set<number>;
+  agents: Set<number>;
+  validators: Set<string>;
+}
+
+/**
+ * Convert decoded event values into JSON-safe values (bigint → decimal string,
+ * indexed dynamic values → their keccak256 topic)
+ */
+function toPlain(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Indexed.isIndexed(value)) return value.hash;
+  if (Array.isArray(value)) return Array.from(value, toPlain);
+  return value;
+}
+
+/**
+ * Backfills from `startBlock` and then tails the chain, writing decoded events
+ * and refreshed entity snapshots into the store. Reorgs are detected by
+ * comparing the stored hash of the last indexed block with the chain; on a
+ * mismatch the store is rolled back to the newest block whose hash still
+ * matches and the affected entities are re-read.
+ *
+ * Emits `events` with each batch of newly indexed events once it is committed.
+ */
+export class Indexer extends EventEmitter<{ events: [StoredEvent[]] }> {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private headBlock: number | null = null;
+  private lastError: string | null = null;
+  private seeded = false;
+  private readonly byAddress = new Map<string, EventSource & { eventSet: Set<string> }>();
+  private readonly topics: string[] = [];
+
+  constructor(
+    private readonly store: IndexerStore,
+    private readonly opts: IndexerOptions,
+  ) {
+    super();
+    for (const spec of INDEXED_EVENTS) {
+      const address = String(spec.contract.target).toLowerCase();
+      if (address === ZeroAddress) continue; // not deployed / not configured
+      const events = spec.events.filter((event) => spec.contract.interface.getEvent(event) !== null);
+      this.byAddress.set(address, { ...spec, events, eventSet: new Set(events) });
+      for (const event of events) {
+        const topic = spec.contract.interface.getEvent(event)!.topicHash;
+        if (!this.topics.includes(topic)) this.topics.push(topic);
+      }
+    }
+  }
+
+  /**
+   * Identifies the set of tailed contracts and events. When it changes (new
+   * event added, address reconfigured) the store is re-scanned from the start
+   * block so the new events are backfilled; event inserts are idempotent.
+   */
+  private fingerprint(): string {
+    const parts = [...this.byAddress.entries()].map(([address, s]) => `${address}:${[...s.eventSet].sort().join(",")}`);
+    return keccakId(parts.sort().join("|"));
+  }
+
+  start(): void {
+    if (this.running) return;
+    const fingerprint = this.fingerprint();
+    if (this.store.getMeta("sources") !== fingerprint) {
+      if (this.store.getLastBlock() !== null) {
+        logger.info("Indexed event set changed, re-scanning from start block");
+        this.store.transaction(() => this.store.rollback(this.opts.startBlock - 1));
+      }
+      this.store.setMeta("sources", fingerprint);
+    }
+    this.running = true;
+    logger.info({ startBlock: this.opts.startBlock, lastIndexedBlock: this.store.getLastBlock() }, "Indexer starting");
+    void this.loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  status(): IndexerStatus {
+    const last = this.store.getLastBlock();
+    return {
+      running: this.running,
+      lastIndexedBlock: last,
+      headBlock: this.headBlock,
+      lag: last !== null && this.headBlock !== null ? this.headBlock - last : null,
+      lastError: this.lastError,
+    };
+  }
+
+  private async loop(): Promise<void> {
+    try {
+      if (!this.seeded) {
+        await this.seedValidators();
+        this.seeded = true;
+      }
+      await this.tick();
+      this.lastError = null;
+    } catch (err) {
+      this.lastError = (err as Error).message;
+      logger.warn({ err: this.lastError }, "Indexer tick failed");
+    }
+    if (this.running) this.timer = setTimeout(() => void this.loop(), this.opts.pollIntervalMs);
+  }
+
+  /** Catch up from the stored cursor to the current head */
+  async tick(): Promise<void> {
+    const head = await provider.getBlockNumber();
+    this.headBlock = head;
+
+    let last = this.store.getLastBlock() ?? this.opts.startBlock - 1;
+    if (last >= this.opts.startBlock) last = await this.handleReorg(last);
+
+    while (last < head && this.running) {
+      const to = Math.min(last + this.opts.batchSize, head);
+      await this.syncRange(last + 1, to);
+      last = to;
+    }
+  }
+
+  private async syncRange(fromBlock: number, toBlock: number): Promise<void> {
+    const logs = await provider.getLogs({
+      address: [...this.byAddress.keys()],
+      topics: [this.topics],
+      fromBlock,
+      toBlock,
+    });
+
+    const timestamps = new Map<number, number>();
+    const endBlock = await provider.getBlock(toBlock);
+    if (!endBlock?.hash) throw new Error(`Block ${toBlock} not available`);
+    timestamps.set(toBlock, endBlock.timestamp);
+
+    const events: StoredEvent[] = [];
+    const blockHashes = new Map<number, string>([[toBlock, endBlock.hash]]);
+    for (const log of logs) {
+      const event = this.decode(log);
+      if (!event) continue;
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+      event.timestamp = timestamps.get(log.blockNumber)!;
+      blockHashes.set(log.blockNumber, log.blockHash);
+      events.push(event);
+    }
+
+    const snapshots = await this.readSnapshots(this.collectDirty(events));
+
+    this.store.transaction(() => {
+      this.store.insertEvents(events);
+      for (const [number, hash] of blockHashes) this.store.putBlock(number, hash, timestamps.get(number)!);
+      this.applySnapshots(snapshots);
+      this.store.setLastBlock(toBlock);
+      this.store.pruneBlocks(toBlock - this.opts.reorgDepth);
+    });
+
+    if (events.length > 0) {
+      logger.debug({ fromBlock, toBlock, events: events.length }, "Indexed block range");
+      this.emit("events", events);
+    }
+  }
+
+  /**
+   * Pick up validators registered before `startBlock` by walking the on-chain
+   * `validatorList`; later registrations arrive as ValidatorRegistered events.
+   */
+  private async seedValidators(): Promise<void> {
+    if (!this.byAddress.has(String(validatorPool.target).toLowerCase())) return;
+    const dirty: Dirty = { tasks: new Set(), agents: new Set(), validators: new Set() };
+    for (let i = 0; ; i++) {
+      let address: string;
+      try {
+        address = await validatorPool.validatorList(i);
+      } catch (err) {
+        if (isError(err, "CALL_EXCEPTION")) break; // past the end of the array
+        throw err;
+      }
+      if (!this.store.getValidator(address)) dirty.validators.add(address.toLowerCase());
+    }
+    if (dirty.validators.size === 0) return;
+
+    const snapshots = await this.readSnapshots(dirty);
+    this.store.transaction(() => this.applySnapshots(snapshots));
+    logger.info({ validators: dirty.validators.size }, "Seeded validators from validatorList");
+  }
+
+  /**
+   * Verify the last indexed block is still canonical. Returns the block to
+   * resume from — either `last` or the fork point after a rollback.
+   */
+  private async handleReorg(last: number): Promise<number> {
+    const stored = this.store.getBlock(last);
+    if (!stored) return last;
+    const onChain = await provider.getBlock(last);
+    if (onChain?.hash === stored.hash) return last;
+
+    let forkPoint = Math.max(last - this.opts.reorgDepth, this.opts.startBlock - 1);
+    for (const candidate of this.store.recentBlocks(last - 1, this.opts.reorgDepth)) {
+      const block = await provider.getBlock(candidate.number);
+      if (block?.hash === candidate.hash) {
+        forkPoint = candidate.number;
+        break;
+      }
+    }
+
+    const removed = this.store.transaction(() => this.store.rollback(forkPoint));
+    logger.warn({ last, forkPoint, removedEvents: removed.length }, "Chain reorg detected, rolled back indexer");
+
+    const snapshots = await this.readSnapshots(this.collectDirty(removed));
+    this.store.transaction(() => this.applySnapshots(snapshots));
+    return forkPoint;
+  }
+
+  private decode(log: Log): StoredEvent | null {
+    const source = this.byAddress.get(log.address.toLowerCase());
+    if (!source) return null;
+
+    let parsed;
+    try {
+      parsed = source.contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
+    } catch {
+      return null;
+    }
+    if (!parsed || !source.eventSet.has(parsed.name)) return null;
+
+    const args: Record<string, unknown> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name] = toPlain(parsed.args[i]);
+    });
+
+    return {
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      timestamp: 0,
+      contract: source.name,
+      name: parsed.name,
+      taskId: args.taskId !== undefined ? Number(args.taskId) : null,
+      agentId: args.agentId !== undefined ? Number(args.agentId) : null,
+      validator: typeof args.validator === "string" ? args.validator.toLowerCase() : null,
+      args,
+    };
+  }
+
+  private collectDirty(events: StoredEvent[]): Dirty {
+    const eventsOnly = new Set(INDEXED_EVENTS.filter((s) => s.eventsOnly).map((s) => s.name));
+    const dirty: Dirty = { tasks: new Set(), agents: new Set(), validators: new Set() };
+    for (const e of events) {
+      if (eventsOnly.has(e.contract)) continue;
+      if (e.taskId !== null) dirty.tasks.add(e.taskId);
+      if (e.agentId !== null) dirty.agents.add(e.agentId);
+      if (e.validator !== null) dirty.validators.add(e.validator);
+    }
+    return dirty;
+  }
+
+  /**
+   * Current on-chain state of every dirty entity. Entities that no longer
+   * exist (created in blocks a reorg dropped) are listed in `gone` so their
+   * rows are deleted rather than left stale.
+   */
+  private async readSnapshots(dirty: Dirty) {
+    const gone: Dirty = { tasks: new Set(), agents: new Set(), validators: new Set() };
+    const tasks = [];
+    for (const id of dirty.tasks) {
+      if (!(await taskRegistry.taskExists(id))) {
+        gone.tasks.add(id);
+        continue;
+      }
+      tasks.push(await readTask(id));
+    }
+    const agents = [];
+    for (const id of dirty.agents) {
+      if (!(await agentRegistry.agentExists(id))) {
+        gone.agents.add(id);
+        continue;
+      }
+      agents.push(formatAgent(await agentRegistry.getAgent(id)));
+    }
+    const validators = [];
+    for (const address of dirty.validators) {
+      const v = await validatorPool.getValidator(address);
+      if (Number(v.registeredAt) === 0) {
+        gone.validators.add(address);
+        continue;
+      }
+      validators.push(formatValidator(v));
+    }
+    return { tasks, agents, validators, gone };
+  }
+
+  private applySnapshots(snapshots: Awaited<ReturnType<Indexer["readSnapshots"]>>): void {
+    for (const task of snapshots.tasks) this.store.upsertTask(task);
+    for (const agent of snapshots.agents) this.store.upsertAgent(agent);
+    for (const validator of snapshots.validators) this.store.upsertValidator(validator);
+    for (const id of snapshots.gone.tasks) this.store.deleteTask(id);
+    for (const id of snapshots.gone.agents) this.store.deleteAgent(id);
+    for (const address of snapshots.gone.validators) this.store.deleteValidator(address);
+
+    // Warm the document cache so list endpoints can show titles and agent names
+    prefetchDocuments([
+      ...snapshots.tasks.flatMap((t) => [
+        { kind: "description" as const, hash: t.descriptionHash },
+        { kind: "submission" as const, hash: t.submissionHash },
+      ]),
+      ...snapshots.agents.map((a) => ({ kind: "agent" as const, hash: a.metadataHash })),
+    ]);
+  }
+}
@@ -0,0 +1,520 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+/**
+ * SQLite store for the event indexer.
+ *
+ * Raw events are kept per (block, logIndex) so a reorg can be rolled back by
+ * deleting everything above the fork point. Tasks, agents and validators are
+ * stored as formatted snapshots (the same shape the routes return) with a few
+ * extracted columns for filtering and sorting.
+ */
+
+export interface StoredEvent {
+  blockNumber: number;
+  logIndex: number;
+  blockHash: string;
+  txHash: string;
+  timestamp: number;
+  contract: string;
+  name: string;
+  taskId: number | null;
+  agentId: number | null;
+  validator: string | null;
+  args: Record<string, unknown>;
+}
+
+export interface StoredTask {
+  id: number;
+  poster: string;
+  descriptionHash: string;
+  submissionHash: string;
+  bountyAmountWei: string;
+  paymentToken: string;
+  deadline: number;
+  state: string;
+  assignedAgent: number;
+  createdAt: number;
+  [key: string]: unknown;
+}
+
+export interface StoredAgent {
+  id: number;
+  operator: string;
+  metadataHash: string;
+  reputationScore: number;
+  active: boolean;
+  [key: string]: unknown;
+}
+
+export interface StoredValidator {
+  address: string;
+  active: boolean;
+  stakeAmountWei: string;
+  isAIValidator?: boolean;
+  [key: string]: unknown;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS blocks (
+    number    INTEGER PRIMARY KEY,
+    hash      TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index    INTEGER NOT NULL,
+    block_hash   TEXT NOT NULL,
+    tx_hash      TEXT NOT NULL,
+    timestamp    INTEGER NOT NULL,
+    contract     TEXT NOT NULL,
+    name         TEXT NOT NULL,
+    task_id      INTEGER,
+    agent_id     INTEGER,
+    validator    TEXT,
+    args         TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_task ON events (task_id, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_agent ON events (agent_id, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_validator ON events (validator, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_tx ON events (tx_hash);
+
+  CREATE TABLE IF NOT EXISTS tasks (
+    id             INTEGER PRIMARY KEY,
+    poster         TEXT NOT NULL,
+    state          TEXT NOT NULL,
+    assigned_agent INTEGER NOT NULL,
+    payment_token  TEXT NOT NULL,
+    bounty_wei     TEXT NOT NULL,
+    deadline       INTEGER NOT NULL,
+    created_at     INTEGER NOT NULL,
+    data           TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS agents (
+    id               INTEGER PRIMARY KEY,
+    operator         TEXT NOT NULL,
+    reputation_score INTEGER NOT NULL,
+    active           INTEGER NOT NULL,
+    data             TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS validators (
+    address TEXT PRIMARY KEY,
+    active  INTEGER NOT NULL,
+    data    TEXT NOT NULL
+  );
+`;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/** Left-pad a uint256 decimal string so SQLite can compare it as text */
+export function padWei(wei: string): string {
+  return wei.padStart(78, "0");
+}
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  tx_hash: string;
+  timestamp: number;
+  contract: string;
+  name: string;
+  task_id: number | null;
+  agent_id: number | null;
+  validator: string | null;
+  args: string;
+}
+
+export type TaskSortField = "createdAt" | "deadline" | "bounty";
+
+export interface TaskQuery {
+  state?: string;
+  poster?: string;
+  assignedAgent?: number;
+  paymentToken?: string;
+  minBountyWei?: string;
+  maxBountyWei?: string;
+  deadlineAfter?: number;
+  deadlineBefore?: number;
+  sort: TaskSortField;
+  order: "asc" | "desc";
+  limit: number;
+  /** Keyset position of the last row of the previous page */
+  after?: TaskCursor;
+}
+
+export interface TaskCursor {
+  key: string | number;
+  id: number;
+}
+
+export interface TaskPage {
+  tasks: StoredTask[];
+  total: number;
+  /** Position of the last returned row, or null when there are no more rows */
+  next: TaskCursor | null;
+}
+
+const TASK_SORT_COLUMNS: Record<TaskSortField, string> = {
+  createdAt: "created_at",
+  deadline: "deadline",
+  bounty: "bounty_wei",
+};
+
+interface AgentFilter {
+  activeOnly?: boolean;
+  minScore?: number;
+}
+
+function agentWhere(opts: AgentFilter): { where: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  if (opts.activeOnly) clauses.push("active = 1");
+  if (opts.minScore !== undefined) {
+    clauses.push("reputation_score >= ?");
+    params.push(opts.minScore);
+  }
+  return { where: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+function rowToEvent(row: EventRow): StoredEvent {
+  return {
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    blockHash: row.block_hash,
+    txHash: row.tx_hash,
+    timestamp: row.timestamp,
+    contract: row.contract,
+    name: row.name,
+    taskId: row.task_id,
+    agentId: row.agent_id,
+    validator: row.validator,
+    args: JSON.parse(row.args),
+  };
+}
+
+export class IndexerStore {
+  readonly db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ":memory:") fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  // ─── Cursor / meta ───
+
+  getMeta(key: string): string | null {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+      .run(key, value);
+  }
+
+  getLastBlock(): number | null {
+    const value = this.getMeta("lastBlock");
+    return value !== null ? Number(value) : null;
+  }
+
+  setLastBlock(block: number): void {
+    this.setMeta("lastBlock", String(block));
+  }
+
+  // ─── Blocks (reorg detection) ───
+
+  putBlock(number: number, hash: string, timestamp: number): void {
+    this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)").run(number, hash, timestamp);
+  }
+
+  getBlock(number: number): { number: number; hash: string; timestamp: number } | undefined {
+    return this.db.prepare("SELECT number, hash, timestamp FROM blocks WHERE number = ?").get(number) as
+      | { number: number; hash: string; timestamp: number }
+      | undefined;
+  }
+
+  /** Stored blocks at or below `number`, newest first */
+  recentBlocks(number: number, limit: number): { number: number; hash: string }[] {
+    return this.db.prepare("SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?")
+      .all(number, limit) as { number: number; hash: string }[];
+  }
+
+  pruneBlocks(below: number): void {
+    this.db.prepare("DELETE FROM blocks WHERE number < ?").run(below);
+  }
+
+  // ─── Events ───
+
+  insertEvents(events: StoredEvent[]): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO events
+        (block_number, log_index, block_hash, tx_hash, timestamp, contract, name, task_id, agent_id, validator, args)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const e of events) {
+      stmt.run(
+        e.blockNumber, e.logIndex, e.blockHash, e.txHash, e.timestamp, e.contract, e.name,
+        e.taskId, e.agentId, e.validator, JSON.stringify(e.args),
+      );
+    }
+  }
+
+  /**
+   * Delete all events and block hashes above `block`.
+   * @returns The events that were removed, so their entities can be refreshed
+   */
+  rollback(block: number): StoredEvent[] {
+    const removed = (this.db.prepare("SELECT * FROM events WHERE block_number > ?").all(block) as EventRow[]).map(rowToEvent);
+    this.db.prepare("DELETE FROM events WHERE block_number > ?").run(block);
+    this.db.prepare("DELETE FROM blocks WHERE number > ?").run(block);
+    this.setLastBlock(block);
+    return removed;
+  }
+
+  eventsForTask(taskId: number): StoredEvent[] {
+    return (this.db.prepare("SELECT * FROM events WHERE task_id = ? ORDER BY block_number, log_index").all(taskId) as EventRow[])
+      .map(rowToEvent);
+  }
+
+  /** Every stored `contract.name` event, oldest first */
+  eventsByName(contract: string, names: string[]): StoredEvent[] {
+    const sql = `SELECT * FROM events WHERE contract = ? AND name IN (${names.map(() => "?").join(", ")}) ORDER BY block_number, log_index`;
+    return (this.db.prepare(sql).all(contract, ...names) as EventRow[]).map(rowToEvent);
+  }
+
+  /** Events referencing `agentId`, optionally restricted to the given contracts and event names */
+  eventsForAgent(agentId: number, filter: { contracts?: string[]; names?: string[] } = {}): StoredEvent[] {
+    const clauses = ["agent_id = ?"];
+    const params: unknown[] = [agentId];
+    if (filter.contracts?.length) {
+      clauses.push(`contract IN (${filter.contracts.map(() => "?").join(", ")})`);
+      params.push(...filter.contracts);
+    }
+    if (filter.names?.length) {
+      clauses.push(`name IN (${filter.names.map(() => "?").join(", ")})`);
+      params.push(...filter.names);
+    }
+    const sql = `SELECT * FROM events WHERE ${clauses.join(" AND ")} ORDER BY block_number, log_index`;
+    return (this.db.prepare(sql).all(...params) as EventRow[]).map(rowToEvent);
+  }
+
+  /**
+   * Events strictly after (blockNumber, logIndex), oldest first.
+   * @param sources `Contract.EventName` pairs to include
+   */
+  eventsAfter(after: { blockNumber: number; logIndex: number }, sources: string[], limit: number): StoredEvent[] {
+    const sql = `
+      SELECT * FROM events
+      WHERE (block_number > ? OR (block_number = ? AND log_index > ?))
+        AND contract || '.' || name IN (${sources.map(() => "?").join(", ")})
+      ORDER BY block_number, log_index
+      LIMIT ?
+    `;
+    return (this.db.prepare(sql).all(after.blockNumber, after.blockNumber, after.logIndex, ...sources, limit) as EventRow[])
+      .map(rowToEvent);
+  }
+
+  /** Task ID referenced by any indexed event in the same transaction, if there is one */
+  taskIdForTx(txHash: string): number | null {
+    const row = this.db.prepare("SELECT task_id FROM events WHERE tx_hash = ? AND task_id IS NOT NULL LIMIT 1").get(txHash) as
+      | { task_id: number }
+      | undefined;
+    return row ? row.task_id : null;
+  }
+
+  // ─── Tasks ───
+
+  upsertTask(task: StoredTask): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO tasks (id, poster, state, assigned_agent, payment_token, bounty_wei, deadline, created_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      task.id,
+      task.poster.toLowerCase(),
+      task.state,
+      task.assignedAgent,
+      task.paymentToken.toLowerCase(),
+      padWei(task.bountyAmountWei),
+      task.deadline,
+      task.createdAt,
+      JSON.stringify(task),
+    );
+  }
+
+  deleteTask(id: number): void {
+    this.db.prepare("DELETE FROM tasks WHERE id = ?").run(id);
+  }
+
+  getTask(id: number): StoredTask | null {
+    const row = this.db.prepare("SELECT data FROM tasks WHERE id = ?").get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  /** Filtered, sorted keyset page of tasks plus the total count matching the filters */
+  queryTasks(q: TaskQuery): TaskPage {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (q.state !== undefined) {
+      clauses.push("state = ?");
+      params.push(q.state);
+    }
+    if (q.poster !== undefined) {
+      clauses.push("poster = ?");
+      params.push(q.poster.toLowerCase());
+    }
+    if (q.assignedAgent !== undefined) {
+      clauses.push("assigned_agent = ?");
+      params.push(q.assignedAgent);
+    }
+    if (q.paymentToken !== undefined) {
+      clauses.push("payment_token = ?");
+      params.push(q.paymentToken.toLowerCase());
+    }
+    if (q.minBountyWei !== undefined) {
+      clauses.push("bounty_wei >= ?");
+      params.push(padWei(q.minBountyWei));
+    }
+    if (q.maxBountyWei !== undefined) {
+      clauses.push("bounty_wei <= ?");
+      params.push(padWei(q.maxBountyWei));
+    }
+    if (q.deadlineAfter !== undefined) {
+      clauses.push("deadline >= ?");
+      params.push(q.deadlineAfter);
+    }
+    if (q.deadlineBefore !== undefined) {
+      clauses.push("deadline <= ?");
+      params.push(q.deadlineBefore);
+    }
+
+    const filterSql = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+    const total = (this.db.prepare(`SELECT COUNT(*) AS n FROM tasks ${filterSql}`).get(...params) as { n: number }).n;
+
+    const column = TASK_SORT_COLUMNS[q.sort];
+    const dir = q.order === "asc" ? "ASC" : "DESC";
+    const pageClauses = [...clauses];
+    const pageParams = [...params];
+    if (q.after) {
+      pageClauses.push(`(${column}, id) ${q.order === "asc" ? ">" : "<"} (?, ?)`);
+      pageParams.push(q.after.key, q.after.id);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT id, ${column} AS sort_key, data FROM tasks
+      ${pageClauses.length ? `WHERE ${pageClauses.join(" AND ")}` : ""}
+      ORDER BY ${column} ${dir}, id ${dir}
+      LIMIT ?
+    `).all(...pageParams, q.limit + 1) as { id: number; sort_key: string | number; data: string }[];
+
+    const hasMore = rows.length > q.limit;
+    const page = rows.slice(0, q.limit);
+    const last = page[page.length - 1];
+    return {
+      tasks: page.map((r) => JSON.parse(r.data)),
+      total,
+      next: hasMore && last ? { key: last.sort_key, id: last.id } : null,
+    };
+  }
+
+  /** Task counts per state, and the ETH bounties of completed tasks summed in wei */
+  taskStats(): { byState: Record<string, number>; completedEthBountyWei: string } {
+    const rows = this.db.prepare("SELECT state, COUNT(*) AS n FROM tasks GROUP BY state").all() as { state: string; n: number }[];
+    const bounties = this.db
+      .prepare("SELECT bounty_wei FROM tasks WHERE state = 'completed' AND payment_token = ?")
+      .all(ZERO_ADDRESS) as { bounty_wei: string }[];
+    return {
+      byState: Object.fromEntries(rows.map((r) => [r.state, r.n])),
+      completedEthBountyWei: bounties.reduce((sum, r) => sum + BigInt(r.bounty_wei), 0n).toString(),
+    };
+  }
+
+  // ─── Agents ───
+
+  upsertAgent(agent: StoredAgent): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO agents (id, operator, reputation_score, active, data)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(agent.id, agent.operator.toLowerCase(), agent.reputationScore, agent.active ? 1 : 0, JSON.stringify(agent));
+  }
+
+  deleteAgent(id: number): void {
+    this.db.prepare("DELETE FROM agents WHERE id = ?").run(id);
+  }
+
+  getAgent(id: number): StoredAgent | null {
+    const row = this.db.prepare("SELECT data FROM agents WHERE id = ?").get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  /** Agents ordered by id, optionally restricted to active ones with a minimum score */
+  listAgents(opts: AgentFilter = {}): StoredAgent[] {
+    const { where, params } = agentWhere(opts);
+    return (this.db.prepare(`SELECT data FROM agents ${where} ORDER BY id`).all(...params) as { data: string }[])
+      .map((r) => JSON.parse(r.data));
+  }
+
+  /** Agents ordered by reputation score (highest first), ties broken by id */
+  rankAgents(opts: AgentFilter & { limit?: number } = {}): StoredAgent[] {
+    const { where, params } = agentWhere(opts);
+    const sql = `SELECT data FROM agents ${where} ORDER BY reputation_score DESC, id ASC LIMIT ?`;
+    return (this.db.prepare(sql).all(...params, opts.limit ?? -1) as { data: string }[]).map((r) => JSON.parse(r.data));
+  }
+
+  countAgents(opts: { activeOnly?: boolean } = {}): number {
+    const sql = opts.activeOnly ? "SELECT COUNT(*) AS n FROM agents WHERE active = 1" : "SELECT COUNT(*) AS n FROM agents";
+    return (this.db.prepare(sql).get() as { n: number }).n;
+  }
+
+  // ─── Validators ───
+
+  upsertValidator(v: StoredValidator): void {
+    this.db.prepare("INSERT OR REPLACE INTO validators (address, active, data) VALUES (?, ?, ?)")
+      .run(v.address.toLowerCase(), v.active ? 1 : 0, JSON.stringify(v));
+  }
+
+  deleteValidator(address: string): void {
+    this.db.prepare("DELETE FROM validators WHERE address = ?").run(address.toLowerCase());
+  }
+
+  getValidator(address: string): StoredValidator | null {
+    const row = this.db.prepare("SELECT data FROM validators WHERE address = ?").get(address.toLowerCase()) as
+      | { data: string }
+      | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  listValidators(opts: { activeOnly?: boolean } = {}): StoredValidator[] {
+    const sql = `SELECT data FROM validators${opts.activeOnly ? " WHERE active = 1" : ""} ORDER BY address`;
+    return (this.db.prepare(sql).all() as { data: string }[]).map((r) => JSON.parse(r.data));
+  }
+
+  /** Number of scores each validator has submitted (revealed or direct), keyed by lowercase address */
+  countValidatorScores(): Map<string, number> {
+    const rows = this.db
+      .prepare(
+        `SELECT validator, COUNT(*) AS n FROM events
+         WHERE contract = 'ValidatorPool' AND name IN ('ScoreRevealed', 'DirectScoreSubmitted') AND validator IS NOT NULL
+         GROUP BY validator`,
+      )
+      .all() as { validator: string; n: number }[];
+    return new Map(rows.map((r) => [r.validator, r.n]));
+  }
+
+  /** Run `fn` inside a single SQLite transaction */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+}
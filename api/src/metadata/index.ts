@@ -0,0 +1,385 @@
+import { keccak256, sha256, toUtf8Bytes, toUtf8String } from "ethers";
+import { config } from "../config";
+import { ApiError } from "../middleware/errorHandler";
+import { blobBackend } from "../services/ipfs";
+import { cidV0FromDigest, digestFromCid } from "../utils/cid";
+import { logger } from "../utils/logger";
+import { MetadataStore } from "./store";
+import type { DocumentKind, StoredDocument } from "./store";
+
+export const metadataStore = new MetadataStore(config.metadata.dbPath);
+
+export type { DocumentKind, StoredDocument } from "./store";
+
+/**
+ * Task description document. The on-chain `descriptionHash` is
+ * keccak256(utf8(content)) of the exact JSON text that was uploaded; the
+ * frontend's original `{ title, description, category }` shape is accepted
+ * with `description` read as `body`.
+ */
+export interface TaskDescription {
+  title: string;
+  body: string;
+  category: string | null;
+  acceptanceCriteria: string[];
+  attachments: Attachment[];
+}
+
+/** Submission document; plain-text submissions become `{ body: text }` */
+export interface SubmissionDocument {
+  body: string;
+  attachments: Attachment[];
+  /** The parsed JSON document when the submission is JSON, otherwise null */
+  data: unknown;
+}
+
+export interface Attachment {
+  name: string;
+  uri: string;
+  mimeType?: string;
+  /** Optional content hash of the attachment itself */
+  hash?: string;
+}
+
+/**
+ * Agent metadata document (`metadataHash`). Both the frontend's
+ * `{ name, description, capabilities }` shape and ERC-8004 registration files
+ * (`endpoints: [{ name, endpoint, version? }]`) are accepted.
+ */
+export interface AgentMetadata {
+  name: string;
+  description: string;
+  capabilities: string[];
+  endpoints: AgentEndpoint[];
+}
+
+export interface AgentEndpoint {
+  /** Protocol or service name, e.g. "A2A", "MCP" */
+  name: string;
+  endpoint: string;
+  version?: string;
+}
+
+const MAX_CONTENT_BYTES = 64 * 1024;
+// Unresolvable hashes are not refetched from IPFS until this long after the last attempt
+const RETRY_AFTER_MS = 10 * 60 * 1000;
+// Attachment links are rendered by clients, so only fetchable schemes are accepted
+const ATTACHMENT_URI = /^(https?|ipfs|ar):\/\//i;
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function parseAttachments(raw: unknown): Attachment[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) throw new ApiError(400, "attachments must be an array");
+  return raw.map((a, i) => {
+    if (!isObject(a) || typeof a.name !== "string" || typeof a.uri !== "string") {
+      throw new ApiError(400, `attachments[${i}] must have string name and uri`);
+    }
+    if (!ATTACHMENT_URI.test(a.uri)) throw new ApiError(400, `attachments[${i}].uri must be an http(s), ipfs or ar URI`);
+    return {
+      name: a.name,
+      uri: a.uri,
+      ...(typeof a.mimeType === "string" ? { mimeType: a.mimeType } : {}),
+      ...(typeof a.hash === "string" ? { hash: a.hash } : {}),
+    };
+  });
+}
+
+export function parseDescription(content: string): TaskDescription {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(content);
+  } catch {
+    throw new ApiError(400, "Task description must be a JSON document");
+  }
+  if (!isObject(doc)) throw new ApiError(400, "Task description must be a JSON object");
+  if (typeof doc.title !== "string" || doc.title.trim() === "") throw new ApiError(400, "Task description requires a title");
+
+  const body = doc.body ?? doc.description ?? "";
+  if (typeof body !== "string") throw new ApiError(400, "body must be a string");
+  if (doc.category !== undefined && typeof doc.category !== "string") throw new ApiError(400, "category must be a string");
+
+  const criteria = doc.acceptanceCriteria ?? [];
+  if (!Array.isArray(criteria) || criteria.some((c) => typeof c !== "string")) {
+    throw new ApiError(400, "acceptanceCriteria must be an array of strings");
+  }
+
+  return {
+    title: doc.title,
+    body,
+    category: (doc.category as string | undefined) || null,
+    acceptanceCriteria: criteria as string[],
+    attachments: parseAttachments(doc.attachments),
+  };
+}
+
+export function parseSubmission(content: string): SubmissionDocument {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(content);
+  } catch {
+    return { body: content, attachments: [], data: null };
+  }
+  if (!isObject(doc)) return { body: content, attachments: [], data: doc };
+
+  const body = doc.body ?? doc.content ?? doc.summary ?? "";
+  return {
+    body: typeof body === "string" ? body : JSON.stringify(body),
+    attachments: parseAttachments(doc.attachments),
+    data: doc,
+  };
+}
+
+export function parseAgentMetadata(content: string): AgentMetadata {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(content);
+  } catch {
+    throw new ApiError(400, "Agent metadata must be a JSON document");
+  }
+  if (!isObject(doc)) throw new ApiError(400, "Agent metadata must be a JSON object");
+  if (typeof doc.name !== "string" || doc.name.trim() === "") throw new ApiError(400, "Agent metadata requires a name");
+
+  const description = doc.description ?? "";
+  if (typeof description !== "string") throw new ApiError(400, "description must be a string");
+
+  const capabilities = doc.capabilities ?? [];
+  if (!Array.isArray(capabilities) || capabilities.some((c) => typeof c !== "string")) {
+    throw new ApiError(400, "capabilities must be an array of strings");
+  }
+
+  const endpoints = doc.endpoints ?? [];
+  if (!Array.isArray(endpoints)) throw new ApiError(400, "endpoints must be an array");
+
+  return {
+    name: doc.name,
+    description,
+    capabilities: capabilities as string[],
+    endpoints: endpoints.map((e, i) => {
+      if (!isObject(e) || typeof e.name !== "string" || typeof e.endpoint !== "string") {
+        throw new ApiError(400, `endpoints[${i}] must have string name and endpoint`);
+      }
+      return {
+        name: e.name,
+        endpoint: e.endpoint,
+        ...(typeof e.version === "string" ? { version: e.version } : {}),
+      };
+    }),
+  };
+}
+
+const PARSERS: Record<DocumentKind, (content: string) => unknown> = {
+  description: parseDescription,
+  submission: parseSubmission,
+  agent: parseAgentMetadata,
+};
+
+/**
+ * Whether `bytes` hash to an on-chain document hash, as keccak256 or as the
+ * sha2-256 digest of a raw block. Content from the blob backend or a gateway
+ * is only trusted once this holds; the CID it was fetched under proves nothing.
+ */
+function contentMatches(bytes: Uint8Array, hash: string): boolean {
+  const expected = hash.toLowerCase();
+  return keccak256(bytes) === expected || sha256(bytes) === expected;
+}
+
+/**
+ * Validate an upload against the hash recorded on chain, store it and pin it.
+ * The hash is normally keccak256(utf8(content)); a hash equal to the sha2-256
+ * digest of the content (a raw-block CID) is accepted too.
+ * @param expectedHash `descriptionHash`, `submissionHash` or `metadataHash` read on chain
+ * @param cid CID the content was fetched from, recorded instead of pinning again
+ * @returns The stored document and its CID (null when pinning failed)
+ */
+export async function storeDocument(
+  kind: DocumentKind,
+  content: string,
+  expectedHash: string,
+  cid?: string,
+): Promise<StoredDocument & { cid: string | null }> {
+  if (Buffer.byteLength(content, "utf8") > MAX_CONTENT_BYTES) {
+    throw new ApiError(413, `Document exceeds ${MAX_CONTENT_BYTES} bytes`);
+  }
+  const hash = keccak256(toUtf8Bytes(content));
+  if (!contentMatches(toUtf8Bytes(content), expectedHash)) {
+    throw new ApiError(400, `Document hash ${hash} does not match on-chain ${kind} hash ${expectedHash}`);
+  }
+  // Reject malformed documents before they are stored
+  PARSERS[kind](content);
+
+  const doc = metadataStore.putDocument({ hash: expectedHash, kind, content });
+  if (cid) metadataStore.putCid(doc.hash, cid);
+  return { ...doc, cid: await pinDocument(doc) };
+}
+
+/**
+ * Pin a stored document unless it already has a CID. Best-effort: a document
+ * that fails to pin is still served from the local store.
+ */
+async function pinDocument(doc: StoredDocument): Promise<string | null> {
+  const existing = metadataStore.getCid(doc.hash);
+  if (existing) return existing;
+  try {
+    const cid = await blobBackend.put(toUtf8Bytes(doc.content), `abb-${doc.kind}-${doc.hash.slice(2, 10)}`);
+    metadataStore.putCid(doc.hash, cid);
+    return cid;
+  } catch (err) {
+    logger.warn({ err, hash: doc.hash, backend: blobBackend.name }, "Failed to pin document");
+    return null;
+  }
+}
+
+/**
+ * Read an upload request body: `content` verbatim, `document` re-serialized
+ * with JSON.stringify, or `cid` fetched from the blob backend.
+ */
+export async function readUpload(body: unknown): Promise<{ content: string; cid?: string }> {
+  const { content, document, cid } = isObject(body) ? body : {};
+  if (typeof content === "string" && content !== "") return { content };
+  if (isObject(document)) return { content: JSON.stringify(document) };
+  if (typeof cid === "string" && cid !== "") {
+    if (!digestFromCid(cid)) throw new ApiError(400, "cid must be a sha2-256 CIDv0 or CIDv1");
+    return { content: await fetchContent(cid), cid };
+  }
+  throw new ApiError(400, "Provide content (the exact hashed text), document (a JSON object) or cid (a pinned copy)");
+}
+
+/** Fetch an uploaded-by-CID document from the blob backend */
+async function fetchContent(cid: string): Promise<string> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await blobBackend.get(cid);
+  } catch (err) {
+    throw new ApiError(502, `Could not fetch ${cid}: ${(err as Error).message}`);
+  }
+  if (bytes.length > MAX_CONTENT_BYTES) throw new ApiError(413, `Document exceeds ${MAX_CONTENT_BYTES} bytes`);
+  try {
+    return toUtf8String(bytes);
+  } catch {
+    throw new ApiError(400, `${cid} is not UTF-8 text`);
+  }
+}
+
+/** Unset hashes (zero, e.g. before submission) never resolve */
+function isDocumentHash(hash: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/.test(hash) && BigInt(hash) !== 0n;
+}
+
+const misses = new Map<string, number>();
+const inflight = new Map<string, Promise<StoredDocument | null>>();
+
+/**
+ * Resolve an on-chain hash to its document: the local store first, then the
+ * CID the hash was pinned under, then the hash read as a CIDv0 sha2-256
+ * digest. Fetched documents are validated and cached in the metadata store.
+ */
+export function resolveDocument(kind: DocumentKind, hash: string): Promise<StoredDocument | null> {
+  if (!isDocumentHash(hash)) return Promise.resolve(null);
+  const cached = metadataStore.getDocument(hash);
+  if (cached) return Promise.resolve(cached);
+
+  const key = hash.toLowerCase();
+  if ((misses.get(key) ?? 0) > Date.now()) return Promise.resolve(null);
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = fetchDocument(kind, key).finally(() => inflight.delete(key));
+    inflight.set(key, pending);
+  }
+  return pending;
+}
+
+async function fetchDocument(kind: DocumentKind, hash: string): Promise<StoredDocument | null> {
+  const mapped = metadataStore.getCid(hash);
+  const cid = mapped ?? cidV0FromDigest(hash);
+  try {
+    const bytes = await blobBackend.get(cid);
+    if (bytes.length > MAX_CONTENT_BYTES) throw new Error("document too large");
+    if (!contentMatches(bytes, hash)) throw new Error("content does not match on-chain hash");
+    const content = toUtf8String(bytes);
+    PARSERS[kind](content);
+    if (!mapped) metadataStore.putCid(hash, cid);
+    misses.delete(hash);
+    return metadataStore.putDocument({ hash, kind, content });
+  } catch (err) {
+    misses.set(hash, Date.now() + RETRY_AFTER_MS);
+    logger.debug({ err, hash, cid }, "Could not resolve document");
+    return null;
+  }
+}
+
+const queue = new Map<string, DocumentKind>();
+let draining = false;
+
+/** Resolve documents in the background, one at a time */
+export function prefetchDocuments(refs: { kind: DocumentKind; hash: string }[]): void {
+  for (const { kind, hash } of refs) {
+    const key = hash.toLowerCase();
+    if (!isDocumentHash(hash) || queue.has(key) || (misses.get(key) ?? 0) > Date.now()) continue;
+    if (!metadataStore.getDocument(hash)) queue.set(key, kind);
+  }
+  if (draining || queue.size === 0) return;
+  draining = true;
+  void (async () => {
+    while (queue.size > 0) {
+      const [hash, kind] = queue.entries().next().value!;
+      await resolveDocument(kind, hash);
+      queue.delete(hash);
+    }
+    draining = false;
+  })();
+}
+
+function lookup<T>(kind: DocumentKind, hash: string, parse: (content: string) => T): T | null {
+  const doc = metadataStore.getDocument(hash);
+  if (!doc) {
+    prefetchDocuments([{ kind, hash }]);
+    return null;
+  }
+  try {
+    return parse(doc.content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge stored description and submission documents into a formatted task.
+ * Documents not yet in the local store are fetched in the background.
+ */
+export function withDocuments<T extends { descriptionHash: string; submissionHash: string }>(task: T) {
+  return {
+    ...task,
+    metadata: lookup("description", task.descriptionHash, parseDescription),
+    submission: lookup("submission", task.submissionHash, parseSubmission),
+  };
+}
+
+/** `withDocuments`, waiting for both documents to resolve from IPFS first */
+export async function resolveTaskDocuments<T extends { descriptionHash: string; submissionHash: string }>(task: T) {
+  await Promise.all([
+    resolveDocument("description", task.descriptionHash),
+    resolveDocument("submission", task.submissionHash),
+  ]);
+  return withDocuments(task);
+}
+
+/** Merge the resolved name, description, capabilities and endpoints into a formatted agent */
+export function withAgentMetadata<T extends { metadataHash: string }>(agent: T) {
+  const doc = lookup("agent", agent.metadataHash, parseAgentMetadata);
+  return {
+    ...agent,
+    name: doc?.name ?? null,
+    description: doc?.description ?? null,
+    capabilities: doc?.capabilities ?? [],
+    endpoints: doc?.endpoints ?? [],
+  };
+}
+
+/** `withAgentMetadata`, waiting for the metadata document to resolve from IPFS first */
+export async function resolveAgentMetadata<T extends { metadataHash: string }>(agent: T) {
+  await resolveDocument("agent", agent.metadataHash);
+  return withAgentMetadata(agent);
+}
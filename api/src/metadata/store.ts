@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+/**
+ * SQLite store for off-chain task and agent documents, keyed by the bytes32
+ * hash that is recorded on chain (`descriptionHash` / `submissionHash` /
+ * `metadataHash`), plus the bytes32 → IPFS CID mapping for pinned documents.
+ *
+ * Kept in its own file rather than the indexer database: the indexer can be
+ * rebuilt from chain at any time, these documents cannot.
+ */
+
+export type DocumentKind = "description" | "submission" | "agent";
+
+export interface StoredDocument {
+  hash: string;
+  kind: DocumentKind;
+  /** Exact UTF-8 text whose keccak256 is `hash` (or whose CIDv0 digest is `hash`) */
+  content: string;
+  storedAt: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS documents (
+    hash      TEXT PRIMARY KEY,
+    kind      TEXT NOT NULL,
+    content   TEXT NOT NULL,
+    stored_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS cids (
+    hash      TEXT PRIMARY KEY,
+    cid       TEXT NOT NULL,
+    pinned_at INTEGER NOT NULL
+  );
+`;
+
+interface DocumentRow {
+  hash: string;
+  kind: DocumentKind;
+  content: string;
+  stored_at: number;
+}
+
+function rowToDocument(row: DocumentRow): StoredDocument {
+  return { hash: row.hash, kind: row.kind, content: row.content, storedAt: row.stored_at };
+}
+
+export class MetadataStore {
+  readonly db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ":memory:") fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  /** Store a document; re-uploading the same hash keeps the original timestamp */
+  putDocument(doc: Omit<StoredDocument, "storedAt">): StoredDocument {
+    this.db.prepare("INSERT OR IGNORE INTO documents (hash, kind, content, stored_at) VALUES (?, ?, ?, ?)")
+      .run(doc.hash.toLowerCase(), doc.kind, doc.content, Math.floor(Date.now() / 1000));
+    return this.getDocument(doc.hash)!;
+  }
+
+  getDocument(hash: string): StoredDocument | null {
+    const row = this.db.prepare("SELECT * FROM documents WHERE hash = ?").get(hash.toLowerCase()) as
+      | DocumentRow
+      | undefined;
+    return row ? rowToDocument(row) : null;
+  }
+
+  /** Record the CID a document was pinned under; the first mapping for a hash wins */
+  putCid(hash: string, cid: string): void {
+    this.db.prepare("INSERT OR IGNORE INTO cids (hash, cid, pinned_at) VALUES (?, ?, ?)")
+      .run(hash.toLowerCase(), cid, Math.floor(Date.now() / 1000));
+  }
+
+  getCid(hash: string): string | null {
+    const row = this.db.prepare("SELECT cid FROM cids WHERE hash = ?").get(hash.toLowerCase()) as
+      | { cid: string }
+      | undefined;
+    return row?.cid ?? null;
+  }
+}
@@ -0,0 +1,12 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+
+/**
+ * Express 4 ignores the promise an async handler returns, so a rejection (a
+ * thrown ApiError included) never reaches errorHandler and crashes the
+ * process as an unhandled rejection. Every async route is wrapped in this.
+ */
+export function asyncHandler(handler: (req: Request, res: Response) => Promise<unknown>): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
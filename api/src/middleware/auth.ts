@@ -1,17 +1,32 @@
 import { Request, Response, NextFunction } from "express";
 
+// Document uploads are self-authenticating: the content must hash to a value already on chain
+// (matched case-insensitively, as Express matches routes)
+const PUBLIC_WRITES = [/^\/tasks\/\d+\/(description|submission)$/i, /^\/agents\/\d+\/metadata$/i];
+
 /**
  * API Key authentication middleware (H-2 remediation)
  * Requires X-API-Key header on POST/PUT/PATCH/DELETE requests.
- * GET requests pass through (read-only, public).
+ * GET requests pass through (read-only, public), as do hash-verified document
+ * uploads. Routers with private reads mount requireApiKey themselves.
  */
-export function requireApiKey(req: Request, res: Response, next: NextFunction): void {
+export function requireApiKeyForWrites(req: Request, res: Response, next: NextFunction): void {
   // GET requests are public (read-only)
   if (req.method === "GET") {
     next();
     return;
   }
 
+  if (req.method === "POST" && PUBLIC_WRITES.some((re) => re.test(req.path))) {
+    next();
+    return;
+  }
+
+  requireApiKey(req, res, next);
+}
+
+/** Require a valid X-API-Key on every request, reads included */
+export function requireApiKey(req: Request, res: Response, next: NextFunction): void {
   const apiKey = process.env.API_KEY;
   if (!apiKey) {
     res.status(500).json({ error: "Server misconfiguration: API_KEY not set" });
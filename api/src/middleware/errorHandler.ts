@@ -1,4 +1,6 @@
 import { Request, Response, NextFunction } from "express";
+import { decodeContractError } from "@agentecon/sdk";
+import { logger } from "../utils/logger";
 
 export class ApiError extends Error {
   constructor(
@@ -11,7 +13,6 @@ export class ApiError extends Error {
 }
 
 export function errorHandler(err: Error, _req: Request, res: Response, _next: NextFunction): void {
-  const { logger } = require("../utils/logger");
   logger.error({ err: err.message, stack: err.stack?.split("\n")[1]?.trim() }, "Request error");
 
   if (err instanceof ApiError) {
@@ -19,12 +20,25 @@ export function errorHandler(err: Error, _req: Request, res: Response, _next: Ne
     return;
   }
 
-  // ethers.js contract errors
+  // Custom Solidity errors: stable code and status per error (CONTRACT_ERRORS in @agentecon/sdk)
+  const decoded = decodeContractError(err);
+  if (decoded) {
+    res.status(decoded.status).json({
+      error: decoded.hint,
+      code: decoded.code,
+      contract: decoded.contract,
+      revert: decoded.error,
+      args: decoded.args,
+    });
+    return;
+  }
+
+  // ethers.js contract errors with a reason string
   if (err.message?.includes("execution reverted")) {
     const reason = err.message.match(/reason="([^"]+)"/)?.[1]
       ?? err.message.match(/reverted with reason string '([^']+)'/)?.[1]
       ?? "Transaction reverted";
-    res.status(400).json({ error: reason });
+    res.status(400).json({ error: reason, code: "CONTRACT_REVERT" });
     return;
   }
 
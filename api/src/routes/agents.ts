@@ -3,12 +3,15 @@ import {
   agentRegistry,
   formatAgent,
 } from "../services/contracts";
+import { store } from "../indexer";
+import { readUpload, storeDocument, withAgentMetadata } from "../metadata";
 import { ApiError } from "../middleware/errorHandler";
+import { asyncHandler } from "../middleware/asyncHandler";
 
 const router = Router();
 
 // GET /agents/:address — get agents by operator address
-router.get("/:address", async (req: Request, res: Response) => {
+router.get("/:address", asyncHandler(async (req: Request, res: Response) => {
   const { address } = req.params;
   if (!/^0x[0-9a-fA-F]{40}$/.test(address)) throw new ApiError(400, "Invalid address");
 
@@ -16,33 +19,39 @@ router.get("/:address", async (req: Request, res: Response) => {
   const agents = await Promise.all(
     agentIds.map(async (id) => {
       const agent = await agentRegistry.getAgent(id);
-      return formatAgent(agent);
+      return withAgentMetadata(formatAgent(agent));
     }),
   );
 
   res.json({ operator: address, agents });
-});
-
-// GET /agents — list all agents
-router.get("/", async (_req: Request, res: Response) => {
-  const nextId = Number(await agentRegistry.nextAgentId());
-  const agents = [];
-
-  for (let i = 0; i < nextId; i++) {
-    try {
-      const exists = await agentRegistry.agentExists(i);
-      if (exists) {
-        const agent = await agentRegistry.getAgent(i);
-        agents.push(formatAgent(agent));
-      }
-    } catch {
-      // skip
-    }
-  }
-
+}));
+
+/**
+ * GET /agents — list all agents (served from the indexer)
+ * Each agent includes the name, description, capabilities and endpoints from its
+ * metadata document, or null/empty until that document has been resolved.
+ */
+router.get("/", (_req: Request, res: Response) => {
+  const agents = store.listAgents().map(withAgentMetadata);
   res.json({ total: agents.length, agents });
 });
 
+/**
+ * POST /agents/:id/metadata — store and pin the agent's metadata document
+ * Body: { content }, { document } or { cid }, verified against the on-chain metadataHash.
+ * Document: { name, description?, capabilities?: string[], endpoints?: [{ name, endpoint, version? }] }
+ */
+router.post("/:id/metadata", asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) throw new ApiError(400, "Invalid agent ID");
+  if (!(await agentRegistry.agentExists(id))) throw new ApiError(404, "Agent not found");
+
+  const agent = await agentRegistry.getAgent(id);
+  const { content, cid } = await readUpload(req.body);
+  const doc = await storeDocument("agent", content, agent.metadataHash, cid);
+  res.status(201).json({ agentId: id, kind: doc.kind, hash: doc.hash, cid: doc.cid, storedAt: doc.storedAt });
+}));
+
 // POST /agents/register removed — C-2 remediation
 // Agent registration now handled via frontend (wagmi) directly on-chain
 
@@ -1,10 +1,12 @@
 import { Router, Request, Response } from "express";
 import { config } from "../config";
 import { provider } from "../services/contracts";
+import { indexer } from "../indexer";
+import { asyncHandler } from "../middleware/asyncHandler";
 
 const router = Router();
 
-router.get("/health", async (_req: Request, res: Response) => {
+router.get("/health", asyncHandler(async (_req: Request, res: Response) => {
   let blockNumber = null;
   let rpcOk = false;
   try {
@@ -16,8 +18,9 @@ router.get("/health", async (_req: Request, res: Response) => {
     status: rpcOk ? "ok" : "degraded",
     timestamp: new Date().toISOString(),
     rpc: { connected: rpcOk, blockNumber },
+    indexer: indexer.status(),
   });
-});
+}));
 
 router.get("/contracts", (_req: Request, res: Response) => {
   res.json(config.contracts);
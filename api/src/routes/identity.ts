@@ -0,0 +1,34 @@
+import { Router, Request, Response } from "express";
+import { identityConfigured, identityProfile } from "../services/identity";
+import { linkedAgent } from "../services/profile";
+import { ApiError } from "../middleware/errorHandler";
+import { asyncHandler } from "../middleware/asyncHandler";
+
+const router = Router();
+
+/**
+ * GET /v2/identity/:agentId
+ * ERC-8004 identity for an AgentIdentity8004 token: owner, agent URI, the
+ * resolved registration file, metadata, the verified agent wallet and the
+ * AgentRegistry agent it is linked to (services/profile). Token IDs start at 1
+ * and are independent of AgentRegistry IDs.
+ */
+router.get("/:agentId", asyncHandler(async (req: Request, res: Response) => {
+  const agentId = parseInt(req.params.agentId);
+  if (isNaN(agentId) || agentId < 1) throw new ApiError(400, "Invalid agent ID");
+  if (!identityConfigured()) throw new ApiError(503, "AGENT_IDENTITY_ADDRESS is not configured");
+
+  const identity = await identityProfile(agentId);
+  if (!identity) throw new ApiError(404, "Identity not found");
+
+  res.json({
+    identity: { ...identity, linkedAgentId: await linkedAgent(agentId) },
+    meta: {
+      protocol: "AgentEcon",
+      standard: "ERC-8004",
+      queryTimestamp: Math.floor(Date.now() / 1000),
+    },
+  });
+}));
+
+export default router;
@@ -1,22 +1,61 @@
 import { Router, Request, Response } from "express";
 import {
   agentRegistry,
+  reputationRegistry,
   taskRegistry,
   formatAgent,
   taskStateToString,
 } from "../services/contracts";
+import { store } from "../indexer";
+import { reputationHistory } from "../services/history";
+import { agentFeedback, feedbackConfigured } from "../services/feedback";
+import { agentProfile, compositeRanking, linkedIdentity } from "../services/profile";
+import { resolveAgentMetadata, withAgentMetadata } from "../metadata";
 import { ApiError } from "../middleware/errorHandler";
+import { asyncHandler } from "../middleware/asyncHandler";
 import { ethers } from "ethers";
 
 const router = Router();
 
 // ─── Public Reputation Endpoints (Free Tier) ───
 
+/**
+ * GET /v2/reputation/leaderboard
+ * Top active agents ranked by composite score (services/profile), refreshed at most once a minute
+ * Query params: limit (default 10, max 50), category (future)
+ * Registered before /:agentId so "leaderboard" is not parsed as an agent ID.
+ */
+router.get("/leaderboard", asyncHandler(async (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+  const { builtAt, agents } = await compositeRanking();
+  const leaderboard = agents.slice(0, limit).map(({ agent, profile }, i) => {
+    const grade = getReputationGrade(agent.reputationScore);
+    const compositeGrade = getReputationGrade(profile.composite.score);
+    return {
+      rank: i + 1,
+      ...withAgentMetadata(agent),
+      reputationGrade: grade.letter,
+      reputationLabel: grade.label,
+      identityId: profile.identity?.identityId ?? null,
+      compositeScore: profile.composite.score,
+      compositeGrade: compositeGrade.letter,
+    };
+  });
+
+  res.json({
+    leaderboard,
+    totalAgents: agents.length,
+    updatedAt: Math.floor(builtAt / 1000),
+  });
+}));
+
 /**
  * GET /v2/reputation/:agentId
- * Full reputation profile for an agent
+ * Full reputation profile for an agent: the AgentRegistry record, its linked
+ * ERC-8004 identity and feedback, and the composite score (services/profile)
  */
-router.get("/:agentId", async (req: Request, res: Response) => {
+router.get("/:agentId", asyncHandler(async (req: Request, res: Response) => {
   const agentId = parseInt(req.params.agentId);
   if (isNaN(agentId) || agentId < 0) throw new ApiError(400, "Invalid agent ID");
 
@@ -24,10 +63,12 @@ router.get("/:agentId", async (req: Request, res: Response) => {
   if (!exists) throw new ApiError(404, "Agent not found");
 
   const agent = await agentRegistry.getAgent(agentId);
-  const formatted = formatAgent(agent);
+  const formatted = await resolveAgentMetadata(formatAgent(agent));
 
   // Compute reputation grade
   const grade = getReputationGrade(formatted.reputationScore);
+  const profile = await agentProfile(formatted);
+  const compositeGrade = getReputationGrade(profile.composite.score);
 
   res.json({
     agent: {
@@ -35,6 +76,13 @@ router.get("/:agentId", async (req: Request, res: Response) => {
       reputationGrade: grade.letter,
       reputationLabel: grade.label,
     },
+    identity: profile.identity,
+    erc8004: profile.erc8004,
+    composite: {
+      ...profile.composite,
+      grade: compositeGrade.letter,
+      label: compositeGrade.label,
+    },
     meta: {
       protocol: "AgentEcon",
       standard: "ERC-8004",
@@ -42,91 +90,119 @@ router.get("/:agentId", async (req: Request, res: Response) => {
       queryTimestamp: Math.floor(Date.now() / 1000),
     },
   });
-});
+}));
 
 /**
  * GET /v2/reputation/:agentId/history
- * Score history over time (from on-chain events)
- * Note: In production this would use an indexer (The Graph / custom).
- * For now returns current snapshot.
+ * Score history reconstructed from indexed AgentRegistry.ReputationUpdated and
+ * ReputationRegistry8004.NewFeedback events for the linked identity.
+ * Query params: from, to (unix seconds, inclusive), interval (day|week — last point per bucket)
  */
-router.get("/:agentId/history", async (req: Request, res: Response) => {
+router.get("/:agentId/history", asyncHandler(async (req: Request, res: Response) => {
   const agentId = parseInt(req.params.agentId);
   if (isNaN(agentId) || agentId < 0) throw new ApiError(400, "Invalid agent ID");
 
+  const from = parseTimestampParam(req.query.from, "from");
+  const to = parseTimestampParam(req.query.to, "to");
+  const interval = req.query.interval as string | undefined;
+  if (interval !== undefined && interval !== "day" && interval !== "week") {
+    throw new ApiError(400, "interval must be day or week");
+  }
+
   const exists = await agentRegistry.agentExists(agentId);
   if (!exists) throw new ApiError(404, "Agent not found");
 
   const agent = await agentRegistry.getAgent(agentId);
   const formatted = formatAgent(agent);
+  const identity = await linkedIdentity(formatted);
 
-  // Current snapshot (indexer would provide historical data points)
   res.json({
     agentId,
+    identityId: identity?.identityId ?? null,
     current: {
       reputationScore: formatted.reputationScore,
       tasksCompleted: formatted.tasksCompleted,
       tasksFailed: formatted.tasksFailed,
       totalEarned: formatted.totalEarned,
     },
-    history: [
-      {
-        timestamp: formatted.registeredAt,
-        event: "registered",
-        reputationScore: 5000, // default starting score
-      },
-      {
-        timestamp: Math.floor(Date.now() / 1000),
-        event: "current",
-        reputationScore: formatted.reputationScore,
-      },
-    ],
-    note: "Full event history requires indexer integration (The Graph). Current version provides snapshots.",
+    filters: { from: from ?? null, to: to ?? null, interval: interval ?? null },
+    history: reputationHistory(agentId, identity?.identityId ?? null, formatted.reputationScore, { from, to, interval }),
+    indexedThroughBlock: store.getLastBlock(),
   });
-});
+}));
+
+/**
+ * GET /v2/reputation/:agentId/feedback
+ * ERC-8004 feedback for an identity token from indexed ReputationRegistry8004
+ * events, newest first, with a per-client breakdown and the on-chain aggregate.
+ * Query params: tag (comma-separated, matches tag1 or tag2), tag1, tag2, client,
+ * revoked (true|false), limit (default 50, max 200), offset
+ */
+router.get("/:agentId/feedback", asyncHandler(async (req: Request, res: Response) => {
+  const agentId = parseInt(req.params.agentId);
+  if (isNaN(agentId) || agentId < 1) throw new ApiError(400, "Invalid agent ID");
+  if (!feedbackConfigured()) throw new ApiError(503, "REPUTATION_REGISTRY_ADDRESS is not configured");
+
+  const tags = typeof req.query.tag === "string" && req.query.tag !== ""
+    ? req.query.tag.split(",").map((t) => t.trim()).filter(Boolean)
+    : undefined;
+  const tag1 = typeof req.query.tag1 === "string" ? req.query.tag1 : undefined;
+  const tag2 = typeof req.query.tag2 === "string" ? req.query.tag2 : undefined;
+  const client = req.query.client as string | undefined;
+  if (client !== undefined && !ethers.isAddress(client)) throw new ApiError(400, "client must be an address");
+  const revokedParam = req.query.revoked as string | undefined;
+  if (revokedParam !== undefined && revokedParam !== "true" && revokedParam !== "false") {
+    throw new ApiError(400, "revoked must be true or false");
+  }
+  const revoked = revokedParam === undefined ? undefined : revokedParam === "true";
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+  const [[aggregateScore, aggregateCount], averageScore] = await Promise.all([
+    reputationRegistry.getAggregateScore(agentId),
+    reputationRegistry.getAverageScore(agentId),
+  ]);
+  const { feedback, clients, tags: tagCounts } = agentFeedback(agentId, { tags, tag1, tag2, client, revoked });
+
+  res.json({
+    agentId,
+    filters: { tag: tags ?? null, tag1: tag1 ?? null, tag2: tag2 ?? null, client: client ?? null, revoked: revoked ?? null },
+    total: feedback.length,
+    limit,
+    offset,
+    feedback: feedback.slice(offset, offset + limit),
+    clients,
+    tags: tagCounts,
+    // Unfiltered, unrevoked feedback; the contract sums raw values regardless of valueDecimals
+    onChain: {
+      aggregateScore: aggregateScore.toString(),
+      count: Number(aggregateCount),
+      averageScore: Number(averageScore) / 100,
+    },
+    indexedThroughBlock: store.getLastBlock(),
+  });
+}));
 
 /**
  * GET /v2/reputation/search
  * Search agents by minimum reputation score, active status, etc.
  * Query params: minScore, maxResults, active
  */
-router.get("/", async (req: Request, res: Response) => {
+router.get("/", (req: Request, res: Response) => {
   const minScore = parseInt(req.query.minScore as string) || 0;
   const maxResults = Math.min(parseInt(req.query.maxResults as string) || 50, 100);
   const activeOnly = req.query.active !== "false";
 
-  let nextId: number;
-  try {
-    nextId = Number(await agentRegistry.nextAgentId());
-  } catch {
-    nextId = 0;
-  }
-
-  const agents = [];
-  for (let i = 1; i <= nextId && agents.length < maxResults; i++) {
-    try {
-      const exists = await agentRegistry.agentExists(i);
-      if (!exists) continue;
-
-      const agent = await agentRegistry.getAgent(i);
-      const formatted = formatAgent(agent);
-
-      if (activeOnly && !formatted.active) continue;
-      if (formatted.reputationScore < minScore) continue;
-
+  const agents = store
+    .rankAgents({ activeOnly, minScore, limit: maxResults })
+    .map((formatted) => {
       const grade = getReputationGrade(formatted.reputationScore);
-      agents.push({
-        ...formatted,
+      return {
+        ...withAgentMetadata(formatted),
         reputationGrade: grade.letter,
         reputationLabel: grade.label,
-      });
-    } catch {
-      // skip invalid agents
-    }
-  }
-
-  // Sort by reputation score descending
-  agents.sort((a, b) => b.reputationScore - a.reputationScore);
+      };
+    });
 
   res.json({
     total: agents.length,
@@ -135,60 +211,14 @@ router.get("/", async (req: Request, res: Response) => {
   });
 });
 
-/**
- * GET /v2/reputation/leaderboard
- * Top agents ranked by reputation score
- * Query params: limit (default 10, max 50), category (future)
- */
-router.get("/leaderboard", async (req: Request, res: Response) => {
-  const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
-
-  let nextId: number;
-  try {
-    nextId = Number(await agentRegistry.nextAgentId());
-  } catch {
-    nextId = 0;
-  }
-
-  const agents = [];
-  for (let i = 1; i <= nextId; i++) {
-    try {
-      const exists = await agentRegistry.agentExists(i);
-      if (!exists) continue;
-
-      const agent = await agentRegistry.getAgent(i);
-      const formatted = formatAgent(agent);
-      if (!formatted.active) continue;
-
-      const grade = getReputationGrade(formatted.reputationScore);
-      agents.push({
-        rank: 0, // set after sort
-        ...formatted,
-        reputationGrade: grade.letter,
-        reputationLabel: grade.label,
-      });
-    } catch {
-      // skip
-    }
-  }
-
-  // Sort and rank
-  agents.sort((a, b) => b.reputationScore - a.reputationScore);
-  agents.forEach((a, i) => (a.rank = i + 1));
-
-  res.json({
-    leaderboard: agents.slice(0, limit),
-    totalAgents: agents.length,
-    updatedAt: Math.floor(Date.now() / 1000),
-  });
-});
-
 /**
  * GET /v2/reputation/verify/:agentId
  * Quick verification endpoint — returns trust signal for external integrations.
  * Designed for other platforms to check "should I trust this agent?"
+ * Thresholds apply to the composite score, which is the reputationScore for
+ * agents without a linked ERC-8004 identity.
  */
-router.get("/verify/:agentId", async (req: Request, res: Response) => {
+router.get("/verify/:agentId", asyncHandler(async (req: Request, res: Response) => {
   const agentId = parseInt(req.params.agentId);
   if (isNaN(agentId) || agentId < 0) throw new ApiError(400, "Invalid agent ID");
 
@@ -205,24 +235,30 @@ router.get("/verify/:agentId", async (req: Request, res: Response) => {
   const agent = await agentRegistry.getAgent(agentId);
   const formatted = formatAgent(agent);
   const grade = getReputationGrade(formatted.reputationScore);
+  const profile = await agentProfile(formatted);
+  const compositeScore = profile.composite.score;
 
   // Trust signals
   const trustSignals = {
     isRegistered: true,
     isActive: formatted.active,
     hasCompletedTasks: formatted.tasksCompleted > 0,
-    reputationAboveThreshold: formatted.reputationScore >= 5000, // above default
+    reputationAboveThreshold: compositeScore >= 5000, // above default
     hasEarnings: parseFloat(formatted.totalEarned) > 0,
+    hasLinkedIdentity: profile.identity !== null,
   };
 
   const trustScore = Object.values(trustSignals).filter(Boolean).length;
 
   res.json({
-    verified: formatted.active && formatted.reputationScore >= 3000,
+    verified: formatted.active && compositeScore >= 3000,
     agentId,
     operator: formatted.operator,
     reputationScore: formatted.reputationScore,
     reputationGrade: grade.letter,
+    identityId: profile.identity?.identityId ?? null,
+    compositeScore,
+    compositeGrade: getReputationGrade(compositeScore).letter,
     tasksCompleted: formatted.tasksCompleted,
     trustSignals,
     trustLevel: trustScore >= 4 ? "high" : trustScore >= 2 ? "medium" : "low",
@@ -232,10 +268,16 @@ router.get("/verify/:agentId", async (req: Request, res: Response) => {
       chain: "base-sepolia",
     },
   });
-});
+}));
 
 // ─── Helpers ───
 
+function parseTimestampParam(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string" || !/^\d+$/.test(value)) throw new ApiError(400, `${name} must be a unix timestamp`);
+  return parseInt(value, 10);
+}
+
 interface ReputationGrade {
   letter: string;
   label: string;
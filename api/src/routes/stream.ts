@@ -0,0 +1,103 @@
+import type { Server } from "http";
+import { Router, Request, Response } from "express";
+import { WebSocketServer } from "ws";
+import {
+  parseActivityFilter,
+  parseActivityId,
+  replayActivity,
+  subscribeActivity,
+} from "../services/activity";
+import type { Activity } from "../services/activity";
+import { ApiError } from "../middleware/errorHandler";
+import { logger } from "../utils/logger";
+
+const router = Router();
+
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * GET /stream — Server-Sent Events feed of normalized platform activity
+ * Query params: type, state (comma-separated), minBountyWei, agentId, validator, poster.
+ * Each message's `id` is `<blockNumber>-<logIndex>`; reconnecting with
+ * `Last-Event-ID` (or `?lastEventId=`) replays everything indexed since.
+ */
+router.get("/", (req: Request, res: Response) => {
+  const filter = parseActivityFilter(req.query);
+  const lastId = req.header("Last-Event-ID") || (req.query.lastEventId as string | undefined);
+  if (lastId) parseActivityId(lastId);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const send = (activity: Activity) => {
+    res.write(`id: ${activity.id}\ndata: ${JSON.stringify(activity)}\n\n`);
+  };
+  if (lastId) replayActivity(lastId, filter, send);
+  const unsubscribe = subscribeActivity(filter, send);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+/**
+ * WebSocket equivalent of GET /stream, served on the same path. Filters and
+ * `lastEventId` are query params; each message is one activity as JSON.
+ */
+export function attachStreamSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== "/stream") {
+      socket.destroy();
+      return;
+    }
+
+    let filter;
+    const lastId = url.searchParams.get("lastEventId") || (req.headers["last-event-id"] as string | undefined);
+    try {
+      filter = parseActivityFilter(Object.fromEntries(url.searchParams));
+      if (lastId) parseActivityId(lastId);
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : "Bad request";
+      socket.end(`HTTP/1.1 400 Bad Request\r\nContent-Type: application/json\r\n\r\n${JSON.stringify({ error: message })}`);
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const send = (activity: Activity) => ws.send(JSON.stringify(activity));
+      if (lastId) replayActivity(lastId, filter, send);
+      const unsubscribe = subscribeActivity(filter, send);
+
+      // Drop connections that stop answering pings
+      let alive = true;
+      ws.on("pong", () => {
+        alive = true;
+      });
+      const heartbeat = setInterval(() => {
+        if (!alive) {
+          ws.terminate();
+          return;
+        }
+        alive = false;
+        ws.ping();
+      }, HEARTBEAT_MS);
+
+      ws.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+      ws.on("error", (err) => logger.debug({ err }, "Stream socket error"));
+    });
+  });
+}
+
+export default router;
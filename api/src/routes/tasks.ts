@@ -1,49 +1,210 @@
 import { Router, Request, Response } from "express";
+import { formatEther } from "ethers";
 import {
   taskRegistry,
-  formatTask,
+  readTask,
+  TaskState,
 } from "../services/contracts";
+import { store } from "../indexer";
+import type { TaskCursor, TaskSortField } from "../indexer";
+import { taskTimeline } from "../services/timeline";
+import { taskPanel } from "../services/panel";
+import { readUpload, resolveTaskDocuments, storeDocument, withDocuments } from "../metadata";
+import type { DocumentKind } from "../metadata";
 import { ApiError } from "../middleware/errorHandler";
+import { asyncHandler } from "../middleware/asyncHandler";
 
 const router = Router();
 
-// GET /tasks — list tasks with optional status filter
-router.get("/", async (req: Request, res: Response) => {
-  const statusFilter = req.query.status as string | undefined;
-  const nextId = Number(await taskRegistry.nextTaskId());
-  const tasks = [];
-  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
-  for (let i = 0; i < nextId; i++) {
-    try {
-      const exists = await taskRegistry.taskExists(i);
-      if (!exists) continue;
-      const task = await taskRegistry.getTask(i);
-      const formatted = formatTask(task);
-      if (!statusFilter || formatted.state === statusFilter) {
-        tasks.push(formatted);
-      }
-    } catch (err) {
-      console.warn(`Failed to fetch task ${i}:`, (err as Error).message?.slice(0, 80));
-    }
-    // Throttle RPC calls to avoid rate limiting on free endpoints
-    if (i < nextId - 1) await sleep(100);
+const SORT_FIELDS: TaskSortField[] = ["createdAt", "deadline", "bounty"];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/** Opaque `nextCursor` for a keyset position */
+export function encodeCursor(cursor: TaskCursor): string {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.id])).toString("base64url");
+}
+
+export function decodeCursor(raw: string): TaskCursor {
+  try {
+    const [key, id] = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if ((typeof key !== "string" && typeof key !== "number") || typeof id !== "number") throw new Error();
+    return { key, id };
+  } catch {
+    throw new ApiError(400, "Invalid cursor");
   }
+}
+
+function optionalString(req: Request, name: string): string | undefined {
+  const v = req.query[name];
+  if (v === undefined || v === "") return undefined;
+  if (typeof v !== "string") throw new ApiError(400, `Invalid value for ${name}`);
+  return v;
+}
+
+function optionalInt(req: Request, name: string): number | undefined {
+  const v = optionalString(req, name);
+  if (v === undefined) return undefined;
+  if (!/^\d+$/.test(v)) throw new ApiError(400, `${name} must be a non-negative integer`);
+  return parseInt(v, 10);
+}
+
+function optionalAddress(req: Request, name: string): string | undefined {
+  const v = optionalString(req, name);
+  if (v !== undefined && !/^0x[0-9a-fA-F]{40}$/.test(v)) throw new ApiError(400, `Invalid address for ${name}`);
+  return v;
+}
+
+function optionalWei(req: Request, name: string): string | undefined {
+  const v = optionalString(req, name);
+  if (v !== undefined && !/^\d{1,78}$/.test(v)) throw new ApiError(400, `${name} must be an integer amount in wei`);
+  return v?.replace(/^0+(?=\d)/, "");
+}
+
+/**
+ * GET /tasks — paginated task list (served from the indexer)
+ * Query params: status, poster, assignedAgent, paymentToken, minBountyWei, maxBountyWei,
+ * deadlineAfter, deadlineBefore, sort (createdAt|deadline|bounty), order (asc|desc), limit, cursor
+ */
+router.get("/", (req: Request, res: Response) => {
+  const status = optionalString(req, "status");
+  if (status !== undefined && !(TaskState as readonly string[]).includes(status)) {
+    throw new ApiError(400, `Invalid status. Expected one of: ${TaskState.join(", ")}`);
+  }
+
+  const sort = (optionalString(req, "sort") ?? "createdAt") as TaskSortField;
+  if (!SORT_FIELDS.includes(sort)) throw new ApiError(400, `Invalid sort. Expected one of: ${SORT_FIELDS.join(", ")}`);
 
-  res.json({ total: tasks.length, tasks });
+  const order = optionalString(req, "order") ?? "desc";
+  if (order !== "asc" && order !== "desc") throw new ApiError(400, "Invalid order. Expected asc or desc");
+
+  const limit = optionalInt(req, "limit") ?? DEFAULT_LIMIT;
+  if (limit < 1 || limit > MAX_LIMIT) throw new ApiError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+
+  const cursor = optionalString(req, "cursor");
+
+  const page = store.queryTasks({
+    state: status,
+    poster: optionalAddress(req, "poster"),
+    assignedAgent: optionalInt(req, "assignedAgent"),
+    paymentToken: optionalAddress(req, "paymentToken"),
+    minBountyWei: optionalWei(req, "minBountyWei"),
+    maxBountyWei: optionalWei(req, "maxBountyWei"),
+    deadlineAfter: optionalInt(req, "deadlineAfter"),
+    deadlineBefore: optionalInt(req, "deadlineBefore"),
+    sort,
+    order,
+    limit,
+    after: cursor !== undefined ? decodeCursor(cursor) : undefined,
+  });
+
+  res.json({
+    total: page.total,
+    count: page.tasks.length,
+    nextCursor: page.next ? encodeCursor(page.next) : null,
+    tasks: page.tasks.map(withDocuments),
+  });
+});
+
+/**
+ * GET /tasks/stats — task counts per state and the ETH paid out through
+ * completed tasks (served from the indexer), so dashboards need not page the board
+ */
+router.get("/stats", (_req: Request, res: Response) => {
+  const { byState, completedEthBountyWei } = store.taskStats();
+  res.json({
+    total: Object.values(byState).reduce((sum, n) => sum + n, 0),
+    byState: Object.fromEntries(TaskState.map((state) => [state, byState[state] ?? 0])),
+    completedEthBountyWei,
+    completedEthBounty: formatEther(completedEthBountyWei),
+    indexedThroughBlock: store.getLastBlock(),
+  });
 });
 
 // GET /tasks/:id — get task details
-router.get("/:id", async (req: Request, res: Response) => {
+router.get("/:id", asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id, 10);
   if (isNaN(id)) throw new ApiError(400, "Invalid task ID");
 
   const exists = await taskRegistry.taskExists(id);
   if (!exists) throw new ApiError(404, "Task not found");
 
+  res.json(await resolveTaskDocuments(await readTask(id)));
+}));
+
+/**
+ * GET /tasks/:id/events — lifecycle timeline (served from the indexer)
+ * Creation, claim, submission, panel selection, score commits/reveals, round
+ * finalization, escrow release/refund and disputes, with decoded args and tx hashes.
+ */
+router.get("/:id/events", asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) throw new ApiError(400, "Invalid task ID");
+
+  if (!store.getTask(id) && !(await taskRegistry.taskExists(id))) {
+    throw new ApiError(404, "Task not found");
+  }
+
+  const events = taskTimeline(id);
+  res.json({
+    taskId: id,
+    count: events.length,
+    events,
+    indexedThroughBlock: store.getLastBlock(),
+  });
+}));
+
+/**
+ * GET /tasks/:id/panel — validator panel for the task's current review round
+ * Tier, selected validators, Premium commit/reveal deadlines and per-validator
+ * commit/reveal/score status.
+ */
+router.get("/:id/panel", asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) throw new ApiError(400, "Invalid task ID");
+
+  let task = store.getTask(id);
+  if (!task) {
+    if (!(await taskRegistry.taskExists(id))) throw new ApiError(404, "Task not found");
+    task = await readTask(id);
+  }
+
+  res.json({
+    ...(await taskPanel(id, task.bountyAmountWei)),
+    indexedThroughBlock: store.getLastBlock(),
+  });
+}));
+
+async function uploadDocument(req: Request, res: Response, kind: DocumentKind) {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) throw new ApiError(400, "Invalid task ID");
+  if (!(await taskRegistry.taskExists(id))) throw new ApiError(404, "Task not found");
+
   const task = await taskRegistry.getTask(id);
-  res.json(formatTask(task));
-});
+  const expected: string = kind === "description" ? task.descriptionHash : task.submissionHash;
+  if (kind === "submission" && BigInt(expected) === 0n) throw new ApiError(409, "No work has been submitted for this task");
+
+  const { content, cid } = await readUpload(req.body);
+  const doc = await storeDocument(kind, content, expected, cid);
+  res.status(201).json({ taskId: id, kind, hash: doc.hash, cid: doc.cid, storedAt: doc.storedAt });
+}
+
+/**
+ * POST /tasks/:id/description — store the off-chain task description
+ * Body: { content } with the exact text whose keccak256 is the on-chain
+ * descriptionHash, { document } when the hash was taken over JSON.stringify(document),
+ * or { cid } to fetch an already-pinned copy. New documents are pinned to IPFS and
+ * the response includes the CID.
+ * Document: { title, body, category?, acceptanceCriteria?: string[], attachments?: [{ name, uri, mimeType?, hash? }] }
+ */
+router.post("/:id/description", asyncHandler((req: Request, res: Response) => uploadDocument(req, res, "description")));
+
+/**
+ * POST /tasks/:id/submission — store the off-chain submission
+ * Same body as /description, verified against the on-chain submissionHash.
+ * JSON and plain-text submissions are both accepted.
+ */
+router.post("/:id/submission", asyncHandler((req: Request, res: Response) => uploadDocument(req, res, "submission")));
 
 // POST write endpoints removed — C-2 remediation
 // Task creation, claiming, and submission now handled via frontend (wagmi) directly on-chain
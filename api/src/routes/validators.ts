@@ -2,13 +2,43 @@ import { Router, Request, Response } from "express";
 import {
   validatorPool,
   formatValidator,
+  isV2,
+  tierToString,
 } from "../services/contracts";
+import { store } from "../indexer";
 import { ApiError } from "../middleware/errorHandler";
+import { asyncHandler } from "../middleware/asyncHandler";
 
 const router = Router();
 
+/**
+ * GET /validators — validator directory (served from the indexer)
+ * Seeded from `validatorList` and kept current by ValidatorPool events.
+ * Query params: active (true to hide deactivated validators), ai (true|false)
+ */
+router.get("/", (req: Request, res: Response) => {
+  const ai = req.query.ai as string | undefined;
+  if (ai !== undefined && ai !== "true" && ai !== "false") throw new ApiError(400, "ai must be true or false");
+
+  const scores = store.countValidatorScores();
+  const validators = store
+    .listValidators({ activeOnly: req.query.active === "true" })
+    .filter((v) => ai === undefined || v.isAIValidator === (ai === "true"))
+    .map((v) => ({ ...v, validationsCompleted: scores.get(v.address.toLowerCase()) ?? 0 }))
+    .sort((a, b) => {
+      const diff = BigInt(b.stakeAmountWei) - BigInt(a.stakeAmountWei);
+      return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+    });
+
+  res.json({
+    total: validators.length,
+    validators,
+    indexedThroughBlock: store.getLastBlock(),
+  });
+});
+
 // GET /validators/:address — get validator info
-router.get("/:address", async (req: Request, res: Response) => {
+router.get("/:address", asyncHandler(async (req: Request, res: Response) => {
   const { address } = req.params;
   if (!/^0x[0-9a-fA-F]{40}$/.test(address)) throw new ApiError(400, "Invalid address");
 
@@ -16,22 +46,27 @@ router.get("/:address", async (req: Request, res: Response) => {
   if (Number(v.registeredAt) === 0) throw new ApiError(404, "Validator not found");
 
   res.json(formatValidator(v));
-});
+}));
 
 // GET /tasks/:id/validations — get validation results
-router.get("/tasks/:id/validations", async (req: Request, res: Response) => {
+router.get("/tasks/:id/validations", asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id, 10);
   if (isNaN(id)) throw new ApiError(400, "Invalid task ID");
 
-  const finalized = await validatorPool.isRoundFinalized(id);
+  const [initialized, finalized] = await Promise.all([
+    validatorPool.isRoundInitialized(id),
+    validatorPool.isRoundFinalized(id),
+  ]);
   let result = null;
   if (finalized) {
     const [accepted, medianScore] = await validatorPool.getRoundResult(id);
     result = { accepted, medianScore: Number(medianScore) };
   }
+  // V1 rounds have no tier; an uninitialized V2 round reads as tier 0 (Micro)
+  const tier = isV2 && initialized ? tierToString(Number(await validatorPool.getRoundTier(id))) : null;
 
-  res.json({ taskId: id, finalized, result });
-});
+  res.json({ taskId: id, tier, finalized, result });
+}));
 
 // POST write endpoints removed — C-2 remediation
 // Validator registration, commit, and reveal now handled via frontend (wagmi) directly on-chain
@@ -0,0 +1,107 @@
+import { Router, Request, Response } from "express";
+import { createSubscription, publicSubscription, webhookStore } from "../webhooks";
+import type { DeliveryStatus } from "../webhooks";
+import { ApiError } from "../middleware/errorHandler";
+import { requireApiKey } from "../middleware/auth";
+
+const router = Router();
+
+// Subscriptions expose callback URLs and delivery payloads, so reads need the key too
+router.use(requireApiKey);
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ["pending", "delivered", "dead"];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function deliveryQuery(req: Request): { status?: DeliveryStatus; limit: number } {
+  const status = req.query.status as string | undefined;
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+    throw new ApiError(400, `Invalid status. Expected one of: ${DELIVERY_STATUSES.join(", ")}`);
+  }
+  const rawLimit = req.query.limit as string | undefined;
+  const limit = rawLimit !== undefined ? parseInt(rawLimit, 10) : DEFAULT_LIMIT;
+  if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) throw new ApiError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  return { status: status as DeliveryStatus | undefined, limit };
+}
+
+function requireSubscription(id: string) {
+  const sub = webhookStore.getSubscription(id);
+  if (!sub) throw new ApiError(404, "Subscription not found");
+  return sub;
+}
+
+/**
+ * POST /webhooks — create a subscription
+ * Body: { url, filter?: { type, state, minBountyWei, agentId, validator, poster }, description? }
+ * Filter values follow GET /stream. The signing `secret` is only returned here.
+ */
+router.post("/", (req: Request, res: Response) => {
+  const sub = createSubscription(req.body ?? {});
+  res.status(201).json(sub);
+});
+
+// GET /webhooks — list subscriptions
+router.get("/", (_req: Request, res: Response) => {
+  const subscriptions = webhookStore.listSubscriptions().map(publicSubscription);
+  res.json({ total: subscriptions.length, subscriptions });
+});
+
+/**
+ * GET /webhooks/dead-letters — deliveries that exhausted their retries, across subscriptions
+ * Registered before /:id so "dead-letters" is not parsed as a subscription ID.
+ */
+router.get("/dead-letters", (req: Request, res: Response) => {
+  const { limit } = deliveryQuery(req);
+  const deliveries = webhookStore.listDeliveries({ status: "dead", limit });
+  res.json({ count: deliveries.length, deliveries });
+});
+
+// POST /webhooks/deliveries/:deliveryId/retry — requeue a dead delivery
+router.post("/deliveries/:deliveryId/retry", (req: Request, res: Response) => {
+  const id = parseInt(req.params.deliveryId, 10);
+  if (isNaN(id)) throw new ApiError(400, "Invalid delivery ID");
+  const delivery = webhookStore.getDelivery(id);
+  if (!delivery) throw new ApiError(404, "Delivery not found");
+  if (delivery.status !== "dead") throw new ApiError(409, "Only dead deliveries can be retried");
+
+  webhookStore.requeue(id);
+  res.json(webhookStore.getDelivery(id));
+});
+
+// GET /webhooks/:id — get a subscription
+router.get("/:id", (req: Request, res: Response) => {
+  res.json(publicSubscription(requireSubscription(req.params.id)));
+});
+
+// DELETE /webhooks/:id — delete a subscription and its delivery log
+router.delete("/:id", (req: Request, res: Response) => {
+  requireSubscription(req.params.id);
+  webhookStore.deleteSubscription(req.params.id);
+  res.status(204).end();
+});
+
+// POST /webhooks/:id/pause, /webhooks/:id/resume — stop or restart queuing new deliveries
+router.post("/:id/pause", (req: Request, res: Response) => {
+  requireSubscription(req.params.id);
+  webhookStore.setSubscriptionActive(req.params.id, false);
+  res.json(publicSubscription(requireSubscription(req.params.id)));
+});
+
+router.post("/:id/resume", (req: Request, res: Response) => {
+  requireSubscription(req.params.id);
+  webhookStore.setSubscriptionActive(req.params.id, true);
+  res.json(publicSubscription(requireSubscription(req.params.id)));
+});
+
+/**
+ * GET /webhooks/:id/deliveries — delivery log, newest first
+ * Query params: status (pending|delivered|dead), limit (default 50, max 200)
+ */
+router.get("/:id/deliveries", (req: Request, res: Response) => {
+  requireSubscription(req.params.id);
+  const { status, limit } = deliveryQuery(req);
+  const deliveries = webhookStore.listDeliveries({ subscriptionId: req.params.id, status, limit });
+  res.json({ subscriptionId: req.params.id, count: deliveries.length, deliveries });
+});
+
+export default router;
@@ -0,0 +1,224 @@
+import { indexer, store } from "../indexer";
+import type { StoredEvent } from "../indexer";
+import { TaskState } from "./contracts";
+import { ApiError } from "../middleware/errorHandler";
+import { logger } from "../utils/logger";
+
+/**
+ * Normalized platform activity, pushed to `/stream` clients as the indexer
+ * commits new events. Each activity carries the task's current snapshot so
+ * clients can act without a follow-up RPC read.
+ *
+ * Activity IDs are `<blockNumber>-<logIndex>`; a client resumes by sending the
+ * last ID it saw (`Last-Event-ID`) and receives everything indexed after it.
+ */
+
+export type ActivityType =
+  | "task.created"
+  | "task.claimed"
+  | "task.submitted"
+  | "review.finalized"
+  | "task.disputed"
+  | "agent.registered"
+  | "validator.slashed";
+
+/** Source events, keyed by `Contract.EventName` */
+const ACTIVITY_TYPES: Record<string, ActivityType> = {
+  "ABBCore.TaskCreatedAndFunded": "task.created",
+  "ABBCore.TaskClaimedByAgent": "task.claimed",
+  "ABBCore.WorkSubmittedForReview": "task.submitted",
+  "ABBCore.ReviewFinalized": "review.finalized",
+  "ABBCore.DisputeRaised": "task.disputed",
+  "AgentRegistry.AgentRegistered": "agent.registered",
+  "ValidatorPool.ValidatorSlashed": "validator.slashed",
+};
+
+export const ACTIVITY_SOURCES = Object.keys(ACTIVITY_TYPES);
+
+export interface ActivityTask {
+  state: string;
+  bountyAmountWei: string;
+  paymentToken: string;
+  poster: string;
+  assignedAgent: number;
+}
+
+export interface Activity {
+  id: string;
+  type: ActivityType;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  txHash: string;
+  taskId: number | null;
+  agentId: number | null;
+  validator: string | null;
+  /** Current task snapshot for task events, null otherwise */
+  task: ActivityTask | null;
+  /** Decoded event args */
+  data: Record<string, unknown>;
+}
+
+export interface ActivityFilter {
+  types?: ActivityType[];
+  /** Current task state; excludes non-task activity */
+  states?: string[];
+  /** Minimum bounty in wei; excludes non-task activity */
+  minBountyWei?: bigint;
+  /** Matches the event's agent or the task's assigned agent */
+  agentId?: number;
+  validator?: string;
+  /** Task poster address; excludes non-task activity */
+  poster?: string;
+}
+
+const REPLAY_PAGE_SIZE = 500;
+
+export function normalize(event: StoredEvent): Activity | null {
+  const type = ACTIVITY_TYPES[`${event.contract}.${event.name}`];
+  if (!type) return null;
+
+  const snapshot = event.taskId !== null ? store.getTask(event.taskId) : null;
+  const agentId = event.agentId ?? (snapshot && snapshot.assignedAgent > 0 ? snapshot.assignedAgent : null);
+
+  return {
+    id: `${event.blockNumber}-${event.logIndex}`,
+    type,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    timestamp: event.timestamp,
+    txHash: event.txHash,
+    taskId: event.taskId,
+    agentId,
+    validator: event.validator,
+    task: snapshot
+      ? {
+          state: snapshot.state,
+          bountyAmountWei: snapshot.bountyAmountWei,
+          paymentToken: snapshot.paymentToken,
+          poster: snapshot.poster,
+          assignedAgent: snapshot.assignedAgent,
+        }
+      : null,
+    data: event.args,
+  };
+}
+
+export function matches(activity: Activity, filter: ActivityFilter): boolean {
+  if (filter.types && !filter.types.includes(activity.type)) return false;
+  if (filter.states && (!activity.task || !filter.states.includes(activity.task.state))) return false;
+  if (filter.minBountyWei !== undefined && (!activity.task || BigInt(activity.task.bountyAmountWei) < filter.minBountyWei)) {
+    return false;
+  }
+  if (filter.agentId !== undefined && activity.agentId !== filter.agentId) return false;
+  if (filter.validator !== undefined && activity.validator !== filter.validator) return false;
+  if (filter.poster !== undefined && activity.task?.poster.toLowerCase() !== filter.poster) return false;
+  return true;
+}
+
+function list(value: unknown, name: string): string[] | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") throw new ApiError(400, `Invalid value for ${name}`);
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Parse stream filters from query params: type, state (comma-separated),
+ * minBountyWei, agentId, validator, poster.
+ */
+export function parseActivityFilter(query: Record<string, unknown>): ActivityFilter {
+  const filter: ActivityFilter = {};
+
+  const types = list(query.type, "type");
+  if (types) {
+    const known = Object.values(ACTIVITY_TYPES) as string[];
+    const bad = types.find((t) => !known.includes(t));
+    if (bad) throw new ApiError(400, `Invalid type ${bad}. Expected one of: ${known.join(", ")}`);
+    filter.types = types as ActivityType[];
+  }
+
+  const states = list(query.state, "state");
+  if (states) {
+    const bad = states.find((s) => !(TaskState as readonly string[]).includes(s));
+    if (bad) throw new ApiError(400, `Invalid state ${bad}. Expected one of: ${TaskState.join(", ")}`);
+    filter.states = states;
+  }
+
+  if (query.minBountyWei !== undefined && query.minBountyWei !== "") {
+    if (typeof query.minBountyWei !== "string" || !/^\d{1,78}$/.test(query.minBountyWei)) {
+      throw new ApiError(400, "minBountyWei must be an integer amount in wei");
+    }
+    filter.minBountyWei = BigInt(query.minBountyWei);
+  }
+
+  if (query.agentId !== undefined && query.agentId !== "") {
+    if (typeof query.agentId !== "string" || !/^\d+$/.test(query.agentId)) {
+      throw new ApiError(400, "agentId must be a non-negative integer");
+    }
+    filter.agentId = parseInt(query.agentId, 10);
+  }
+
+  if (query.validator !== undefined && query.validator !== "") {
+    if (typeof query.validator !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(query.validator)) {
+      throw new ApiError(400, "Invalid address for validator");
+    }
+    filter.validator = query.validator.toLowerCase();
+  }
+
+  if (query.poster !== undefined && query.poster !== "") {
+    if (typeof query.poster !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(query.poster)) {
+      throw new ApiError(400, "Invalid address for poster");
+    }
+    filter.poster = query.poster.toLowerCase();
+  }
+
+  return filter;
+}
+
+/** Parse a `<blockNumber>-<logIndex>` activity ID */
+export function parseActivityId(raw: string): { blockNumber: number; logIndex: number } {
+  const match = /^(\d+)-(\d+)$/.exec(raw.trim());
+  if (!match) throw new ApiError(400, "Invalid Last-Event-ID. Expected <blockNumber>-<logIndex>");
+  return { blockNumber: parseInt(match[1], 10), logIndex: parseInt(match[2], 10) };
+}
+
+/**
+ * Send every activity indexed after `lastId` that matches `filter`, oldest first.
+ * Runs synchronously, so no live event can be emitted between the replay and
+ * a subscription made right after it.
+ */
+export function replayActivity(lastId: string, filter: ActivityFilter, send: (activity: Activity) => void): void {
+  let cursor = parseActivityId(lastId);
+  for (;;) {
+    const events = store.eventsAfter(cursor, ACTIVITY_SOURCES, REPLAY_PAGE_SIZE);
+    for (const event of events) {
+      const activity = normalize(event);
+      if (activity && matches(activity, filter)) send(activity);
+    }
+    if (events.length < REPLAY_PAGE_SIZE) return;
+    const last = events[events.length - 1];
+    cursor = { blockNumber: last.blockNumber, logIndex: last.logIndex };
+  }
+}
+
+/**
+ * Call `listener` with each new activity matching `filter`.
+ * @returns Unsubscribe function
+ */
+export function subscribeActivity(filter: ActivityFilter, listener: (activity: Activity) => void): () => void {
+  const onEvents = (events: StoredEvent[]) => {
+    for (const event of events) {
+      const activity = normalize(event);
+      if (!activity || !matches(activity, filter)) continue;
+      try {
+        listener(activity);
+      } catch (err) {
+        logger.warn({ err }, "Activity listener failed");
+      }
+    }
+  };
+  indexer.on("events", onEvents);
+  return () => {
+    indexer.off("events", onEvents);
+  };
+}
@@ -1,83 +1,32 @@
-import { ethers, Contract, JsonRpcProvider } from "ethers";
+import { JsonRpcProvider } from "ethers";
+import { createContracts, readTask as readTaskWith } from "@agentecon/sdk";
+import type { AgentIdentityContract, ReputationRegistryContract, Task } from "@agentecon/sdk";
 import { config } from "../config";
 
-import ABBCoreABI from "../abis/ABBCore.json";
-import AgentRegistryABI from "../abis/AgentRegistry.json";
-import TaskRegistryABI from "../abis/TaskRegistry.json";
-import ValidatorPoolABI from "../abis/ValidatorPool.json";
-import BountyEscrowABI from "../abis/BountyEscrow.json";
+export {
+  TaskState,
+  ValidationTier,
+  UNSTAKE_COOLDOWN,
+  formatAgent,
+  formatTask,
+  formatValidator,
+  taskStateToString,
+  tierToString,
+} from "@agentecon/sdk";
+
+/** V2 adds validation tiers (Micro/Standard/Premium) and AI validators */
+export const isV2 = config.protocolVersion === "v2";
 
 // Provider (read-only)
 export const provider = new JsonRpcProvider(config.rpcUrl);
 
-// Read-only contracts — C-2 remediation: no more signers in API
-export const abbCore = new Contract(config.contracts.abbCore, ABBCoreABI, provider);
-export const agentRegistry = new Contract(config.contracts.agentRegistry, AgentRegistryABI, provider);
-export const taskRegistry = new Contract(config.contracts.taskRegistry, TaskRegistryABI, provider);
-export const validatorPool = new Contract(config.contracts.validatorPool, ValidatorPoolABI, provider);
-export const bountyEscrow = new Contract(config.contracts.bountyEscrow, BountyEscrowABI, provider);
-
-// Task state enum mapping
-export const TaskState = [
-  "open",
-  "claimed",
-  "submitted",
-  "in_review",
-  "completed",
-  "disputed",
-  "resolved",
-  "cancelled",
-] as const;
-
-export function taskStateToString(state: number): string {
-  return TaskState[state] ?? "unknown";
-}
-
-// Format agent struct from contract response
-export function formatAgent(agent: any) {
-  return {
-    id: Number(agent.id),
-    operator: agent.operator,
-    metadataHash: agent.metadataHash,
-    reputationScore: Number(agent.reputationScore),
-    tasksCompleted: Number(agent.tasksCompleted),
-    tasksFailed: Number(agent.tasksFailed),
-    totalEarned: ethers.formatEther(agent.totalEarned),
-    registeredAt: Number(agent.registeredAt),
-    active: agent.active,
-  };
-}
-
-// Format task struct
-export function formatTask(task: any) {
-  return {
-    id: Number(task.id),
-    poster: task.poster,
-    descriptionHash: task.descriptionHash,
-    bountyAmount: ethers.formatEther(task.bountyAmount),
-    bountyAmountWei: task.bountyAmount.toString(),
-    paymentToken: task.paymentToken,
-    deadline: Number(task.deadline),
-    state: taskStateToString(Number(task.state)),
-    stateNum: Number(task.state),
-    assignedAgent: Number(task.assignedAgent),
-    submissionHash: task.submissionHash,
-    createdAt: Number(task.createdAt),
-    claimedAt: Number(task.claimedAt),
-    submittedAt: Number(task.submittedAt),
-  };
-}
+// Read-only contracts — C-2 remediation: no more signers in API. ABIs follow PROTOCOL_VERSION
+export const contracts = createContracts(config.contracts, provider, config.protocolVersion);
+export const { abbCore, agentRegistry, taskRegistry, validatorPool, bountyEscrow } = contracts;
+export const agentIdentity = contracts.agentIdentity as AgentIdentityContract;
+export const reputationRegistry = contracts.reputationRegistry as ReputationRegistryContract;
 
-// Format validator struct
-export function formatValidator(v: any) {
-  return {
-    address: v.addr,
-    stakeAmount: ethers.formatEther(v.stakeAmount),
-    stakeAmountWei: v.stakeAmount.toString(),
-    reputationScore: Number(v.reputationScore),
-    registeredAt: Number(v.registeredAt),
-    active: v.active,
-    pendingUnstake: ethers.formatEther(v.pendingUnstake),
-    unstakeRequestTime: Number(v.unstakeRequestTime),
-  };
+/** Read and format a task, including the tier ABBCoreV2 assigned when work was submitted */
+export function readTask(id: number): Promise<Task> {
+  return readTaskWith(contracts, id);
 }
@@ -0,0 +1,192 @@
+import { ZeroAddress, formatUnits } from "ethers";
+import { reputationRegistry } from "./contracts";
+import { store } from "../indexer";
+
+/**
+ * ERC-8004 feedback for an identity token, reconstructed from indexed
+ * ReputationRegistry8004 events:
+ * - NewFeedback(agentId, client, index, value, decimals) — one entry each
+ * - FeedbackTags / FeedbackDetails — emitted right after NewFeedback in the
+ *   same transaction and without the client, so they are matched by
+ *   transaction and feedback index
+ * - FeedbackRevoked(agentId, client, index) — marks the entry revoked
+ *
+ * Feedback indexes are 1-based and count per client, so an entry is
+ * identified by (clientAddress, feedbackIndex).
+ */
+
+export interface FeedbackEntry {
+  clientAddress: string;
+  feedbackIndex: number;
+  /** Raw int128 value */
+  value: string;
+  valueDecimals: number;
+  /** value / 10^valueDecimals */
+  score: number;
+  tag1: string;
+  tag2: string;
+  endpoint: string | null;
+  feedbackURI: string | null;
+  feedbackHash: string | null;
+  revoked: boolean;
+  revokedAt: number | null;
+  revokeTxHash: string | null;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  taskId: number | null;
+}
+
+export interface ClientBreakdown {
+  clientAddress: string;
+  count: number;
+  active: number;
+  revoked: number;
+  /** Mean `score` of the client's unrevoked feedback */
+  averageScore: number | null;
+  lastFeedbackAt: number;
+}
+
+export interface FeedbackFilter {
+  /** Matches tag1 or tag2 */
+  tags?: string[];
+  tag1?: string;
+  tag2?: string;
+  client?: string;
+  revoked?: boolean;
+}
+
+export interface FeedbackSummary {
+  /** Matching feedback, newest first */
+  feedback: FeedbackEntry[];
+  clients: ClientBreakdown[];
+  tags: TagBreakdown[];
+}
+
+/** How often a tag occurs in the matching feedback, and the mean `score` of the unrevoked entries */
+export interface TagBreakdown {
+  tag: string;
+  count: number;
+  averageScore: number | null;
+}
+
+export function feedbackConfigured(): boolean {
+  return String(reputationRegistry.target).toLowerCase() !== ZeroAddress;
+}
+
+/** All feedback for a token with the filter applied; breakdowns cover the filtered set */
+export function agentFeedback(agentId: number, filter: FeedbackFilter = {}): FeedbackSummary {
+  const events = store.eventsForAgent(agentId, {
+    contracts: ["ReputationRegistry8004"],
+    names: ["NewFeedback", "FeedbackTags", "FeedbackDetails", "FeedbackRevoked"],
+  });
+
+  const entries: FeedbackEntry[] = [];
+  const byTx = new Map<string, FeedbackEntry>();
+  const byClient = new Map<string, FeedbackEntry>();
+  for (const e of events) {
+    const index = Number(e.args.feedbackIndex);
+    if (e.name === "NewFeedback") {
+      const clientAddress = String(e.args.clientAddress).toLowerCase();
+      const value = String(e.args.value);
+      const valueDecimals = Number(e.args.valueDecimals);
+      const entry: FeedbackEntry = {
+        clientAddress,
+        feedbackIndex: index,
+        value,
+        valueDecimals,
+        score: Number(formatUnits(value, valueDecimals)),
+        tag1: "",
+        tag2: "",
+        endpoint: null,
+        feedbackURI: null,
+        feedbackHash: null,
+        revoked: false,
+        revokedAt: null,
+        revokeTxHash: null,
+        blockNumber: e.blockNumber,
+        timestamp: e.timestamp,
+        txHash: e.txHash,
+        taskId: e.taskId ?? store.taskIdForTx(e.txHash),
+      };
+      entries.push(entry);
+      byTx.set(`${e.txHash}:${index}`, entry);
+      byClient.set(`${clientAddress}:${index}`, entry);
+    } else if (e.name === "FeedbackRevoked") {
+      const entry = byClient.get(`${String(e.args.clientAddress).toLowerCase()}:${index}`);
+      if (!entry) continue;
+      entry.revoked = true;
+      entry.revokedAt = e.timestamp;
+      entry.revokeTxHash = e.txHash;
+    } else {
+      const entry = byTx.get(`${e.txHash}:${index}`);
+      if (!entry) continue;
+      if (e.name === "FeedbackTags") {
+        entry.tag1 = String(e.args.tag1);
+        entry.tag2 = String(e.args.tag2);
+      } else {
+        entry.endpoint = String(e.args.endpoint) || null;
+        entry.feedbackURI = String(e.args.feedbackURI) || null;
+        entry.feedbackHash = /^0x0*$/.test(String(e.args.feedbackHash)) ? null : String(e.args.feedbackHash);
+      }
+    }
+  }
+
+  const client = filter.client?.toLowerCase();
+  const matching = entries.filter((f) =>
+    (!filter.tags?.length || filter.tags.includes(f.tag1) || filter.tags.includes(f.tag2)) &&
+    (filter.tag1 === undefined || f.tag1 === filter.tag1) &&
+    (filter.tag2 === undefined || f.tag2 === filter.tag2) &&
+    (client === undefined || f.clientAddress === client) &&
+    (filter.revoked === undefined || f.revoked === filter.revoked),
+  );
+
+  return {
+    feedback: [...matching].reverse(),
+    clients: clientBreakdown(matching),
+    tags: tagCounts(matching),
+  };
+}
+
+function clientBreakdown(entries: FeedbackEntry[]): ClientBreakdown[] {
+  const clients = new Map<string, { entries: FeedbackEntry[]; last: number }>();
+  for (const f of entries) {
+    const c = clients.get(f.clientAddress) ?? { entries: [], last: 0 };
+    c.entries.push(f);
+    c.last = Math.max(c.last, f.timestamp);
+    clients.set(f.clientAddress, c);
+  }
+  return [...clients]
+    .map(([clientAddress, c]) => {
+      const active = c.entries.filter((f) => !f.revoked);
+      return {
+        clientAddress,
+        count: c.entries.length,
+        active: active.length,
+        revoked: c.entries.length - active.length,
+        averageScore: active.length ? active.reduce((sum, f) => sum + f.score, 0) / active.length : null,
+        lastFeedbackAt: c.last,
+      };
+    })
+    .sort((a, b) => b.count - a.count || b.lastFeedbackAt - a.lastFeedbackAt);
+}
+
+function tagCounts(entries: FeedbackEntry[]): TagBreakdown[] {
+  const tags = new Map<string, { count: number; scores: number[] }>();
+  for (const f of entries) {
+    for (const tag of new Set([f.tag1, f.tag2])) {
+      if (tag === "") continue;
+      const t = tags.get(tag) ?? { count: 0, scores: [] };
+      t.count++;
+      if (!f.revoked) t.scores.push(f.score);
+      tags.set(tag, t);
+    }
+  }
+  return [...tags]
+    .map(([tag, t]) => ({
+      tag,
+      count: t.count,
+      averageScore: t.scores.length ? t.scores.reduce((sum, s) => sum + s, 0) / t.scores.length : null,
+    }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
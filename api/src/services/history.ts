@@ -0,0 +1,146 @@
+import { store } from "../indexer";
+import type { StoredEvent } from "../indexer";
+
+/**
+ * Reputation history reconstructed from indexed events:
+ * - AgentRegistry.ReputationUpdated(agentId, oldScore, newScore) — task-based score (0–10000 bps)
+ * - ReputationRegistry8004.NewFeedback(agentId, client, index, value, decimals) — ERC-8004 feedback
+ *
+ * Feedback is read for the identity token linked to the agent (services/profile);
+ * an agent without one has no feedback points.
+ */
+
+export type HistoryInterval = "day" | "week";
+
+interface BasePoint {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  taskId: number | null;
+  /** Set when downsampled: start of the bucket and how many raw points it covers */
+  bucketStart?: number;
+  bucketCount?: number;
+}
+
+export interface ReputationPoint extends BasePoint {
+  type: "reputation";
+  event: "AgentRegistered" | "ReputationUpdated";
+  reputationScore: number;
+  previousScore: number | null;
+}
+
+export interface FeedbackPoint extends BasePoint {
+  type: "feedback";
+  event: "NewFeedback";
+  clientAddress: string;
+  feedbackIndex: number;
+  value: string;
+  valueDecimals: number;
+}
+
+export type HistoryPoint = ReputationPoint | FeedbackPoint;
+
+export interface HistoryOptions {
+  from?: number;
+  to?: number;
+  interval?: HistoryInterval;
+}
+
+const DAY = 86_400;
+const WEEK = 7 * DAY;
+// 1970-01-01 was a Thursday; shift so weekly buckets start on Monday 00:00 UTC
+const WEEK_OFFSET = 4 * DAY;
+
+function bucketStart(timestamp: number, interval: HistoryInterval): number {
+  if (interval === "day") return Math.floor(timestamp / DAY) * DAY;
+  return Math.floor((timestamp - WEEK_OFFSET) / WEEK) * WEEK + WEEK_OFFSET;
+}
+
+function base(e: StoredEvent): BasePoint {
+  return {
+    blockNumber: e.blockNumber,
+    timestamp: e.timestamp,
+    txHash: e.txHash,
+    taskId: e.taskId ?? store.taskIdForTx(e.txHash),
+  };
+}
+
+/**
+ * Build the full time series for an agent, oldest first.
+ * @param identityId Linked AgentIdentity8004 token, if any
+ * @param currentScore Score used for the registration point when no update has happened yet
+ */
+export function reputationHistory(
+  agentId: number,
+  identityId: number | null,
+  currentScore: number,
+  opts: HistoryOptions = {},
+): HistoryPoint[] {
+  const registry = store.eventsForAgent(agentId, {
+    contracts: ["AgentRegistry"],
+    names: ["AgentRegistered", "ReputationUpdated"],
+  });
+  const feedback = identityId === null
+    ? []
+    : store.eventsForAgent(identityId, { contracts: ["ReputationRegistry8004"], names: ["NewFeedback"] });
+
+  const firstUpdate = registry.find((e) => e.name === "ReputationUpdated");
+  const points: HistoryPoint[] = [];
+
+  for (const e of registry) {
+    if (e.name === "AgentRegistered") {
+      // The starting score is not in the event (it may be inherited from the
+      // operator's other agents), but it is the oldScore of the first update.
+      points.push({
+        ...base(e),
+        type: "reputation",
+        event: "AgentRegistered",
+        reputationScore: firstUpdate ? Number(firstUpdate.args.oldScore) : currentScore,
+        previousScore: null,
+      });
+    } else {
+      points.push({
+        ...base(e),
+        type: "reputation",
+        event: "ReputationUpdated",
+        reputationScore: Number(e.args.newScore),
+        previousScore: Number(e.args.oldScore),
+      });
+    }
+  }
+
+  for (const e of feedback) {
+    points.push({
+      ...base(e),
+      type: "feedback",
+      event: "NewFeedback",
+      clientAddress: String(e.args.clientAddress),
+      feedbackIndex: Number(e.args.feedbackIndex),
+      value: String(e.args.value),
+      valueDecimals: Number(e.args.valueDecimals),
+    });
+  }
+
+  points.sort((a, b) => a.blockNumber - b.blockNumber);
+
+  const inRange = points.filter(
+    (p) => (opts.from === undefined || p.timestamp >= opts.from) && (opts.to === undefined || p.timestamp <= opts.to),
+  );
+
+  return opts.interval ? downsample(inRange, opts.interval) : inRange;
+}
+
+/** Keep the last point of each type per bucket, annotated with the bucket start and size */
+function downsample(points: HistoryPoint[], interval: HistoryInterval): HistoryPoint[] {
+  const buckets = new Map<string, HistoryPoint>();
+  const counts = new Map<string, number>();
+  for (const p of points) {
+    const start = bucketStart(p.timestamp, interval);
+    const key = `${start}:${p.type}`;
+    buckets.set(key, { ...p, bucketStart: start });
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...buckets.entries()]
+    .map(([key, p]) => ({ ...p, bucketCount: counts.get(key)! }))
+    .sort((a, b) => a.bucketStart! - b.bucketStart! || a.blockNumber - b.blockNumber);
+}
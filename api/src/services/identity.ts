@@ -0,0 +1,206 @@
+import { isIP } from "net";
+import { ZeroAddress, getAddress, toUtf8String } from "ethers";
+import { agentIdentity, provider } from "./contracts";
+import { blobBackend } from "./ipfs";
+import { config } from "../config";
+import { store } from "../indexer";
+import { logger } from "../utils/logger";
+
+/**
+ * ERC-8004 identity of an agent, read from AgentIdentity8004:
+ * - owner, agent URI and verified agent wallet are read live
+ * - metadata keys come from indexed MetadataSet events (the registry cannot
+ *   enumerate them); their current values are read live with getMetadata
+ * - the registration file the agent URI points at is fetched and cached
+ *
+ * Identity token IDs are independent of AgentRegistry IDs.
+ */
+
+export interface IdentityMetadataEntry {
+  key: string;
+  /** Raw bytes, 0x-hex */
+  value: string;
+  /** The value as UTF-8 when it decodes to printable text */
+  text: string | null;
+  updatedAt: number | null;
+  txHash: string | null;
+}
+
+export interface RegistrationFile {
+  uri: string;
+  source: "data" | "ipfs" | "https" | null;
+  document: Record<string, unknown> | null;
+  /** The document's `registrations` include this token on this registry (null when unresolved) */
+  listsAgent: boolean | null;
+  error: string | null;
+}
+
+export interface IdentityProfile {
+  agentId: number;
+  owner: string;
+  agentURI: string;
+  agentWallet: string | null;
+  registeredAt: number | null;
+  registration: RegistrationFile;
+  metadata: IdentityMetadataEntry[];
+  identityRegistry: string;
+}
+
+// Set by the registry itself and exposed through getAgentWallet
+const RESERVED_KEY = "agentWallet";
+const MAX_FILE_BYTES = 64 * 1024;
+const FETCH_TIMEOUT_MS = 10_000;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+
+const cache = new Map<string, { expires: number; file: Omit<RegistrationFile, "listsAgent"> }>();
+
+export function identityConfigured(): boolean {
+  return String(agentIdentity.target).toLowerCase() !== ZeroAddress;
+}
+
+/** Identity profile for a token, or null when it was never minted */
+export async function identityProfile(agentId: number): Promise<IdentityProfile | null> {
+  const total = Number(await agentIdentity.totalAgents());
+  if (agentId < 1 || agentId > total) return null;
+
+  const [owner, agentURI, wallet] = await Promise.all([
+    agentIdentity.ownerOf(agentId),
+    agentIdentity.tokenURI(agentId),
+    agentIdentity.getAgentWallet(agentId),
+  ]);
+
+  const events = store.eventsForAgent(agentId, { contracts: ["AgentIdentity8004"], names: ["Registered", "MetadataSet"] });
+  const registered = events.find((e) => e.name === "Registered");
+
+  // Latest MetadataSet per key, in first-set order
+  const latest = new Map<string, { timestamp: number; txHash: string }>();
+  for (const e of events) {
+    const key = e.name === "MetadataSet" ? String(e.args.metadataKey) : null;
+    if (key === null || key === RESERVED_KEY) continue;
+    latest.set(key, { timestamp: e.timestamp, txHash: e.txHash });
+  }
+  const metadata = await Promise.all(
+    [...latest].map(async ([key, event]): Promise<IdentityMetadataEntry> => {
+      const value = await agentIdentity.getMetadata(agentId, key);
+      return { key, value, text: printableText(value), updatedAt: event.timestamp, txHash: event.txHash };
+    }),
+  );
+
+  return {
+    agentId,
+    owner,
+    agentURI,
+    agentWallet: wallet === ZeroAddress ? null : wallet,
+    registeredAt: registered?.timestamp ?? null,
+    registration: await registrationFile(agentId, agentURI),
+    // setMetadata with empty bytes clears a key
+    metadata: metadata.filter((m) => m.value !== "0x"),
+    identityRegistry: getAddress(String(agentIdentity.target)),
+  };
+}
+
+/** Fetch (or reuse) the registration file and check it lists this token */
+async function registrationFile(agentId: number, uri: string): Promise<RegistrationFile> {
+  if (uri === "") return { uri, source: null, document: null, listsAgent: null, error: "agent URI is empty" };
+
+  let cached = cache.get(uri);
+  if (!cached || cached.expires <= Date.now()) {
+    cached = { expires: Date.now() + CACHE_TTL_MS, file: await fetchRegistrationFile(uri) };
+    cache.delete(uri);
+    cache.set(uri, cached);
+    if (cache.size > CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+  }
+
+  const { file } = cached;
+  return { ...file, listsAgent: file.document ? await listsAgent(file.document, agentId) : null };
+}
+
+async function fetchRegistrationFile(uri: string): Promise<Omit<RegistrationFile, "listsAgent">> {
+  const source = uri.startsWith("data:") ? "data" : uri.startsWith("ipfs://") ? "ipfs" : uri.startsWith("https://") ? "https" : null;
+  if (!source) return { uri, source, document: null, error: "unsupported URI scheme (data:, ipfs:// or https:// only)" };
+  try {
+    const bytes = source === "data" ? decodeDataUri(uri) : source === "ipfs" ? await readIpfs(uri) : await readHttps(uri);
+    if (bytes.length > MAX_FILE_BYTES) throw new Error(`registration file exceeds ${MAX_FILE_BYTES} bytes`);
+    const document = JSON.parse(toUtf8String(bytes)) as unknown;
+    if (typeof document !== "object" || document === null || Array.isArray(document)) {
+      throw new Error("registration file is not a JSON object");
+    }
+    return { uri, source, document: document as Record<string, unknown>, error: null };
+  } catch (err: any) {
+    logger.debug({ err, uri }, "Could not resolve registration file");
+    return { uri, source, document: null, error: err instanceof SyntaxError ? "registration file is not valid JSON" : err.message };
+  }
+}
+
+/** `data:[<mediatype>][;base64],<data>` */
+function decodeDataUri(uri: string): Uint8Array {
+  const comma = uri.indexOf(",");
+  if (comma === -1) throw new Error("malformed data URI");
+  const data = uri.slice(comma + 1);
+  return uri.slice(5, comma).endsWith(";base64") ? Buffer.from(data, "base64") : Buffer.from(decodeURIComponent(data), "utf8");
+}
+
+/** `ipfs://<cid>` through the blob backend, `ipfs://<cid>/<path>` through IPFS_GATEWAY */
+async function readIpfs(uri: string): Promise<Uint8Array> {
+  const [cid, ...path] = uri.slice("ipfs://".length).replace(/^ipfs\//, "").split("/");
+  if (!cid) throw new Error("malformed ipfs URI");
+  if (path.length === 0 || path.join("") === "") return blobBackend.get(cid);
+  const response = await fetch(`${config.ipfs.gateway}/${cid}/${path.join("/")}`, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`IPFS fetch failed (${response.status})`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Agent URIs are set by anyone who registers, so the API only follows public
+ * https hosts and no redirects, with a size cap and timeout.
+ */
+async function readHttps(uri: string): Promise<Uint8Array> {
+  const url = new URL(uri);
+  if (!isPublicHost(url.hostname)) throw new Error("registration host is not public");
+  const response = await fetch(url, { redirect: "error", signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`registration fetch failed (${response.status})`);
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_FILE_BYTES) {
+    throw new Error(`registration file exceeds ${MAX_FILE_BYTES} bytes`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function isPublicHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || /\.(localhost|local|internal)$/.test(host)) return false;
+  const version = isIP(host);
+  if (version === 4) {
+    const [a, b] = host.split(".").map(Number);
+    return !(
+      a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  if (version === 6) return !(host === "::" || host === "::1" || host.startsWith("::ffff:") || /^f[cd]|^fe[89ab]/.test(host));
+  return true;
+}
+
+/** ERC-8004 `registrations: [{ agentId, agentRegistry: "eip155:<chainId>:<address>" }]` */
+async function listsAgent(document: Record<string, unknown>, agentId: number): Promise<boolean> {
+  if (!Array.isArray(document.registrations)) return false;
+  const { chainId } = await provider.getNetwork();
+  const registry = `eip155:${chainId}:${String(agentIdentity.target)}`.toLowerCase();
+  return document.registrations.some((r) =>
+    typeof r === "object" && r !== null &&
+    Number((r as Record<string, unknown>).agentId) === agentId &&
+    String((r as Record<string, unknown>).agentRegistry).toLowerCase() === registry,
+  );
+}
+
+function printableText(hex: string): string | null {
+  try {
+    const text = toUtf8String(hex);
+    return /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/.test(text) ? null : text;
+  } catch {
+    return null;
+  }
+}
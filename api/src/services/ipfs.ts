@@ -1,13 +1,32 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config";
+import { digestFromCid, rawCid } from "../utils/cid";
+import { sha256 } from "ethers";
+
 /**
- * IPFS/Pinata Integration Service (M-3 scaffolding)
+ * IPFS blob backends (M-3)
  *
- * Provides functions to pin JSON data to IPFS via Pinata.
- * Requires PINATA_API_KEY and PINATA_SECRET_KEY env vars to be set.
+ * Off-chain documents are pinned through a `BlobBackend` so the rest of the API
+ * only deals in bytes and CIDs:
+ * - `pinata` pins the exact bytes with pinFileToIPFS and reads through IPFS_GATEWAY
+ * - `local` stores blobs under IPFS_LOCAL_DIR, addressed by CIDv1 (raw, sha2-256),
+ *   so development and tests run without Pinata credentials
  *
- * NOT wired into the main flow yet — this is scaffolding for future use.
+ * IPFS_BACKEND selects the backend; it defaults to `pinata` when PINATA_API_KEY
+ * and PINATA_SECRET_KEY are set and `local` otherwise.
  */
 
+export interface BlobBackend {
+  readonly name: string;
+  /** Store `content` and return its CID */
+  put(content: Uint8Array, name?: string): Promise<string>;
+  /** Fetch the bytes for `cid`; throws if they cannot be retrieved */
+  get(cid: string): Promise<Uint8Array>;
+}
+
 const PINATA_BASE_URL = "https://api.pinata.cloud";
+const FETCH_TIMEOUT_MS = 15_000;
 
 interface PinataResponse {
   IpfsHash: string;
@@ -15,65 +34,87 @@ interface PinataResponse {
   Timestamp: string;
 }
 
-interface PinOptions {
-  name?: string;
-  keyvalues?: Record<string, string>;
-}
+export class PinataBackend implements BlobBackend {
+  readonly name = "pinata";
 
-/**
- * Pin a JSON object to IPFS via Pinata
- * @param data - JSON-serializable object to pin
- * @param options - Optional metadata (name, key-value pairs)
- * @returns The IPFS CID (content identifier)
- * @throws If Pinata credentials are missing or the request fails
- */
-export async function pinJSON(data: unknown, options?: PinOptions): Promise<string> {
-  const apiKey = process.env.PINATA_API_KEY;
-  const secretKey = process.env.PINATA_SECRET_KEY;
+  constructor(
+    private readonly apiKey: string,
+    private readonly secretKey: string,
+    private readonly gateway: string,
+  ) {}
 
-  if (!apiKey || !secretKey) {
-    throw new Error("IPFS: PINATA_API_KEY and PINATA_SECRET_KEY must be set in environment");
-  }
+  async put(content: Uint8Array, name = "abb-data"): Promise<string> {
+    const form = new FormData();
+    form.append("file", new Blob([content]), name);
+    form.append("pinataMetadata", JSON.stringify({ name }));
+    form.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
+
+    const response = await fetch(`${PINATA_BASE_URL}/pinning/pinFileToIPFS`, {
+      method: "POST",
+      headers: {
+        pinata_api_key: this.apiKey,
+        pinata_secret_api_key: this.secretKey,
+      },
+      body: form,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
 
-  const body = {
-    pinataContent: data,
-    pinataMetadata: {
-      name: options?.name || "abb-data",
-      keyvalues: options?.keyvalues || {},
-    },
-  };
-
-  const response = await fetch(`${PINATA_BASE_URL}/pinning/pinJSONToIPFS`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      pinata_api_key: apiKey,
-      pinata_secret_api_key: secretKey,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Pinata pin failed (${response.status}): ${text}`);
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Pinata pin failed (${response.status}): ${text}`);
+    }
+
+    const result = (await response.json()) as PinataResponse;
+    return result.IpfsHash;
   }
 
-  const result = (await response.json()) as PinataResponse;
-  return result.IpfsHash;
+  async get(cid: string): Promise<Uint8Array> {
+    const response = await fetch(`${this.gateway}/${cid}`, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`IPFS fetch failed (${response.status}): ${cid}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
 }
 
-/**
- * Fetch JSON from IPFS via a public gateway
- * @param cid - The IPFS CID to fetch
- * @returns Parsed JSON data
- */
-export async function fetchFromIPFS<T = unknown>(cid: string): Promise<T> {
-  const gateway = process.env.IPFS_GATEWAY || "https://gateway.pinata.cloud/ipfs";
-  const response = await fetch(`${gateway}/${cid}`);
+export class LocalBlobBackend implements BlobBackend {
+  readonly name = "local";
 
-  if (!response.ok) {
-    throw new Error(`IPFS fetch failed (${response.status}): ${cid}`);
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
   }
 
-  return response.json() as Promise<T>;
+  async put(content: Uint8Array): Promise<string> {
+    const cid = rawCid(content);
+    await fs.promises.writeFile(path.join(this.dir, cid), content);
+    return cid;
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const digest = digestFromCid(cid);
+    if (!digest) throw new Error(`Unsupported CID: ${cid}`);
+    let content: Uint8Array;
+    try {
+      content = new Uint8Array(await fs.promises.readFile(path.join(this.dir, cid)));
+    } catch {
+      throw new Error(`Blob not found: ${cid}`);
+    }
+    // Raw CIDs hash the bytes directly, so the local copy can be checked
+    if (sha256(content) !== digest) throw new Error(`Blob content does not match ${cid}`);
+    return content;
+  }
 }
+
+export function createBlobBackend(opts: typeof config.ipfs): BlobBackend {
+  if (opts.backend === "pinata") {
+    const apiKey = process.env.PINATA_API_KEY;
+    const secretKey = process.env.PINATA_SECRET_KEY;
+    if (!apiKey || !secretKey) {
+      throw new Error("IPFS: PINATA_API_KEY and PINATA_SECRET_KEY must be set when IPFS_BACKEND=pinata");
+    }
+    return new PinataBackend(apiKey, secretKey, opts.gateway);
+  }
+  return new LocalBlobBackend(opts.localDir);
+}
+
+export const blobBackend = createBlobBackend(config.ipfs);
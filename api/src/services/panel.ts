@@ -0,0 +1,126 @@
+import { validatorPool, tierToString, isV2 } from "./contracts";
+import { store } from "../indexer";
+import type { StoredEvent } from "../indexer";
+
+/**
+ * Validator panel state for a task, reconstructed from indexed ValidatorPool
+ * events. The pool has no getters for panel members or per-validator scoring
+ * status, so:
+ * - members come from the latest PanelSelected / MicroPanelSelected event
+ * - commit/reveal/score status comes from ScoreCommitted, ScoreRevealed and
+ *   DirectScoreSubmitted events after that selection
+ * - Premium deadlines are the selection block timestamp plus the commit/reveal
+ *   durations stored in `pendingRequests(vrfRequestId)`, mirroring
+ *   rawFulfillRandomWords
+ *
+ * V1 pools have no tiers (`tier` is null) and always run commit-reveal.
+ */
+
+export type PanelStatus = "none" | "requested" | "cancelled" | "selected" | "finalized";
+
+export interface PanelMember {
+  address: string;
+  committed: boolean;
+  revealed: boolean;
+  /** Revealed score (Premium) or direct score (Micro/Standard) */
+  score: number | null;
+  scoredAt: number | null;
+}
+
+export interface TaskPanel {
+  taskId: number;
+  status: PanelStatus;
+  tier: string | null;
+  vrfRequestId: string | null;
+  requestedAt: number | null;
+  selectedAt: number | null;
+  commitDeadline: number | null;
+  revealDeadline: number | null;
+  validators: PanelMember[];
+  result: { accepted: boolean; medianScore: number } | null;
+}
+
+const SELECTION_EVENTS = new Set(["PanelSelected", "MicroPanelSelected"]);
+
+function lastIndexOf(events: StoredEvent[], names: Set<string>): number {
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (names.has(events[i].name)) return i;
+  }
+  return -1;
+}
+
+/**
+ * @param bountyWei Task bounty, used for the expected tier before a panel is requested
+ */
+export async function taskPanel(taskId: number, bountyWei: string): Promise<TaskPanel> {
+  const events = store.eventsForTask(taskId).filter((e) => e.contract === "ValidatorPool");
+
+  // Only the latest round counts: a timed-out VRF request can be cancelled and re-requested
+  const start = Math.max(lastIndexOf(events, new Set(["PanelRequested", "MicroPanelSelected"])), 0);
+  const round = events.slice(start);
+
+  const request = round.find((e) => e.name === "PanelRequested") ?? null;
+  const selectionIdx = lastIndexOf(round, SELECTION_EVENTS);
+  const selection = selectionIdx >= 0 ? round[selectionIdx] : null;
+  const cancelled = round.some((e) => e.name === "VRFRequestCancelled");
+  const finalized = round.find((e) => e.name === "RoundFinalized") ?? null;
+
+  let tier: number | null = null;
+  if (isV2) {
+    if (finalized) tier = Number(finalized.args.tier);
+    else if (selection?.name === "MicroPanelSelected") tier = 0;
+    else if (selection) tier = Number(selection.args.tier);
+    else if (request) tier = Number(request.args.tier);
+    else tier = Number(await validatorPool.getTier(bountyWei));
+  }
+  const commitReveal = tier === null || tierToString(tier) === "premium";
+
+  const members = new Map<string, PanelMember>();
+  if (selection) {
+    const addresses = selection.name === "MicroPanelSelected"
+      ? [String(selection.args.validator)]
+      : (selection.args.validators as string[]);
+    for (const address of addresses) {
+      members.set(address.toLowerCase(), { address, committed: false, revealed: false, score: null, scoredAt: null });
+    }
+    for (const e of round.slice(selectionIdx + 1)) {
+      const member = e.validator ? members.get(e.validator) : undefined;
+      if (!member) continue;
+      if (e.name === "ScoreCommitted") member.committed = true;
+      if (e.name === "ScoreRevealed") member.revealed = true;
+      if (e.name === "ScoreRevealed" || e.name === "DirectScoreSubmitted") {
+        member.score = Number(e.args.score);
+        member.scoredAt = e.timestamp;
+      }
+    }
+  }
+
+  let commitDeadline: number | null = null;
+  let revealDeadline: number | null = null;
+  if (selection && request && commitReveal) {
+    const pending = await validatorPool.pendingRequests(String(request.args.vrfRequestId));
+    commitDeadline = selection.timestamp + Number(pending.commitDuration);
+    revealDeadline = commitDeadline + Number(pending.revealDuration);
+  }
+
+  let status: PanelStatus = "none";
+  if (finalized) status = "finalized";
+  else if (selection) status = "selected";
+  else if (cancelled) status = "cancelled";
+  else if (request) status = "requested";
+
+  return {
+    taskId,
+    status,
+    tier: tier !== null ? tierToString(tier) : null,
+    vrfRequestId: request ? String(request.args.vrfRequestId) : null,
+    requestedAt: request?.timestamp ?? null,
+    selectedAt: selection?.timestamp ?? null,
+    commitDeadline,
+    revealDeadline,
+    validators: [...members.values()],
+    result: finalized
+      ? { accepted: Boolean(finalized.args.accepted), medianScore: Number(finalized.args.medianScore) }
+      : null,
+  };
+}
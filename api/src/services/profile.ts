@@ -0,0 +1,215 @@
+import { ZeroAddress, dataLength, toBigInt, toUtf8String } from "ethers";
+import { agentIdentity, agentRegistry, formatAgent } from "./contracts";
+import { agentFeedback, feedbackConfigured } from "./feedback";
+import type { TagBreakdown } from "./feedback";
+import { identityConfigured } from "./identity";
+import { store } from "../indexer";
+import type { StoredAgent } from "../indexer";
+
+/**
+ * One agent across AgentRegistry and AgentIdentity8004.
+ *
+ * The registries are not linked on chain (AgentIdentity8004.legacyRegistry is
+ * only an address), so an identity token is linked to an AgentRegistry agent
+ * when its owner or verified agent wallet is the agent's operator and either
+ * 1. the token's `legacyAgentId` metadata names the agent, or
+ * 2. the token has the same ID as the agent.
+ * A metadata claim wins over a matching ID. Links are cached for LINK_TTL_MS.
+ *
+ * Feedback aggregates come from indexed ReputationRegistry8004 events and
+ * match the registry's getAggregateScore / getAverageScore, so profiles only
+ * touch the chain to (re)link identities.
+ *
+ * The composite score is on the reputationScore scale (0–10000):
+ *
+ *   erc8004Score = clamp(averageScore, 0, 100) × 100
+ *   weight       = 0.5 × min(feedbackCount, 20) / 20
+ *   score        = round((1 − weight) × reputationScore + weight × erc8004Score)
+ *
+ * Task history keeps at least half the weight; ERC-8004 feedback earns its
+ * half after 20 unrevoked entries. Without a linked identity or any feedback
+ * the composite is the reputationScore. Feedback values are read as 0–100
+ * scores because the registry averages raw values and ignores valueDecimals.
+ */
+
+export type LinkSource = "metadata" | "tokenId";
+
+export interface IdentityLink {
+  identityId: number;
+  linkedBy: LinkSource;
+  owner: string;
+  agentWallet: string | null;
+}
+
+export interface Erc8004Reputation {
+  identityId: number;
+  /** Unrevoked feedback entries */
+  feedbackCount: number;
+  /** The mean raw value of unrevoked feedback, as getAverageScore / 100 */
+  averageScore: number;
+  /** Unrevoked feedback per tag */
+  tags: TagBreakdown[];
+}
+
+export interface CompositeScore {
+  score: number;
+  reputationScore: number;
+  /** averageScore mapped to 0–10000; null without feedback */
+  erc8004Score: number | null;
+  /** Share of `score` taken from erc8004Score, 0–0.5 */
+  erc8004Weight: number;
+}
+
+export interface AgentProfile {
+  identity: IdentityLink | null;
+  erc8004: Erc8004Reputation | null;
+  composite: CompositeScore;
+}
+
+export interface RankedAgent {
+  agent: StoredAgent;
+  profile: AgentProfile;
+}
+
+export interface CompositeRanking {
+  builtAt: number;
+  agents: RankedAgent[];
+}
+
+const LEGACY_ID_KEY = "legacyAgentId";
+const LINK_TTL_MS = 10 * 60 * 1000;
+const RANKING_TTL_MS = 60 * 1000;
+const RANKING_BATCH = 8;
+const MAX_FEEDBACK_WEIGHT = 0.5;
+const FULL_WEIGHT_FEEDBACK = 20;
+
+const links = new Map<number, { expires: number; link: IdentityLink | null }>();
+let ranking: CompositeRanking | null = null;
+let rebuilding: Promise<CompositeRanking> | null = null;
+let claims: { block: number | null; byAgent: Map<number, number[]>; byToken: Map<number, number> } | null = null;
+
+/** Profile for an AgentRegistry agent; identity and feedback are null when not linked */
+export async function agentProfile(agent: { id: number; operator: string; reputationScore: number }): Promise<AgentProfile> {
+  const identity = await linkedIdentity(agent);
+  const erc8004 = identity ? erc8004Reputation(identity.identityId) : null;
+  return { identity, erc8004, composite: compositeScore(agent.reputationScore, erc8004) };
+}
+
+/**
+ * Active agents by composite score (highest first), ties broken by id.
+ * Rebuilt at most every RANKING_TTL_MS; concurrent callers share a rebuild.
+ */
+export async function compositeRanking(): Promise<CompositeRanking> {
+  if (ranking && ranking.builtAt + RANKING_TTL_MS > Date.now()) return ranking;
+  rebuilding ??= buildRanking().finally(() => {
+    rebuilding = null;
+  });
+  return rebuilding;
+}
+
+export function compositeScore(reputationScore: number, erc8004: Erc8004Reputation | null): CompositeScore {
+  if (!erc8004 || erc8004.feedbackCount === 0) {
+    return { score: reputationScore, reputationScore, erc8004Score: null, erc8004Weight: 0 };
+  }
+  const erc8004Score = Math.round(Math.min(Math.max(erc8004.averageScore, 0), 100) * 100);
+  const weight = (MAX_FEEDBACK_WEIGHT * Math.min(erc8004.feedbackCount, FULL_WEIGHT_FEEDBACK)) / FULL_WEIGHT_FEEDBACK;
+  return {
+    score: Math.round((1 - weight) * reputationScore + weight * erc8004Score),
+    reputationScore,
+    erc8004Score,
+    erc8004Weight: weight,
+  };
+}
+
+/** The identity token linked to an AgentRegistry agent */
+export async function linkedIdentity(agent: { id: number; operator: string }): Promise<IdentityLink | null> {
+  if (!identityConfigured()) return null;
+  const cached = links.get(agent.id);
+  if (cached && cached.expires > Date.now()) return cached.link;
+
+  const candidates: { identityId: number; linkedBy: LinkSource }[] = [
+    ...(legacyClaims().byAgent.get(agent.id) ?? []).map((identityId) => ({ identityId, linkedBy: "metadata" as const })),
+    { identityId: agent.id, linkedBy: "tokenId" },
+  ];
+  const total = Number(await agentIdentity.totalAgents());
+  let link: IdentityLink | null = null;
+  for (const candidate of candidates) {
+    if (candidate.identityId < 1 || candidate.identityId > total) continue;
+    // A token whose claim names another agent is not linked by its ID
+    const claim = legacyClaims().byToken.get(candidate.identityId);
+    if (candidate.linkedBy === "tokenId" && claim !== undefined && claim !== agent.id) continue;
+    const [owner, wallet] = await Promise.all([
+      agentIdentity.ownerOf(candidate.identityId),
+      agentIdentity.getAgentWallet(candidate.identityId),
+    ]);
+    const operator = agent.operator.toLowerCase();
+    if (owner.toLowerCase() === operator || wallet.toLowerCase() === operator) {
+      link = { ...candidate, owner, agentWallet: wallet === ZeroAddress ? null : wallet };
+      break;
+    }
+  }
+  links.set(agent.id, { expires: Date.now() + LINK_TTL_MS, link });
+  return link;
+}
+
+/** The AgentRegistry agent an identity token is linked to, checked from the agent's side */
+export async function linkedAgent(identityId: number): Promise<number | null> {
+  const agentId = legacyClaims().byToken.get(identityId) ?? identityId;
+  if (!(await agentRegistry.agentExists(agentId))) return null;
+  const agent = formatAgent(await agentRegistry.getAgent(agentId));
+  const link = await linkedIdentity(agent);
+  return link?.identityId === identityId ? agentId : null;
+}
+
+async function buildRanking(): Promise<CompositeRanking> {
+  const agents = store.listAgents({ activeOnly: true });
+  const ranked: RankedAgent[] = [];
+  // Only agents whose link has expired reach the RPC; keep those reads a batch at a time
+  for (let i = 0; i < agents.length; i += RANKING_BATCH) {
+    const batch = agents.slice(i, i + RANKING_BATCH);
+    ranked.push(...(await Promise.all(batch.map(async (agent) => ({ agent, profile: await agentProfile(agent) })))));
+  }
+  ranked.sort((a, b) => b.profile.composite.score - a.profile.composite.score || a.agent.id - b.agent.id);
+  ranking = { builtAt: Date.now(), agents: ranked };
+  return ranking;
+}
+
+/** getAggregateScore / getAverageScore, recomputed from indexed feedback */
+function erc8004Reputation(identityId: number): Erc8004Reputation | null {
+  if (!feedbackConfigured()) return null;
+  const { feedback, tags } = agentFeedback(identityId, { revoked: false });
+  const sum = feedback.reduce((total, f) => total + BigInt(f.value), 0n);
+  // int256 division, truncated toward zero like the contract's
+  const average = feedback.length ? (sum * 100n) / BigInt(feedback.length) : 0n;
+  return { identityId, feedbackCount: feedback.length, averageScore: Number(average) / 100, tags };
+}
+
+/** Latest `legacyAgentId` claim per token from indexed MetadataSet events, rebuilt as the index advances */
+function legacyClaims(): NonNullable<typeof claims> {
+  const block = store.getLastBlock();
+  if (claims && claims.block === block) return claims;
+
+  const byToken = new Map<number, number>();
+  for (const e of store.eventsByName("AgentIdentity8004", ["MetadataSet"])) {
+    if (e.args.metadataKey !== LEGACY_ID_KEY || e.agentId === null) continue;
+    const agentId = parseLegacyId(String(e.args.metadataValue));
+    if (agentId === null) byToken.delete(e.agentId);
+    else byToken.set(e.agentId, agentId);
+  }
+  const byAgent = new Map<number, number[]>();
+  for (const [identityId, agentId] of byToken) byAgent.set(agentId, [...(byAgent.get(agentId) ?? []), identityId]);
+
+  claims = { block, byAgent, byToken };
+  return claims;
+}
+
+/** A decimal string or a 32-byte big-endian integer */
+function parseLegacyId(value: string): number | null {
+  try {
+    const text = toUtf8String(value);
+    if (/^\d+$/.test(text)) return Number(text);
+  } catch {
+    // not UTF-8; try the integer encoding
+  }
+  return dataLength(value) === 32 ? Number(toBigInt(value)) : null;
+}
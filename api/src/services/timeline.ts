@@ -0,0 +1,63 @@
+import { store } from "../indexer";
+import type { StoredEvent } from "../indexer";
+
+/**
+ * Task lifecycle timeline reconstructed from indexed events across ABBCore,
+ * TaskRegistry, ValidatorPool and BountyEscrow. Entries are ordered by
+ * (blockNumber, logIndex), so events emitted in the same transaction keep
+ * their on-chain order.
+ */
+
+export type TimelinePhase = "created" | "claimed" | "submitted" | "validation" | "settlement" | "dispute" | "cancelled";
+
+export interface TimelineEntry {
+  phase: TimelinePhase;
+  contract: string;
+  event: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  txHash: string;
+  args: Record<string, unknown>;
+}
+
+const PHASES: Record<string, TimelinePhase> = {
+  TaskCreatedAndFunded: "created",
+  Deposited: "created",
+  TaskClaimedByAgent: "claimed",
+  WorkSubmittedForReview: "submitted",
+  PanelRequested: "validation",
+  PanelSelected: "validation",
+  MicroPanelSelected: "validation",
+  PanelSelectionFailed: "validation",
+  VRFRequestCancelled: "validation",
+  ScoreCommitted: "validation",
+  ScoreRevealed: "validation",
+  DirectScoreSubmitted: "validation",
+  RoundFinalized: "validation",
+  ReviewFinalized: "settlement",
+  Released: "settlement",
+  Refunded: "settlement",
+  DisputeRaised: "dispute",
+  DisputeResolved: "dispute",
+  TaskCancelledAndRefunded: "cancelled",
+  TaskCancelled: "cancelled",
+};
+
+function toEntry(e: StoredEvent): TimelineEntry {
+  return {
+    phase: PHASES[e.name] ?? "validation",
+    contract: e.contract,
+    event: e.name,
+    blockNumber: e.blockNumber,
+    logIndex: e.logIndex,
+    timestamp: e.timestamp,
+    txHash: e.txHash,
+    args: e.args,
+  };
+}
+
+/** Full timeline for a task, oldest first */
+export function taskTimeline(taskId: number): TimelineEntry[] {
+  return store.eventsForTask(taskId).map(toEntry);
+}
@@ -0,0 +1,84 @@
+import { decodeBase58, encodeBase58, getBytes, hexlify, sha256, toBeArray, zeroPadValue } from "ethers";
+
+/**
+ * Minimal CID helpers for mapping between IPFS CIDs and bytes32 values.
+ *
+ * Only sha2-256 multihashes are supported, which covers CIDv0 (`Qm…`) and the
+ * CIDv1 raw/dag-pb CIDs produced by Pinata and the local blob backend. A
+ * bytes32 on chain that is not in the pin table is interpreted as the sha2-256
+ * digest of a CIDv0.
+ */
+
+const SHA2_256 = 0x12;
+const DIGEST_LENGTH = 0x20;
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(text: string): Uint8Array {
+  const out: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of text.toLowerCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+/** CIDv0 for a sha2-256 digest stored as bytes32 */
+export function cidV0FromDigest(digest: string): string {
+  return encodeBase58(new Uint8Array([SHA2_256, DIGEST_LENGTH, ...getBytes(digest)]));
+}
+
+/** CIDv1 (raw codec, base32) for a block of bytes */
+export function rawCid(content: Uint8Array): string {
+  return "b" + base32Encode(new Uint8Array([0x01, CODEC_RAW, SHA2_256, DIGEST_LENGTH, ...getBytes(sha256(content))]));
+}
+
+/** The sha2-256 digest inside a CID as bytes32, or null for unsupported CIDs */
+export function digestFromCid(cid: string): string | null {
+  try {
+    let bytes: Uint8Array;
+    if (cid.startsWith("Qm")) {
+      bytes = toBeArray(decodeBase58(cid));
+    } else if (cid.startsWith("b")) {
+      const v1 = base32Decode(cid.slice(1));
+      if (v1[0] !== 0x01 || (v1[1] !== CODEC_RAW && v1[1] !== CODEC_DAG_PB)) return null;
+      bytes = v1.slice(2);
+    } else {
+      return null;
+    }
+    if (bytes[0] !== SHA2_256 || bytes[1] !== DIGEST_LENGTH || bytes.length !== 34) return null;
+    return zeroPadValue(hexlify(bytes.slice(2)), 32);
+  } catch {
+    return null;
+  }
+}
+
+export function isCid(value: string): boolean {
+  return digestFromCid(value) !== null;
+}
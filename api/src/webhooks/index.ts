@@ -0,0 +1,174 @@
+import { createHmac, randomBytes } from "crypto";
+import { config } from "../config";
+import { ApiError } from "../middleware/errorHandler";
+import { matches, parseActivityFilter, subscribeActivity } from "../services/activity";
+import type { Activity } from "../services/activity";
+import { logger } from "../utils/logger";
+import { WebhookStore } from "./store";
+import type { Delivery, Subscription } from "./store";
+
+export const webhookStore = new WebhookStore(config.webhooks.dbPath);
+
+export type { Delivery, DeliveryStatus, Subscription } from "./store";
+
+const POLL_INTERVAL_MS = 1000;
+const BATCH_SIZE = 20;
+const BACKOFF_BASE_S = 30;
+const BACKOFF_MAX_S = 6 * 60 * 60;
+
+/**
+ * Signature sent as `X-ABB-Signature: sha256=<hex>` over `<timestamp>.<body>`,
+ * where timestamp is the `X-ABB-Timestamp` header. Receivers should recompute
+ * it with their subscription secret and reject stale timestamps.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** Seconds until the next attempt after `attempts` failures: 30s, 1m, 2m, … capped at 6h, ±20% jitter */
+export function backoffSeconds(attempts: number): number {
+  const base = Math.min(BACKOFF_BASE_S * 2 ** (attempts - 1), BACKOFF_MAX_S);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+/** Subscription without its secret, as returned by the list and detail routes */
+export function publicSubscription({ secret: _secret, ...sub }: Subscription) {
+  return sub;
+}
+
+/**
+ * Validate and store a new subscription.
+ * @param filter Same params as GET /stream (type, state, minBountyWei, agentId, validator, poster)
+ */
+export function createSubscription(input: { url: unknown; filter?: unknown; description?: unknown }): Subscription {
+  if (typeof input.url !== "string") throw new ApiError(400, "url is required");
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    throw new ApiError(400, "url must be an absolute URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") throw new ApiError(400, "url must be http(s)");
+
+  const filter: Record<string, string> = {};
+  if (input.filter !== undefined) {
+    if (typeof input.filter !== "object" || input.filter === null || Array.isArray(input.filter)) {
+      throw new ApiError(400, "filter must be an object");
+    }
+    for (const [key, value] of Object.entries(input.filter)) {
+      if (value === undefined || value === null || value === "") continue;
+      filter[key] = Array.isArray(value) ? value.join(",") : String(value);
+    }
+    parseActivityFilter(filter);
+  }
+  if (input.description !== undefined && typeof input.description !== "string") {
+    throw new ApiError(400, "description must be a string");
+  }
+
+  return webhookStore.createSubscription({
+    id: randomBytes(12).toString("hex"),
+    url: url.toString(),
+    secret: randomBytes(32).toString("hex"),
+    filter,
+    description: input.description ?? null,
+  });
+}
+
+/**
+ * Fans indexed activity out to matching subscriptions and works through the
+ * delivery queue. Failed deliveries are retried with exponential backoff and
+ * marked `dead` after `maxAttempts`.
+ */
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private running = false;
+
+  constructor(
+    private readonly store: WebhookStore,
+    private readonly opts: { maxAttempts: number; timeoutMs: number },
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.unsubscribe = subscribeActivity({}, (activity) => this.fanOut(activity));
+    void this.loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private fanOut(activity: Activity): void {
+    const payload = JSON.stringify(activity);
+    for (const sub of this.store.listSubscriptions({ activeOnly: true })) {
+      if (!matches(activity, parseActivityFilter(sub.filter))) continue;
+      this.store.enqueue({ subscriptionId: sub.id, activityId: activity.id, eventType: activity.type, payload });
+    }
+  }
+
+  private async loop(): Promise<void> {
+    try {
+      for (const delivery of this.store.dueDeliveries(BATCH_SIZE)) {
+        await this.deliver(delivery);
+      }
+    } catch (err) {
+      logger.error({ err: (err as Error).message }, "Webhook dispatcher error");
+    }
+    if (this.running) this.timer = setTimeout(() => void this.loop(), POLL_INTERVAL_MS);
+  }
+
+  private async deliver(delivery: Delivery): Promise<void> {
+    const sub = this.store.getSubscription(delivery.subscriptionId);
+    if (!sub) return;
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetch(sub.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "AgentEcon-Webhooks/1",
+          "X-ABB-Event": delivery.eventType,
+          "X-ABB-Delivery": String(delivery.id),
+          "X-ABB-Timestamp": String(timestamp),
+          "X-ABB-Signature": signPayload(sub.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.opts.timeoutMs),
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = (err as Error).message;
+    }
+
+    if (error === null) {
+      this.store.recordAttempt(delivery.id, { status: "delivered", responseStatus, error: null, nextAttemptAt: null });
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    if (attempts >= this.opts.maxAttempts) {
+      this.store.recordAttempt(delivery.id, { status: "dead", responseStatus, error, nextAttemptAt: null });
+      logger.warn({ delivery: delivery.id, subscription: sub.id, attempts, error }, "Webhook delivery moved to dead letters");
+      return;
+    }
+    this.store.recordAttempt(delivery.id, {
+      status: "pending",
+      responseStatus,
+      error,
+      nextAttemptAt: timestamp + backoffSeconds(attempts),
+    });
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher(webhookStore, config.webhooks);
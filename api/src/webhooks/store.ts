@@ -0,0 +1,243 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+/**
+ * SQLite store for webhook subscriptions and their delivery queue.
+ *
+ * Deliveries double as the delivery log: each row is one activity for one
+ * subscription, with its attempt count, last response and status. Rows that
+ * exhaust their retries stay behind with status `dead` (the dead-letter list).
+ */
+
+export type DeliveryStatus = "pending" | "delivered" | "dead";
+
+export interface Subscription {
+  id: string;
+  url: string;
+  /** HMAC-SHA256 signing key; only returned when the subscription is created */
+  secret: string;
+  /** Stream-style filter params (type, state, minBountyWei, agentId, validator, poster) */
+  filter: Record<string, string>;
+  description: string | null;
+  active: boolean;
+  createdAt: number;
+}
+
+export interface Delivery {
+  id: number;
+  subscriptionId: string;
+  activityId: string;
+  eventType: string;
+  /** Exact JSON body that is signed and POSTed */
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastAttemptAt: number | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS subscriptions (
+    id          TEXT PRIMARY KEY,
+    url         TEXT NOT NULL,
+    secret      TEXT NOT NULL,
+    filter      TEXT NOT NULL,
+    description TEXT,
+    active      INTEGER NOT NULL DEFAULT 1,
+    created_at  INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS deliveries (
+    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+    subscription_id TEXT NOT NULL,
+    activity_id     TEXT NOT NULL,
+    event_type      TEXT NOT NULL,
+    payload         TEXT NOT NULL,
+    status          TEXT NOT NULL,
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER,
+    last_attempt_at INTEGER,
+    response_status INTEGER,
+    last_error      TEXT,
+    created_at      INTEGER NOT NULL,
+    delivered_at    INTEGER,
+    UNIQUE (subscription_id, activity_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_deliveries_due ON deliveries (status, next_attempt_at);
+  CREATE INDEX IF NOT EXISTS idx_deliveries_subscription ON deliveries (subscription_id, id);
+`;
+
+interface SubscriptionRow {
+  id: string;
+  url: string;
+  secret: string;
+  filter: string;
+  description: string | null;
+  active: number;
+  created_at: number;
+}
+
+interface DeliveryRow {
+  id: number;
+  subscription_id: string;
+  activity_id: string;
+  event_type: string;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: number | null;
+  last_attempt_at: number | null;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+}
+
+function rowToSubscription(row: SubscriptionRow): Subscription {
+  return {
+    id: row.id,
+    url: row.url,
+    secret: row.secret,
+    filter: JSON.parse(row.filter),
+    description: row.description,
+    active: row.active === 1,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToDelivery(row: DeliveryRow): Delivery {
+  return {
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    activityId: row.activity_id,
+    eventType: row.event_type,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastAttemptAt: row.last_attempt_at,
+    responseStatus: row.response_status,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export class WebhookStore {
+  readonly db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ":memory:") fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  // ─── Subscriptions ───
+
+  createSubscription(sub: Omit<Subscription, "active" | "createdAt">): Subscription {
+    this.db.prepare(`
+      INSERT INTO subscriptions (id, url, secret, filter, description, active, created_at)
+      VALUES (?, ?, ?, ?, ?, 1, ?)
+    `).run(sub.id, sub.url, sub.secret, JSON.stringify(sub.filter), sub.description, now());
+    return this.getSubscription(sub.id)!;
+  }
+
+  getSubscription(id: string): Subscription | null {
+    const row = this.db.prepare("SELECT * FROM subscriptions WHERE id = ?").get(id) as SubscriptionRow | undefined;
+    return row ? rowToSubscription(row) : null;
+  }
+
+  listSubscriptions(opts: { activeOnly?: boolean } = {}): Subscription[] {
+    const sql = opts.activeOnly
+      ? "SELECT * FROM subscriptions WHERE active = 1 ORDER BY created_at"
+      : "SELECT * FROM subscriptions ORDER BY created_at";
+    return (this.db.prepare(sql).all() as SubscriptionRow[]).map(rowToSubscription);
+  }
+
+  setSubscriptionActive(id: string, active: boolean): void {
+    this.db.prepare("UPDATE subscriptions SET active = ? WHERE id = ?").run(active ? 1 : 0, id);
+  }
+
+  /** Delete a subscription together with its delivery log */
+  deleteSubscription(id: string): boolean {
+    this.db.prepare("DELETE FROM deliveries WHERE subscription_id = ?").run(id);
+    return this.db.prepare("DELETE FROM subscriptions WHERE id = ?").run(id).changes > 0;
+  }
+
+  // ─── Deliveries ───
+
+  /** Queue a delivery; an activity is only ever queued once per subscription */
+  enqueue(d: { subscriptionId: string; activityId: string; eventType: string; payload: string }): void {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO deliveries
+        (subscription_id, activity_id, event_type, payload, status, next_attempt_at, created_at)
+      VALUES (?, ?, ?, ?, 'pending', ?, ?)
+    `).run(d.subscriptionId, d.activityId, d.eventType, d.payload, now(), now());
+  }
+
+  getDelivery(id: number): Delivery | null {
+    const row = this.db.prepare("SELECT * FROM deliveries WHERE id = ?").get(id) as DeliveryRow | undefined;
+    return row ? rowToDelivery(row) : null;
+  }
+
+  /** Pending deliveries whose next attempt is due, oldest first */
+  dueDeliveries(limit: number): Delivery[] {
+    return (this.db.prepare(`
+      SELECT * FROM deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at, id
+      LIMIT ?
+    `).all(now(), limit) as DeliveryRow[]).map(rowToDelivery);
+  }
+
+  /** Delivery log, newest first */
+  listDeliveries(opts: { subscriptionId?: string; status?: DeliveryStatus; limit: number }): Delivery[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (opts.subscriptionId) {
+      clauses.push("subscription_id = ?");
+      params.push(opts.subscriptionId);
+    }
+    if (opts.status) {
+      clauses.push("status = ?");
+      params.push(opts.status);
+    }
+    const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+    return (this.db.prepare(`SELECT * FROM deliveries ${where} ORDER BY id DESC LIMIT ?`).all(...params, opts.limit) as DeliveryRow[])
+      .map(rowToDelivery);
+  }
+
+  /**
+   * Record the outcome of an attempt.
+   * @param nextAttemptAt When to retry; null marks the delivery delivered or dead
+   */
+  recordAttempt(
+    id: number,
+    result: { status: DeliveryStatus; responseStatus: number | null; error: string | null; nextAttemptAt: number | null },
+  ): void {
+    const at = now();
+    this.db.prepare(`
+      UPDATE deliveries
+      SET status = ?, attempts = attempts + 1, last_attempt_at = ?, response_status = ?, last_error = ?,
+          next_attempt_at = ?, delivered_at = CASE WHEN ? = 'delivered' THEN ? ELSE delivered_at END
+      WHERE id = ?
+    `).run(result.status, at, result.responseStatus, result.error, result.nextAttemptAt, result.status, at, id);
+  }
+
+  /** Move a dead delivery back to the queue with a fresh retry budget */
+  requeue(id: number): void {
+    this.db.prepare(`
+      UPDATE deliveries SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE id = ? AND status = 'dead'
+    `).run(now(), id);
+  }
+}
@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { taskRegistry } from "../src/services/contracts";
+import { startApp } from "./server";
+
+const API_KEY = "test-api-key";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  vi.stubEnv("API_KEY", API_KEY);
+  vi.spyOn(taskRegistry, "taskExists").mockResolvedValue(false);
+  ({ baseUrl, close } = await startApp());
+});
+
+afterAll(async () => {
+  await close();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+function request(method: string, path: string, apiKey?: string): Promise<Response> {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...(apiKey ? { "X-API-Key": apiKey } : {}) },
+    body: method === "GET" ? undefined : JSON.stringify({ content: "x" }),
+  });
+}
+
+describe("API key", () => {
+  it.each(["/webhooks", "/Webhooks", "/WEBHOOKS/", "/webhooks/dead-letters", "/wEbHoOkS/some-id/deliveries"])(
+    "is required to read %s",
+    async (path) => {
+      expect((await request("GET", path)).status).toBe(401);
+      expect((await request("GET", path, "wrong")).status).toBe(401);
+    },
+  );
+
+  it("lets webhook reads through with the key", async () => {
+    const res = await request("GET", "/Webhooks", API_KEY);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ subscriptions: [] });
+  });
+
+  it("is not required for public reads", async () => {
+    expect((await request("GET", "/tasks")).status).toBe(200);
+  });
+
+  it("is not required for hash-verified uploads, in any case", async () => {
+    // Past auth, the unknown task is a 404
+    expect((await request("POST", "/tasks/7/description")).status).toBe(404);
+    expect((await request("POST", "/Tasks/7/Submission")).status).toBe(404);
+  });
+
+  it("is required for other writes", async () => {
+    expect((await request("POST", "/webhooks")).status).toBe(401);
+    expect((await request("DELETE", "/Webhooks/some-id")).status).toBe(401);
+  });
+});
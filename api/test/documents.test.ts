@@ -0,0 +1,31 @@
+import { keccak256, sha256, toUtf8Bytes } from "ethers";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolveDocument } from "../src/metadata";
+import { blobBackend } from "../src/services/ipfs";
+
+const DOCUMENT = JSON.stringify({ title: "Translate the README", body: "Into French." });
+const FORGED = JSON.stringify({ title: "Send the bounty elsewhere", body: "Pay 0xdead." });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("resolveDocument", () => {
+  it("drops gateway content that does not hash to the on-chain value", async () => {
+    const get = vi.spyOn(blobBackend, "get").mockResolvedValue(toUtf8Bytes(FORGED));
+    expect(await resolveDocument("description", keccak256(toUtf8Bytes(DOCUMENT)))).toBeNull();
+    expect(get).toHaveBeenCalledOnce();
+  });
+
+  it("keeps content whose keccak256 is the on-chain hash", async () => {
+    const hash = keccak256(toUtf8Bytes(DOCUMENT + "\n"));
+    vi.spyOn(blobBackend, "get").mockResolvedValue(toUtf8Bytes(DOCUMENT + "\n"));
+    expect(await resolveDocument("description", hash)).toMatchObject({ hash, kind: "description", content: DOCUMENT + "\n" });
+  });
+
+  it("keeps content whose sha2-256 digest is the on-chain hash", async () => {
+    const hash = sha256(toUtf8Bytes(DOCUMENT));
+    vi.spyOn(blobBackend, "get").mockResolvedValue(toUtf8Bytes(DOCUMENT));
+    expect(await resolveDocument("description", hash)).toMatchObject({ hash, content: DOCUMENT });
+  });
+});
@@ -0,0 +1,65 @@
+import { ZeroAddress, ZeroHash } from "ethers";
+import type { RawAgent, RawTask, ValidatorPoolContract } from "@agentecon/sdk";
+import type { StoredEvent } from "../src/indexer";
+
+/** A TaskRegistry struct with every field zeroed except `fields` */
+export function rawTask(fields: Partial<RawTask> = {}): RawTask {
+  return {
+    id: 0n,
+    poster: ZeroAddress,
+    descriptionHash: ZeroHash,
+    bountyAmount: 0n,
+    paymentToken: ZeroAddress,
+    deadline: 0n,
+    state: 0n,
+    assignedAgent: 0n,
+    submissionHash: ZeroHash,
+    createdAt: 0n,
+    claimedAt: 0n,
+    submittedAt: 0n,
+    ...fields,
+  };
+}
+
+/** An AgentRegistry struct with every field zeroed except `fields` */
+export function rawAgent(fields: Partial<RawAgent> = {}): RawAgent {
+  return {
+    id: 0n,
+    operator: ZeroAddress,
+    metadataHash: ZeroHash,
+    reputationScore: 0n,
+    tasksCompleted: 0n,
+    tasksFailed: 0n,
+    totalEarned: 0n,
+    registeredAt: 0n,
+    active: true,
+    ...fields,
+  };
+}
+
+type PendingRequest = Awaited<ReturnType<ValidatorPoolContract["pendingRequests"]["staticCall"]>>;
+
+/** A Premium `pendingRequests` entry: the tuple ethers returns, with its named fields */
+export function pendingRequest(commitDuration: bigint, revealDuration: bigint): PendingRequest {
+  const fields = { taskId: 0n, tier: 2n, commitDuration, revealDuration, requestedAt: 0n, pending: false };
+  const tuple: [bigint, bigint, bigint, bigint, bigint, boolean] = [0n, 2n, commitDuration, revealDuration, 0n, false];
+  return Object.assign(tuple, fields);
+}
+
+/** An indexed event for `taskId`, timestamped 1_000_000 + its block number */
+export function storedEvent(taskId: number, contract: string, name: string, blockNumber: number, fields: Partial<StoredEvent> = {}): StoredEvent {
+  return {
+    blockNumber,
+    logIndex: 0,
+    blockHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    txHash: `0x${(blockNumber * 10 + (fields.logIndex ?? 0)).toString(16).padStart(64, "0")}`,
+    timestamp: 1_000_000 + blockNumber,
+    contract,
+    name,
+    taskId,
+    agentId: null,
+    validator: null,
+    args: {},
+    ...fields,
+  };
+}
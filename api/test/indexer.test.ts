@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { IndexerStore } from "../src/indexer/store";
+import type { StoredAgent, StoredEvent, StoredTask, StoredValidator } from "../src/indexer/store";
+
+// Canonical chain after the reorg: block hashes, and the entities that still exist
+const chain = vi.hoisted(() => ({
+  hashes: new Map<number, string>(),
+  tasks: new Map<number, unknown>(),
+  agents: new Map<number, unknown>(),
+  validators: new Map<string, unknown>(),
+}));
+
+vi.mock("../src/services/contracts", () => {
+  const ZERO = "0x0000000000000000000000000000000000000000";
+  const contract = { target: ZERO };
+  return {
+    provider: {
+      getBlockNumber: async () => Math.max(...chain.hashes.keys()),
+      getBlock: async (n: number) => (chain.hashes.has(n) ? { number: n, hash: chain.hashes.get(n), timestamp: n } : null),
+      getLogs: async () => [],
+    },
+    abbCore: contract,
+    bountyEscrow: contract,
+    agentIdentity: contract,
+    reputationRegistry: contract,
+    taskRegistry: { ...contract, taskExists: async (id: number) => chain.tasks.has(id) },
+    agentRegistry: {
+      ...contract,
+      agentExists: async (id: number) => chain.agents.has(id),
+      getAgent: async (id: number) => chain.agents.get(id),
+    },
+    validatorPool: { ...contract, getValidator: async (a: string) => chain.validators.get(a) ?? { registeredAt: 0n } },
+    readTask: async (id: number) => chain.tasks.get(id),
+    formatAgent: (a: unknown) => a,
+    formatValidator: (v: unknown) => v,
+  };
+});
+vi.mock("../src/metadata", () => ({ prefetchDocuments: () => undefined }));
+
+const { Indexer } = await import("../src/indexer/indexer");
+
+const VALIDATOR = "0x00000000000000000000000000000000000000cc";
+
+function task(id: number, state = "Open"): StoredTask {
+  return {
+    id,
+    poster: "0x00000000000000000000000000000000000000aa",
+    descriptionHash: "0x",
+    submissionHash: "0x",
+    bountyAmountWei: "1000",
+    paymentToken: "0x0000000000000000000000000000000000000000",
+    deadline: 1_000,
+    state,
+    assignedAgent: 0,
+    createdAt: id,
+  };
+}
+
+function agent(id: number): StoredAgent {
+  return { id, operator: "0x00000000000000000000000000000000000000bb", metadataHash: "0x", reputationScore: 5000, active: true };
+}
+
+function validator(): StoredValidator {
+  return { address: VALIDATOR, active: true, stakeAmountWei: "1" } as StoredValidator;
+}
+
+let logIndex = 0;
+
+function event(blockNumber: number, name: string, ids: Partial<Pick<StoredEvent, "taskId" | "agentId" | "validator">>): StoredEvent {
+  return {
+    blockNumber,
+    logIndex: logIndex++,
+    blockHash: `0xold${blockNumber}`,
+    txHash: `0xtx${blockNumber}${name}`,
+    timestamp: blockNumber,
+    contract: "ABBCore",
+    name,
+    taskId: null,
+    agentId: null,
+    validator: null,
+    args: {},
+    ...ids,
+  };
+}
+
+describe("reorg handling", () => {
+  let store: IndexerStore;
+
+  beforeEach(() => {
+    store = new IndexerStore(":memory:");
+    chain.hashes.clear();
+    chain.tasks.clear();
+    chain.agents.clear();
+    chain.validators.clear();
+
+    // Indexed through block 105; blocks 104 and 105 are about to be orphaned
+    for (let n = 100; n <= 105; n++) store.putBlock(n, `0xold${n}`, n);
+    store.insertEvents([
+      event(101, "TaskCreatedAndFunded", { taskId: 1 }),
+      event(104, "TaskCreatedAndFunded", { taskId: 2 }),
+      event(104, "AgentRegistered", { agentId: 9 }),
+      event(105, "ValidatorRegistered", { validator: VALIDATOR }),
+      event(105, "TaskClaimedByAgent", { taskId: 1, agentId: 9 }),
+    ]);
+    store.upsertTask(task(1, "Claimed"));
+    store.upsertTask(task(2));
+    store.upsertAgent(agent(9));
+    store.upsertValidator(validator());
+    store.setLastBlock(105);
+
+    // The new fork shares blocks up to 103 and none of the orphaned transactions
+    for (let n = 100; n <= 103; n++) chain.hashes.set(n, `0xold${n}`);
+    for (let n = 104; n <= 106; n++) chain.hashes.set(n, `0xnew${n}`);
+    chain.tasks.set(1, task(1));
+  });
+
+  it("deletes tasks, agents and validators that only existed on the orphaned fork", async () => {
+    const indexer = new Indexer(store, { startBlock: 100, batchSize: 100, pollIntervalMs: 1000, reorgDepth: 10 });
+    await indexer.tick();
+
+    expect(store.getTask(2)).toBeNull();
+    expect(store.getAgent(9)).toBeNull();
+    expect(store.getValidator(VALIDATOR)).toBeNull();
+    expect(store.countAgents()).toBe(0);
+    expect(store.queryTasks({ sort: "createdAt", order: "asc", limit: 10 }).total).toBe(1);
+  });
+
+  it("re-reads entities that survive the reorg", async () => {
+    const indexer = new Indexer(store, { startBlock: 100, batchSize: 100, pollIntervalMs: 1000, reorgDepth: 10 });
+    await indexer.tick();
+
+    expect(store.getTask(1)?.state).toBe("Open");
+    expect(store.eventsForTask(1).map((e) => e.name)).toEqual(["TaskCreatedAndFunded"]);
+    expect(store.getBlock(104)).toBeUndefined();
+  });
+});
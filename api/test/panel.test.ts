@@ -0,0 +1,63 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { store } from "../src/indexer";
+import { validatorPool } from "../src/services/contracts";
+import { taskPanel } from "../src/services/panel";
+import { pendingRequest, storedEvent as event } from "./fakes";
+
+const A = "0x00000000000000000000000000000000000000aa";
+const B = "0x00000000000000000000000000000000000000bb";
+const C = "0x00000000000000000000000000000000000000cc";
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe("taskPanel", () => {
+  it("reports the latest round's members, scoring status and Premium deadlines", async () => {
+    const pending = vi.spyOn(validatorPool, "pendingRequests").mockResolvedValue(pendingRequest(3600n, 1800n));
+    store.insertEvents([
+      // A first request that timed out and was re-requested
+      event(3, "ValidatorPool", "PanelRequested", 100, { args: { vrfRequestId: "7", tier: 2 } }),
+      event(3, "ValidatorPool", "VRFRequestCancelled", 150),
+      event(3, "ValidatorPool", "PanelRequested", 200, { args: { vrfRequestId: "8", tier: 2 } }),
+      event(3, "ValidatorPool", "PanelSelected", 210, { args: { tier: 2, validators: [A, B] } }),
+      event(3, "ValidatorPool", "ScoreCommitted", 220, { validator: A }),
+      event(3, "ValidatorPool", "ScoreCommitted", 221, { validator: B }),
+      event(3, "ValidatorPool", "ScoreRevealed", 230, { validator: A, args: { score: 75 } }),
+      // Not on the panel
+      event(3, "ValidatorPool", "ScoreCommitted", 231, { validator: C }),
+    ]);
+
+    const panel = await taskPanel(3, "0");
+    expect(pending).toHaveBeenCalledWith("8");
+    expect(panel).toMatchObject({
+      status: "selected",
+      tier: "premium",
+      vrfRequestId: "8",
+      selectedAt: 1_000_210,
+      commitDeadline: 1_000_210 + 3600,
+      revealDeadline: 1_000_210 + 3600 + 1800,
+      result: null,
+    });
+    expect(panel.validators).toEqual([
+      { address: A, committed: true, revealed: true, score: 75, scoredAt: 1_000_230 },
+      { address: B, committed: true, revealed: false, score: null, scoredAt: null },
+    ]);
+  });
+
+  it("reports a Micro round's single validator and its result once finalized", async () => {
+    store.insertEvents([
+      event(4, "ValidatorPool", "MicroPanelSelected", 300, { args: { validator: C } }),
+      event(4, "ValidatorPool", "DirectScoreSubmitted", 301, { validator: C, args: { score: 90 } }),
+      event(4, "ValidatorPool", "RoundFinalized", 302, { args: { tier: 0, accepted: true, medianScore: 90 } }),
+    ]);
+
+    expect(await taskPanel(4, "0")).toMatchObject({
+      status: "finalized",
+      tier: "micro",
+      commitDeadline: null,
+      validators: [{ address: C, committed: false, revealed: false, score: 90, scoredAt: 1_000_301 }],
+      result: { accepted: true, medianScore: 90 },
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { store } from "../src/indexer";
+import { compositeRanking, compositeScore } from "../src/services/profile";
+
+const feedback = (feedbackCount: number, averageScore: number) => ({ identityId: 1, feedbackCount, averageScore, tags: [] });
+
+describe("composite score", () => {
+  it("is the reputationScore without feedback", () => {
+    expect(compositeScore(6400, null)).toEqual({ score: 6400, reputationScore: 6400, erc8004Score: null, erc8004Weight: 0 });
+    expect(compositeScore(6400, feedback(0, 0)).score).toBe(6400);
+  });
+
+  it("weights feedback by count up to half", () => {
+    expect(compositeScore(6000, feedback(10, 100))).toMatchObject({ score: 7000, erc8004Score: 10000, erc8004Weight: 0.25 });
+    expect(compositeScore(6000, feedback(20, 100)).score).toBe(8000);
+    expect(compositeScore(6000, feedback(500, 100)).score).toBe(8000);
+  });
+
+  it("clamps averages outside 0–100", () => {
+    expect(compositeScore(6000, feedback(20, 250)).erc8004Score).toBe(10000);
+    expect(compositeScore(6000, feedback(20, -40))).toMatchObject({ score: 3000, erc8004Score: 0 });
+  });
+});
+
+describe("composite ranking", () => {
+  it("ranks active agents by composite score, ties by id", async () => {
+    const operator = "0x00000000000000000000000000000000000000bb";
+    for (const [id, reputationScore, active] of [[1, 5000, true], [2, 9000, true], [3, 9500, false], [4, 5000, true], [5, 7000, true]] as const) {
+      store.upsertAgent({ id, operator, metadataHash: "0x", reputationScore, active });
+    }
+
+    const { agents, builtAt } = await compositeRanking();
+    expect(agents.map((a) => a.agent.id)).toEqual([2, 5, 1, 4]);
+    expect(agents[0].profile.composite.score).toBe(9000);
+    expect(builtAt).toBeLessThanOrEqual(Date.now());
+
+    // Served from the cache until it expires
+    store.upsertAgent({ id: 6, operator, metadataHash: "0x", reputationScore: 9999, active: true });
+    expect((await compositeRanking()).agents).toBe(agents);
+  });
+});
@@ -0,0 +1,51 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { taskRegistry } from "../src/services/contracts";
+import { startApp } from "./server";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  vi.spyOn(taskRegistry, "taskExists").mockResolvedValue(false);
+  ({ baseUrl, close } = await startApp());
+});
+
+afterAll(async () => {
+  await close();
+  vi.restoreAllMocks();
+});
+
+async function get(path: string): Promise<{ status: number; body: unknown }> {
+  const res = await fetch(`${baseUrl}${path}`);
+  return { status: res.status, body: await res.json() };
+}
+
+describe("read route errors", () => {
+  it("GET /tasks/:id/events", async () => {
+    expect(await get("/tasks/abc/events")).toEqual({ status: 400, body: { error: "Invalid task ID" } });
+    expect(await get("/tasks/99/events")).toEqual({ status: 404, body: { error: "Task not found" } });
+  });
+
+  it("GET /tasks/:id/panel", async () => {
+    expect(await get("/tasks/abc/panel")).toEqual({ status: 400, body: { error: "Invalid task ID" } });
+    expect(await get("/tasks/99/panel")).toEqual({ status: 404, body: { error: "Task not found" } });
+  });
+
+  it("GET /validators/:address and /validators/tasks/:id/validations", async () => {
+    expect(await get("/validators/0x123")).toEqual({ status: 400, body: { error: "Invalid address" } });
+    expect(await get("/validators/tasks/abc/validations")).toEqual({ status: 400, body: { error: "Invalid task ID" } });
+  });
+
+  it("GET /v2/reputation/:agentId/history", async () => {
+    expect(await get("/v2/reputation/abc/history")).toEqual({ status: 400, body: { error: "Invalid agent ID" } });
+    expect(await get("/v2/reputation/1/history?from=yesterday")).toEqual({ status: 400, body: { error: "from must be a unix timestamp" } });
+    expect(await get("/v2/reputation/1/history?interval=hour")).toEqual({ status: 400, body: { error: "interval must be day or week" } });
+    expect(await get("/v2/reputation/abc")).toEqual({ status: 400, body: { error: "Invalid agent ID" } });
+    expect(await get("/v2/reputation/verify/abc")).toEqual({ status: 400, body: { error: "Invalid agent ID" } });
+  });
+
+  it("GET /v2/identity/:agentId and /v2/reputation/:agentId/feedback", async () => {
+    expect(await get("/v2/identity/0")).toEqual({ status: 400, body: { error: "Invalid agent ID" } });
+    expect(await get("/v2/reputation/abc/feedback")).toEqual({ status: 400, body: { error: "Invalid agent ID" } });
+  });
+});
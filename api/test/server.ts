@@ -0,0 +1,12 @@
+import type { AddressInfo } from "net";
+import app from "../src/app";
+
+/** Serve the app on an ephemeral local port */
+export async function startApp(): Promise<{ baseUrl: string; close: () => Promise<void> }> {
+  const server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
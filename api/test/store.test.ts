@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { IndexerStore, padWei } from "../src/indexer/store";
+import type { StoredTask, TaskQuery } from "../src/indexer/store";
+import { decodeCursor, encodeCursor } from "../src/routes/tasks";
+
+const POSTER = "0x00000000000000000000000000000000000000aa";
+const ETH = "0x0000000000000000000000000000000000000000";
+const MAX_UINT256 = (2n ** 256n - 1n).toString();
+
+function task(id: number, fields: Partial<StoredTask> = {}): StoredTask {
+  return {
+    id,
+    poster: POSTER,
+    descriptionHash: "0x",
+    submissionHash: "0x",
+    bountyAmountWei: "1000",
+    paymentToken: ETH,
+    deadline: 1_000,
+    state: "Open",
+    assignedAgent: 0,
+    createdAt: id,
+    ...fields,
+  };
+}
+
+function storeWith(tasks: StoredTask[]): IndexerStore {
+  const store = new IndexerStore(":memory:");
+  for (const t of tasks) store.upsertTask(t);
+  return store;
+}
+
+/** Every page for `query`, following nextCursor through its encoded form */
+function allPages(store: IndexerStore, query: Omit<TaskQuery, "after">): number[][] {
+  const pages: number[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = store.queryTasks({ ...query, after: cursor !== null ? decodeCursor(cursor) : undefined });
+    pages.push(page.tasks.map((t) => t.id));
+    cursor = page.next ? encodeCursor(page.next) : null;
+  } while (cursor !== null);
+  return pages;
+}
+
+describe("task cursor pagination", () => {
+  it("round-trips cursors through their encoded form", () => {
+    expect(decodeCursor(encodeCursor({ key: 1_700_000_000, id: 7 }))).toEqual({ key: 1_700_000_000, id: 7 });
+    expect(decodeCursor(encodeCursor({ key: padWei(MAX_UINT256), id: 3 }))).toEqual({ key: padWei(MAX_UINT256), id: 3 });
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(() => decodeCursor("not-a-cursor")).toThrow("Invalid cursor");
+    expect(() => decodeCursor(Buffer.from(JSON.stringify(["x", "1"])).toString("base64url"))).toThrow("Invalid cursor");
+  });
+
+  it("walks every row exactly once in both directions", () => {
+    const store = storeWith(Array.from({ length: 7 }, (_, i) => task(i + 1)));
+    const desc = allPages(store, { sort: "createdAt", order: "desc", limit: 3 });
+    expect(desc).toEqual([[7, 6, 5], [4, 3, 2], [1]]);
+    const asc = allPages(store, { sort: "createdAt", order: "asc", limit: 3 });
+    expect(asc).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+  });
+
+  it("breaks ties on the sort column by id across page boundaries", () => {
+    // Five tasks share deadline 500; pages of two split the tie group
+    const store = storeWith([
+      task(1, { deadline: 500 }),
+      task(2, { deadline: 900 }),
+      task(3, { deadline: 500 }),
+      task(4, { deadline: 500 }),
+      task(5, { deadline: 100 }),
+      task(6, { deadline: 500 }),
+      task(7, { deadline: 500 }),
+    ]);
+    expect(allPages(store, { sort: "deadline", order: "asc", limit: 2 }).flat()).toEqual([5, 1, 3, 4, 6, 7, 2]);
+    expect(allPages(store, { sort: "deadline", order: "desc", limit: 2 }).flat()).toEqual([2, 7, 6, 4, 3, 1, 5]);
+  });
+
+  it("reports the total matching the filters, not the page", () => {
+    const store = storeWith(Array.from({ length: 5 }, (_, i) => task(i + 1, { state: i % 2 ? "Claimed" : "Open" })));
+    const page = store.queryTasks({ state: "Open", sort: "createdAt", order: "desc", limit: 1 });
+    expect(page.total).toBe(3);
+    expect(page.tasks.map((t) => t.id)).toEqual([5]);
+    expect(page.next).toEqual({ key: 5, id: 5 });
+  });
+});
+
+describe("bounty sorting and filters", () => {
+  const bounties: Record<number, string> = {
+    1: "999",
+    2: "2000000000000000000", // 2 ETH
+    3: "1000000000000000000000000000000", // 1e30
+    4: MAX_UINT256,
+    5: "10",
+  };
+  const store = storeWith(Object.entries(bounties).map(([id, wei]) => task(Number(id), { bountyAmountWei: wei })));
+
+  it("pads wei to 78 digits so text order is numeric order", () => {
+    expect(padWei("1")).toHaveLength(78);
+    expect(padWei(MAX_UINT256)).toBe(MAX_UINT256);
+    expect(padWei("10") > padWei("9")).toBe(true);
+  });
+
+  it("orders by numeric value, not string value", () => {
+    expect(allPages(store, { sort: "bounty", order: "asc", limit: 2 }).flat()).toEqual([5, 1, 2, 3, 4]);
+    expect(allPages(store, { sort: "bounty", order: "desc", limit: 10 }).flat()).toEqual([4, 3, 2, 1, 5]);
+  });
+
+  it("filters on bounty bounds beyond 2^53", () => {
+    const page = store.queryTasks({
+      minBountyWei: "1000000000000000000",
+      maxBountyWei: "1000000000000000000000000000000",
+      sort: "bounty",
+      order: "asc",
+      limit: 10,
+    });
+    expect(page.tasks.map((t) => t.id)).toEqual([2, 3]);
+    expect(page.total).toBe(2);
+  });
+
+  it("returns the stored bounty unpadded", () => {
+    expect(store.getTask(1)?.bountyAmountWei).toBe("999");
+  });
+});
+
+describe("task stats", () => {
+  it("counts tasks per state and sums completed ETH bounties in wei", () => {
+    const store = storeWith([
+      task(1, { state: "completed", bountyAmountWei: MAX_UINT256 }),
+      task(2, { state: "completed", bountyAmountWei: "5" }),
+      task(3, { state: "completed", bountyAmountWei: "7", paymentToken: "0x00000000000000000000000000000000000000Cc" }),
+      task(4, { state: "open" }),
+    ]);
+    expect(store.taskStats()).toEqual({
+      byState: { completed: 3, open: 1 },
+      completedEthBountyWei: (2n ** 256n + 4n).toString(),
+    });
+  });
+});
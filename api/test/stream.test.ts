@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { indexer, store } from "../src/indexer";
+import type { Activity } from "../src/services/activity";
+import { storedEvent } from "./fakes";
+import { startApp } from "./server";
+
+const POSTER = "0x00000000000000000000000000000000000000aa";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  store.upsertTask({
+    id: 1, poster: POSTER, descriptionHash: "0x", submissionHash: "0x", bountyAmountWei: "5000",
+    paymentToken: "0x0000000000000000000000000000000000000000", deadline: 0, state: "Claimed", assignedAgent: 7, createdAt: 0,
+  });
+  store.insertEvents([
+    storedEvent(1, "ABBCore", "TaskCreatedAndFunded", 10),
+    storedEvent(1, "ABBCore", "TaskClaimedByAgent", 20),
+    storedEvent(1, "ValidatorPool", "PanelRequested", 21),
+  ]);
+  ({ baseUrl, close } = await startApp());
+});
+
+afterAll(async () => {
+  await close();
+});
+
+/** Open /stream, run `during` once it is connected, and collect `count` activities */
+async function collect(query: string, count: number, during?: () => void): Promise<Activity[]> {
+  const abort = new AbortController();
+  const res = await fetch(`${baseUrl}/stream${query}`, { signal: abort.signal });
+  expect(res.headers.get("content-type")).toMatch(/^text\/event-stream/);
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  const activities: Activity[] = [];
+  let buffer = "";
+  during?.();
+  while (activities.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop()!;
+    for (const message of messages) {
+      const data = message.split("\n").find((line) => line.startsWith("data: "));
+      if (data) activities.push(JSON.parse(data.slice(6)));
+    }
+  }
+  abort.abort();
+  return activities;
+}
+
+describe("GET /stream", () => {
+  it("replays activity after Last-Event-ID with the task snapshot, then streams new events", async () => {
+    const activities = await collect("?lastEventId=10-0", 2, () => {
+      setTimeout(() => indexer.emit("events", [storedEvent(1, "ABBCore", "WorkSubmittedForReview", 30)]), 50);
+    });
+
+    expect(activities.map((a) => [a.id, a.type])).toEqual([["20-0", "task.claimed"], ["30-0", "task.submitted"]]);
+    expect(activities[0]).toMatchObject({ taskId: 1, agentId: 7, task: { state: "Claimed", poster: POSTER, bountyAmountWei: "5000" } });
+  });
+
+  it("filters replayed activity by type, bounty and poster", async () => {
+    const activities = await collect(`?lastEventId=0-0&type=task.created,task.submitted&minBountyWei=5000&poster=${POSTER.toUpperCase().replace("0X", "0x")}`, 1);
+    expect(activities.map((a) => a.type)).toEqual(["task.created"]);
+  });
+
+  it("rejects bad filters and activity IDs before opening the stream", async () => {
+    for (const query of ["?type=task.exploded", "?minBountyWei=1e18", "?lastEventId=latest"]) {
+      const res = await fetch(`${baseUrl}/stream${query}`);
+      expect(res.status).toBe(400);
+      expect(await res.json()).toHaveProperty("error");
+    }
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { store } from "../src/indexer";
+import { taskTimeline } from "../src/services/timeline";
+import { storedEvent as event } from "./fakes";
+
+describe("taskTimeline", () => {
+  it("orders a task's events across contracts by block and log index, with their phase", () => {
+    store.insertEvents([
+      event(1, "ABBCore", "ReviewFinalized", 40, { args: { accepted: true, medianScore: 82 } }),
+      event(1, "BountyEscrow", "Released", 40, { logIndex: 1 }),
+      event(1, "ValidatorPool", "PanelSelected", 30, { logIndex: 2 }),
+      event(1, "ABBCore", "WorkSubmittedForReview", 30, { logIndex: 1 }),
+      event(1, "ABBCore", "TaskCreatedAndFunded", 10),
+      event(2, "ABBCore", "TaskCreatedAndFunded", 11),
+    ]);
+
+    expect(taskTimeline(1).map((e) => [e.event, e.phase])).toEqual([
+      ["TaskCreatedAndFunded", "created"],
+      ["WorkSubmittedForReview", "submitted"],
+      ["PanelSelected", "validation"],
+      ["ReviewFinalized", "settlement"],
+      ["Released", "settlement"],
+    ]);
+    expect(taskTimeline(1)[3].args).toEqual({ accepted: true, medianScore: 82 });
+  });
+});
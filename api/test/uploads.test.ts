@@ -0,0 +1,70 @@
+import { keccak256, toUtf8Bytes } from "ethers";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { agentRegistry, taskRegistry } from "../src/services/contracts";
+import { rawAgent, rawTask } from "./fakes";
+import { startApp } from "./server";
+
+const DOCUMENT = JSON.stringify({ title: "Summarise the ERC-8004 spec", body: "One page, plain English." });
+const METADATA = JSON.stringify({ name: "summariser", capabilities: ["summarise"] });
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  vi.spyOn(taskRegistry, "taskExists").mockImplementation(async (...[id]) => Number(id) === 1);
+  vi.spyOn(taskRegistry, "getTask").mockResolvedValue(rawTask({ id: 1n, descriptionHash: keccak256(toUtf8Bytes(DOCUMENT)) }));
+  vi.spyOn(agentRegistry, "agentExists").mockImplementation(async (...[id]) => Number(id) === 3);
+  vi.spyOn(agentRegistry, "getAgent").mockResolvedValue(rawAgent({ id: 3n, metadataHash: keccak256(toUtf8Bytes(METADATA)) }));
+  ({ baseUrl, close } = await startApp());
+});
+
+afterAll(async () => {
+  await close();
+  vi.restoreAllMocks();
+});
+
+function post(path: string, body: unknown): Promise<Response> {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /tasks/:id/description", () => {
+  it("answers 400 for a document that does not match the on-chain hash and keeps serving", async () => {
+    const wrong = await post("/tasks/1/description", { content: DOCUMENT + " " });
+    expect(wrong.status).toBe(400);
+    expect((await wrong.json()).error).toMatch(/does not match on-chain description hash/);
+
+    const stored = await post("/tasks/1/description", { content: DOCUMENT });
+    expect(stored.status).toBe(201);
+    expect(await stored.json()).toMatchObject({ taskId: 1, kind: "description", hash: keccak256(toUtf8Bytes(DOCUMENT)) });
+  });
+
+  it("answers 404 for an unknown task", async () => {
+    const res = await post("/tasks/2/description", { content: DOCUMENT });
+    expect(res.status).toBe(404);
+  });
+
+  it("answers 409 for a submission before work was submitted", async () => {
+    const res = await post("/tasks/1/submission", { content: "done" });
+    expect(res.status).toBe(409);
+  });
+});
+
+describe("POST /agents/:id/metadata", () => {
+  it("answers 400 for metadata that does not match the on-chain hash and keeps serving", async () => {
+    const wrong = await post("/agents/3/metadata", { content: METADATA.replace("summariser", "impostor") });
+    expect(wrong.status).toBe(400);
+
+    const stored = await post("/agents/3/metadata", { content: METADATA });
+    expect(stored.status).toBe(201);
+    expect(await stored.json()).toMatchObject({ agentId: 3, kind: "agent" });
+  });
+
+  it("answers 404 for an unknown agent", async () => {
+    const res = await post("/agents/4/metadata", { content: METADATA });
+    expect(res.status).toBe(404);
+  });
+});
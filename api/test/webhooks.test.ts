@@ -0,0 +1,39 @@
+import { createHmac } from "crypto";
+import { describe, expect, it } from "vitest";
+import { backoffSeconds, signPayload } from "../src/webhooks";
+
+describe("webhook signatures", () => {
+  const secret = "a".repeat(64);
+  const body = JSON.stringify({ id: "123-0", type: "task.created", taskId: 1 });
+
+  it("is an HMAC-SHA256 over `<timestamp>.<body>`", () => {
+    const expected = createHmac("sha256", secret).update(`1700000000.${body}`).digest("hex");
+    expect(signPayload(secret, 1_700_000_000, body)).toBe(`sha256=${expected}`);
+  });
+
+  it("matches a fixed vector", () => {
+    expect(signPayload("secret", 1, "{}")).toBe("sha256=1122767b193110cfec322b6f199b599edbf608ed087f2d27afb0b97d99523908");
+  });
+
+  it("changes with the secret, timestamp and body", () => {
+    const base = signPayload(secret, 1_700_000_000, body);
+    expect(signPayload("b".repeat(64), 1_700_000_000, body)).not.toBe(base);
+    expect(signPayload(secret, 1_700_000_001, body)).not.toBe(base);
+    expect(signPayload(secret, 1_700_000_000, body + " ")).not.toBe(base);
+  });
+});
+
+describe("delivery backoff", () => {
+  it("doubles from 30s within ±20% jitter", () => {
+    for (const [attempts, base] of [[1, 30], [2, 60], [3, 120], [6, 960]]) {
+      const delay = backoffSeconds(attempts);
+      expect(delay).toBeGreaterThanOrEqual(Math.floor(base * 0.8));
+      expect(delay).toBeLessThanOrEqual(Math.ceil(base * 1.2));
+    }
+  });
+
+  it("caps at six hours", () => {
+    expect(backoffSeconds(30)).toBeLessThanOrEqual(Math.ceil(6 * 3600 * 1.2));
+    expect(backoffSeconds(30)).toBeGreaterThanOrEqual(Math.floor(6 * 3600 * 0.8));
+  });
+});
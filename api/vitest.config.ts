@@ -0,0 +1,22 @@
+import { rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { defineConfig } from "vitest/config";
+
+const blobDir = join(tmpdir(), `abb-api-test-${process.pid}`);
+process.once("exit", () => rmSync(blobDir, { recursive: true, force: true }));
+
+// Modules open their SQLite stores and blob directory on import; keep tests off ./data
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    env: {
+      INDEXER_DB_PATH: ":memory:",
+      METADATA_DB_PATH: ":memory:",
+      WEBHOOK_DB_PATH: ":memory:",
+      IPFS_BACKEND: "local",
+      IPFS_LOCAL_DIR: blobDir,
+      LOG_LEVEL: "silent",
+    },
+  },
+});
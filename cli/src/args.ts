@@ -0,0 +1,96 @@
+import { readFileSync } from "node:fs";
+import { isAddress, isHexString, parseEther } from "ethers";
+import { contentHash } from "@agentecon/sdk";
+import { UsageError } from "./errors.js";
+
+/** Parsed option values, as node:util parseArgs returns them */
+export type OptionValues = Record<string, string | boolean | (string | boolean)[] | undefined>;
+
+export function requirePositional(positionals: string[], index: number, name: string): string {
+  const value = positionals[index];
+  if (value === undefined) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+export function optionString(values: OptionValues, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+export function requireOption(values: OptionValues, name: string): string {
+  const value = optionString(values, name);
+  if (value === undefined) throw new UsageError(`Missing --${name}`);
+  return value;
+}
+
+export function parseId(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) throw new UsageError(`${name} must be a non-negative integer, got "${value}"`);
+  return Number(value);
+}
+
+export function parseEth(value: string, name: string): bigint {
+  let wei: bigint;
+  try {
+    wei = parseEther(value);
+  } catch {
+    throw new UsageError(`${name} must be an ETH amount like 0.05, got "${value}"`);
+  }
+  if (wei <= 0n) throw new UsageError(`${name} must be greater than zero`);
+  return wei;
+}
+
+export function parseScore(value: string): number {
+  const score = Number(value);
+  if (!Number.isInteger(score) || score < 0 || score > 100) throw new UsageError(`score must be an integer 0-100, got "${value}"`);
+  return score;
+}
+
+export function parseAddress(value: string, name: string): string {
+  if (!isAddress(value)) throw new UsageError(`${name} must be an address, got "${value}"`);
+  return value;
+}
+
+const UNIT_SECONDS: Record<string, number> = { m: 60, h: 3600, d: 86400 };
+
+/** A deadline as unix seconds: `1767225600`, an ISO date, or relative to now (`90m`, `24h`, `7d`) */
+export function parseDeadline(value: string, now = Math.floor(Date.now() / 1000)): number {
+  const relative = value.match(/^\+?(\d+)([mhd])$/);
+  if (relative) return now + Number(relative[1]) * UNIT_SECONDS[relative[2]];
+  if (/^\d{9,}$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new UsageError(`--deadline must be unix seconds, an ISO date or a duration like 24h, got "${value}"`);
+  return Math.floor(ms / 1000);
+}
+
+export interface ContentArg {
+  hash: string;
+  /** The content itself, or null when only a precomputed hash was given */
+  text: string | null;
+}
+
+/**
+ * Content given as `--<name> <text>`, `--<name>-file <path>` or a precomputed
+ * `--<name>-hash <bytes32>`; exactly one is required
+ */
+export function contentArg(values: OptionValues, name: string): ContentArg {
+  const text = optionString(values, name);
+  const file = optionString(values, `${name}-file`);
+  const hash = optionString(values, `${name}-hash`);
+  const given = [text, file, hash].filter((v) => v !== undefined).length;
+  if (given !== 1) throw new UsageError(`Pass exactly one of --${name}, --${name}-file or --${name}-hash`);
+
+  if (hash !== undefined) {
+    if (!isHexString(hash, 32) || /^0x0{64}$/.test(hash)) throw new UsageError(`--${name}-hash must be a non-zero bytes32 hex string`);
+    return { hash, text: null };
+  }
+  let content = text;
+  if (file !== undefined) {
+    try {
+      content = readFileSync(file, "utf8");
+    } catch (err: any) {
+      throw new UsageError(`Cannot read --${name}-file ${file}: ${err.message}`);
+    }
+  }
+  if (!content) throw new UsageError(`--${name} must not be empty`);
+  return { hash: contentHash(content), text: content };
+}
@@ -0,0 +1,16 @@
+import type { ParseArgsConfig } from "node:util";
+import type { OptionValues } from "./args.js";
+import type { Context } from "./context.js";
+import type { CommandResult } from "./output.js";
+
+export type Options = NonNullable<ParseArgsConfig["options"]>;
+
+export interface Command {
+  /** Arguments after `abb <group> <name>`, e.g. `<taskId> --agent <agentId>` */
+  usage: string;
+  summary: string;
+  options?: Options;
+  run(ctx: Context, positionals: string[], values: OptionValues): Promise<CommandResult>;
+}
+
+export type CommandGroup = Record<string, Command>;
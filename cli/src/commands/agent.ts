@@ -0,0 +1,68 @@
+import { deregisterAgent, readAgent, registerAgent, updateAgentMetadata } from "@agentecon/sdk";
+import { contentArg, parseId, requirePositional } from "../args.js";
+import type { CommandGroup, Options } from "../command.js";
+import { publish } from "../context.js";
+import { UsageError } from "../errors.js";
+
+const metadataOptions: Options = {
+  metadata: { type: "string" },
+  "metadata-file": { type: "string" },
+  "metadata-hash": { type: "string" },
+};
+
+const METADATA_USAGE = "(--metadata <json> | --metadata-file <path> | --metadata-hash <bytes32>)";
+
+const agentIdArg = (positionals: string[]) => parseId(requirePositional(positionals, 0, "agentId"), "agentId");
+
+export const agentCommands: CommandGroup = {
+  register: {
+    usage: METADATA_USAGE,
+    summary: "Register an agent operated by your address",
+    options: metadataOptions,
+    async run(ctx, _positionals, values) {
+      const metadata = contentArg(values, "metadata");
+      const { receipt, agentId } = await registerAgent(await ctx.writeContracts(), metadata.hash);
+      const published = await publish(ctx, `/agents/${agentId}/metadata`, metadata.text);
+      return {
+        summary: `Registered agent ${agentId}`,
+        data: { agentId, txHash: receipt.hash, metadataHash: metadata.hash, metadataPublished: published },
+      };
+    },
+  },
+
+  show: {
+    usage: "<agentId>",
+    summary: "Show an agent",
+    async run(ctx, positionals) {
+      const id = agentIdArg(positionals);
+      if (!(await ctx.contracts.agentRegistry.agentExists(id))) throw new UsageError(`Agent ${id} does not exist`);
+      return { data: await readAgent(ctx.contracts, id) };
+    },
+  },
+
+  "update-metadata": {
+    usage: `<agentId> ${METADATA_USAGE}`,
+    summary: "Replace your agent's metadata document",
+    options: metadataOptions,
+    async run(ctx, positionals, values) {
+      const agentId = agentIdArg(positionals);
+      const metadata = contentArg(values, "metadata");
+      const receipt = await updateAgentMetadata(await ctx.writeContracts(), agentId, metadata.hash);
+      const published = await publish(ctx, `/agents/${agentId}/metadata`, metadata.text);
+      return {
+        summary: `Updated agent ${agentId}'s metadata`,
+        data: { agentId, txHash: receipt.hash, metadataHash: metadata.hash, metadataPublished: published },
+      };
+    },
+  },
+
+  deregister: {
+    usage: "<agentId>",
+    summary: "Deactivate your agent",
+    async run(ctx, positionals) {
+      const agentId = agentIdArg(positionals);
+      const receipt = await deregisterAgent(await ctx.writeContracts(), agentId);
+      return { summary: `Deregistered agent ${agentId}`, data: { agentId, txHash: receipt.hash } };
+    },
+  },
+};
@@ -0,0 +1,31 @@
+import { readClaimable, withdrawETH, withdrawToken } from "@agentecon/sdk";
+import { optionString, parseAddress } from "../args.js";
+import type { CommandGroup } from "../command.js";
+import { CliError } from "../errors.js";
+
+export const escrowCommands: CommandGroup = {
+  withdraw: {
+    usage: "[--token <address>]",
+    summary: "Withdraw your claimable bounties and refunds (ETH, or one ERC-20 token)",
+    options: { token: { type: "string" } },
+    async run(ctx, _positionals, values) {
+      const tokenArg = optionString(values, "token");
+      const token = tokenArg !== undefined ? parseAddress(tokenArg, "--token") : undefined;
+      const contracts = await ctx.writeContracts();
+      const account = (await ctx.signer()).address;
+      const claimable = await readClaimable(contracts, account, token);
+
+      if (token === undefined) {
+        if (claimable.ethWei === "0") throw new CliError(`${account} has no claimable ETH`);
+        const receipt = await withdrawETH(contracts);
+        return { summary: `Withdrew ${claimable.eth} ETH`, data: { amount: claimable.eth, amountWei: claimable.ethWei, txHash: receipt.hash } };
+      }
+      if (claimable.token?.amountWei === "0") throw new CliError(`${account} has no claimable balance of ${token}`);
+      const receipt = await withdrawToken(contracts, token);
+      return {
+        summary: `Withdrew ${claimable.token?.amountWei} base units of ${token}`,
+        data: { token, amountWei: claimable.token?.amountWei, txHash: receipt.hash },
+      };
+    },
+  },
+};
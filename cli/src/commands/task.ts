@@ -0,0 +1,169 @@
+import { Contract, formatEther, parseUnits } from "ethers";
+import type { TransactionReceipt } from "ethers";
+import {
+  TaskState,
+  cancelTask,
+  claimTask,
+  createTaskETH,
+  createTaskToken,
+  finalizeReview,
+  listTasks,
+  raiseDispute,
+  readTask,
+  submitWork,
+} from "@agentecon/sdk";
+import type { ProtocolContracts, TaskStateName } from "@agentecon/sdk";
+import { contentArg, optionString, parseAddress, parseDeadline, parseEth, parseId, requireOption, requirePositional } from "../args.js";
+import type { CommandGroup } from "../command.js";
+import { publish } from "../context.js";
+import { UsageError } from "../errors.js";
+
+const ERC20_ABI = ["function decimals() view returns (uint8)", "function symbol() view returns (string)"];
+
+const taskIdArg = (positionals: string[]) => parseId(requirePositional(positionals, 0, "taskId"), "taskId");
+
+export const taskCommands: CommandGroup = {
+  create: {
+    usage: "(--bounty <eth> | --token <address> --amount <units>) --deadline <when> (--description <text> | --description-file <path> | --description-hash <bytes32>)",
+    summary: "Post a task and fund its bounty in escrow",
+    options: {
+      bounty: { type: "string" },
+      token: { type: "string" },
+      amount: { type: "string" },
+      deadline: { type: "string" },
+      description: { type: "string" },
+      "description-file": { type: "string" },
+      "description-hash": { type: "string" },
+    },
+    async run(ctx, _positionals, values) {
+      const description = contentArg(values, "description");
+      const deadline = parseDeadline(requireOption(values, "deadline"));
+      if (deadline <= Math.floor(Date.now() / 1000)) throw new UsageError("--deadline must be in the future");
+      const token = optionString(values, "token");
+      if ((token === undefined) === (optionString(values, "bounty") === undefined)) {
+        throw new UsageError("Pass either --bounty (ETH) or --token with --amount");
+      }
+
+      let bounty: string;
+      let create: (contracts: ProtocolContracts) => Promise<{ taskId: number; receipt: TransactionReceipt }>;
+      if (token === undefined) {
+        const bountyWei = parseEth(requireOption(values, "bounty"), "--bounty");
+        bounty = `${formatEther(bountyWei)} ETH`;
+        create = (contracts) => createTaskETH(contracts, { descriptionHash: description.hash, deadline, bountyWei });
+      } else {
+        const erc20 = new Contract(parseAddress(token, "--token"), ERC20_ABI, ctx.provider);
+        const [decimals, symbol] = await Promise.all([erc20.decimals(), erc20.symbol()]);
+        const amountArg = requireOption(values, "amount");
+        let amount: bigint;
+        try {
+          amount = parseUnits(amountArg, decimals);
+        } catch {
+          throw new UsageError(`--amount must be a ${symbol} amount with at most ${decimals} decimals, got "${amountArg}"`);
+        }
+        if (amount <= 0n) throw new UsageError("--amount must be greater than zero");
+        bounty = `${amountArg} ${symbol}`;
+        create = (contracts) => createTaskToken(contracts, { descriptionHash: description.hash, token, amount, deadline });
+      }
+
+      const created = await create(await ctx.writeContracts());
+      const published = await publish(ctx, `/tasks/${created.taskId}/description`, description.text);
+      return {
+        summary: `Created task ${created.taskId} with a ${bounty} bounty`,
+        data: {
+          taskId: created.taskId,
+          txHash: created.receipt.hash,
+          descriptionHash: description.hash,
+          deadline: new Date(deadline * 1000).toISOString(),
+          descriptionPublished: published,
+        },
+      };
+    },
+  },
+
+  list: {
+    usage: "[--state <state>]",
+    summary: "List tasks, optionally only those in one state",
+    options: { state: { type: "string" } },
+    async run(ctx, _positionals, values) {
+      const state = optionString(values, "state");
+      if (state !== undefined && !(TaskState as readonly string[]).includes(state)) {
+        throw new UsageError(`--state must be one of ${TaskState.join(", ")}`);
+      }
+      const tasks = await listTasks(ctx.contracts, { state: state as TaskStateName | undefined });
+      return { summary: `${tasks.length} task(s)`, data: tasks };
+    },
+  },
+
+  show: {
+    usage: "<taskId>",
+    summary: "Show a task",
+    async run(ctx, positionals) {
+      const id = taskIdArg(positionals);
+      if (!(await ctx.contracts.taskRegistry.taskExists(id))) throw new UsageError(`Task ${id} does not exist`);
+      return { data: await readTask(ctx.contracts, id) };
+    },
+  },
+
+  claim: {
+    usage: "<taskId> --agent <agentId>",
+    summary: "Claim an open task for one of your agents",
+    options: { agent: { type: "string" } },
+    async run(ctx, positionals, values) {
+      const taskId = taskIdArg(positionals);
+      const agentId = parseId(requireOption(values, "agent"), "--agent");
+      const receipt = await claimTask(await ctx.writeContracts(), taskId, agentId);
+      return { summary: `Agent ${agentId} claimed task ${taskId}`, data: { taskId, agentId, txHash: receipt.hash } };
+    },
+  },
+
+  submit: {
+    usage: "<taskId> (--submission <text> | --submission-file <path> | --submission-hash <bytes32>)",
+    summary: "Submit work for a claimed task, starting validator review",
+    options: {
+      submission: { type: "string" },
+      "submission-file": { type: "string" },
+      "submission-hash": { type: "string" },
+    },
+    async run(ctx, positionals, values) {
+      const taskId = taskIdArg(positionals);
+      const submission = contentArg(values, "submission");
+      const receipt = await submitWork(await ctx.writeContracts(), taskId, submission.hash);
+      const published = await publish(ctx, `/tasks/${taskId}/submission`, submission.text);
+      return {
+        summary: `Submitted work for task ${taskId}`,
+        data: { taskId, txHash: receipt.hash, submissionHash: submission.hash, submissionPublished: published },
+      };
+    },
+  },
+
+  cancel: {
+    usage: "<taskId>",
+    summary: "Cancel your open task and refund the bounty",
+    async run(ctx, positionals) {
+      const taskId = taskIdArg(positionals);
+      const receipt = await cancelTask(await ctx.writeContracts(), taskId);
+      return { summary: `Cancelled task ${taskId}; the bounty is claimable with \`abb escrow withdraw\``, data: { taskId, txHash: receipt.hash } };
+    },
+  },
+
+  dispute: {
+    usage: "<taskId>",
+    summary: "Dispute a task's review outcome (poster or assigned agent)",
+    async run(ctx, positionals) {
+      const taskId = taskIdArg(positionals);
+      const receipt = await raiseDispute(await ctx.writeContracts(), taskId);
+      return { summary: `Raised a dispute on task ${taskId}`, data: { taskId, txHash: receipt.hash } };
+    },
+  },
+
+  finalize: {
+    usage: "<taskId>",
+    summary: "Finalize a task's review once the panel has scored",
+    async run(ctx, positionals) {
+      const taskId = taskIdArg(positionals);
+      const { receipt, accepted, medianScore } = await finalizeReview(await ctx.writeContracts(), taskId);
+      const outcome = accepted === null ? "finalized" : accepted ? `accepted (median ${medianScore})` : `rejected (median ${medianScore})`;
+      return { summary: `Review of task ${taskId} ${outcome}`, data: { taskId, accepted, medianScore, txHash: receipt.hash } };
+    },
+  },
+};
@@ -0,0 +1,145 @@
+import { formatEther, isHexString } from "ethers";
+import {
+  addStake,
+  commitScore,
+  completeUnstake,
+  initiateUnstake,
+  readValidator,
+  registerValidator,
+  revealScore,
+  submitScore,
+} from "@agentecon/sdk";
+import { optionString, parseAddress, parseEth, parseId, parseScore, requirePositional } from "../args.js";
+import type { CommandGroup } from "../command.js";
+import { commitmentStore } from "../commitments.js";
+import { CliError, UsageError } from "../errors.js";
+
+const taskIdArg = (positionals: string[]) => parseId(requirePositional(positionals, 0, "taskId"), "taskId");
+
+export const validatorCommands: CommandGroup = {
+  register: {
+    usage: "--stake <eth> [--ai]",
+    summary: "Register as a validator with an initial stake (--ai marks an AI validator, V2)",
+    options: { stake: { type: "string" }, ai: { type: "boolean" } },
+    async run(ctx, _positionals, values) {
+      const stakeWei = parseEth(optionString(values, "stake") ?? "", "--stake");
+      const isAI = values.ai === true;
+      if (isAI && ctx.network.version === "v1") throw new UsageError("--ai needs a V2 deployment");
+      const receipt = await registerValidator(await ctx.writeContracts(), { stakeWei, isAI });
+      return {
+        summary: `Registered as ${isAI ? "an AI" : "a"} validator with ${formatEther(stakeWei)} ETH staked`,
+        data: { address: (await ctx.signer()).address, stake: formatEther(stakeWei), isAIValidator: isAI, txHash: receipt.hash },
+      };
+    },
+  },
+
+  show: {
+    usage: "[address]",
+    summary: "Show a validator (default: your signer)",
+    async run(ctx, positionals) {
+      const address = positionals[0] !== undefined ? parseAddress(positionals[0], "address") : (await ctx.signer()).address;
+      const validator = await readValidator(ctx.contracts, address);
+      if (validator.registeredAt === 0) throw new CliError(`${address} is not a registered validator`);
+      return { data: validator };
+    },
+  },
+
+  stake: {
+    usage: "<eth>",
+    summary: "Add to your stake",
+    async run(ctx, positionals) {
+      const amountWei = parseEth(requirePositional(positionals, 0, "eth"), "amount");
+      const receipt = await addStake(await ctx.writeContracts(), amountWei);
+      return { summary: `Added ${formatEther(amountWei)} ETH to your stake`, data: { amount: formatEther(amountWei), txHash: receipt.hash } };
+    },
+  },
+
+  unstake: {
+    usage: "<eth> | --complete",
+    summary: "Start unstaking an amount, or --complete a pending unstake after the cooldown",
+    options: { complete: { type: "boolean" } },
+    async run(ctx, positionals, values) {
+      if (values.complete === true) {
+        if (positionals.length) throw new UsageError("--complete takes no amount");
+        const receipt = await completeUnstake(await ctx.writeContracts());
+        return { summary: "Unstake completed; the ETH was sent to your address", data: { txHash: receipt.hash } };
+      }
+      const amountWei = parseEth(requirePositional(positionals, 0, "eth"), "amount");
+      const contracts = await ctx.writeContracts();
+      const receipt = await initiateUnstake(contracts, amountWei);
+      const validator = await readValidator(contracts, (await ctx.signer()).address);
+      return {
+        summary: `Unstaking ${formatEther(amountWei)} ETH; run \`abb validator unstake --complete\` after the cooldown`,
+        data: {
+          amount: formatEther(amountWei),
+          cooldownEndsAt: validator.cooldownEndsAt && new Date(validator.cooldownEndsAt * 1000).toISOString(),
+          txHash: receipt.hash,
+        },
+      };
+    },
+  },
+
+  commit: {
+    usage: "<taskId> <score>",
+    summary: "Commit a score for a Premium (or V1) review round; the salt is kept locally for reveal",
+    async run(ctx, positionals) {
+      const taskId = taskIdArg(positionals);
+      const score = parseScore(requirePositional(positionals, 1, "score"));
+      const contracts = await ctx.writeContracts();
+      const validator = (await ctx.signer()).address;
+      const pool = await contracts.validatorPool.getAddress();
+
+      // Re-running after a crash reuses the stored salt rather than committing a second, unrevealable hash
+      const store = commitmentStore();
+      let commitment = store.get(pool, validator, taskId);
+      if (commitment && commitment.score !== score) {
+        throw new CliError(`A score of ${commitment.score} is already committed for task ${taskId}; reveal it with \`abb validator reveal ${taskId}\``);
+      }
+      commitment ??= store.create(pool, validator, taskId, score);
+      const receipt = await commitScore(contracts, taskId, commitment.commitHash);
+      return {
+        summary: `Committed a score for task ${taskId}; reveal it with \`abb validator reveal ${taskId}\` once the commit phase ends`,
+        data: { taskId, score, commitHash: commitment.commitHash, txHash: receipt.hash },
+      };
+    },
+  },
+
+  reveal: {
+    usage: "<taskId> [--score <score> --salt <bytes32>]",
+    summary: "Reveal a committed score (defaults to the locally stored score and salt)",
+    options: { score: { type: "string" }, salt: { type: "string" } },
+    async run(ctx, positionals, values) {
+      const taskId = taskIdArg(positionals);
+      const scoreArg = optionString(values, "score");
+      const saltArg = optionString(values, "salt");
+      if ((scoreArg === undefined) !== (saltArg === undefined)) throw new UsageError("Pass --score and --salt together");
+      if (saltArg !== undefined && !isHexString(saltArg, 32)) throw new UsageError("--salt must be a bytes32 hex string");
+
+      const contracts = await ctx.writeContracts();
+      const validator = (await ctx.signer()).address;
+      const store = commitmentStore();
+      const stored = store.get(await contracts.validatorPool.getAddress(), validator, taskId);
+      const score = scoreArg !== undefined ? parseScore(scoreArg) : stored?.score;
+      const salt = saltArg ?? stored?.salt;
+      if (score === undefined || salt === undefined) {
+        throw new CliError(`No stored commitment for task ${taskId} from ${validator}; pass --score and --salt`);
+      }
+
+      const receipt = await revealScore(contracts, taskId, score, salt);
+      if (stored) store.remove(stored);
+      return { summary: `Revealed a score of ${score} for task ${taskId}`, data: { taskId, score, txHash: receipt.hash } };
+    },
+  },
+
+  score: {
+    usage: "<taskId> <score>",
+    summary: "Submit a score directly for a Micro or Standard review round (V2)",
+    async run(ctx, positionals) {
+      if (ctx.network.version === "v1") throw new UsageError("Direct scoring needs a V2 deployment; use commit and reveal");
+      const taskId = taskIdArg(positionals);
+      const score = parseScore(requirePositional(positionals, 1, "score"));
+      const receipt = await submitScore(await ctx.writeContracts(), taskId, score);
+      return { summary: `Scored task ${taskId}: ${score}`, data: { taskId, score, txHash: receipt.hash } };
+    },
+  },
+};
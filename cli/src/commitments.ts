@@ -0,0 +1,12 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { CommitmentStore } from "@agentecon/sdk/commitments";
+
+/**
+ * Salts for `validator commit`, kept until `validator reveal` needs them (see
+ * @agentecon/sdk/commitments). The file is ABB_COMMITMENTS, default
+ * ~/.abb/commitments.json, and holds secrets until the reveal.
+ */
+export function commitmentStore(): CommitmentStore {
+  return new CommitmentStore(process.env.ABB_COMMITMENTS ?? join(homedir(), ".abb", "commitments.json"));
+}
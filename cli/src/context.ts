@@ -0,0 +1,59 @@
+import { JsonRpcProvider } from "ethers";
+import { connectAll, createContracts } from "@agentecon/sdk";
+import type { ProtocolContracts } from "@agentecon/sdk";
+import type { NetworkProfile } from "./networks.js";
+import { loadSigner } from "./signer.js";
+import type { CliSigner } from "./signer.js";
+
+/** What a command runs against: the selected network, read-only contracts and a lazily unlocked signer */
+export interface Context {
+  network: NetworkProfile;
+  provider: JsonRpcProvider;
+  contracts: ProtocolContracts;
+  /** Unlocks the keystore on first use, so read commands never prompt */
+  signer(): Promise<CliSigner>;
+  /** The contracts bound to the signer */
+  writeContracts(): Promise<ProtocolContracts>;
+}
+
+export function createContext(network: NetworkProfile, keystore: string | undefined): Context {
+  const provider = new JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+  const contracts = createContracts(network.contracts, provider, network.version);
+  let signer: Promise<CliSigner> | null = null;
+
+  const ctx: Context = {
+    network,
+    provider,
+    contracts,
+    signer() {
+      signer ??= loadSigner(provider, keystore ?? network.keystore);
+      return signer;
+    },
+    async writeContracts() {
+      return connectAll(contracts, await ctx.signer());
+    },
+  };
+  return ctx;
+}
+
+const PUBLISH_TIMEOUT_MS = 10_000;
+
+/**
+ * Post content to the network's API (e.g. `/tasks/7/description`) once its
+ * hash is on chain, so the API can serve it. Best effort: returns false when
+ * no API is configured or the upload fails; the on-chain hash still stands.
+ */
+export async function publish(ctx: Context, path: string, content: string | null): Promise<boolean> {
+  if (!ctx.network.apiUrl || content === null) return false;
+  try {
+    const response = await fetch(`${ctx.network.apiUrl.replace(/\/$/, "")}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content }),
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
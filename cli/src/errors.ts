@@ -0,0 +1,15 @@
+/** A failure to report as a plain message, without a stack trace */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+/** Bad arguments: reported with the command's usage and exit code 2 */
+export class UsageError extends CliError {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
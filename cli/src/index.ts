@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import type { Command, CommandGroup, Options } from "./command.js";
+import { agentCommands } from "./commands/agent.js";
+import { escrowCommands } from "./commands/escrow.js";
+import { taskCommands } from "./commands/task.js";
+import { validatorCommands } from "./commands/validator.js";
+import { createContext } from "./context.js";
+import { UsageError } from "./errors.js";
+import { loadNetwork } from "./networks.js";
+import { printError, printResult } from "./output.js";
+
+const GROUPS: Record<string, CommandGroup> = {
+  task: taskCommands,
+  agent: agentCommands,
+  validator: validatorCommands,
+  escrow: escrowCommands,
+};
+
+const GLOBAL_OPTIONS: Options = {
+  network: { type: "string", short: "n" },
+  "rpc-url": { type: "string" },
+  keystore: { type: "string" },
+  json: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+};
+
+const GLOBAL_USAGE = `Options:
+  -n, --network <name>   Network profile (ABB_NETWORK, default "base"); profiles live in ABB_NETWORKS or ~/.abb/networks.json
+      --rpc-url <url>    Override the profile's RPC endpoint (ABB_RPC_URL)
+      --keystore <file>  Encrypted JSON keystore to sign with (ABB_KEYSTORE); password from ABB_KEYSTORE_PASSWORD or a prompt
+      --json             Print results as JSON
+  -h, --help             Show help`;
+
+function usage(groupName?: string): string {
+  const groups = groupName ? { [groupName]: GROUPS[groupName] } : GROUPS;
+  const lines = Object.entries(groups).flatMap(([group, commands]) =>
+    Object.entries(commands).map(([name, cmd]) => `  abb ${group} ${name} ${cmd.usage}\n      ${cmd.summary}`),
+  );
+  return `Usage:\n${lines.join("\n")}\n\n${GLOBAL_USAGE}`;
+}
+
+/** The group and command names: the first two arguments that are not global options or their values */
+function splitCommand(argv: string[]): { names: string[]; rest: string[] } {
+  const names: string[] = [];
+  const rest: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (names.length < 2 && !arg.startsWith("-")) {
+      names.push(arg);
+      continue;
+    }
+    rest.push(arg);
+    const option = Object.entries(GLOBAL_OPTIONS).find(([long, o]) => arg === `--${long}` || (o.short && arg === `-${o.short}`));
+    if (names.length < 2 && option?.[1].type === "string" && i + 1 < argv.length) rest.push(argv[++i]);
+  }
+  return { names, rest };
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { names: [groupName, commandName], rest } = splitCommand(argv);
+  const group = groupName !== undefined ? GROUPS[groupName] : undefined;
+  const command: Command | undefined = group && commandName !== undefined ? group[commandName] : undefined;
+  const json = rest.includes("--json");
+
+  if (!command) {
+    const wantsHelp = rest.includes("--help") || rest.includes("-h") || groupName === undefined;
+    const message = groupName === undefined || group ? null : `Unknown command group "${groupName}"`;
+    if (message) console.error(message + "\n");
+    else if (group && commandName !== undefined) console.error(`Unknown command "${groupName} ${commandName}"\n`);
+    (wantsHelp && !message ? console.log : console.error)(usage(group ? groupName : undefined));
+    return wantsHelp && !message ? 0 : 2;
+  }
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: rest,
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+      strict: true,
+    });
+    if (values.help) {
+      console.log(`Usage: abb ${groupName} ${commandName} ${command.usage}\n  ${command.summary}\n\n${GLOBAL_USAGE}`);
+      return 0;
+    }
+
+    const network = loadNetwork(
+      (values.network as string | undefined) ?? process.env.ABB_NETWORK ?? "base",
+      (values["rpc-url"] as string | undefined) ?? process.env.ABB_RPC_URL,
+    );
+    const ctx = createContext(network, (values.keystore as string | undefined) ?? process.env.ABB_KEYSTORE);
+    try {
+      printResult(await command.run(ctx, positionals, values), json);
+    } finally {
+      ctx.provider.destroy();
+    }
+    return 0;
+  } catch (err: any) {
+    // parseArgs reports unknown or malformed options as ERR_PARSE_ARGS_*
+    const usageError = err instanceof UsageError || String(err?.code).startsWith("ERR_PARSE_ARGS");
+    printError(usageError && !(err instanceof UsageError) ? new UsageError(err.message) : err, json);
+    if (usageError && !json) console.error(`\nUsage: abb ${groupName} ${commandName} ${command.usage}`);
+    return usageError ? 2 : 1;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
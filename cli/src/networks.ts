@@ -0,0 +1,74 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { DEPLOYMENTS } from "@agentecon/sdk";
+import type { ContractAddresses, ProtocolVersion } from "@agentecon/sdk";
+import { CliError } from "./errors.js";
+
+/**
+ * `--network` profiles: the RPC endpoint and contract addresses a command
+ * runs against. `base` is built in from the SDK's deployments; others come
+ * from a JSON file (ABB_NETWORKS, default ~/.abb/networks.json) keyed by
+ * profile name, which may also override `base`.
+ */
+
+export interface NetworkProfile {
+  name: string;
+  rpcUrl: string;
+  chainId: number;
+  version: ProtocolVersion;
+  contracts: ContractAddresses;
+  /** API base URL; when set, descriptions, submissions and agent metadata are published to it */
+  apiUrl?: string;
+  /** Keystore used when --keystore is not given */
+  keystore?: string;
+}
+
+const BUILTIN: Record<string, NetworkProfile> = {
+  base: { name: "base", rpcUrl: "https://mainnet.base.org", ...DEPLOYMENTS.base },
+};
+
+const REQUIRED_CONTRACTS = ["abbCore", "taskRegistry", "agentRegistry", "validatorPool", "bountyEscrow"] as const;
+
+export function networksPath(): string {
+  return process.env.ABB_NETWORKS ?? join(homedir(), ".abb", "networks.json");
+}
+
+function loadProfiles(): Record<string, Partial<NetworkProfile>> {
+  const path = networksPath();
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    if (err.code === "ENOENT") return {};
+    throw new CliError(`Cannot read network profiles ${path}: ${err.message}`);
+  }
+}
+
+/** Resolve a profile by name; `rpcUrl` (from --rpc-url or ABB_RPC_URL) overrides the profile's endpoint */
+export function loadNetwork(name: string, rpcUrl?: string): NetworkProfile {
+  const profiles = loadProfiles();
+  const custom = profiles[name];
+  const builtin = BUILTIN[name];
+  if (!custom && !builtin) {
+    const known = [...new Set([...Object.keys(BUILTIN), ...Object.keys(profiles)])].join(", ");
+    throw new CliError(`Unknown network "${name}". Known networks: ${known}. Add profiles to ${networksPath()}.`);
+  }
+
+  const profile = {
+    ...builtin,
+    ...custom,
+    contracts: { ...builtin?.contracts, ...custom?.contracts },
+    name,
+  } as NetworkProfile;
+  if (rpcUrl) profile.rpcUrl = rpcUrl;
+  profile.version ??= "v2";
+
+  if (!profile.rpcUrl) throw new CliError(`Network "${name}" has no rpcUrl`);
+  if (typeof profile.chainId !== "number") throw new CliError(`Network "${name}" has no chainId`);
+  const missing = REQUIRED_CONTRACTS.filter((c) => !profile.contracts[c]);
+  if (missing.length) throw new CliError(`Network "${name}" is missing contract addresses: ${missing.join(", ")}`);
+  if (profile.version !== "v1" && profile.version !== "v2") {
+    throw new CliError(`Network "${name}" version must be v1 or v2, got ${profile.version}`);
+  }
+  return profile;
+}
@@ -0,0 +1,56 @@
+import { decodeContractError } from "@agentecon/sdk";
+import { CliError } from "./errors.js";
+
+/**
+ * Command results go to stdout: JSON with --json, otherwise a summary line
+ * followed by the result as indented `key: value` lines. Errors go to stderr
+ * in the same format.
+ */
+
+export interface CommandResult {
+  /** One human-readable line on what happened */
+  summary?: string;
+  data: unknown;
+}
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+function human(value: unknown, indent = ""): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${indent}(none)`];
+    return value.flatMap((item, i) => (i > 0 ? [""] : []).concat(human(item, indent)));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, v]) =>
+      v !== null && typeof v === "object"
+        ? [`${indent}${key}:`, ...human(v, indent + "  ")]
+        : [`${indent}${key}: ${v === null ? "-" : String(v)}`],
+    );
+  }
+  return [`${indent}${String(value)}`];
+}
+
+export function printResult(result: CommandResult, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(result.data, jsonReplacer, 2));
+    return;
+  }
+  if (result.summary) console.log(result.summary);
+  if (result.data !== undefined) console.log(human(result.data).join("\n"));
+}
+
+/** Message and stable code for a failed command; protocol reverts carry the SDK's error code */
+export function describeError(err: any): { error: string; code: string } {
+  const decoded = decodeContractError(err);
+  if (decoded) return { error: `${decoded.contract}.${decoded.error}: ${decoded.hint}`, code: decoded.code };
+  if (err instanceof CliError) return { error: err.message, code: err.name === "UsageError" ? "USAGE" : "CLI_ERROR" };
+  return { error: err?.shortMessage ?? err?.message ?? String(err), code: err?.code ?? "ERROR" };
+}
+
+export function printError(err: unknown, json: boolean): void {
+  const { error, code } = describeError(err);
+  if (json) console.error(JSON.stringify({ error, code }, null, 2));
+  else console.error(`Error: ${error}${code === "CLI_ERROR" || code === "USAGE" ? "" : ` [${code}]`}`);
+}
@@ -0,0 +1,64 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { createInterface } from "node:readline";
+import { Wallet } from "ethers";
+import type { HDNodeWallet, Provider } from "ethers";
+import { CliError } from "./errors.js";
+
+/**
+ * Signers for write commands. The normal path is an encrypted JSON keystore
+ * (geth / `cast wallet import` format) from --keystore or the network
+ * profile, unlocked with ABB_KEYSTORE_PASSWORD or an interactive prompt.
+ * ABB_PRIVATE_KEY is accepted for scripts and local devnets only.
+ */
+
+export type CliSigner = Wallet | HDNodeWallet;
+
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? homedir() + path.slice(1) : path;
+}
+
+/** Read a line from the terminal without echoing it */
+function promptHidden(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(new CliError("No terminal to prompt for the keystore password; set ABB_KEYSTORE_PASSWORD"));
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stderr, terminal: true });
+  const output = rl as unknown as { _writeToOutput: (s: string) => void };
+  let prompted = false;
+  output._writeToOutput = (s: string) => {
+    if (!prompted) {
+      prompted = true;
+      process.stderr.write(s);
+    }
+  };
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stderr.write("\n");
+      resolve(answer);
+    });
+  });
+}
+
+export async function loadSigner(provider: Provider, keystore: string | undefined): Promise<CliSigner> {
+  if (keystore) {
+    const path = expandHome(keystore);
+    let json: string;
+    try {
+      json = readFileSync(path, "utf8");
+    } catch (err: any) {
+      throw new CliError(`Cannot read keystore ${path}: ${err.message}`);
+    }
+    const password = process.env.ABB_KEYSTORE_PASSWORD ?? await promptHidden(`Password for ${path}: `);
+    try {
+      return (await Wallet.fromEncryptedJson(json, password)).connect(provider);
+    } catch (err: any) {
+      throw new CliError(`Cannot unlock keystore ${path}: ${err.shortMessage ?? err.message}`);
+    }
+  }
+
+  const key = process.env.ABB_PRIVATE_KEY;
+  if (key) return new Wallet(key, provider);
+  throw new CliError("This command sends a transaction: pass --keystore <file>, set a keystore in the network profile, or set ABB_PRIVATE_KEY");
+}
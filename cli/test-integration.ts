@@ -0,0 +1,200 @@
+/**
+ * Integration test for the Agent Bounty Board contracts, driven through the `abb` CLI.
+ * Run: npm run test:integration (reads RPC_URL, SIGNER_PRIVATE_KEY, PROTOCOL_VERSION
+ * and the *_ADDRESS variables from the environment or cli/.env)
+ *
+ * Tests the full flow:
+ *   1. Configure short commit/reveal timing (owner only, through the SDK)
+ *   2. Register an agent
+ *   3. Create a task with a 0.001 ETH bounty
+ *   4. Agent claims the task
+ *   5. Register 5 validators (funded from the signer, 0.1 ETH stake each)
+ *   6. Agent submits work
+ *   7. Validators score the task: directly on Micro/Standard, commit-reveal on Premium and V1
+ *   8. Finalize the review and check the task completed
+ */
+
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JsonRpcProvider, Wallet, formatEther, keccak256, parseEther, solidityPacked } from "ethers";
+import { createContracts } from "@agentecon/sdk";
+import type { ProtocolVersion } from "@agentecon/sdk";
+
+const ENV_FILE = join(import.meta.dirname, ".env");
+if (existsSync(ENV_FILE)) process.loadEnvFile(ENV_FILE);
+
+// --- Config ---
+const RPC_URL = process.env.RPC_URL!;
+const PRIVATE_KEY = process.env.SIGNER_PRIVATE_KEY!;
+const VERSION = (process.env.PROTOCOL_VERSION ?? "v2") as ProtocolVersion;
+
+const ADDRESSES = {
+  abbCore: process.env.ABBCORE_ADDRESS!,
+  agentRegistry: process.env.AGENT_REGISTRY_ADDRESS!,
+  taskRegistry: process.env.TASK_REGISTRY_ADDRESS!,
+  bountyEscrow: process.env.BOUNTY_ESCROW_ADDRESS!,
+  validatorPool: process.env.VALIDATOR_POOL_ADDRESS!,
+};
+
+const COMMIT_SECONDS = 5;
+const REVEAL_SECONDS = 5;
+const SCORE = 80; // Above PASS_SCORE (60)
+
+// --- Helpers ---
+function step(n: number, desc: string) {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log(`  Step ${n}: ${desc}`);
+  console.log("=".repeat(60));
+}
+
+function pass(msg: string) { console.log(`  ✅ ${msg}`); }
+function info(msg: string) { console.log(`  ℹ️  ${msg}`); }
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+// A throwaway profile and commitment store so the run never touches ~/.abb
+const workDir = mkdtempSync(join(tmpdir(), "abb-integration-"));
+const networksFile = join(workDir, "networks.json");
+
+/** Run `abb <args> --json` signed by `key` and return its parsed output; throws on a non-zero exit */
+function abb(key: string, ...args: string[]): any {
+  const result = spawnSync(process.execPath, ["--import", "tsx", join(import.meta.dirname, "src", "index.ts"), ...args, "--json"], {
+    encoding: "utf8",
+    env: {
+      ...process.env,
+      ABB_NETWORKS: networksFile,
+      ABB_NETWORK: "integration",
+      ABB_COMMITMENTS: join(workDir, "commitments.json"),
+      ABB_PRIVATE_KEY: key,
+    },
+  });
+  if (result.status !== 0) {
+    throw new Error(`abb ${args.join(" ")} exited ${result.status}: ${result.stderr.trim() || result.error?.message}`);
+  }
+  return JSON.parse(result.stdout);
+}
+
+// --- Main ---
+async function main() {
+  const provider = new JsonRpcProvider(RPC_URL);
+  const signer = new Wallet(PRIVATE_KEY, provider);
+  const { chainId } = await provider.getNetwork();
+  const balance = await provider.getBalance(signer.address);
+
+  console.log(`\n🏴‍☠️ Agent Bounty Board — Integration Test`);
+  console.log(`  Signer: ${signer.address}`);
+  console.log(`  Balance: ${formatEther(balance)} ETH`);
+  console.log(`  Chain: ${chainId} (${VERSION})`);
+
+  if (balance < parseEther("0.6")) {
+    throw new Error(`Insufficient balance. Need ~0.6 ETH to fund 5 validators, have ${formatEther(balance)}`);
+  }
+
+  writeFileSync(networksFile, JSON.stringify({
+    integration: { rpcUrl: RPC_URL, chainId: Number(chainId), version: VERSION, contracts: ADDRESSES },
+  }));
+
+  step(1, `Configure ${COMMIT_SECONDS}s commit + ${REVEAL_SECONDS}s reveal timing`);
+  try {
+    const { abbCore } = createContracts(ADDRESSES, signer, VERSION);
+    await (await abbCore.configureTiming(COMMIT_SECONDS, REVEAL_SECONDS)).wait();
+    pass("Timing configured");
+  } catch (e: any) {
+    // Non-fatal: the signer may not own the deployment, and the timing may already be short
+    info(`Configure timing failed (continuing): ${e.shortMessage ?? e.message}`);
+  }
+
+  step(2, "Register an agent");
+  const { agentId } = abb(PRIVATE_KEY, "agent", "register", "--metadata", JSON.stringify({ name: `integration-${Date.now()}` }));
+  pass(`Agent registered with ID: ${agentId}`);
+
+  step(3, "Create a task with a 0.001 ETH bounty");
+  const { taskId } = abb(PRIVATE_KEY, "task", "create", "--bounty", "0.001", "--deadline", "1h", "--description", `integration task ${Date.now()}`);
+  pass(`Task created with ID: ${taskId}`);
+
+  step(4, "Agent claims the task");
+  abb(PRIVATE_KEY, "task", "claim", String(taskId), "--agent", String(agentId));
+  pass(`Agent ${agentId} claimed task ${taskId}`);
+
+  step(5, "Register 5 validators");
+  // Derived from the signer's key so reruns reuse the same, already-registered validators
+  const validatorKeys = [0, 1, 2, 3, 4].map((i) => keccak256(solidityPacked(["bytes32", "uint256"], [PRIVATE_KEY, i])));
+  for (const [i, key] of validatorKeys.entries()) {
+    const address = new Wallet(key).address;
+    if ((await provider.getBalance(address)) < parseEther("0.12")) {
+      info(`Funding validator ${i} (${address})...`);
+      await (await signer.sendTransaction({ to: address, value: parseEther("0.15") })).wait();
+    }
+    try {
+      abb(key, "validator", "register", "--stake", "0.1");
+      pass(`Validator ${i} registered (${address})`);
+    } catch (e: any) {
+      if (!e.message.includes("AlreadyRegistered")) throw e;
+      info(`Validator ${i} already registered`);
+    }
+  }
+
+  step(6, "Agent submits work");
+  abb(PRIVATE_KEY, "task", "submit", String(taskId), "--submission", `integration submission ${Date.now()}`);
+  const { tier } = abb(PRIVATE_KEY, "task", "show", String(taskId));
+  pass(`Work submitted for task ${taskId}${tier ? ` (${tier} tier)` : ""}`);
+
+  // Only panel members can score; the rest revert with NotOnPanel
+  const skipOffPanel = (e: any) => {
+    if (!e.message.includes("NotOnPanel")) throw e;
+  };
+
+  if (VERSION === "v2" && tier !== "premium") {
+    step(7, `Validators score ${SCORE} directly`);
+    for (const [i, key] of validatorKeys.entries()) {
+      try {
+        abb(key, "validator", "score", String(taskId), String(SCORE));
+        pass(`Validator ${i} scored`);
+      } catch (e: any) {
+        skipOffPanel(e);
+        info(`Validator ${i} is not on the panel`);
+      }
+    }
+  } else {
+    step(7, `Validators commit and reveal ${SCORE}`);
+    const committed = validatorKeys.filter((key, i) => {
+      try {
+        abb(key, "validator", "commit", String(taskId), String(SCORE));
+        pass(`Validator ${i} committed`);
+        return true;
+      } catch (e: any) {
+        skipOffPanel(e);
+        return false;
+      }
+    });
+    info(`Waiting ${COMMIT_SECONDS * 2}s for the commit phase to end...`);
+    await sleep(COMMIT_SECONDS * 2000);
+    for (const key of committed) abb(key, "validator", "reveal", String(taskId));
+    pass(`${committed.length} validators revealed`);
+    info(`Waiting ${REVEAL_SECONDS * 2}s for the reveal phase to end...`);
+    await sleep(REVEAL_SECONDS * 2000);
+  }
+
+  step(8, "Finalize the review");
+  const { accepted, medianScore } = abb(PRIVATE_KEY, "task", "finalize", String(taskId));
+  info(`Accepted: ${accepted}, median score: ${medianScore}`);
+  const task = abb(PRIVATE_KEY, "task", "show", String(taskId));
+  const agent = abb(PRIVATE_KEY, "agent", "show", String(agentId));
+  info(`Agent reputation: ${agent.reputationScore}, tasks completed: ${agent.tasksCompleted}`);
+  if (task.state !== "Completed") throw new Error(`Unexpected task state: ${task.state}`);
+  pass("Task completed successfully! Full flow works.");
+}
+
+main()
+  .then(() => {
+    process.exitCode = 0;
+  })
+  .catch((e) => {
+    console.error(`\n  ❌ ${e.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => rmSync(workDir, { recursive: true, force: true }));
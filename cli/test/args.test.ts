@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { contentHash } from "@agentecon/sdk";
+import { afterAll, describe, expect, it } from "vitest";
+import { contentArg, parseDeadline, parseEth, parseId, parseScore } from "../src/args.js";
+import { UsageError } from "../src/errors.js";
+
+const dir = mkdtempSync(join(tmpdir(), "abb-cli-args-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("parseDeadline", () => {
+  const now = 1_767_225_600;
+
+  it("accepts unix seconds, ISO dates and durations from now", () => {
+    expect(parseDeadline("1800000000", now)).toBe(1_800_000_000);
+    expect(parseDeadline("2026-01-01T00:00:00Z", now)).toBe(1_767_225_600);
+    expect(parseDeadline("90m", now)).toBe(now + 5400);
+    expect(parseDeadline("+24h", now)).toBe(now + 86_400);
+    expect(parseDeadline("7d", now)).toBe(now + 604_800);
+  });
+
+  it("rejects anything else as a usage error", () => {
+    expect(() => parseDeadline("next week", now)).toThrow(UsageError);
+  });
+});
+
+describe("numeric arguments", () => {
+  it("reject values the contracts would refuse", () => {
+    expect(parseEth("0.05", "--bounty")).toBe(50_000_000_000_000_000n);
+    expect(() => parseEth("0", "--bounty")).toThrow(/greater than zero/);
+    expect(() => parseEth("five", "--bounty")).toThrow(UsageError);
+    expect(parseId("12", "task-id")).toBe(12);
+    expect(() => parseId("-1", "task-id")).toThrow(UsageError);
+    expect(parseScore("100")).toBe(100);
+    expect(() => parseScore("101")).toThrow(UsageError);
+    expect(() => parseScore("7.5")).toThrow(UsageError);
+  });
+});
+
+describe("contentArg", () => {
+  it("hashes text or a file's content, or takes a precomputed hash", () => {
+    const file = join(dir, "description.json");
+    writeFileSync(file, '{"title":"Summarise"}');
+    const hash = contentHash('{"title":"Summarise"}');
+
+    expect(contentArg({ description: '{"title":"Summarise"}' }, "description")).toEqual({ hash, text: '{"title":"Summarise"}' });
+    expect(contentArg({ "description-file": file }, "description")).toEqual({ hash, text: '{"title":"Summarise"}' });
+    expect(contentArg({ "description-hash": hash }, "description")).toEqual({ hash, text: null });
+  });
+
+  it("requires exactly one non-empty source", () => {
+    expect(() => contentArg({}, "work")).toThrow(/exactly one of --work, --work-file or --work-hash/);
+    expect(() => contentArg({ work: "done", "work-hash": contentHash("done") }, "work")).toThrow(UsageError);
+    expect(() => contentArg({ work: "" }, "work")).toThrow(/must not be empty/);
+    expect(() => contentArg({ "work-hash": "0x" + "0".repeat(64) }, "work")).toThrow(/non-zero bytes32/);
+    expect(() => contentArg({ "work-file": join(dir, "missing.txt") }, "work")).toThrow(/Cannot read --work-file/);
+  });
+});
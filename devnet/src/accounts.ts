@@ -0,0 +1,18 @@
+import { HDNodeWallet, Mnemonic } from "ethers";
+import type { Provider } from "ethers";
+
+/** Anvil's default mnemonic; its first 10 accounts start with 10,000 ETH each */
+export const ANVIL_MNEMONIC = "test test test test test test test test test test test junk";
+
+/** Which anvil account plays which role in the seeded devnet */
+export const ROLES = {
+  deployer: 0,
+  poster: 1,
+  operators: [2, 3],
+  validators: [4, 5, 6, 7, 8, 9],
+} as const;
+
+export function anvilWallet(index: number, provider?: Provider): HDNodeWallet {
+  const wallet = HDNodeWallet.fromMnemonic(Mnemonic.fromPhrase(ANVIL_MNEMONIC), `m/44'/60'/0'/0/${index}`);
+  return provider ? wallet.connect(provider) : wallet;
+}
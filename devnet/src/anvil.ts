@@ -0,0 +1,60 @@
+import { spawn } from "node:child_process";
+import { DevnetError } from "./errors.js";
+
+export const DEVNET_CHAIN_ID = 31337;
+
+const READY_TIMEOUT_MS = 15_000;
+
+export interface Anvil {
+  rpcUrl: string;
+  stop(): Promise<void>;
+}
+
+async function chainId(rpcUrl: string): Promise<number | null> {
+  try {
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+    });
+    const body = (await response.json()) as { result?: string };
+    return body.result ? Number(body.result) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Start `anvil` on `port` and resolve once it answers RPC; the node is stopped with `stop()` */
+export async function startAnvil(port: number, host = "127.0.0.1"): Promise<Anvil> {
+  const rpcUrl = `http://${host}:${port}`;
+  if ((await chainId(rpcUrl)) !== null) throw new DevnetError(`Something is already listening on ${rpcUrl}`);
+
+  const child = spawn("anvil", ["--host", host, "--port", String(port), "--chain-id", String(DEVNET_CHAIN_ID), "--silent"], {
+    stdio: ["ignore", "ignore", "pipe"],
+  });
+  let stderr = "";
+  child.stderr.on("data", (chunk) => (stderr += chunk));
+  const exited = new Promise<void>((resolve) => child.once("exit", () => resolve()));
+  const failed = new Promise<never>((_resolve, reject) => {
+    child.once("error", (err: NodeJS.ErrnoException) =>
+      reject(new DevnetError(err.code === "ENOENT" ? "anvil not found; install Foundry (https://getfoundry.sh)" : err.message)),
+    );
+    child.once("exit", (code) => reject(new DevnetError(`anvil exited with code ${code}: ${stderr.trim()}`)));
+  });
+  failed.catch(() => {});
+
+  const stop = async () => {
+    if (child.exitCode === null) child.kill("SIGTERM");
+    await exited;
+  };
+
+  const deadline = Date.now() + READY_TIMEOUT_MS;
+  while ((await Promise.race([chainId(rpcUrl), failed])) !== DEVNET_CHAIN_ID) {
+    if (Date.now() > deadline) {
+      await stop();
+      throw new DevnetError(`anvil did not answer on ${rpcUrl} within ${READY_TIMEOUT_MS / 1000}s`);
+    }
+    await new Promise((r) => setTimeout(r, 100));
+  }
+  return { rpcUrl, stop };
+}
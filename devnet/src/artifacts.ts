@@ -0,0 +1,35 @@
+import { spawnSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import type { InterfaceAbi } from "ethers";
+import { DevnetError } from "./errors.js";
+
+/** The Foundry project root (foundry.toml), two levels above this file */
+export const REPO_ROOT = resolve(import.meta.dirname, "..", "..");
+
+export interface Artifact {
+  abi: InterfaceAbi;
+  bytecode: string;
+}
+
+/** Compile src/ and test/ (which holds MockVRFCoordinator) with `forge build` */
+export function forgeBuild(): void {
+  const result = spawnSync("forge", ["build"], { cwd: REPO_ROOT, stdio: ["ignore", "inherit", "inherit"] });
+  if (result.error) {
+    const missing = (result.error as NodeJS.ErrnoException).code === "ENOENT";
+    throw new DevnetError(missing ? "forge not found; install Foundry (https://getfoundry.sh)" : result.error.message);
+  }
+  if (result.status !== 0) throw new DevnetError(`forge build exited with code ${result.status}`);
+}
+
+/** A contract's ABI and creation bytecode from Foundry's out/ directory */
+export function loadArtifact(name: string): Artifact {
+  const path = join(REPO_ROOT, "out", `${name}.sol`, `${name}.json`);
+  let json: { abi: InterfaceAbi; bytecode: { object: string } };
+  try {
+    json = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new DevnetError(`Cannot read the ${name} artifact at ${path} (run forge build): ${err.message}`);
+  }
+  return { abi: json.abi, bytecode: json.bytecode.object };
+}
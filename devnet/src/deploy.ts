@@ -0,0 +1,94 @@
+import { Contract, ContractFactory, ZeroHash, parseEther } from "ethers";
+import type { Signer } from "ethers";
+import type { ContractAddresses } from "@agentecon/sdk";
+import { loadArtifact } from "./artifacts.js";
+
+export interface DevnetContracts extends Required<ContractAddresses> {
+  /** test/mocks/MockVRFCoordinator.sol, standing in for Chainlink VRF */
+  vrfCoordinator: string;
+}
+
+export interface DevnetDeployment {
+  deployer: string;
+  /** First block the indexers need to scan */
+  startBlock: number;
+  contracts: DevnetContracts;
+}
+
+async function deploy(name: string, deployer: Signer, ...args: unknown[]): Promise<Contract> {
+  const { abi, bytecode } = loadArtifact(name);
+  const contract = await new ContractFactory(abi, bytecode, deployer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract as Contract;
+}
+
+async function send(contract: Contract, method: string, ...args: unknown[]): Promise<void> {
+  await (await contract.getFunction(method)(...args)).wait();
+}
+
+/**
+ * Deploy the V2 stack the way script/DeployV2.s.sol does, with
+ * ValidatorPoolV2 wired to MockVRFCoordinator instead of Chainlink.
+ * Keep the two in step when the deploy script changes.
+ */
+export async function deployStack(deployer: Signer): Promise<DevnetDeployment> {
+  const owner = await deployer.getAddress();
+  const startBlock = await deployer.provider!.getBlockNumber();
+
+  // 1. V1 contracts
+  const taskRegistry = await deploy("TaskRegistry", deployer, owner);
+  const bountyEscrow = await deploy("BountyEscrow", deployer, owner, owner, 500); // 5% fee
+  const agentRegistry = await deploy("AgentRegistry", deployer, owner);
+
+  // 2. V2 contracts, on the mock coordinator (subscription and key hash are unused)
+  const vrfCoordinator = await deploy("MockVRFCoordinator", deployer);
+  const validatorPool = await deploy("ValidatorPoolV2", deployer, owner, await vrfCoordinator.getAddress(), 0, ZeroHash);
+  const abbCore = await deploy(
+    "ABBCoreV2",
+    deployer,
+    owner,
+    await taskRegistry.getAddress(),
+    await bountyEscrow.getAddress(),
+    await validatorPool.getAddress(),
+    await agentRegistry.getAddress(),
+  );
+
+  // 3. ERC-8004
+  const agentIdentity = await deploy("AgentIdentity8004", deployer, owner);
+  const reputationRegistry = await deploy("ReputationRegistry8004", deployer, owner, await agentIdentity.getAddress());
+
+  // 4. Token
+  const aeconToken = await deploy("AECONToken", deployer, owner);
+  const tokenVesting = await deploy("TokenVesting", deployer, await aeconToken.getAddress(), owner);
+  const validatorStaking = await deploy("ValidatorStaking", deployer, await aeconToken.getAddress(), owner);
+
+  // 5. Cross-contract authorizations
+  const core = await abbCore.getAddress();
+  for (const registry of [taskRegistry, bountyEscrow, agentRegistry, validatorPool]) {
+    await send(registry, "setAuthorizedCaller", core, true);
+  }
+  await send(reputationRegistry, "setAuthorizedSource", await validatorPool.getAddress(), true);
+  await send(reputationRegistry, "setAuthorizedSource", core, true);
+  await send(validatorPool, "setTreasury", owner);
+  await send(agentIdentity, "setLegacyRegistry", await agentRegistry.getAddress());
+  await send(aeconToken, "transfer", await validatorStaking.getAddress(), parseEther("25000000"));
+  await send(aeconToken, "transfer", await tokenVesting.getAddress(), parseEther("30000000"));
+
+  return {
+    deployer: owner,
+    startBlock,
+    contracts: {
+      abbCore: core,
+      taskRegistry: await taskRegistry.getAddress(),
+      agentRegistry: await agentRegistry.getAddress(),
+      validatorPool: await validatorPool.getAddress(),
+      bountyEscrow: await bountyEscrow.getAddress(),
+      agentIdentity: await agentIdentity.getAddress(),
+      reputationRegistry: await reputationRegistry.getAddress(),
+      aeconToken: await aeconToken.getAddress(),
+      tokenVesting: await tokenVesting.getAddress(),
+      validatorStaking: await validatorStaking.getAddress(),
+      vrfCoordinator: await vrfCoordinator.getAddress(),
+    },
+  };
+}
@@ -0,0 +1,287 @@
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { REPO_ROOT } from "./artifacts.js";
+import type { DevnetDeployment } from "./deploy.js";
+import { serviceEnv } from "./env.js";
+import { DevnetError } from "./errors.js";
+import { agentMetadata, taskDescription, taskSubmission } from "./seed.js";
+import type { SeedResult } from "./seed.js";
+
+/**
+ * Offline end-to-end checks against a seeded devnet: boots the API and the
+ * MCP server (stdio) on it and exercises every API route and the MCP read
+ * tools against the seeded agents, validators and tasks.
+ *
+ * Error responses are only checked on synchronous handlers: Express 4 does not
+ * pass a rejected promise from an async handler to errorHandler, so an
+ * ApiError thrown there would take the API process down mid-run.
+ */
+
+const API_KEY = "devnet-e2e";
+const READY_TIMEOUT_MS = 60_000;
+
+interface Result {
+  name: string;
+  ok: boolean;
+  detail?: string;
+}
+
+/** An unused local TCP port */
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitFor<T>(what: string, probe: () => Promise<T | null>): Promise<T> {
+  const deadline = Date.now() + READY_TIMEOUT_MS;
+  for (;;) {
+    const value = await probe().catch(() => null);
+    if (value !== null) return value;
+    if (Date.now() > deadline) throw new DevnetError(`Timed out waiting for ${what}`);
+    await new Promise((r) => setTimeout(r, 500));
+  }
+}
+
+/** `node --import tsx <entry>` in a workspace, with its stderr kept for failure reports */
+function startService(workspace: string, env: Record<string, string>): { child: ChildProcess; output: () => string } {
+  const child = spawn(process.execPath, ["--import", "tsx", "src/index.ts"], {
+    cwd: join(REPO_ROOT, workspace),
+    env: { ...process.env, ...env },
+    stdio: ["ignore", "ignore", "pipe"],
+  });
+  let output = "";
+  child.stderr!.on("data", (chunk) => (output = (output + chunk).slice(-4000)));
+  return { child, output: () => output };
+}
+
+export async function runE2e(rpcUrl: string, deployment: DevnetDeployment, seeded: SeedResult): Promise<boolean> {
+  const results: Result[] = [];
+  const check = async (name: string, fn: () => Promise<void>) => {
+    try {
+      await fn();
+      results.push({ name, ok: true });
+      console.log(`  ✅ ${name}`);
+    } catch (err: any) {
+      results.push({ name, ok: false, detail: err.message });
+      console.log(`  ❌ ${name} — ${err.message}`);
+    }
+  };
+
+  const dataDir = mkdtempSync(join(tmpdir(), "abb-devnet-e2e-"));
+  const port = await freePort();
+  const apiUrl = `http://127.0.0.1:${port}`;
+  const env = serviceEnv(rpcUrl, deployment);
+  const api = startService("api", {
+    ...env,
+    PORT: String(port),
+    API_KEY,
+    LOG_LEVEL: "warn",
+    INDEXER_DB_PATH: join(dataDir, "indexer.db"),
+    INDEXER_POLL_INTERVAL_MS: "250",
+    METADATA_DB_PATH: join(dataDir, "metadata.db"),
+    WEBHOOK_DB_PATH: join(dataDir, "webhooks.db"),
+    IPFS_BACKEND: "local",
+    IPFS_LOCAL_DIR: join(dataDir, "ipfs"),
+  });
+
+  const call = async (method: string, path: string, options: { body?: unknown; key?: boolean } = {}) => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers: {
+        ...(options.body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(options.key ? { "X-API-Key": API_KEY } : {}),
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+  const expect = async (method: string, path: string, status: number, options: { body?: unknown; key?: boolean } = {}) => {
+    const response = await call(method, path, options);
+    if (response.status !== status) {
+      throw new Error(`${method} ${path}: expected ${status}, got ${response.status} ${JSON.stringify(response.body)}`);
+    }
+    return response.body;
+  };
+  const assert = (condition: unknown, message: string) => {
+    if (!condition) throw new Error(message);
+  };
+
+  const { tasks } = seeded;
+  const agent = seeded.agents[0];
+  const validator = seeded.validators[0].address;
+
+  try {
+    console.log(`\nAPI on ${apiUrl}`);
+    await waitFor("the API indexer to reach the seeded block", async () => {
+      const { body } = await call("GET", "/health");
+      return body.indexer.lastIndexedBlock >= seeded.block ? body : null;
+    }).catch((err) => {
+      throw new DevnetError(`${err.message}\n${api.output()}`);
+    });
+
+    await check("GET /health", async () => assert((await expect("GET", "/health", 200)).status === "ok", "status is not ok"));
+    await check("GET /contracts", async () => {
+      const body = await expect("GET", "/contracts", 200);
+      assert(body.abbCore === deployment.contracts.abbCore, "abbCore does not match the deployment");
+    });
+    await check("GET /analytics/pageview and /analytics/summary", async () => {
+      await expect("GET", "/analytics/pageview?page=/e2e", 200);
+      assert((await expect("GET", "/analytics/summary", 200)).pageViews["/e2e"] === 1, "page view not counted");
+    });
+
+    await check("GET /tasks", async () => {
+      const body = await expect("GET", "/tasks?limit=100", 200);
+      assert(body.total === Object.keys(tasks).length, `expected ${Object.keys(tasks).length} tasks, got ${body.total}`);
+    });
+    await check("GET /tasks filtered and paginated", async () => {
+      const open = await expect("GET", "/tasks?status=open", 200);
+      assert(open.total === 2, `expected 2 open tasks, got ${open.total}`);
+      const page = await expect("GET", "/tasks?limit=2&sort=bounty&order=asc", 200);
+      assert(page.count === 2 && page.nextCursor, "expected a first page of 2 with a cursor");
+      await expect("GET", `/tasks?limit=2&sort=bounty&order=asc&cursor=${page.nextCursor}`, 200);
+      await expect("GET", "/tasks?status=Nope", 400);
+    });
+    const states: [keyof typeof tasks, string][] = [
+      ["open", "open"],
+      ["cancelled", "cancelled"],
+      ["claimed", "claimed"],
+      ["microReview", "in_review"],
+      ["completed", "completed"],
+      ["disputed", "disputed"],
+      ["resolved", "resolved"],
+    ];
+    await check("GET /tasks/:id for every seeded state", async () => {
+      for (const [name, state] of states) {
+        const body = await expect("GET", `/tasks/${tasks[name]}`, 200);
+        assert(body.state === state, `task ${name} is ${body.state}, expected ${state}`);
+      }
+      assert((await expect("GET", `/tasks/${tasks.premiumCommit}`, 200)).tier === "premium", "premium task has the wrong tier");
+    });
+    await check("GET /tasks/:id/events", async () => {
+      const body = await expect("GET", `/tasks/${tasks.completed}/events`, 200);
+      assert(body.count >= 5, `expected the full lifecycle, got ${body.count} events`);
+    });
+    await check("GET /tasks/:id/panel", async () => {
+      const standard = await expect("GET", `/tasks/${tasks.standardReview}/panel`, 200);
+      assert(standard.tier === "standard", `expected a standard panel, got ${standard.tier}`);
+      await expect("GET", `/tasks/${tasks.premiumCommit}/panel`, 200);
+    });
+    await check("POST /tasks/:id/description", async () => {
+      await expect("POST", `/tasks/${tasks.open}/description`, 201, { body: { content: taskDescription("open") } });
+      assert((await expect("GET", `/tasks/${tasks.open}`, 200)).description, "description not served");
+    });
+    await check("POST /tasks/:id/submission", async () => {
+      await expect("POST", `/tasks/${tasks.completed}/submission`, 201, { body: { content: taskSubmission("completed") } });
+    });
+
+    await check("GET /agents", async () => {
+      assert((await expect("GET", "/agents", 200)).total === seeded.agents.length, "agent count does not match the seed");
+    });
+    await check("GET /agents/:address", async () => {
+      const body = await expect("GET", `/agents/${agent.operator}`, 200);
+      assert(body.agents.length === 1, "operator should have one agent");
+    });
+    await check("POST /agents/:id/metadata", async () => {
+      await expect("POST", `/agents/${agent.agentId}/metadata`, 201, { body: { content: agentMetadata(0) } });
+    });
+
+    await check("GET /validators", async () => {
+      const body = await expect("GET", "/validators", 200);
+      assert(body.total === seeded.validators.length, `expected ${seeded.validators.length} validators, got ${body.total}`);
+      const ai = await expect("GET", "/validators?ai=true", 200);
+      assert(ai.total === seeded.validators.filter((v) => v.isAI).length, "AI filter does not match the seed");
+    });
+    await check("GET /validators/:address", async () => {
+      const body = await expect("GET", `/validators/${validator}`, 200);
+      assert(body.active, "seeded validator is not active");
+    });
+    await check("GET /validators/tasks/:id/validations", async () => {
+      await expect("GET", `/validators/tasks/${tasks.completed}/validations`, 200);
+    });
+
+    await check("GET /v2/reputation routes", async () => {
+      await expect("GET", "/v2/reputation", 200);
+      await expect("GET", "/v2/reputation/leaderboard", 200);
+      await expect("GET", `/v2/reputation/${agent.agentId}`, 200);
+      await expect("GET", `/v2/reputation/${agent.agentId}/history?interval=day`, 200);
+      await expect("GET", `/v2/reputation/${agent.agentId}/feedback?revoked=false`, 200);
+      assert((await expect("GET", `/v2/reputation/verify/${agent.agentId}`, 200)).trustSignals?.isRegistered, "seeded agent is not registered");
+      assert(!(await expect("GET", "/v2/reputation/verify/999999", 200)).verified, "unknown agent is verified");
+    });
+
+    await check("GET /stream", async () => {
+      const controller = new AbortController();
+      const response = await fetch(`${apiUrl}/stream?lastEventId=0-0`, { signal: controller.signal });
+      const contentType = response.headers.get("content-type");
+      controller.abort();
+      assert(response.status === 200 && contentType?.startsWith("text/event-stream"), `got ${response.status} ${contentType}`);
+    });
+
+    await check("/webhooks routes", async () => {
+      await expect("GET", "/webhooks", 401);
+      const sub = await expect("POST", "/webhooks", 201, { key: true, body: { url: "http://127.0.0.1:9/hook", filter: { type: "task.created" } } });
+      assert((await expect("GET", "/webhooks", 200, { key: true })).total === 1, "subscription not listed");
+      await expect("GET", `/webhooks/${sub.id}`, 200, { key: true });
+      await expect("POST", `/webhooks/${sub.id}/pause`, 200, { key: true });
+      await expect("POST", `/webhooks/${sub.id}/resume`, 200, { key: true });
+      await expect("GET", `/webhooks/${sub.id}/deliveries`, 200, { key: true });
+      await expect("GET", "/webhooks/dead-letters", 200, { key: true });
+      await expect("POST", "/webhooks/deliveries/999999/retry", 404, { key: true });
+      await expect("DELETE", `/webhooks/${sub.id}`, 204, { key: true });
+    });
+
+    console.log("\nMCP server (stdio)");
+    const transport = new StdioClientTransport({
+      command: process.execPath,
+      args: ["--import", "tsx", "src/index.ts"],
+      cwd: join(REPO_ROOT, "mcp"),
+      env: {
+        ...(process.env as Record<string, string>),
+        ...env,
+        API_URL: apiUrl,
+        MCP_TRANSPORT: "stdio",
+        COMMITMENT_STORE_PATH: join(dataDir, "commitments.json"),
+        CONTENT_LOCAL_DIR: join(dataDir, "content"),
+        POLICY_LEDGER_PATH: join(dataDir, "spend-ledger.json"),
+      },
+      stderr: "ignore",
+    });
+    const mcp = new Client({ name: "devnet-e2e", version: "0.1.0" });
+    await mcp.connect(transport);
+    const tool = async (name: string, args: Record<string, unknown> = {}) => {
+      const result = (await mcp.callTool({ name, arguments: args })) as { isError?: boolean; content: { text: string }[] };
+      if (result.isError) throw new Error(`${name}: ${result.content[0]?.text}`);
+      return result.content[0]?.text ?? "";
+    };
+    try {
+      await check("MCP list_tasks", async () => assert((await tool("list_tasks", { status: "open" })).length > 0, "empty result"));
+      await check("MCP get_task", async () => void (await tool("get_task", { taskId: tasks.standardReview })));
+      await check("MCP get_agent_info", async () => void (await tool("get_agent_info", { agentId: agent.agentId })));
+      await check("MCP list_validators", async () => void (await tool("list_validators", { validatorAddress: validator })));
+      await check("MCP platform_stats", async () => void (await tool("platform_stats")));
+      await check("MCP claim_task (dryRun)", async () => void (await tool("claim_task", { taskId: tasks.open, agentId: agent.agentId, dryRun: true })));
+    } finally {
+      await mcp.close();
+    }
+  } finally {
+    api.child.kill("SIGTERM");
+    rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  const failed = results.filter((r) => !r.ok);
+  console.log(`\n${results.length - failed.length} passed, ${failed.length} failed`);
+  return failed.length === 0;
+}
@@ -0,0 +1,96 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { ROLES, anvilWallet } from "./accounts.js";
+import { DEVNET_CHAIN_ID } from "./anvil.js";
+import type { DevnetDeployment } from "./deploy.js";
+import type { SeedResult } from "./seed.js";
+
+export const DEFAULT_API_URL = "http://localhost:3000";
+
+/**
+ * Variables pointing the API, MCP server, keeper, validator daemon and worker
+ * runner at the devnet; they read the same names (see api/.env.example and
+ * mcp/.env.example). SIGNER_PRIVATE_KEY is the first seeded agent's operator,
+ * so MCP write tools act as that agent, and the worker runner is the second.
+ * The keeper signs as the deployer, which owns ValidatorPoolV2, and the
+ * validator daemon as the first AI validator.
+ */
+export function serviceEnv(rpcUrl: string, deployment: DevnetDeployment): Record<string, string> {
+  const { contracts } = deployment;
+  return {
+    RPC_URL: rpcUrl,
+    PROTOCOL_VERSION: "v2",
+    ABBCORE_ADDRESS: contracts.abbCore,
+    AGENT_REGISTRY_ADDRESS: contracts.agentRegistry,
+    TASK_REGISTRY_ADDRESS: contracts.taskRegistry,
+    VALIDATOR_POOL_ADDRESS: contracts.validatorPool,
+    BOUNTY_ESCROW_ADDRESS: contracts.bountyEscrow,
+    AGENT_IDENTITY_ADDRESS: contracts.agentIdentity,
+    REPUTATION_REGISTRY_ADDRESS: contracts.reputationRegistry,
+    VRF_COORDINATOR_ADDRESS: contracts.vrfCoordinator,
+    // API indexer and MCP panel scans
+    INDEXER_START_BLOCK: String(deployment.startBlock),
+    START_BLOCK: String(deployment.startBlock),
+    SIGNER_PRIVATE_KEY: anvilWallet(ROLES.operators[0]).privateKey,
+    KEEPER_PRIVATE_KEY: anvilWallet(ROLES.deployer).privateKey,
+    VALIDATOR_PRIVATE_KEY: anvilWallet(ROLES.validators[0]).privateKey,
+    WORKER_PRIVATE_KEY: anvilWallet(ROLES.operators[1]).privateKey,
+  };
+}
+
+/** NEXT_PUBLIC_* variables for frontend/.env.local */
+export function frontendEnv(rpcUrl: string, deployment: DevnetDeployment, apiUrl: string): Record<string, string> {
+  const { contracts } = deployment;
+  return {
+    NEXT_PUBLIC_API_URL: apiUrl,
+    NEXT_PUBLIC_CHAIN_ID: String(DEVNET_CHAIN_ID),
+    NEXT_PUBLIC_RPC_URL: rpcUrl,
+    NEXT_PUBLIC_PROTOCOL_VERSION: "v2",
+    NEXT_PUBLIC_ABBCORE_ADDRESS: contracts.abbCore,
+    NEXT_PUBLIC_AGENT_REGISTRY_ADDRESS: contracts.agentRegistry,
+    NEXT_PUBLIC_TASK_REGISTRY_ADDRESS: contracts.taskRegistry,
+    NEXT_PUBLIC_BOUNTY_ESCROW_ADDRESS: contracts.bountyEscrow,
+    NEXT_PUBLIC_VALIDATOR_POOL_ADDRESS: contracts.validatorPool,
+    NEXT_PUBLIC_AGENT_IDENTITY_ADDRESS: contracts.agentIdentity,
+    NEXT_PUBLIC_REPUTATION_REGISTRY_ADDRESS: contracts.reputationRegistry,
+    NEXT_PUBLIC_AECON_TOKEN_ADDRESS: contracts.aeconToken,
+    NEXT_PUBLIC_TOKEN_VESTING_ADDRESS: contracts.tokenVesting,
+    NEXT_PUBLIC_VALIDATOR_STAKING_ADDRESS: contracts.validatorStaking,
+  };
+}
+
+/** An `abb --network devnet` profile (see cli/README.md) */
+export function cliNetworks(rpcUrl: string, deployment: DevnetDeployment, apiUrl: string): object {
+  const { vrfCoordinator: _vrf, ...contracts } = deployment.contracts;
+  return { devnet: { rpcUrl, chainId: DEVNET_CHAIN_ID, version: "v2", apiUrl, contracts } };
+}
+
+function dotenv(header: string, vars: Record<string, string>): string {
+  return `# ${header}\n${Object.entries(vars).map(([key, value]) => `${key}=${value}`).join("\n")}\n`;
+}
+
+/**
+ * Write devnet.env (API and MCP server), frontend.env, networks.json (abb CLI)
+ * and seed.json (accounts, agent and task IDs) to `dir`
+ */
+export function writeDevnetFiles(
+  dir: string,
+  rpcUrl: string,
+  deployment: DevnetDeployment,
+  seeded: SeedResult | null,
+  apiUrl = DEFAULT_API_URL,
+): void {
+  mkdirSync(dir, { recursive: true });
+  const header = `Generated by the devnet harness for ${rpcUrl}; rewritten on every start`;
+  writeFileSync(join(dir, "devnet.env"), dotenv(header, serviceEnv(rpcUrl, deployment)));
+  writeFileSync(join(dir, "frontend.env"), dotenv(header, frontendEnv(rpcUrl, deployment, apiUrl)));
+  writeFileSync(join(dir, "networks.json"), JSON.stringify(cliNetworks(rpcUrl, deployment, apiUrl), null, 2) + "\n");
+
+  const accounts = {
+    deployer: anvilWallet(ROLES.deployer).address,
+    poster: anvilWallet(ROLES.poster).address,
+    operators: ROLES.operators.map((i) => anvilWallet(i).address),
+    validators: ROLES.validators.map((i) => anvilWallet(i).address),
+  };
+  writeFileSync(join(dir, "seed.json"), JSON.stringify({ rpcUrl, ...deployment, accounts, seed: seeded }, null, 2) + "\n");
+}
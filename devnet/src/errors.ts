@@ -0,0 +1,7 @@
+/** A failure to report as a plain message, without a stack trace */
+export class DevnetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DevnetError";
+  }
+}
@@ -0,0 +1,135 @@
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { JsonRpcProvider } from "ethers";
+import { createContracts } from "@agentecon/sdk";
+import { ROLES, anvilWallet } from "./accounts.js";
+import { DEVNET_CHAIN_ID, startAnvil } from "./anvil.js";
+import type { Anvil } from "./anvil.js";
+import { forgeBuild } from "./artifacts.js";
+import { deployStack } from "./deploy.js";
+import { freePort, runE2e } from "./e2e.js";
+import { DEFAULT_API_URL, writeDevnetFiles } from "./env.js";
+import { DevnetError } from "./errors.js";
+import { seed } from "./seed.js";
+import { VrfFulfiller } from "./vrf.js";
+
+const USAGE = `Usage:
+  npm run up -- [--port 8545] [--empty] [--api-url ${DEFAULT_API_URL}] [--out .devnet]
+      Start anvil, deploy the V2 stack, seed it and write the env files; runs until Ctrl-C
+  npm run e2e
+      Same on a throwaway anvil, then check every API route and the MCP tools against it
+  npm run advance -- <seconds> [--rpc-url http://127.0.0.1:8545]
+      Move the devnet clock forward, e.g. past a commit or reveal deadline`;
+
+const log = (message: string) => console.log(message);
+
+function devnetProvider(rpcUrl: string): JsonRpcProvider {
+  // anvil mines on every transaction; poll fast so receipts come back immediately
+  return new JsonRpcProvider(rpcUrl, DEVNET_CHAIN_ID, { staticNetwork: true, pollingInterval: 100 });
+}
+
+/** forge build, anvil, deploy and (unless `empty`) seed */
+async function boot(port: number, empty: boolean) {
+  forgeBuild();
+  const anvil = await startAnvil(port);
+  try {
+    log(`anvil on ${anvil.rpcUrl} (chain ${DEVNET_CHAIN_ID})`);
+    const provider = devnetProvider(anvil.rpcUrl);
+    const deployment = await deployStack(anvilWallet(ROLES.deployer, provider));
+    log(`Deployed the V2 stack; ABBCoreV2 at ${deployment.contracts.abbCore}`);
+
+    const pool = createContracts(deployment.contracts, provider, "v2").validatorPool;
+    const fulfiller = new VrfFulfiller(pool, deployment.contracts.vrfCoordinator, anvilWallet(ROLES.deployer, provider));
+    const seeded = empty ? null : await seed(provider, deployment, fulfiller, log);
+    return { anvil, deployment, fulfiller, seeded };
+  } catch (err) {
+    await anvil.stop();
+    throw err;
+  }
+}
+
+async function up(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      port: { type: "string", default: "8545" },
+      empty: { type: "boolean", default: false },
+      "api-url": { type: "string", default: DEFAULT_API_URL },
+      out: { type: "string", default: ".devnet" },
+    },
+  });
+  const { anvil, deployment, fulfiller, seeded } = await boot(parsePort(values.port), values.empty);
+  const out = resolve(values.out);
+  writeDevnetFiles(out, anvil.rpcUrl, deployment, seeded, values["api-url"]);
+  log(`\nWrote ${out}/devnet.env (API, MCP server), frontend.env, networks.json (abb) and seed.json`);
+
+  await fulfiller.start(log);
+  log("Fulfilling VRF requests as they arrive; Ctrl-C to stop");
+  await new Promise<void>((done) => {
+    process.once("SIGINT", done);
+    process.once("SIGTERM", done);
+  });
+  await shutdown(anvil, fulfiller);
+  return 0;
+}
+
+async function e2e(): Promise<number> {
+  const { anvil, deployment, fulfiller, seeded } = await boot(await freePort(), false);
+  try {
+    await fulfiller.start(log);
+    return (await runE2e(anvil.rpcUrl, deployment, seeded!)) ? 0 : 1;
+  } finally {
+    await shutdown(anvil, fulfiller);
+  }
+}
+
+async function advance(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { "rpc-url": { type: "string", default: "http://127.0.0.1:8545" } },
+  });
+  const seconds = Number(positionals[0]);
+  if (!Number.isInteger(seconds) || seconds <= 0) throw new DevnetError("advance needs a positive number of seconds");
+
+  const provider = devnetProvider(values["rpc-url"]);
+  await provider.send("evm_increaseTime", [seconds]);
+  await provider.send("evm_mine", []);
+  const block = await provider.getBlock("latest");
+  log(`Block ${block!.number} at ${new Date(block!.timestamp * 1000).toISOString()}`);
+  provider.destroy();
+  return 0;
+}
+
+async function shutdown(anvil: Anvil, fulfiller: VrfFulfiller): Promise<void> {
+  await fulfiller.stop();
+  await anvil.stop();
+}
+
+function parsePort(raw: string): number {
+  const port = Number(raw);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) throw new DevnetError(`Invalid port: ${raw}`);
+  return port;
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = { up, e2e, advance };
+
+async function main([name, ...args]: string[]): Promise<number> {
+  if (!Object.hasOwn(COMMANDS, name ?? "")) {
+    console.log(USAGE);
+    return 2;
+  }
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(USAGE);
+    return 0;
+  }
+  return COMMANDS[name](args);
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof DevnetError ? `Error: ${err.message}` : err);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,161 @@
+import { id, parseEther } from "ethers";
+import type { JsonRpcProvider } from "ethers";
+import {
+  cancelTask,
+  claimTask,
+  commitHash,
+  commitScore,
+  connectAll,
+  contentHash,
+  createContracts,
+  createTaskETH,
+  createTaskToken,
+  finalizeReview,
+  initiateUnstake,
+  raiseDispute,
+  registerAgent,
+  registerValidator,
+  submitScore,
+  submitWork,
+} from "@agentecon/sdk";
+import type { ProtocolContracts } from "@agentecon/sdk";
+import { ROLES, anvilWallet } from "./accounts.js";
+import type { DevnetDeployment } from "./deploy.js";
+import type { VrfFulfiller } from "./vrf.js";
+
+/** One task per name, each left in the state the name describes */
+export const SEEDED_TASKS = [
+  "open",
+  "openToken",
+  "cancelled",
+  "claimed",
+  "microReview",
+  "standardReview",
+  "premiumCommit",
+  "completed",
+  "rejected",
+  "disputed",
+  "resolved",
+] as const;
+
+export type SeededTask = (typeof SEEDED_TASKS)[number];
+
+export interface SeedResult {
+  /** Block of the last seeding transaction; an indexer is caught up once it reaches this */
+  block: number;
+  agents: { agentId: number; operator: string }[];
+  validators: { address: string; isAI: boolean }[];
+  tasks: Record<SeededTask, number>;
+}
+
+// Bounties that land in each ValidatorPoolV2 tier (below 0.01 ETH, up to 1 ETH, above)
+const MICRO_BOUNTY = parseEther("0.005");
+const STANDARD_BOUNTY = parseEther("0.05");
+const PREMIUM_BOUNTY = parseEther("2");
+const TOKEN_BOUNTY = parseEther("500");
+const VALIDATOR_STAKE = parseEther("0.2");
+const AI_VALIDATORS = 2;
+
+/** The documents behind the seeded hashes, so they can be uploaded to the API */
+export const taskDescription = (name: SeededTask) => `Devnet task "${name}"`;
+export const taskSubmission = (name: SeededTask) => `Devnet submission for "${name}"`;
+export const agentMetadata = (index: number) =>
+  JSON.stringify({ name: `devnet-agent-${index + 1}`, description: "Seeded devnet agent", capabilities: ["research"] });
+
+/**
+ * Register agents and validators and leave a task in every reachable state.
+ *
+ * ValidatorPoolV2._requireOnPanel only ever matches the first panel member,
+ * so Standard and Premium rounds can take one score and never finalize; the
+ * settled tasks (completed, rejected, disputed, resolved) use Micro rounds.
+ */
+export async function seed(
+  provider: JsonRpcProvider,
+  deployment: DevnetDeployment,
+  fulfiller: VrfFulfiller,
+  log: (message: string) => void,
+): Promise<SeedResult> {
+  const readOnly = createContracts(deployment.contracts, provider, "v2");
+  const as = (index: number) => connectAll(readOnly, anvilWallet(index, provider));
+  const owner = as(ROLES.deployer);
+  const poster = as(ROLES.poster);
+  const operators = ROLES.operators.map(as);
+
+  const agents: SeedResult["agents"] = [];
+  for (const [i, index] of ROLES.operators.entries()) {
+    const { agentId } = await registerAgent(operators[i], contentHash(agentMetadata(i)));
+    agents.push({ agentId, operator: anvilWallet(index).address });
+  }
+  log(`Registered agents ${agents.map((a) => a.agentId).join(", ")}`);
+
+  const validators: SeedResult["validators"] = [];
+  const byAddress = new Map<string, ProtocolContracts>();
+  for (const [i, index] of ROLES.validators.entries()) {
+    const contracts = as(index);
+    const isAI = i < AI_VALIDATORS;
+    await registerValidator(contracts, { stakeWei: VALIDATOR_STAKE, isAI });
+    const address = anvilWallet(index).address;
+    validators.push({ address, isAI });
+    byAddress.set(address.toLowerCase(), contracts);
+  }
+  // One validator mid-unstake; it keeps the minimum stake, so it stays active
+  await initiateUnstake(as(ROLES.validators[ROLES.validators.length - 1]), parseEther("0.05"));
+  log(`Registered ${validators.length} validators (${AI_VALIDATORS} AI)`);
+
+  const latest = await provider.getBlock("latest");
+  const deadline = latest!.timestamp + 7 * 24 * 3600;
+  const tasks = {} as Record<SeededTask, number>;
+  const member = (address: string) => byAddress.get(address.toLowerCase())!;
+
+  const create = async (name: SeededTask, bountyWei: bigint) => {
+    const { taskId } = await createTaskETH(poster, { descriptionHash: contentHash(taskDescription(name)), deadline, bountyWei });
+    return (tasks[name] = taskId);
+  };
+  const claimed = async (name: SeededTask, bountyWei: bigint, agent = 0) => {
+    const taskId = await create(name, bountyWei);
+    await claimTask(operators[agent], taskId, agents[agent].agentId);
+    return taskId;
+  };
+  const inReview = async (name: SeededTask, bountyWei: bigint, agent = 0) => {
+    const taskId = await claimed(name, bountyWei, agent);
+    const receipt = await submitWork(operators[agent], taskId, contentHash(taskSubmission(name)));
+    return { taskId, panel: await fulfiller.panelFor(receipt) };
+  };
+  const rejected = async (name: SeededTask, agent: number) => {
+    const { taskId, panel } = await inReview(name, MICRO_BOUNTY, agent);
+    await submitScore(member(panel[0]), taskId, 30);
+    await finalizeReview(poster, taskId);
+    return taskId;
+  };
+
+  await create("open", STANDARD_BOUNTY);
+
+  const token = deployment.contracts.aeconToken;
+  await (await owner.aeconToken!.transfer(anvilWallet(ROLES.poster).address, TOKEN_BOUNTY * 10n)).wait();
+  tasks.openToken = (
+    await createTaskToken(poster, { descriptionHash: contentHash(taskDescription("openToken")), token, amount: TOKEN_BOUNTY, deadline })
+  ).taskId;
+
+  await cancelTask(poster, await create("cancelled", STANDARD_BOUNTY));
+  await claimed("claimed", STANDARD_BOUNTY);
+  await inReview("microReview", MICRO_BOUNTY);
+
+  const standard = await inReview("standardReview", STANDARD_BOUNTY);
+  await submitScore(member(standard.panel[0]), standard.taskId, 80);
+
+  const premium = await inReview("premiumCommit", PREMIUM_BOUNTY);
+  await commitScore(member(premium.panel[0]), premium.taskId, commitHash(premium.taskId, 75, id("devnet")));
+
+  const completed = await inReview("completed", MICRO_BOUNTY);
+  await submitScore(member(completed.panel[0]), completed.taskId, 85);
+  await finalizeReview(poster, completed.taskId);
+
+  await rejected("rejected", 0);
+  await raiseDispute(operators[1], await rejected("disputed", 1));
+  const resolved = await rejected("resolved", 1);
+  await raiseDispute(poster, resolved);
+  await (await owner.abbCore.resolveDispute(resolved, true)).wait();
+
+  log(`Seeded tasks: ${SEEDED_TASKS.map((name) => `${name}=${tasks[name]}`).join(", ")}`);
+  return { block: await provider.getBlockNumber(), agents, validators, tasks };
+}
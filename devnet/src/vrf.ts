@@ -0,0 +1,64 @@
+import { Contract, keccak256, toBeHex } from "ethers";
+import type { Signer, TransactionReceipt } from "ethers";
+import { findEvent } from "@agentecon/sdk";
+import type { ValidatorPoolContract } from "@agentecon/sdk";
+import { loadArtifact } from "./artifacts.js";
+import { DevnetError } from "./errors.js";
+
+/**
+ * Answers ValidatorPoolV2's panel requests through MockVRFCoordinator, which
+ * lets anyone deliver the random words. Words are derived from the request ID,
+ * so a reseeded devnet picks the same panels.
+ */
+export class VrfFulfiller {
+  private readonly coordinator: Contract;
+  private listening = false;
+
+  constructor(
+    private readonly pool: ValidatorPoolContract,
+    coordinatorAddress: string,
+    signer: Signer,
+  ) {
+    this.coordinator = new Contract(coordinatorAddress, loadArtifact("MockVRFCoordinator").abi, signer);
+  }
+
+  async fulfill(requestId: bigint): Promise<TransactionReceipt> {
+    const word = BigInt(keccak256(toBeHex(requestId, 32)));
+    const tx = await this.coordinator.fulfillRandomWords(await this.pool.getAddress(), requestId, [word]);
+    return tx.wait();
+  }
+
+  /**
+   * The panel for a submitWork transaction: Micro panels are picked in that
+   * transaction, Standard and Premium ones by fulfilling its VRF request now
+   */
+  async panelFor(submitReceipt: TransactionReceipt): Promise<string[]> {
+    const micro = findEvent(this.pool, submitReceipt, "MicroPanelSelected");
+    if (micro) return [micro.args.validator];
+    const requested = findEvent(this.pool, submitReceipt, "PanelRequested");
+    if (!requested) throw new DevnetError(`No panel was requested in ${submitReceipt.hash}`);
+    const selected = findEvent(this.pool, await this.fulfill(requested.args.vrfRequestId), "PanelSelected");
+    return [...selected!.args.validators];
+  }
+
+  /** Fulfil every request made from now on, as Chainlink would */
+  async start(log: (message: string) => void): Promise<void> {
+    if (this.listening) return;
+    this.listening = true;
+    await this.pool.on("PanelRequested", async (taskId: bigint, _tier: bigint, requestId: bigint) => {
+      try {
+        await this.fulfill(requestId);
+        log(`Selected the panel for task ${taskId} (VRF request ${requestId})`);
+      } catch (err: any) {
+        // IncompletePanelSelection: too few active validators; the round can be retried after VRF_TIMEOUT
+        log(`Panel selection for task ${taskId} failed: ${err.shortMessage ?? err.message}`);
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.listening) return;
+    this.listening = false;
+    await this.pool.removeAllListeners();
+  }
+}
@@ -1,7 +1,12 @@
+import path from "node:path";
 import type { NextConfig } from "next";
 
+// @agentecon/sdk is linked from ../sdk/typescript, outside this app's directory
+const workspaceRoot = path.join(__dirname, "..");
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  turbopack: { root: workspaceRoot },
+  outputFileTracingRoot: workspaceRoot,
 };
 
 export default nextConfig;
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
 import { useConnectModal } from "@rainbow-me/rainbowkit";
 import { useRouter } from "next/navigation";
@@ -12,8 +12,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { CATEGORIES } from "@/lib/mock-data";
 import { agentRegistryConfig } from "@/lib/contracts";
+import { uploadAgentMetadata } from "@/lib/api";
 import { Bot, ArrowRight, Check, Loader2 } from "lucide-react";
-import { keccak256, toBytes } from "viem";
+import { keccak256, toBytes, decodeEventLog } from "viem";
 
 export default function RegisterPage() {
   const { address, isConnected } = useAccount();
@@ -25,7 +26,9 @@ export default function RegisterPage() {
   const [error, setError] = useState<string | null>(null);
 
   const { data: txHash, writeContract, isPending: isWriting, error: writeError } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash: txHash });
+  const { isLoading: isConfirming, data: receipt } = useWaitForTransactionReceipt({ hash: txHash });
+  // Exact text hashed into metadataHash, uploaded once the agent ID is known
+  const metadataRef = useRef("");
 
   const submitting = isWriting || isConfirming;
 
@@ -34,8 +37,28 @@ export default function RegisterPage() {
   }, [writeError]);
 
   useEffect(() => {
-    if (isConfirmed) router.push("/dashboard");
-  }, [isConfirmed, router]);
+    if (!receipt) return;
+    let agentId: number | null = null;
+    for (const log of receipt.logs) {
+      try {
+        const event = decodeEventLog({ abi: agentRegistryConfig.abi, data: log.data, topics: log.topics });
+        if (event.eventName === "AgentRegistered") {
+          agentId = Number((event.args as unknown as { agentId: bigint }).agentId);
+          break;
+        }
+      } catch {
+        // not an AgentRegistry event
+      }
+    }
+    if (agentId === null) {
+      router.push("/dashboard");
+      return;
+    }
+    // The agent is registered either way; a failed upload only leaves it unnamed
+    uploadAgentMetadata(agentId, metadataRef.current)
+      .catch((e) => console.warn("Metadata upload failed:", e))
+      .finally(() => router.push("/dashboard"));
+  }, [receipt, router]);
 
   const toggleCap = (c: string) => {
     setCaps((prev) => prev.includes(c) ? prev.filter((x) => x !== c) : [...prev, c]);
@@ -49,6 +72,7 @@ export default function RegisterPage() {
     setError(null);
     try {
       const metadata = JSON.stringify({ name, description, capabilities: caps });
+      metadataRef.current = metadata;
       const metadataHash = keccak256(toBytes(metadata));
       writeContract({
         ...agentRegistryConfig,
@@ -1,8 +1,12 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Shield, Coins, TrendingUp, AlertTriangle, Clock, Users, Zap, Lock } from "lucide-react";
+import { fetchValidators } from "@/lib/api";
+import type { Validator } from "@/lib/mock-data";
+import { Shield, Coins, TrendingUp, AlertTriangle, Clock, Users, Zap, Lock, Loader2 } from "lucide-react";
 
 const STAKING_TIERS = [
   {
@@ -29,12 +33,9 @@ const STAKING_TIERS = [
   },
 ];
 
-const STATS = [
-  { label: "Total Staked", value: "—", icon: Lock, note: "Live on Base" },
-  { label: "Active Validators", value: "—", icon: Users, note: "Pre-launch" },
-  { label: "APY (Estimated)", value: "12-18%", icon: TrendingUp, note: "From protocol fees" },
-  { label: "Slash Rate", value: "10%", icon: AlertTriangle, note: "Per offense" },
-];
+function shortAddress(a: string) {
+  return `${a.slice(0, 6)}…${a.slice(-4)}`;
+}
 
 const HOW_IT_WORKS = [
   {
@@ -64,6 +65,21 @@ const HOW_IT_WORKS = [
 ];
 
 export default function StakingPage() {
+  const [validators, setValidators] = useState<Validator[] | null>(null);
+
+  useEffect(() => {
+    fetchValidators().then(({ validators: v }) => setValidators(v));
+  }, []);
+
+  const active = validators?.filter((v) => v.active) ?? [];
+  const totalStaked = active.reduce((sum, v) => sum + v.stakeETH, 0);
+  const stats = [
+    { label: "Total Staked", value: validators ? `${totalStaked.toFixed(2)} ETH` : "—", icon: Lock, note: "ValidatorPoolV2 on Base" },
+    { label: "Active Validators", value: validators ? String(active.length) : "—", icon: Users, note: `${active.filter((v) => v.isAIValidator).length} AI validators` },
+    { label: "APY (Estimated)", value: "12-18%", icon: TrendingUp, note: "From protocol fees" },
+    { label: "Slash Rate", value: "10%", icon: AlertTriangle, note: "Per offense" },
+  ];
+
   return (
     <div className="container mx-auto px-4 py-12 max-w-6xl">
       {/* Hero */}
@@ -83,7 +99,7 @@ export default function StakingPage() {
 
       {/* Stats */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-16">
-        {STATS.map((stat) => (
+        {stats.map((stat) => (
           <Card key={stat.label} className="bg-zinc-900 border-zinc-800">
             <CardContent className="p-4 text-center">
               <stat.icon className="h-5 w-5 mx-auto mb-2 text-emerald-400" />
@@ -95,6 +111,60 @@ export default function StakingPage() {
         ))}
       </div>
 
+      {/* Validator Directory */}
+      <div className="mb-16">
+        <h2 className="text-2xl font-bold text-center mb-8">Validator Directory</h2>
+        {validators === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-zinc-500" />
+          </div>
+        ) : validators.length === 0 ? (
+          <p className="text-center text-sm text-zinc-500">No validators registered yet.</p>
+        ) : (
+          <Card className="bg-zinc-900 border-zinc-800">
+            <CardContent className="p-0 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-zinc-800 text-left text-zinc-500">
+                    <th className="p-3 font-medium">Validator</th>
+                    <th className="p-3 font-medium text-right">Stake</th>
+                    <th className="p-3 font-medium text-right">Reputation</th>
+                    <th className="p-3 font-medium text-right">Validations</th>
+                    <th className="p-3 font-medium">Unstaking</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {validators.map((v) => (
+                    <tr key={v.address} className="border-b border-zinc-800/50 last:border-0">
+                      <td className="p-3">
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono">{shortAddress(v.address)}</span>
+                          {v.isAIValidator && <Badge variant="outline" className="text-xs text-emerald-400">AI</Badge>}
+                          {!v.active && <Badge variant="outline" className="text-xs text-zinc-500">Inactive</Badge>}
+                        </div>
+                        <div className="text-xs text-zinc-600">Since {v.stakedSince}</div>
+                      </td>
+                      <td className="p-3 text-right font-mono">{v.stakeETH} ETH</td>
+                      <td className="p-3 text-right font-mono">{(v.reputation / 100).toFixed(1)}%</td>
+                      <td className="p-3 text-right font-mono">{v.validationsCompleted}</td>
+                      <td className="p-3 text-xs text-zinc-400">
+                        {v.pendingUnstakeETH > 0 ? (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" /> {v.pendingUnstakeETH} ETH · {v.cooldownEndsAt}
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
       {/* How It Works */}
       <div className="mb-16">
         <h2 className="text-2xl font-bold text-center mb-8">How Staking Works</h2>
@@ -10,10 +10,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
-import { fetchTask } from "@/lib/api";
+import { fetchTask, fetchTaskEvents, fetchTaskPanel, type ApiTaskEvent, type ApiTaskPanel } from "@/lib/api";
+import { txUrl } from "@/lib/chain";
 import { abbCoreConfig } from "@/lib/contracts";
 import { CATEGORIES, type Task } from "@/lib/mock-data";
-import { ArrowLeft, Clock, Users, CheckCircle, Circle, Loader2 } from "lucide-react";
+import { ArrowLeft, Clock, Users, CheckCircle, Circle, Loader2, ExternalLink, Shield } from "lucide-react";
 
 const statusColors: Record<string, string> = {
   open: "bg-emerald-500/10 text-emerald-500 border-emerald-500/20",
@@ -37,6 +38,63 @@ const timelineSteps = [
   { key: "paid", label: "Paid" },
 ];
 
+const eventLabels: Record<string, string> = {
+  TaskCreatedAndFunded: "Task created and funded",
+  Deposited: "Bounty deposited in escrow",
+  TaskClaimedByAgent: "Claimed by agent",
+  WorkSubmittedForReview: "Work submitted for review",
+  PanelRequested: "Validator panel requested",
+  PanelSelected: "Validator panel selected",
+  MicroPanelSelected: "Micro panel selected",
+  PanelSelectionFailed: "Panel selection failed",
+  VRFRequestCancelled: "Panel request cancelled",
+  ScoreCommitted: "Score committed",
+  ScoreRevealed: "Score revealed",
+  DirectScoreSubmitted: "Score submitted",
+  RoundFinalized: "Validation round finalized",
+  ReviewFinalized: "Review finalized",
+  Released: "Payment released",
+  Refunded: "Bounty refunded",
+  DisputeRaised: "Dispute raised",
+  DisputeResolved: "Dispute resolved",
+  TaskCancelledAndRefunded: "Task cancelled and refunded",
+  TaskCancelled: "Task cancelled",
+};
+
+const phaseColors: Record<ApiTaskEvent["phase"], string> = {
+  created: "bg-emerald-500",
+  claimed: "bg-amber-500",
+  submitted: "bg-purple-500",
+  validation: "bg-purple-500",
+  settlement: "bg-indigo-500",
+  dispute: "bg-red-500",
+  cancelled: "bg-muted-foreground",
+};
+
+function shortHex(v: string) {
+  return v.length > 14 ? `${v.slice(0, 6)}…${v.slice(-4)}` : v;
+}
+
+function formatArg(v: unknown): string {
+  if (Array.isArray(v)) return v.map(formatArg).join(", ");
+  if (typeof v === "string" && v.startsWith("0x")) return shortHex(v);
+  return String(v);
+}
+
+const panelStatusLabels: Record<ApiTaskPanel["status"], string> = {
+  none: "Not requested",
+  requested: "Selecting validators",
+  cancelled: "Request timed out",
+  selected: "Scoring",
+  finalized: "Finalized",
+};
+
+function formatDeadline(ts: number) {
+  const left = ts - Math.floor(Date.now() / 1000);
+  const when = new Date(ts * 1000).toLocaleString();
+  return left > 0 ? `${when} (${Math.ceil(left / 60)} min left)` : `${when} (passed)`;
+}
+
 function getTimelineIndex(status: string) {
   switch (status) {
     case "open": return 0;
@@ -57,6 +115,8 @@ export default function TaskDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [agentId, setAgentId] = useState("");
   const [claimError, setClaimError] = useState<string | null>(null);
+  const [events, setEvents] = useState<ApiTaskEvent[]>([]);
+  const [panel, setPanel] = useState<ApiTaskPanel | null>(null);
 
   const { data: claimTxHash, writeContract: writeClaim, isPending: isClaiming, error: claimWriteError } = useWriteContract();
   const { isLoading: isClaimConfirming, isSuccess: isClaimConfirmed } = useWaitForTransactionReceipt({ hash: claimTxHash });
@@ -69,8 +129,10 @@ export default function TaskDetailPage() {
     if (isClaimConfirmed) {
       // Refresh task data
       (async () => {
-        const { task: t } = await fetchTask(id);
+        const [{ task: t }, { events: e }, { panel: p }] = await Promise.all([fetchTask(id), fetchTaskEvents(id), fetchTaskPanel(id)]);
         if (t) setTask(t);
+        setEvents(e);
+        setPanel(p);
       })();
     }
   }, [isClaimConfirmed, id]);
@@ -89,9 +151,11 @@ export default function TaskDetailPage() {
   useEffect(() => {
     if (isNaN(id)) { setError("Invalid task ID"); setLoading(false); return; }
     (async () => {
-      const { task: t } = await fetchTask(id);
+      const [{ task: t }, { events: e }, { panel: p }] = await Promise.all([fetchTask(id), fetchTaskEvents(id), fetchTaskPanel(id)]);
       if (!t) setError("Task not found");
       else setTask(t);
+      setEvents(e);
+      setPanel(p);
       setLoading(false);
     })();
   }, [id]);
@@ -171,6 +235,78 @@ export default function TaskDetailPage() {
             <p className="text-sm text-muted-foreground whitespace-pre-wrap">{task.description}</p>
           </div>
 
+          {task.acceptanceCriteria && task.acceptanceCriteria.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-3">Acceptance Criteria</h3>
+              <ul className="space-y-1 text-sm text-muted-foreground">
+                {task.acceptanceCriteria.map((c, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-emerald-500" /> {c}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {task.attachments && task.attachments.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-3">Attachments</h3>
+              <ul className="space-y-1 text-sm">
+                {task.attachments.map((a) => (
+                  <li key={a.uri}>
+                    <a href={a.uri} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-indigo-500 hover:underline">
+                      {a.name} <ExternalLink className="h-3 w-3" />
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* On-chain history */}
+          {events.length > 0 && (
+            <>
+              <Separator />
+              <div>
+                <h3 className="font-semibold mb-3">History</h3>
+                <ol className="relative border-l border-border ml-1.5 space-y-4">
+                  {events.map((e) => (
+                    <li key={`${e.blockNumber}-${e.logIndex}`} className="ml-4">
+                      <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${phaseColors[e.phase]}`} />
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{eventLabels[e.event] ?? e.event}</span>
+                        {txUrl(e.txHash) ? (
+                          <a
+                            href={txUrl(e.txHash)!}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 font-mono text-xs text-muted-foreground hover:text-foreground"
+                          >
+                            {shortHex(e.txHash)} <ExternalLink className="h-3 w-3" />
+                          </a>
+                        ) : (
+                          <span className="font-mono text-xs text-muted-foreground">{shortHex(e.txHash)}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(e.timestamp * 1000).toLocaleString()} · block {e.blockNumber}
+                      </div>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {Object.entries(e.args)
+                          .filter(([k]) => k !== "taskId")
+                          .map(([k, v]) => (
+                            <Badge key={k} variant="outline" className="font-mono text-[10px]">
+                              {k}: {formatArg(v)}
+                            </Badge>
+                          ))}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+
           {/* Submissions */}
           {task.submissions && task.submissions.length > 0 && (
             <>
@@ -255,6 +391,51 @@ export default function TaskDetailPage() {
             </Card>
           )}
 
+          {panel && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Shield className="h-4 w-4" /> Validator Panel
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline" className="capitalize">{panel.tier}</Badge>
+                  <span className="text-xs text-muted-foreground">{panelStatusLabels[panel.status]}</span>
+                </div>
+                {panel.commitDeadline && panel.revealDeadline && (
+                  <div className="space-y-1 text-xs text-muted-foreground">
+                    <div>Commit by {formatDeadline(panel.commitDeadline)}</div>
+                    <div>Reveal by {formatDeadline(panel.revealDeadline)}</div>
+                  </div>
+                )}
+                {panel.validators.length > 0 && (
+                  <ul className="space-y-2">
+                    {panel.validators.map((v) => (
+                      <li key={v.address} className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-xs">{v.address.slice(0, 6)}…{v.address.slice(-4)}</span>
+                        <span className="text-xs">
+                          {v.score !== null ? (
+                            <span className="text-emerald-500">Scored {v.score}</span>
+                          ) : v.committed ? (
+                            <span className="text-amber-500">Committed</span>
+                          ) : (
+                            <span className="text-muted-foreground">Pending</span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {panel.result && (
+                  <div className={`text-xs font-medium ${panel.result.accepted ? "text-emerald-500" : "text-red-400"}`}>
+                    {panel.result.accepted ? "Accepted" : "Rejected"} · median score {panel.result.medianScore}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardContent className="pt-6">
               <div className="text-sm text-muted-foreground mb-1">Posted by</div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
 import { useConnectModal } from "@rainbow-me/rainbowkit";
 import { useRouter } from "next/navigation";
@@ -13,9 +13,10 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CATEGORIES } from "@/lib/mock-data";
 import { abbCoreConfig } from "@/lib/contracts";
+import { uploadTaskDocument } from "@/lib/api";
 import { ArrowLeft, ArrowRight, Check, Wallet, Loader2 } from "lucide-react";
 import Link from "next/link";
-import { keccak256, toBytes, parseEther } from "viem";
+import { keccak256, toBytes, parseEther, decodeEventLog } from "viem";
 
 export default function CreateTaskPage() {
   const { address, isConnected } = useAccount();
@@ -26,13 +27,16 @@ export default function CreateTaskPage() {
   const [form, setForm] = useState({
     title: "",
     description: "",
+    acceptanceCriteria: "",
     category: "",
     deadline: "",
     bountyETH: "",
   });
 
   const { data: txHash, writeContract, isPending: isWriting, error: writeError } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash: txHash });
+  const { isLoading: isConfirming, data: receipt } = useWaitForTransactionReceipt({ hash: txHash });
+  // Exact text hashed into descriptionHash, uploaded once the task ID is known
+  const descTextRef = useRef("");
 
   const submitting = isWriting || isConfirming;
 
@@ -41,8 +45,29 @@ export default function CreateTaskPage() {
   }, [writeError]);
 
   useEffect(() => {
-    if (isConfirmed) router.push("/tasks");
-  }, [isConfirmed, router]);
+    if (!receipt) return;
+    let taskId: number | null = null;
+    for (const log of receipt.logs) {
+      try {
+        const event = decodeEventLog({ abi: abbCoreConfig.abi, data: log.data, topics: log.topics });
+        if (event.eventName === "TaskCreatedAndFunded") {
+          taskId = Number((event.args as unknown as { taskId: bigint }).taskId);
+          break;
+        }
+      } catch {
+        // not an ABBCore event
+      }
+    }
+    if (taskId === null) {
+      router.push("/tasks");
+      return;
+    }
+    const id = taskId;
+    // The task exists on chain either way; a failed upload only leaves it without a title
+    uploadTaskDocument(id, "description", descTextRef.current)
+      .catch((e) => console.warn("Description upload failed:", e))
+      .finally(() => router.push(`/tasks/${id}`));
+  }, [receipt, router]);
 
   const bountyUSD = form.bountyETH ? (parseFloat(form.bountyETH) * 2500).toFixed(0) : "0";
 
@@ -53,7 +78,13 @@ export default function CreateTaskPage() {
     }
     setError(null);
     try {
-      const descText = JSON.stringify({ title: form.title, description: form.description, category: form.category });
+      const descText = JSON.stringify({
+        title: form.title,
+        body: form.description,
+        category: form.category,
+        acceptanceCriteria: form.acceptanceCriteria.split("\n").map((l) => l.trim()).filter(Boolean),
+      });
+      descTextRef.current = descText;
       const descriptionHash = keccak256(toBytes(descText));
       const deadlineUnix = BigInt(Math.floor(new Date(form.deadline).getTime() / 1000));
 
@@ -116,6 +147,10 @@ export default function CreateTaskPage() {
               <Label htmlFor="description">Description</Label>
               <Textarea id="description" placeholder="Describe what you need in detail..." rows={6} value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
             </div>
+            <div>
+              <Label htmlFor="criteria">Acceptance Criteria</Label>
+              <Textarea id="criteria" placeholder="One requirement per line" rows={3} value={form.acceptanceCriteria} onChange={(e) => setForm({ ...form, acceptanceCriteria: e.target.value })} />
+            </div>
             <div>
               <Label>Category</Label>
               <Select value={form.category} onValueChange={(v) => setForm({ ...form, category: v })}>
@@ -193,6 +228,14 @@ export default function CreateTaskPage() {
                 <span className="text-xs text-muted-foreground">Description</span>
                 <p className="text-sm">{form.description || "No description"}</p>
               </div>
+              {form.acceptanceCriteria.trim() && (
+                <div>
+                  <span className="text-xs text-muted-foreground">Acceptance Criteria</span>
+                  <ul className="text-sm list-disc pl-5">
+                    {form.acceptanceCriteria.split("\n").filter((l) => l.trim()).map((l, i) => <li key={i}>{l.trim()}</li>)}
+                  </ul>
+                </div>
+              )}
               <div className="flex gap-4">
                 <div>
                   <span className="text-xs text-muted-foreground">Category</span>
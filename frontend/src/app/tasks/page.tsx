@@ -10,6 +10,8 @@ import { CATEGORIES, type TaskStatus, type Task } from "@/lib/mock-data";
 import { Search, Plus, Loader2 } from "lucide-react";
 import Link from "next/link";
 
+const PAGE_SIZE = 30;
+
 const statusFilters: { value: TaskStatus | "all"; label: string }[] = [
   { value: "all", label: "All" },
   { value: "open", label: "Open" },
@@ -23,7 +25,10 @@ export default function TasksPage() {
   const [statusFilter, setStatusFilter] = useState<TaskStatus | "all">("all");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -31,8 +36,10 @@ export default function TasksPage() {
       setLoading(true);
       setError(null);
       try {
-        const { tasks: data } = await fetchTasks();
-        setTasks(data);
+        const page = await fetchTasks(undefined, { limit: PAGE_SIZE });
+        setTasks(page.tasks);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
       } catch (e: any) {
         setError(e.message);
       } finally {
@@ -41,6 +48,21 @@ export default function TasksPage() {
     })();
   }, []);
 
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchTasks(undefined, { limit: PAGE_SIZE, cursor: nextCursor });
+      setTasks((prev) => [...prev, ...page.tasks]);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const filtered = useMemo(() => {
     return tasks.filter((t) => {
       if (statusFilter !== "all" && t.status !== statusFilter) return false;
@@ -120,7 +142,9 @@ export default function TasksPage() {
         </div>
       ) : (
         <>
-          <div className="text-sm text-muted-foreground mb-4">{filtered.length} tasks found</div>
+          <div className="text-sm text-muted-foreground mb-4">
+            {filtered.length} tasks found{tasks.length < total ? ` (${tasks.length} of ${total} loaded)` : ""}
+          </div>
           {filtered.length === 0 ? (
             <div className="text-center py-20 text-muted-foreground">
               <p className="text-lg">No tasks match your filters</p>
@@ -133,6 +157,14 @@ export default function TasksPage() {
               ))}
             </div>
           )}
+          {nextCursor && (
+            <div className="flex justify-center mt-8">
+              <Button variant="outline" onClick={loadMore} disabled={loadingMore} className="gap-2">
+                {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
         </>
       )}
     </div>
@@ -6,9 +6,10 @@
 import {
   mockTasks,
   mockAgents,
-  mockValidators,
   platformStats,
+  CATEGORIES,
   type Task,
+  type Submission,
   type Agent,
   type Validator,
 } from "./mock-data";
@@ -76,6 +77,71 @@ export interface ApiTask {
   createdAt: number;
   claimedAt: number;
   submittedAt: number;
+  tier: "micro" | "standard" | "premium" | null;  // V2 validation tier, set at submission
+  metadata: ApiTaskDescription | null;   // off-chain document matching descriptionHash
+  submission: ApiSubmissionDocument | null;
+}
+
+export interface ApiAttachment {
+  name: string;
+  uri: string;
+  mimeType?: string;
+  hash?: string;
+}
+
+export interface ApiTaskDescription {
+  title: string;
+  body: string;
+  category: string | null;
+  acceptanceCriteria: string[];
+  attachments: ApiAttachment[];
+}
+
+export interface ApiSubmissionDocument {
+  body: string;
+  attachments: ApiAttachment[];
+  data: unknown;
+}
+
+export interface ApiTaskPage {
+  total: number;
+  count: number;
+  nextCursor: string | null;
+  tasks: ApiTask[];
+}
+
+/** Query options for GET /tasks (all optional; amounts in wei, times in unix seconds) */
+export interface TaskQuery {
+  limit?: number;
+  cursor?: string;
+  sort?: "createdAt" | "deadline" | "bounty";
+  order?: "asc" | "desc";
+  poster?: string;
+  assignedAgent?: number;
+  paymentToken?: string;
+  minBountyWei?: string;
+  maxBountyWei?: string;
+  deadlineAfter?: number;
+  deadlineBefore?: number;
+}
+
+/** GET /tasks/stats */
+export interface ApiTaskStats {
+  total: number;
+  byState: Record<string, number>;
+  completedEthBountyWei: string;
+  completedEthBounty: string;
+}
+
+export interface ApiTaskEvent {
+  phase: "created" | "claimed" | "submitted" | "validation" | "settlement" | "dispute" | "cancelled";
+  contract: string;
+  event: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;          // unix seconds
+  txHash: string;
+  args: Record<string, unknown>;
 }
 
 export interface ApiAgent {
@@ -88,6 +154,53 @@ export interface ApiAgent {
   totalEarned: string;        // ETH string
   registeredAt: number;
   active: boolean;
+  // From the agent's metadata document; null/empty until the API has resolved it
+  name: string | null;
+  description: string | null;
+  capabilities: string[];
+  endpoints: ApiAgentEndpoint[];
+}
+
+export interface ApiAgentEndpoint {
+  name: string;
+  endpoint: string;
+  version?: string;
+}
+
+export interface ApiValidator {
+  address: string;
+  stakeAmount: string;        // ETH string
+  stakeAmountWei: string;
+  reputationScore: number;    // 0-10000 bps
+  registeredAt: number;
+  active: boolean;
+  isAIValidator: boolean;
+  pendingUnstake: string;     // ETH string
+  pendingUnstakeWei: string;
+  unstakeRequestTime: number;
+  cooldownEndsAt: number | null;
+  validationsCompleted: number;
+}
+
+export interface ApiPanelMember {
+  address: string;
+  committed: boolean;
+  revealed: boolean;
+  score: number | null;
+  scoredAt: number | null;
+}
+
+export interface ApiTaskPanel {
+  taskId: number;
+  status: "none" | "requested" | "cancelled" | "selected" | "finalized";
+  tier: "micro" | "standard" | "premium";
+  vrfRequestId: string | null;
+  requestedAt: number | null;
+  selectedAt: number | null;
+  commitDeadline: number | null;
+  revealDeadline: number | null;
+  validators: ApiPanelMember[];
+  result: { accepted: boolean; medianScore: number } | null;
 }
 
 export interface HealthResponse {
@@ -117,13 +230,33 @@ const stateToStatus: Record<string, Task["status"]> = {
   cancelled: "completed",
 };
 
+const submissionStatus: Record<string, Submission["status"]> = {
+  completed: "accepted",
+  resolved: "accepted",
+  cancelled: "rejected",
+};
+
 function apiTaskToTask(t: ApiTask): Task {
   const bountyETH = parseFloat(t.bountyAmount) || 0;
+  const meta = t.metadata;
+  const category = CATEGORIES.find((c) => c.value === meta?.category)?.value ?? "other";
   return {
     id: t.id,
-    title: `Task #${t.id}`,
-    description: `On-chain task (hash: ${t.descriptionHash.slice(0, 18)}…)`,
-    category: "other",
+    title: meta?.title ?? `Task #${t.id}`,
+    description: meta?.body ?? `On-chain task (hash: ${t.descriptionHash.slice(0, 18)}…)`,
+    category,
+    acceptanceCriteria: meta?.acceptanceCriteria,
+    attachments: meta?.attachments,
+    submissions: t.submission
+      ? [{
+          id: t.id,
+          agentId: t.assignedAgent,
+          agentName: `Agent #${t.assignedAgent}`,
+          submittedAt: new Date(t.submittedAt * 1000).toISOString().slice(0, 10),
+          status: submissionStatus[t.state] ?? "pending",
+          preview: t.submission.body.slice(0, 280),
+        }]
+      : undefined,
     status: stateToStatus[t.state] ?? "open",
     bountyETH,
     bountyUSD: Math.round(bountyETH * 2500),
@@ -143,41 +276,73 @@ function apiAgentToAgent(a: ApiAgent): Agent {
   const badgeIdx = a.reputationScore >= 95 ? 4 : a.reputationScore >= 85 ? 3 : a.reputationScore >= 70 ? 2 : a.reputationScore >= 50 ? 1 : 0;
   return {
     id: a.id,
-    name: `Agent #${a.id}`,
+    name: a.name ?? `Agent #${a.id}`,
     address: a.operator,
     avatar: "🤖",
     tasksCompleted: a.tasksCompleted,
     successRate: rate,
     totalEarnings: earned,
     reputation: a.reputationScore,
-    capabilities: [],
+    capabilities: a.capabilities ?? [],
     registeredAt: new Date(a.registeredAt * 1000).toISOString().slice(0, 10),
     streak: 0,
     badge: badgeTiers[badgeIdx],
   };
 }
 
+function apiValidatorToValidator(v: ApiValidator): Validator {
+  return {
+    address: v.address,
+    stakeETH: parseFloat(v.stakeAmount) || 0,
+    reputation: v.reputationScore,
+    isAIValidator: v.isAIValidator,
+    active: v.active,
+    pendingUnstakeETH: parseFloat(v.pendingUnstake) || 0,
+    cooldownEndsAt: v.cooldownEndsAt ? new Date(v.cooldownEndsAt * 1000).toISOString().slice(0, 10) : null,
+    validationsCompleted: v.validationsCompleted,
+    stakedSince: new Date(v.registeredAt * 1000).toISOString().slice(0, 10),
+  };
+}
+
 // ---------- public API functions ----------
 
 export async function fetchValidators(): Promise<{ validators: Validator[]; demo: boolean }> {
-  // No on-chain validator list endpoint yet — return mock without triggering demo banner
-  return { validators: mockValidators, demo: false };
+  if (FORCE_DEMO) return { validators: [], demo: true };
+  try {
+    const data = await apiFetch<{ total: number; validators: ApiValidator[] }>("/validators");
+    return { validators: data.validators.map(apiValidatorToValidator), demo: false };
+  } catch {
+    // API error — return empty list without triggering demo banner
+    return { validators: [], demo: true };
+  }
 }
 
-export async function fetchTasks(status?: string): Promise<{ tasks: Task[]; demo: boolean }> {
+function taskQueryString(status: string | undefined, query: TaskQuery): string {
+  const params = new URLSearchParams();
+  if (status && status !== "all") params.set("status", status);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+export async function fetchTasks(
+  status?: string,
+  query: TaskQuery = {},
+): Promise<{ tasks: Task[]; total: number; nextCursor: string | null; demo: boolean }> {
   if (FORCE_DEMO) {
     // API error — return fallback without triggering demo banner
     const filtered = status && status !== "all" ? mockTasks.filter((t) => t.status === status) : mockTasks;
-    return { tasks: filtered, demo: true };
+    return { tasks: filtered, total: filtered.length, nextCursor: null, demo: true };
   }
   try {
-    const qs = status && status !== "all" ? `?status=${status}` : "";
-    const data = await apiFetch<{ total: number; tasks: ApiTask[] }>(`/tasks${qs}`);
-    return { tasks: data.tasks.map(apiTaskToTask), demo: false };
+    const data = await apiFetch<ApiTaskPage>(`/tasks${taskQueryString(status, query)}`);
+    return { tasks: data.tasks.map(apiTaskToTask), total: data.total, nextCursor: data.nextCursor, demo: false };
   } catch {
     // API error — return fallback without triggering demo banner
     const filtered = status && status !== "all" ? mockTasks.filter((t) => t.status === status) : mockTasks;
-    return { tasks: filtered, demo: true };
+    return { tasks: filtered, total: filtered.length, nextCursor: null, demo: true };
   }
 }
 
@@ -195,6 +360,46 @@ export async function fetchTask(id: number): Promise<{ task: Task | null; demo:
   }
 }
 
+export async function fetchTaskEvents(id: number): Promise<{ events: ApiTaskEvent[]; demo: boolean }> {
+  if (FORCE_DEMO) return { events: [], demo: true };
+  try {
+    const data = await apiFetch<{ taskId: number; count: number; events: ApiTaskEvent[] }>(`/tasks/${id}/events`);
+    return { events: data.events, demo: false };
+  } catch {
+    // No indexed history available — the page falls back to the status timeline only
+    return { events: [], demo: true };
+  }
+}
+
+export async function fetchTaskPanel(id: number): Promise<{ panel: ApiTaskPanel | null; demo: boolean }> {
+  if (FORCE_DEMO) return { panel: null, demo: true };
+  try {
+    return { panel: await apiFetch<ApiTaskPanel>(`/tasks/${id}/panel`), demo: false };
+  } catch {
+    return { panel: null, demo: true };
+  }
+}
+
+/**
+ * Store the off-chain document for a task. `content` must be the exact text
+ * whose keccak256 was put on chain as descriptionHash / submissionHash.
+ */
+export async function uploadTaskDocument(
+  id: number,
+  kind: "description" | "submission",
+  content: string,
+): Promise<{ taskId: number; kind: string; hash: string; cid: string | null; storedAt: number }> {
+  return apiFetch(`/tasks/${id}/${kind}`, { method: "POST", body: JSON.stringify({ content }) });
+}
+
+/** Store and pin an agent's metadata document; `content` must hash to the on-chain metadataHash */
+export async function uploadAgentMetadata(
+  id: number,
+  content: string,
+): Promise<{ agentId: number; kind: string; hash: string; cid: string | null; storedAt: number }> {
+  return apiFetch(`/agents/${id}/metadata`, { method: "POST", body: JSON.stringify({ content }) });
+}
+
 /** @deprecated Use wagmi useWriteContract with ABBCore.createTaskETH() instead */
 export async function createTask(body: {
   descriptionHash: string;
@@ -264,21 +469,18 @@ export async function fetchPlatformStats(): Promise<{
     return { stats: platformStats, demo: true };
   }
   try {
-    const [tasksData, agentsData] = await Promise.all([
-      apiFetch<{ total: number; tasks: ApiTask[] }>("/tasks"),
+    const [taskStats, agentsData] = await Promise.all([
+      apiFetch<ApiTaskStats>("/tasks/stats"),
       apiFetch<{ total: number; agents: ApiAgent[] }>("/agents"),
     ]);
-    const completed = tasksData.tasks.filter((t) => t.state === "completed").length;
-    const active = tasksData.tasks.filter((t) => t.state === "open" || t.state === "claimed").length;
-    const totalPaid = tasksData.tasks
-      .filter((t) => t.state === "completed")
-      .reduce((sum, t) => sum + (parseFloat(t.bountyAmount) || 0), 0);
+    const { byState } = taskStats;
+    const totalPaid = parseFloat(taskStats.completedEthBounty) || 0;
     return {
       stats: {
-        tasksCompleted: completed,
+        tasksCompleted: byState.completed ?? 0,
         agentsRegistered: agentsData.total,
         ethPaidOut: Math.round(totalPaid * 100) / 100,
-        activeTasksNow: active,
+        activeTasksNow: (byState.open ?? 0) + (byState.claimed ?? 0),
       },
       demo: false,
     };
@@ -0,0 +1,12 @@
+import { base, foundry } from "wagmi/chains";
+
+/** Base, or the local Anvil devnet (devnet/README.md) when NEXT_PUBLIC_CHAIN_ID is 31337 */
+export const chain = process.env.NEXT_PUBLIC_CHAIN_ID === String(foundry.id) ? foundry : base;
+
+export const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL || chain.rpcUrls.default.http[0];
+
+/** Block explorer page for a transaction; null on the devnet, which has no explorer */
+export function txUrl(hash: string): string | null {
+  const explorer = chain.blockExplorers?.default.url;
+  return explorer ? `${explorer}/tx/${hash}` : null;
+}
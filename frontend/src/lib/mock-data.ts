@@ -13,6 +13,8 @@ export interface Task {
   createdAt: string;
   poster: string;
   agentsCompeting: number;
+  acceptanceCriteria?: string[];
+  attachments?: { name: string; uri: string }[];
   claimedBy?: Agent;
   submissions?: Submission[];
 }
@@ -347,39 +349,17 @@ export const mockAgents: Agent[] = [
 ];
 
 export interface Validator {
-  id: number;
-  name: string;
   address: string;
   stakeETH: number;
-  validationsCompleted: number;
-  accuracyRate: number;
+  reputation: number;          // 0-10000 bps
+  isAIValidator: boolean;
   active: boolean;
+  pendingUnstakeETH: number;
+  cooldownEndsAt: string | null;
+  validationsCompleted: number;
   stakedSince: string;
 }
 
-export const mockValidators: Validator[] = [
-  {
-    id: 1, name: "TruthNode-Prime", address: "0xVal1...aaa",
-    stakeETH: 5.0, validationsCompleted: 142, accuracyRate: 97,
-    active: true, stakedSince: "2025-10-01",
-  },
-  {
-    id: 2, name: "ConsensusGuard", address: "0xVal2...bbb",
-    stakeETH: 3.2, validationsCompleted: 89, accuracyRate: 94,
-    active: true, stakedSince: "2025-11-15",
-  },
-  {
-    id: 3, name: "VerifyBot-X", address: "0xVal3...ccc",
-    stakeETH: 8.0, validationsCompleted: 203, accuracyRate: 99,
-    active: true, stakedSince: "2025-09-20",
-  },
-  {
-    id: 4, name: "OracleValidator", address: "0xVal4...ddd",
-    stakeETH: 2.5, validationsCompleted: 51, accuracyRate: 91,
-    active: true, stakedSince: "2026-01-10",
-  },
-];
-
 export const platformStats = {
   tasksCompleted: 47,
   agentsRegistered: 12,
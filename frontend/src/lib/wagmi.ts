@@ -1,13 +1,13 @@
 import { getDefaultConfig } from "@rainbow-me/rainbowkit";
-import { base } from "wagmi/chains";
 import { http } from "wagmi";
+import { chain, rpcUrl } from "./chain";
 
 export const wagmiConfig = getDefaultConfig({
   appName: "AgentEcon",
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || "placeholder",
-  chains: [base],
+  chains: [chain],
   transports: {
-    [base.id]: http("https://mainnet.base.org"),
+    [chain.id]: http(rpcUrl),
   },
   ssr: true,
 });
@@ -0,0 +1,51 @@
+import dotenv from "dotenv";
+import { parseUnits } from "ethers";
+import type { KeeperAction } from "./scanner.js";
+dotenv.config();
+
+function env(key: string, fallback?: string): string {
+  const v = process.env[key] ?? fallback;
+  if (!v) throw new Error(`Missing env var: ${key}`);
+  return v;
+}
+
+function protocolVersion(): "v1" | "v2" {
+  const v = env("PROTOCOL_VERSION", "v2");
+  if (v !== "v1" && v !== "v2") throw new Error(`PROTOCOL_VERSION must be v1 or v2, got ${v}`);
+  return v;
+}
+
+const ACTION_NAMES: Record<string, KeeperAction> = {
+  finalize: "finalizeReview",
+  refund: "claimRefundAfterRejection",
+  reclaim: "reclaimExpiredTask",
+  "cancel-vrf": "cancelTimedOutRequest",
+};
+
+function actions(): Set<KeeperAction> {
+  const names = env("KEEPER_ACTIONS", Object.keys(ACTION_NAMES).join(",")).split(",").map((s) => s.trim()).filter(Boolean);
+  const unknown = names.filter((n) => !ACTION_NAMES[n]);
+  if (unknown.length) throw new Error(`Unknown KEEPER_ACTIONS ${unknown.join(", ")}; expected ${Object.keys(ACTION_NAMES).join(", ")}`);
+  return new Set(names.map((n) => ACTION_NAMES[n]));
+}
+
+export const config = {
+  rpcUrl: env("RPC_URL", "http://localhost:8545"),
+  // Selects the ABBCore / ValidatorPool ABIs; the registries and escrow are shared
+  protocolVersion: protocolVersion(),
+  contracts: {
+    abbCore: env("ABBCORE_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    agentRegistry: env("AGENT_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    taskRegistry: env("TASK_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    validatorPool: env("VALIDATOR_POOL_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    bountyEscrow: env("BOUNTY_ESCROW_ADDRESS", "0x0000000000000000000000000000000000000000"),
+  },
+  // Signs keeper transactions; --dry-run simulates without one
+  privateKey: process.env.KEEPER_PRIVATE_KEY || null,
+  actions: actions(),
+  pollIntervalMs: parseInt(env("KEEPER_POLL_INTERVAL_MS", "60000"), 10),
+  // Per-transaction caps
+  maxGas: BigInt(env("KEEPER_MAX_GAS", "1000000")),
+  maxFeePerGas: parseUnits(env("KEEPER_MAX_FEE_GWEI", "5"), "gwei"),
+  txTimeoutMs: parseInt(env("KEEPER_TX_TIMEOUT_MS", "120000"), 10),
+};
@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { JsonRpcProvider, Wallet } from "ethers";
+import { createContracts } from "@agentecon/sdk";
+import { logger } from "@agentecon/sdk/logger";
+import { config } from "./config.js";
+import { Keeper } from "./keeper.js";
+import type { ActionReport } from "./keeper.js";
+import { TaskScanner } from "./scanner.js";
+import { TxSender } from "./sender.js";
+
+const USAGE = `Usage: abb-keeper [--dry-run] [--once]
+  --dry-run  Scan and simulate once, print what would be sent and exit; needs no key
+  --once     Run a single pass and exit instead of polling every KEEPER_POLL_INTERVAL_MS
+
+Configuration comes from the environment or .env (see .env.example).`;
+
+function printReport(reports: ActionReport[]): void {
+  if (reports.length === 0) {
+    console.log("No tasks need a keeper action.");
+    return;
+  }
+  const rows = reports.map((r) => [
+    String(r.taskId),
+    r.action,
+    r.outcome,
+    r.gasEstimate ?? "-",
+    r.outcome === "would-send" ? r.reason : `${r.reason}; ${r.detail}`,
+  ]);
+  const header = ["TASK", "ACTION", "OUTCOME", "GAS", "REASON"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  for (const row of [header, ...rows]) {
+    console.log(row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join("  "));
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      "dry-run": { type: "boolean", default: false },
+      once: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const dryRun = values["dry-run"];
+
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const contracts = createContracts(config.contracts, provider, config.protocolVersion);
+  const sender = config.privateKey
+    ? new TxSender(new Wallet(config.privateKey, provider), {
+        maxGas: config.maxGas,
+        maxFeePerGas: config.maxFeePerGas,
+        txTimeoutMs: config.txTimeoutMs,
+      })
+    : null;
+  const keeper = new Keeper(contracts, new TaskScanner(contracts), sender, config.actions);
+
+  if (dryRun) {
+    printReport(await keeper.tick(true));
+    provider.destroy();
+    return;
+  }
+
+  const address = await sender?.signer.getAddress();
+  logger.info({ address, actions: [...config.actions], pollIntervalMs: config.pollIntervalMs }, "Keeper started");
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopping = true;
+    wake?.();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  while (!stopping) {
+    try {
+      const reports = await keeper.tick(false);
+      const sent = reports.filter((r) => r.outcome === "sent").length;
+      logger.info({ candidates: reports.length, sent }, "Scan complete");
+    } catch (err: any) {
+      // An RPC outage or similar; the next pass tries again
+      logger.error({ err: err.message }, "Scan failed");
+    }
+    if (values.once) break;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, config.pollIntervalMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+  logger.info("Keeper stopped");
+  provider.destroy();
+}
+
+main().catch((err) => {
+  logger.error({ err: err.message }, "Keeper failed");
+  process.exit(1);
+});
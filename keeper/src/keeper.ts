@@ -0,0 +1,173 @@
+import { decodeContractError } from "@agentecon/sdk";
+import type { ProtocolContracts } from "@agentecon/sdk";
+import { logger } from "@agentecon/sdk/logger";
+import type { BaseContract, TransactionReceipt } from "ethers";
+import type { Candidate, KeeperAction, TaskScanner } from "./scanner.js";
+import { FeeCapError, GasCapError } from "./sender.js";
+import type { TxSender } from "./sender.js";
+
+/**
+ * - sent / pending: mined, or still unmined after KEEPER_TX_TIMEOUT_MS (it is
+ *   re-checked each pass and not sent again until it is mined or dropped)
+ * - would-send: the simulation passed (--dry-run)
+ * - waiting: not due yet (the contract said so, or fees are above the cap)
+ * - skipped: the simulation reverted for another reason, e.g. the keeper is not the poster
+ * - failed: the transaction could not be sent, reverted on chain or was dropped
+ */
+export type Outcome = "sent" | "pending" | "would-send" | "waiting" | "skipped" | "failed";
+
+export interface ActionReport extends Candidate {
+  outcome: Outcome;
+  detail?: string;
+  txHash?: string;
+  gasEstimate?: string;
+}
+
+// Reverts that mean "not yet" rather than "not this keeper"
+const NOT_YET = new Set(["NotEnoughScores", "RevealDeadlineNotPassed", "DisputeWindowActive", "VRFRequestNotTimedOut"]);
+
+function target(contracts: ProtocolContracts, action: KeeperAction): { contract: BaseContract; name: string } {
+  return action === "cancelTimedOutRequest"
+    ? { contract: contracts.validatorPool, name: "ValidatorPool" }
+    : { contract: contracts.abbCore, name: "ABBCore" };
+}
+
+function key(candidate: Candidate): string {
+  return `${candidate.taskId}:${candidate.action}`;
+}
+
+function mined(report: Omit<ActionReport, "outcome">, receipt: TransactionReceipt): ActionReport {
+  if (receipt.status !== 1) return { ...report, outcome: "failed", detail: "reverted on chain" };
+  return { ...report, outcome: "sent", detail: `gas used ${receipt.gasUsed}` };
+}
+
+function explain(err: any, contract: string): { error: string | null; message: string } {
+  const decoded = decodeContractError(err, contract);
+  if (decoded) return { error: decoded.error, message: `${decoded.error}: ${decoded.hint}` };
+  return { error: null, message: err?.shortMessage ?? err?.reason ?? err?.message ?? String(err) };
+}
+
+/**
+ * One keeper pass: scan for candidates, simulate each from the keeper's
+ * address and send the ones that pass. Every candidate is logged with its
+ * reason and outcome; a skip is logged at warn the first time and at debug
+ * after that, so a task the keeper can never act on does not flood the log.
+ * Transactions left pending are tracked per task and action, so a slow
+ * transaction is not sent a second time.
+ */
+export class Keeper {
+  private readonly reported = new Set<string>();
+  // Transactions still unmined after KEEPER_TX_TIMEOUT_MS, by task and action
+  private readonly inFlight = new Map<string, ActionReport>();
+  // Set for the rest of a pass once the base fee is found above the cap
+  private feeCapped: string | null = null;
+
+  constructor(
+    private readonly contracts: ProtocolContracts,
+    private readonly scanner: TaskScanner,
+    private readonly sender: TxSender | null,
+    private readonly actions: Set<KeeperAction>,
+  ) {}
+
+  async tick(dryRun: boolean): Promise<ActionReport[]> {
+    if (!dryRun && !this.sender) throw new Error("KEEPER_PRIVATE_KEY is required unless --dry-run is set");
+    const from = this.sender ? await this.sender.signer.getAddress() : undefined;
+
+    const reports: ActionReport[] = [];
+    for (const report of await this.settleInFlight()) {
+      this.log(report);
+      reports.push(report);
+    }
+
+    const candidates = (await this.scanner.scan()).filter((c) => this.actions.has(c.action));
+    this.feeCapped = null;
+    for (const candidate of candidates) {
+      const pending = this.inFlight.get(key(candidate));
+      const report = pending
+        ? { ...pending, detail: "earlier transaction not mined yet" }
+        : await this.run(candidate, from, dryRun);
+      this.log(report);
+      reports.push(report);
+    }
+    return reports;
+  }
+
+  /** Re-check transactions left pending by earlier passes; each is reported once when mined or dropped */
+  private async settleInFlight(): Promise<ActionReport[]> {
+    const settled: ActionReport[] = [];
+    for (const [candidate, report] of this.inFlight) {
+      const status = await this.sender!.status(report.txHash!);
+      if (status === "pending") continue;
+      this.inFlight.delete(candidate);
+      settled.push(
+        status === "dropped" ? { ...report, outcome: "failed", detail: "dropped without being mined" } : mined(report, status),
+      );
+    }
+    return settled;
+  }
+
+  private async run(candidate: Candidate, from: string | undefined, dryRun: boolean): Promise<ActionReport> {
+    const { contract, name } = target(this.contracts, candidate.action);
+    const fn = contract.getFunction(candidate.action);
+    const overrides = from ? { from } : {};
+
+    let gasEstimate: bigint;
+    try {
+      await fn.staticCall(candidate.taskId, overrides);
+      gasEstimate = await fn.estimateGas(candidate.taskId, overrides);
+    } catch (err) {
+      const { error, message } = explain(err, name);
+      return { ...candidate, outcome: error && NOT_YET.has(error) ? "waiting" : "skipped", detail: message };
+    }
+
+    const simulated = { ...candidate, gasEstimate: gasEstimate.toString() };
+    if (dryRun) return { ...simulated, outcome: "would-send" };
+    if (this.feeCapped) return { ...simulated, outcome: "waiting", detail: this.feeCapped };
+
+    try {
+      const gasLimit = this.sender!.gasLimit(gasEstimate);
+      const { hash, receipt } = await this.sender!.send(contract, candidate.action, [candidate.taskId], gasLimit);
+      if (receipt) return mined({ ...simulated, txHash: hash }, receipt);
+      const pending: ActionReport = { ...simulated, outcome: "pending", txHash: hash, detail: "not mined yet" };
+      this.inFlight.set(key(candidate), pending);
+      return pending;
+    } catch (err: any) {
+      if (err instanceof FeeCapError) {
+        this.feeCapped = err.message;
+        return { ...simulated, outcome: "waiting", detail: err.message };
+      }
+      if (err instanceof GasCapError) return { ...simulated, outcome: "skipped", detail: err.message };
+      return { ...simulated, outcome: "failed", detail: explain(err, name).message };
+    }
+  }
+
+  private log(report: ActionReport): void {
+    const { taskId, action, reason, outcome, detail, txHash } = report;
+    const fields = { taskId, action, reason, outcome, detail, txHash };
+    const message = `${action} task ${taskId}: ${outcome}`;
+    switch (outcome) {
+      case "sent":
+      case "would-send":
+        logger.info(fields, message);
+        break;
+      case "pending":
+        logger.warn(fields, message);
+        break;
+      case "failed":
+        logger.error(fields, message);
+        break;
+      case "waiting":
+        logger.debug(fields, message);
+        break;
+      case "skipped": {
+        const key = `${taskId}:${action}:${detail}`;
+        if (this.reported.has(key)) {
+          logger.debug(fields, message);
+        } else {
+          this.reported.add(key);
+          logger.warn(fields, message);
+        }
+      }
+    }
+  }
+}
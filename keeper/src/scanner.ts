@@ -0,0 +1,111 @@
+import { taskStateToString } from "@agentecon/sdk";
+import type { ProtocolContracts, TaskStateName } from "@agentecon/sdk";
+
+export type KeeperAction = "finalizeReview" | "claimRefundAfterRejection" | "reclaimExpiredTask" | "cancelTimedOutRequest";
+
+/** A task that looks ready for `action`; the keeper simulates it before sending */
+export interface Candidate {
+  taskId: number;
+  action: KeeperAction;
+  reason: string;
+}
+
+// Nothing moves a task out of these states
+const TERMINAL: (TaskStateName | "unknown")[] = ["completed", "resolved", "cancelled"];
+
+function ago(seconds: number): string {
+  if (seconds < 120) return `${seconds}s ago`;
+  if (seconds < 7200) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+}
+
+/**
+ * Finds tasks due for a keeper action from contract state alone, so it needs
+ * no indexer. Every task is read once; after that only tasks that can still
+ * change state are re-read on each scan, plus any created since.
+ *
+ * Conditions the contracts keep private (whether a panel has scored enough,
+ * whether a Premium reveal deadline has passed) are left to the simulation:
+ * every in-review task with an open round is a finalizeReview candidate.
+ */
+export class TaskScanner {
+  private readonly live = new Set<number>();
+  private nextTaskId = 0;
+  private timing: { disputeWindow: number; vrfTimeout: number } | null = null;
+
+  constructor(private readonly contracts: ProtocolContracts) {}
+
+  async scan(): Promise<Candidate[]> {
+    const { abbCore, taskRegistry, validatorPool } = this.contracts;
+    this.timing ??= {
+      disputeWindow: Number(await abbCore.DISPUTE_WINDOW()),
+      vrfTimeout: Number(await validatorPool.VRF_TIMEOUT()),
+    };
+    const block = await taskRegistry.runner!.provider!.getBlock("latest");
+    const now = block!.timestamp;
+
+    const nextTaskId = Number(await taskRegistry.nextTaskId());
+    for (let id = this.nextTaskId; id < nextTaskId; id++) this.live.add(id);
+    this.nextTaskId = nextTaskId;
+
+    const candidates: Candidate[] = [];
+    for (const taskId of [...this.live].sort((a, b) => a - b)) {
+      if (!(await taskRegistry.taskExists(taskId))) {
+        this.live.delete(taskId);
+        continue;
+      }
+      const task = await taskRegistry.getTask(taskId);
+      const state = taskStateToString(Number(task.state));
+      if (TERMINAL.includes(state)) {
+        this.live.delete(taskId);
+        continue;
+      }
+      const candidate = await this.evaluate(taskId, state, Number(task.deadline), now);
+      if (candidate) candidates.push(candidate);
+    }
+    return candidates;
+  }
+
+  private async evaluate(taskId: number, state: TaskStateName | "unknown", deadline: number, now: number): Promise<Candidate | null> {
+    const { abbCore, validatorPool } = this.contracts;
+    const { disputeWindow, vrfTimeout } = this.timing!;
+
+    if (state === "claimed") {
+      if (now < deadline) return null;
+      return { taskId, action: "reclaimExpiredTask", reason: `claimed, deadline passed ${ago(now - deadline)}` };
+    }
+    if (state !== "in_review") return null;
+
+    const rejectedAt = Number(await abbCore.rejectedAt(taskId));
+    if (rejectedAt > 0) {
+      if (now < rejectedAt + disputeWindow) return null;
+      return {
+        taskId,
+        action: "claimRefundAfterRejection",
+        reason: `rejected ${ago(now - rejectedAt)}, dispute window closed ${ago(now - rejectedAt - disputeWindow)}`,
+      };
+    }
+
+    const requestId = await validatorPool.taskVRFRequest(taskId);
+    if (requestId !== 0n) {
+      const request = await validatorPool.pendingRequests(requestId);
+      if (request.pending) {
+        const requestedAt = Number(request.requestedAt);
+        if (now < requestedAt + vrfTimeout) return null;
+        return {
+          taskId,
+          action: "cancelTimedOutRequest",
+          reason: `VRF request ${requestId} unanswered, requested ${ago(now - requestedAt)}`,
+        };
+      }
+    }
+
+    const [initialized, finalized] = await Promise.all([
+      validatorPool.isRoundInitialized(taskId),
+      validatorPool.isRoundFinalized(taskId),
+    ]);
+    // A finalized round on an in-review task was rejected, and rejectedAt covers it; finalizing again would restart the dispute window
+    if (!initialized || finalized) return null;
+    return { taskId, action: "finalizeReview", reason: "review round open" };
+  }
+}
@@ -0,0 +1,99 @@
+import { NonceManager, formatUnits } from "ethers";
+import type { BaseContract, Provider, Signer, TransactionReceipt } from "ethers";
+
+/** The network fee is above KEEPER_MAX_FEE_GWEI; the keeper waits for the next scan */
+export class FeeCapError extends Error {
+  constructor(baseFee: bigint, cap: bigint) {
+    super(`base fee ${formatUnits(baseFee, "gwei")} gwei is above the ${formatUnits(cap, "gwei")} gwei cap`);
+    this.name = "FeeCapError";
+  }
+}
+
+/** The simulated gas use is above KEEPER_MAX_GAS; that candidate is skipped */
+export class GasCapError extends Error {
+  constructor(estimate: bigint, cap: bigint) {
+    super(`gas estimate ${estimate} is above the ${cap} cap`);
+    this.name = "GasCapError";
+  }
+}
+
+export interface SendOptions {
+  maxGas: bigint;
+  maxFeePerGas: bigint;
+  txTimeoutMs: number;
+}
+
+/**
+ * Sends keeper transactions one at a time from a single key. Nonces are
+ * tracked locally by ethers' NonceManager, so a transaction still pending
+ * after the timeout keeps its nonce and the next one queues behind it; they
+ * are resynced from the chain whenever a send is rejected or a transaction
+ * is found dropped.
+ */
+export class TxSender {
+  readonly signer: NonceManager;
+
+  constructor(
+    signer: Signer,
+    private readonly options: SendOptions,
+  ) {
+    this.signer = new NonceManager(signer);
+  }
+
+  private get provider(): Provider {
+    return this.signer.provider!;
+  }
+
+  /** Gas limit for a simulated call: the estimate plus 20%, within the cap */
+  gasLimit(estimate: bigint): bigint {
+    if (estimate > this.options.maxGas) throw new GasCapError(estimate, this.options.maxGas);
+    const padded = (estimate * 12n) / 10n;
+    return padded < this.options.maxGas ? padded : this.options.maxGas;
+  }
+
+  private async feeOverrides(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint }> {
+    const cap = this.options.maxFeePerGas;
+    const [block, fees] = await Promise.all([this.provider.getBlock("latest"), this.provider.getFeeData()]);
+    const baseFee = block?.baseFeePerGas;
+    if (baseFee === null || baseFee === undefined) {
+      const gasPrice = fees.gasPrice ?? 0n;
+      if (gasPrice > cap) throw new FeeCapError(gasPrice, cap);
+      return { gasPrice };
+    }
+    if (baseFee > cap) throw new FeeCapError(baseFee, cap);
+    const maxFeePerGas = fees.maxFeePerGas !== null && fees.maxFeePerGas < cap ? fees.maxFeePerGas : cap;
+    const tip = fees.maxPriorityFeePerGas ?? 0n;
+    return { maxFeePerGas, maxPriorityFeePerGas: tip < maxFeePerGas - baseFee ? tip : maxFeePerGas - baseFee };
+  }
+
+  /**
+   * Send `method(...args)` with the gas limit from `gasLimit` and capped fees.
+   * Resolves with the receipt, or null if it was not mined within the timeout.
+   */
+  async send(contract: BaseContract, method: string, args: unknown[], gasLimit: bigint): Promise<{ hash: string; receipt: TransactionReceipt | null }> {
+    const overrides = { gasLimit, ...(await this.feeOverrides()) };
+    let tx;
+    try {
+      tx = await contract.connect(this.signer).getFunction(method).send(...args, overrides);
+    } catch (err) {
+      this.signer.reset();
+      throw err;
+    }
+    try {
+      return { hash: tx.hash, receipt: await tx.wait(1, this.options.txTimeoutMs) };
+    } catch (err: any) {
+      if (err?.code === "TIMEOUT") return { hash: tx.hash, receipt: null };
+      throw err;
+    }
+  }
+
+  /** A sent transaction's receipt once mined, "pending" while the node still has it, or "dropped" */
+  async status(hash: string): Promise<TransactionReceipt | "pending" | "dropped"> {
+    const receipt = await this.provider.getTransactionReceipt(hash);
+    if (receipt) return receipt;
+    if (await this.provider.getTransaction(hash)) return "pending";
+    // Its nonce may be free again
+    this.signer.reset();
+    return "dropped";
+  }
+}
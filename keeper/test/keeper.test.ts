@@ -0,0 +1,108 @@
+import { createContracts } from "@agentecon/sdk";
+import { Interface, Wallet } from "ethers";
+import type { ContractRunner, TransactionRequest } from "ethers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Keeper } from "../src/keeper.js";
+import { TaskScanner } from "../src/scanner.js";
+import type { Candidate, KeeperAction } from "../src/scanner.js";
+import { FeeCapError, TxSender } from "../src/sender.js";
+
+// Simulations revert with the custom error set for `${method}:${taskId}` and pass otherwise
+const reverts = new Map<string, string>();
+
+const contracts = createContracts(
+  {
+    abbCore: "0x0000000000000000000000000000000000000001",
+    taskRegistry: "0x0000000000000000000000000000000000000002",
+    agentRegistry: "0x0000000000000000000000000000000000000003",
+    validatorPool: "0x0000000000000000000000000000000000000004",
+    bountyEscrow: "0x0000000000000000000000000000000000000005",
+  },
+  null,
+);
+
+const runner: ContractRunner = {
+  provider: null,
+  async call(tx: TransactionRequest) {
+    const iface: Interface = tx.to === contracts.validatorPool.target ? contracts.validatorPool.interface : contracts.abbCore.interface;
+    const parsed = iface.parseTransaction({ data: tx.data! })!;
+    const error = reverts.get(`${parsed.name}:${parsed.args[0]}`);
+    if (!error) return "0x";
+    // ABBCore bubbles up ValidatorPool reverts such as NotEnoughScores
+    const thrower = contracts.abbCore.interface.getError(error) ? contracts.abbCore.interface : contracts.validatorPool.interface;
+    throw Object.assign(new Error("execution reverted"), { data: thrower.encodeErrorResult(error) });
+  },
+  estimateGas: async () => 100_000n,
+};
+const bound = { ...contracts, abbCore: contracts.abbCore.connect(runner), validatorPool: contracts.validatorPool.connect(runner) };
+
+const ALL: Set<KeeperAction> = new Set(["finalizeReview", "claimRefundAfterRejection", "reclaimExpiredTask", "cancelTimedOutRequest"]);
+
+function candidate(taskId: number, action: KeeperAction): Candidate {
+  return { taskId, action, reason: "due" };
+}
+
+let scanner: TaskScanner;
+let sender: TxSender;
+
+beforeEach(() => {
+  reverts.clear();
+  scanner = new TaskScanner(bound);
+  sender = new TxSender(Wallet.createRandom(), { maxGas: 1_000_000n, maxFeePerGas: 10n ** 9n, txTimeoutMs: 1000 });
+});
+
+describe("Keeper", () => {
+  it("waits on not-yet reverts and skips the rest", async () => {
+    vi.spyOn(scanner, "scan").mockResolvedValue([
+      candidate(1, "finalizeReview"),
+      candidate(2, "claimRefundAfterRejection"),
+      candidate(3, "claimRefundAfterRejection"),
+      candidate(4, "cancelTimedOutRequest"),
+    ]);
+    reverts.set("finalizeReview:1", "NotEnoughScores");
+    reverts.set("claimRefundAfterRejection:2", "DisputeWindowActive");
+    reverts.set("claimRefundAfterRejection:3", "NotPoster");
+    reverts.set("cancelTimedOutRequest:4", "VRFRequestNotTimedOut");
+    const send = vi.spyOn(sender, "send");
+
+    const reports = await new Keeper(bound, scanner, sender, ALL).tick(false);
+    expect(reports.map((r) => [r.taskId, r.outcome])).toEqual([[1, "waiting"], [2, "waiting"], [3, "skipped"], [4, "waiting"]]);
+    expect(reports[2].detail).toMatch(/^NotPoster/);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("does not resend a transaction that is still pending, and retries once it is dropped", async () => {
+    vi.spyOn(scanner, "scan").mockResolvedValue([candidate(5, "reclaimExpiredTask")]);
+    const send = vi.spyOn(sender, "send").mockResolvedValue({ hash: "0x01", receipt: null });
+    const status = vi.spyOn(sender, "status").mockResolvedValue("pending");
+    const keeper = new Keeper(bound, scanner, sender, ALL);
+
+    expect(await keeper.tick(false)).toMatchObject([{ taskId: 5, outcome: "pending", txHash: "0x01" }]);
+    expect(await keeper.tick(false)).toMatchObject([{ taskId: 5, outcome: "pending", detail: "earlier transaction not mined yet" }]);
+    expect(send).toHaveBeenCalledOnce();
+
+    status.mockResolvedValue("dropped");
+    send.mockResolvedValue({ hash: "0x02", receipt: null });
+    expect(await keeper.tick(false)).toMatchObject([
+      { taskId: 5, outcome: "failed", txHash: "0x01", detail: "dropped without being mined" },
+      { taskId: 5, outcome: "pending", txHash: "0x02" },
+    ]);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops sending for the rest of a pass once fees are above the cap", async () => {
+    vi.spyOn(scanner, "scan").mockResolvedValue([candidate(6, "finalizeReview"), candidate(7, "finalizeReview")]);
+    const send = vi.spyOn(sender, "send").mockRejectedValue(new FeeCapError(2n * 10n ** 9n, 10n ** 9n));
+
+    const reports = await new Keeper(bound, scanner, sender, ALL).tick(false);
+    expect(reports.map((r) => r.outcome)).toEqual(["waiting", "waiting"]);
+    expect(send).toHaveBeenCalledOnce();
+  });
+
+  it("only simulates on a dry run, for the configured actions", async () => {
+    vi.spyOn(scanner, "scan").mockResolvedValue([candidate(8, "finalizeReview"), candidate(9, "reclaimExpiredTask")]);
+
+    const reports = await new Keeper(bound, scanner, null, new Set(["finalizeReview"])).tick(true);
+    expect(reports).toMatchObject([{ taskId: 8, outcome: "would-send", gasEstimate: "100000" }]);
+  });
+});
@@ -0,0 +1,9 @@
+import { CommitmentStore } from "@agentecon/sdk/commitments";
+import { config } from "./config.js";
+
+/**
+ * Commit-reveal salts for Premium rounds (see @agentecon/sdk/commitments),
+ * so reveal_score can run in a later session without the salt ever passing
+ * through the model. Keep COMMITMENT_STORE_PATH private.
+ */
+export const commitments = new CommitmentStore(config.commitmentStorePath);
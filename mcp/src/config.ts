@@ -7,8 +7,40 @@ function env(key: string, fallback?: string): string {
   return v;
 }
 
+function transport(): "stdio" | "http" {
+  const v = env("MCP_TRANSPORT", "stdio");
+  if (v !== "stdio" && v !== "http") throw new Error(`MCP_TRANSPORT must be stdio or http, got ${v}`);
+  return v;
+}
+
+function contentBackend(): "pinata" | "local" {
+  const fallback = process.env.PINATA_API_KEY && process.env.PINATA_SECRET_KEY ? "pinata" : "local";
+  const v = env("CONTENT_BACKEND", fallback);
+  if (v !== "pinata" && v !== "local") throw new Error(`CONTENT_BACKEND must be pinata or local, got ${v}`);
+  return v;
+}
+
+function protocolVersion(): "v1" | "v2" {
+  const v = env("PROTOCOL_VERSION", "v2");
+  if (v !== "v1" && v !== "v2") throw new Error(`PROTOCOL_VERSION must be v1 or v2, got ${v}`);
+  return v;
+}
+
 export const config = {
+  // stdio signs with SIGNER_PRIVATE_KEY; http serves many agents, each API key with its own signer
+  transport: transport(),
+  http: {
+    port: parseInt(env("MCP_HTTP_PORT", "3100"), 10),
+    host: env("MCP_HTTP_HOST", "127.0.0.1"),
+    tenantsPath: env("MCP_TENANTS_PATH", "./tenants.json"),
+    // Sessions idle this long are closed; a tenant opening more than its cap evicts its least recently used
+    sessionIdleSeconds: parseInt(env("MCP_SESSION_IDLE_SECONDS", "1800"), 10),
+    maxSessionsPerTenant: parseInt(env("MCP_MAX_SESSIONS_PER_TENANT", "10"), 10),
+    maxSessions: parseInt(env("MCP_MAX_SESSIONS", "1000"), 10),
+  },
   rpcUrl: env("RPC_URL", "http://localhost:8545"),
+  // Selects the ABBCore / ValidatorPool ABIs; the registries and escrow are shared
+  protocolVersion: protocolVersion(),
   contracts: {
     abbCore: env("ABBCORE_ADDRESS", "0x0000000000000000000000000000000000000000"),
     agentRegistry: env("AGENT_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
@@ -16,4 +48,29 @@ export const config = {
     validatorPool: env("VALIDATOR_POOL_ADDRESS", "0x0000000000000000000000000000000000000000"),
     bountyEscrow: env("BOUNTY_ESCROW_ADDRESS", "0x0000000000000000000000000000000000000000"),
   },
+  // AgentEcon API that stores task and agent documents; resources fall back to the IPFS gateway
+  apiUrl: env("API_URL", "http://localhost:3000"),
+  ipfsGateway: env("IPFS_GATEWAY", "https://gateway.pinata.cloud/ipfs"),
+  // Where submit_work / register_agent store raw content before hashing it on chain
+  content: {
+    backend: contentBackend(),
+    localDir: env("CONTENT_LOCAL_DIR", "./data/content"),
+    // Directory `filePath` arguments must stay inside; file uploads are disabled when unset
+    fileRoot: process.env.CONTENT_FILE_ROOT || null,
+  },
+  // Guardrails applied to every signer before a write tool sends anything; unset means no limit
+  policy: {
+    maxBountyEth: process.env.POLICY_MAX_BOUNTY_ETH || null,
+    // Rolling 24h cap on ETH leaving each signer (transaction value plus gas)
+    dailyBudgetEth: process.env.POLICY_DAILY_BUDGET_ETH || null,
+    // Comma-separated ERC-20 addresses, each optionally `address:maxAmount` in token units
+    tokenAllowlist: process.env.POLICY_TOKEN_ALLOWLIST || null,
+    // claim_task refuses tasks whose deadline leaves fewer hours than this
+    minClaimHours: parseFloat(env("POLICY_MIN_CLAIM_HOURS", "0")),
+    ledgerPath: env("POLICY_LEDGER_PATH", "./data/spend-ledger.json"),
+  },
+  // First block to scan for ValidatorPool events (the pool's deployment block)
+  startBlock: parseInt(env("START_BLOCK", "0"), 10),
+  // Local file holding commit-reveal salts for Premium rounds; keep it private
+  commitmentStorePath: env("COMMITMENT_STORE_PATH", "./data/commitments.json"),
 };
@@ -0,0 +1,190 @@
+import { mkdir, readFile, realpath, stat, writeFile } from "node:fs/promises";
+import { basename, join, resolve, sep } from "node:path";
+import { getBytes, keccak256, sha256, toUtf8Bytes } from "ethers";
+import { config } from "./config.js";
+
+/**
+ * Raw content uploads for write tools, so agents pass text, a JSON document or
+ * a file instead of hand-crafting a bytes32. The bytes are stored through a
+ * content backend and hashed here; the on-chain hash is keccak256 of the exact
+ * bytes, matching what the API verifies documents against. After the
+ * transaction, the content is also posted to the API so it can serve it.
+ *
+ * Backends mirror the API's blob backends:
+ * - `local` writes files under CONTENT_LOCAL_DIR named by CIDv1 (raw, sha2-256)
+ * - `pinata` pins with pinFileToIPFS (PINATA_API_KEY / PINATA_SECRET_KEY)
+ */
+
+export interface ContentInput {
+  content?: string;
+  document?: Record<string, unknown>;
+  filePath?: string;
+}
+
+export interface StoredContent {
+  hash: string;
+  cid: string;
+  backend: string;
+  bytes: number;
+  /** UTF-8 text of the content, or null for binary files */
+  text: string | null;
+}
+
+interface ContentBackend {
+  readonly name: string;
+  put(content: Uint8Array, name: string): Promise<string>;
+}
+
+const MAX_CONTENT_BYTES = 1024 * 1024;
+const PINATA_BASE_URL = "https://api.pinata.cloud";
+const TIMEOUT_MS = 15_000;
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+/** CIDv1 (raw codec, sha2-256, base32) for a block of bytes */
+export function rawCid(content: Uint8Array): string {
+  return "b" + base32Encode(new Uint8Array([0x01, 0x55, 0x12, 0x20, ...getBytes(sha256(content))]));
+}
+
+class LocalContentBackend implements ContentBackend {
+  readonly name = "local";
+
+  constructor(private readonly dir: string) {}
+
+  async put(content: Uint8Array): Promise<string> {
+    const cid = rawCid(content);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(join(this.dir, cid), content);
+    return cid;
+  }
+}
+
+class PinataContentBackend implements ContentBackend {
+  readonly name = "pinata";
+
+  constructor(private readonly apiKey: string, private readonly secretKey: string) {}
+
+  async put(content: Uint8Array, name: string): Promise<string> {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(content)]), name);
+    form.append("pinataMetadata", JSON.stringify({ name }));
+    form.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
+
+    const response = await fetch(`${PINATA_BASE_URL}/pinning/pinFileToIPFS`, {
+      method: "POST",
+      headers: { pinata_api_key: this.apiKey, pinata_secret_api_key: this.secretKey },
+      body: form,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Pinata pin failed (${response.status}): ${await response.text()}`);
+    return ((await response.json()) as { IpfsHash: string }).IpfsHash;
+  }
+}
+
+function createBackend(): ContentBackend {
+  if (config.content.backend === "pinata") {
+    const apiKey = process.env.PINATA_API_KEY;
+    const secretKey = process.env.PINATA_SECRET_KEY;
+    if (!apiKey || !secretKey) throw new Error("PINATA_API_KEY and PINATA_SECRET_KEY must be set when CONTENT_BACKEND=pinata");
+    return new PinataContentBackend(apiKey, secretKey);
+  }
+  return new LocalContentBackend(config.content.localDir);
+}
+
+let backend: ContentBackend | null = null;
+
+/** True when the tool call carries raw content rather than a precomputed hash */
+export function hasContent(input: ContentInput): boolean {
+  return input.content !== undefined || input.document !== undefined || input.filePath !== undefined;
+}
+
+/** Read a file, refusing paths outside CONTENT_FILE_ROOT so tools cannot publish arbitrary server files */
+async function readAllowedFile(filePath: string): Promise<Uint8Array> {
+  if (!config.content.fileRoot) throw new Error("filePath uploads are disabled; set CONTENT_FILE_ROOT to allow them");
+  const root = await realpath(config.content.fileRoot);
+  let target: string;
+  try {
+    target = await realpath(resolve(root, filePath));
+  } catch {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  if (target !== root && !target.startsWith(root + sep)) throw new Error(`filePath must be inside ${root}`);
+  if ((await stat(target)).size > MAX_CONTENT_BYTES) throw new Error(`File exceeds ${MAX_CONTENT_BYTES} bytes`);
+  return new Uint8Array(await readFile(target));
+}
+
+/** Validate and read exactly one of content, document or filePath as bytes */
+async function readContent(input: ContentInput): Promise<{ bytes: Uint8Array; fileName: string | null; text: string | null }> {
+  const given = [input.content, input.document, input.filePath].filter((v) => v !== undefined).length;
+  if (given !== 1) throw new Error("Provide exactly one of content, document or filePath");
+
+  let bytes: Uint8Array;
+  if (input.filePath !== undefined) {
+    bytes = await readAllowedFile(input.filePath);
+  } else {
+    bytes = toUtf8Bytes(input.document !== undefined ? JSON.stringify(input.document) : input.content!);
+  }
+  if (bytes.length === 0) throw new Error("Content is empty");
+  if (bytes.length > MAX_CONTENT_BYTES) throw new Error(`Content exceeds ${MAX_CONTENT_BYTES} bytes`);
+
+  let text: string | null;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true }).decode(bytes);
+  } catch {
+    text = null;
+  }
+  return { bytes, fileName: input.filePath !== undefined ? basename(input.filePath) : null, text };
+}
+
+/** The on-chain hash and size the content would have, without storing it (for dry runs) */
+export async function hashContent(input: ContentInput): Promise<{ hash: string; bytes: number }> {
+  const { bytes } = await readContent(input);
+  return { hash: keccak256(bytes), bytes: bytes.length };
+}
+
+/**
+ * Store exactly one of `content`, `document` (serialized with JSON.stringify) or
+ * `filePath` and return the hash to put on chain
+ */
+export async function storeContent(input: ContentInput, name: string): Promise<StoredContent> {
+  const { bytes, fileName, text } = await readContent(input);
+  backend ??= createBackend();
+  const cid = await backend.put(bytes, fileName ?? name);
+  return { hash: keccak256(bytes), cid, backend: backend.name, bytes: bytes.length, text };
+}
+
+/**
+ * Post stored content to the API's document route once its hash is on chain.
+ * Best effort: returns false if the API is unreachable or rejects it.
+ * @param path e.g. `/tasks/7/submission` or `/agents/3/metadata`
+ */
+export async function mirrorToApi(path: string, stored: StoredContent): Promise<boolean> {
+  if (stored.text === null) return false;
+  try {
+    const response = await fetch(`${config.apiUrl.replace(/\/$/, "")}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: stored.text }),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
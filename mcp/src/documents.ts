@@ -0,0 +1,14 @@
+import { agentMetadata as fetchAgentMetadata, taskDocuments as fetchTaskDocuments } from "@agentecon/sdk";
+import { config } from "./config.js";
+
+export type { AgentMetadata, Attachment, DocumentSource, SubmissionDocument, TaskDescription, TaskDocuments } from "@agentecon/sdk";
+
+// Document resolution lives in @agentecon/sdk; these bind it to the configured API and IPFS gateway
+
+export function taskDocuments(task: { id: number; descriptionHash: string; submissionHash: string }) {
+  return fetchTaskDocuments(config, task);
+}
+
+export function agentMetadata(agent: { id: number; metadataHash: string }) {
+  return fetchAgentMetadata(config, agent);
+}
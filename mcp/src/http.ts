@@ -0,0 +1,168 @@
+import { randomUUID } from "node:crypto";
+import { createServer as createHttpServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { config } from "./config.js";
+import { createServer } from "./server.js";
+import { sessionContext, SpendLimitedSigner } from "./signers.js";
+import type { SessionContext } from "./signers.js";
+import { authenticate, loadTenants, tenantSigner } from "./tenants.js";
+import type { Tenant } from "./tenants.js";
+
+/**
+ * Streamable HTTP transport for hosting one endpoint for many agents. Every
+ * request carries an API key (`Authorization: Bearer <key>` or `X-API-Key`)
+ * that selects a tenant; initializing opens a session bound to that tenant's
+ * signer with fresh spend limits, and later requests on the session must
+ * present the same key. Each session gets its own McpServer instance.
+ *
+ * Sessions are closed after MCP_SESSION_IDLE_SECONDS without a request. A
+ * tenant holds at most MCP_MAX_SESSIONS_PER_TENANT (opening another evicts
+ * its least recently used one), and new sessions are refused once the server
+ * holds MCP_MAX_SESSIONS.
+ */
+
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  tenant: Tenant;
+  transport: StreamableHTTPServerTransport;
+  context: SessionContext;
+  lastSeen: number;
+}
+
+function sendJson(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function apiKey(req: IncomingMessage): string | null {
+  const auth = req.headers.authorization;
+  if (auth?.startsWith("Bearer ")) return auth.slice("Bearer ".length).trim();
+  const header = req.headers["x-api-key"];
+  return typeof header === "string" ? header : null;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+export function startHttpServer(): Server {
+  const tenants = loadTenants();
+  const sessions = new Map<string, Session>();
+  const idleMs = config.http.sessionIdleSeconds * 1000;
+
+  function closeSession(sessionId: string, reason: string): void {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    console.error(`MCP session ${sessionId} closed for tenant ${session.tenant.id} (${reason})`);
+    session.transport.close().catch((err) => console.error(`Closing MCP session ${sessionId} failed:`, err));
+  }
+
+  function closeIdleSessions(): void {
+    const cutoff = Date.now() - idleMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastSeen < cutoff) closeSession(sessionId, "idle");
+    }
+  }
+
+  /** Evict the tenant's least recently used sessions until it has room for one more */
+  function makeRoomFor(tenant: Tenant): void {
+    const open = [...sessions].filter(([, s]) => s.tenant.id === tenant.id).sort(([, a], [, b]) => a.lastSeen - b.lastSeen);
+    for (let i = 0; i <= open.length - config.http.maxSessionsPerTenant; i++) {
+      closeSession(open[i][0], `tenant limit of ${config.http.maxSessionsPerTenant} sessions`);
+    }
+  }
+
+  async function openSession(tenant: Tenant): Promise<StreamableHTTPServerTransport> {
+    const signer = new SpendLimitedSigner(await tenantSigner(tenant), tenant.limits);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        makeRoomFor(tenant);
+        sessions.set(sessionId, { tenant, transport, context: { sessionId, tenantId: tenant.id, signer }, lastSeen: Date.now() });
+        console.error(`MCP session ${sessionId} opened for tenant ${tenant.id} (${signer.address})`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+    return transport;
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== MCP_PATH) {
+      sendJson(res, 404, "Not found");
+      return;
+    }
+
+    const key = apiKey(req);
+    const tenant = key ? authenticate(tenants, key) : null;
+    if (!tenant) {
+      sendJson(res, 401, "Unauthorized: missing or invalid API key");
+      return;
+    }
+
+    const body = req.method === "POST" ? await readBody(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJson(res, 404, "Session not found");
+        return;
+      }
+      if (session.tenant.id !== tenant.id) {
+        sendJson(res, 403, "Session belongs to a different API key");
+        return;
+      }
+      session.lastSeen = Date.now();
+      // Tools resolve the signer through this context (see getSigner)
+      await sessionContext.run(session.context, () => session.transport.handleRequest(req, res, body));
+      return;
+    }
+
+    if (req.method === "POST" && isInitializeRequest(body)) {
+      closeIdleSessions();
+      if (sessions.size >= config.http.maxSessions) {
+        sendJson(res, 503, "Too many open sessions; try again later");
+        return;
+      }
+      const transport = await openSession(tenant);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+    sendJson(res, 400, "Bad request: no valid session ID; send an initialize request first");
+  }
+
+  const server = createHttpServer((req, res) => {
+    handle(req, res).catch((err) => {
+      console.error("MCP HTTP error:", err);
+      if (!res.headersSent) sendJson(res, err instanceof SyntaxError ? 400 : 500, err instanceof SyntaxError ? "Invalid JSON" : "Internal error");
+    });
+  });
+
+  const sweep = setInterval(closeIdleSessions, Math.min(idleMs, 60_000));
+  sweep.unref();
+  server.on("close", () => {
+    clearInterval(sweep);
+    for (const sessionId of [...sessions.keys()]) closeSession(sessionId, "server shutdown");
+  });
+
+  server.listen(config.http.port, config.http.host, () => {
+    console.error(`Agent Bounty Board MCP server listening on http://${config.http.host}:${config.http.port}${MCP_PATH} (${tenants.length} tenants)`);
+  });
+  return server;
+}
@@ -0,0 +1,178 @@
+import type { ContractEventName, EventLog } from "ethers";
+import { config } from "./config.js";
+import { isV2, provider, tierToString, validatorPool } from "./contracts.js";
+
+/**
+ * Validator panel state read straight from ValidatorPool logs. The pool has
+ * no getters for panel members or deadlines, so (as in the API's panel
+ * service) members come from the latest PanelSelected / MicroPanelSelected
+ * event and Premium deadlines are the selection block timestamp plus the
+ * durations stored in `pendingRequests(taskVRFRequest(taskId))`.
+ *
+ * Every scan is filtered by the indexed taskId (and validator where known)
+ * and bounded: a task's selection is searched newest chunk first and only
+ * once `isPanelSelected` says one exists, and scoring events are read from
+ * the selection block on. Only `assignedRounds` needs every selection event,
+ * since panel members are not indexed; it scans from START_BLOCK once and
+ * afterwards only the blocks near the head.
+ *
+ * V1 pools have no tiers and always run commit-reveal.
+ */
+
+const LOG_CHUNK = 10_000;
+
+export interface Round {
+  taskId: number;
+  /** micro | standard | premium, or null on V1 */
+  tier: string | null;
+  commitReveal: boolean;
+  validators: string[];
+  selectedAt: number;
+  selectionBlock: number;
+  commitDeadline: number | null;
+  revealDeadline: number | null;
+  finalized: boolean;
+}
+
+/** Query a ValidatorPool event over a block range in chunks, for RPCs that cap getLogs ranges */
+export async function queryPoolEvents(event: ContractEventName, fromBlock = config.startBlock, toBlock?: number): Promise<EventLog[]> {
+  const latest = toBlock ?? await provider.getBlockNumber();
+  const logs: EventLog[] = [];
+  for (let from = fromBlock; from <= latest; from += LOG_CHUNK) {
+    const to = Math.min(from + LOG_CHUNK - 1, latest);
+    const chunk = await validatorPool.queryFilter(event, from, to);
+    logs.push(...chunk.filter((log): log is EventLog => "args" in log));
+  }
+  return logs;
+}
+
+function byPosition(a: EventLog, b: EventLog): number {
+  return a.blockNumber - b.blockNumber || a.index - b.index;
+}
+
+/** The latest matching event, walking back from the chain head one chunk at a time until one is found */
+async function latestEvent(filters: ContractEventName[]): Promise<EventLog | null> {
+  const latest = await provider.getBlockNumber();
+  for (let to = latest; to >= config.startBlock; to -= LOG_CHUNK) {
+    const from = Math.max(to - LOG_CHUNK + 1, config.startBlock);
+    const logs = (await Promise.all(filters.map((f) => queryPoolEvents(f, from, to)))).flat().sort(byPosition);
+    if (logs.length > 0) return logs.at(-1)!;
+  }
+  return null;
+}
+
+function panelOf(selection: EventLog): string[] {
+  return selection.eventName === "MicroPanelSelected"
+    ? [String(selection.args.validator)]
+    : [...(selection.args.validators as string[])];
+}
+
+async function buildRound(taskId: number, selection: EventLog): Promise<Round> {
+  const micro = selection.eventName === "MicroPanelSelected";
+  const tier = isV2 ? (micro ? 0 : Number(selection.args.tier)) : null;
+  const commitReveal = tier === null || tierToString(tier) === "premium";
+
+  const [block, finalized] = await Promise.all([
+    provider.getBlock(selection.blockNumber),
+    validatorPool.isRoundFinalized(taskId),
+  ]);
+  const selectedAt = block?.timestamp ?? 0;
+
+  let commitDeadline: number | null = null;
+  let revealDeadline: number | null = null;
+  if (commitReveal) {
+    const vrfRequestId = await validatorPool.taskVRFRequest(taskId);
+    if (vrfRequestId !== 0n) {
+      const pending = await validatorPool.pendingRequests(vrfRequestId);
+      commitDeadline = selectedAt + Number(pending.commitDuration);
+      revealDeadline = commitDeadline + Number(pending.revealDuration);
+    }
+  }
+
+  return {
+    taskId,
+    tier: tier !== null ? tierToString(tier) : null,
+    commitReveal,
+    validators: panelOf(selection),
+    selectedAt,
+    selectionBlock: selection.blockNumber,
+    commitDeadline,
+    revealDeadline,
+    finalized,
+  };
+}
+
+function selectionFilters(taskId?: number): ContractEventName[] {
+  const filters: ContractEventName[] = [validatorPool.filters.PanelSelected(taskId)];
+  if (isV2) filters.push(validatorPool.filters.MicroPanelSelected(taskId));
+  return filters;
+}
+
+/** The current review round for a task, or null if no panel has been selected */
+export async function readRound(taskId: number): Promise<Round | null> {
+  if (!(await validatorPool.isPanelSelected(taskId))) return null;
+  const selection = await latestEvent(selectionFilters(taskId));
+  return selection ? buildRound(taskId, selection) : null;
+}
+
+// Settled selection events seen so far, so assignedRounds only rescans recent blocks after its first call
+const SETTLED_DEPTH = 64;
+const selections = { logs: [] as EventLog[], scannedThrough: config.startBlock - 1 };
+
+async function querySelections(from: number, to: number): Promise<EventLog[]> {
+  return (await Promise.all(selectionFilters().map((f) => queryPoolEvents(f, from, to)))).flat().sort(byPosition);
+}
+
+async function allSelections(): Promise<EventLog[]> {
+  const latest = await provider.getBlockNumber();
+  const settled = latest - SETTLED_DEPTH;
+  if (settled > selections.scannedThrough) {
+    const logs = await querySelections(selections.scannedThrough + 1, settled);
+    // A concurrent call may have cached part of this range already
+    selections.logs.push(...logs.filter((l) => l.blockNumber > selections.scannedThrough));
+    selections.scannedThrough = Math.max(selections.scannedThrough, settled);
+  }
+  // Blocks near the head can still reorg, so they are read fresh every time
+  const recent = await querySelections(Math.max(selections.scannedThrough + 1, config.startBlock), latest);
+  return [...selections.logs, ...recent];
+}
+
+/**
+ * Unfinalized rounds whose latest panel includes `validator`. Panel members
+ * are not indexed, so this reads every selection event and filters locally.
+ */
+export async function assignedRounds(validator: string): Promise<Round[]> {
+  // Keep only the latest selection per task: a timed-out VRF request can be re-requested
+  const latest = new Map<number, EventLog>();
+  for (const log of await allSelections()) latest.set(Number(log.args.taskId), log);
+
+  const me = validator.toLowerCase();
+  const rounds: Round[] = [];
+  for (const [taskId, selection] of latest) {
+    if (!panelOf(selection).some((a) => a.toLowerCase() === me)) continue;
+    const round = await buildRound(taskId, selection);
+    if (!round.finalized) rounds.push(round);
+  }
+  return rounds;
+}
+
+/** Which scoring events `validator` has emitted for `taskId` since the panel was selected */
+export async function scoringStatus(round: Round, validator: string) {
+  const from = round.selectionBlock;
+  const [committed, revealed, direct] = await Promise.all([
+    queryPoolEvents(validatorPool.filters.ScoreCommitted(round.taskId, validator), from),
+    queryPoolEvents(validatorPool.filters.ScoreRevealed(round.taskId, validator), from),
+    isV2 ? queryPoolEvents(validatorPool.filters.DirectScoreSubmitted(round.taskId, validator), from) : Promise.resolve([]),
+  ]);
+  return { committed: committed.length > 0, revealed: revealed.length > 0, scored: direct.length > 0 };
+}
+
+export function isOnPanel(round: Round, validator: string): boolean {
+  return round.validators.some((a) => a.toLowerCase() === validator.toLowerCase());
+}
+
+/** Chain time, which is what the pool's deadline checks compare against */
+export async function chainTime(): Promise<number> {
+  const block = await provider.getBlock("latest");
+  return block?.timestamp ?? Math.floor(Date.now() / 1000);
+}
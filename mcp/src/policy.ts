@@ -0,0 +1,152 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { ethers } from "ethers";
+import type { RawTask } from "@agentecon/sdk";
+import { config } from "./config.js";
+
+/**
+ * Operator-configured spending policy, enforced by write tools on top of the
+ * protocol's own rules: a cap on each task's bounty, a rolling 24h ETH budget
+ * per signer, an allowlist of bounty tokens and a minimum of working time
+ * left when claiming. Spend is recorded in a local ledger so the daily budget
+ * survives restarts; transactions in flight hold a reservation against it.
+ */
+
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PolicyError";
+  }
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+function parseEth(value: string | null, name: string): bigint | null {
+  if (value === null) return null;
+  try {
+    return ethers.parseEther(value);
+  } catch {
+    throw new Error(`${name} must be a decimal ETH amount, got ${value}`);
+  }
+}
+
+/** token address (lowercase) => cap in token units, or null for no cap */
+function parseAllowlist(value: string | null): Map<string, string | null> | null {
+  if (value === null) return null;
+  const tokens = new Map<string, string | null>();
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [address, cap] = entry.split(":");
+    if (!ethers.isAddress(address)) throw new Error(`POLICY_TOKEN_ALLOWLIST: invalid token address ${address}`);
+    if (cap !== undefined && !/^\d+(\.\d+)?$/.test(cap)) throw new Error(`POLICY_TOKEN_ALLOWLIST: invalid cap ${cap} for ${address}`);
+    tokens.set(address.toLowerCase(), cap ?? null);
+  }
+  return tokens;
+}
+
+const maxBountyWei = parseEth(config.policy.maxBountyEth, "POLICY_MAX_BOUNTY_ETH");
+const dailyBudgetWei = parseEth(config.policy.dailyBudgetEth, "POLICY_DAILY_BUDGET_ETH");
+const tokenAllowlist = parseAllowlist(config.policy.tokenAllowlist);
+if (!Number.isFinite(config.policy.minClaimHours) || config.policy.minClaimHours < 0) {
+  throw new Error("POLICY_MIN_CLAIM_HOURS must be a non-negative number");
+}
+
+export function requireBountyWithinPolicy(bountyWei: bigint): void {
+  if (maxBountyWei !== null && bountyWei > maxBountyWei) {
+    throw new PolicyError(`Bounty ${ethers.formatEther(bountyWei)} ETH exceeds the ${ethers.formatEther(maxBountyWei)} ETH per-task limit`);
+  }
+}
+
+/** Fail unless `token` is allowlisted (when an allowlist is set) and `amount` is within its cap */
+export function requireAllowedToken(token: string, amount: bigint, decimals: number, symbol: string): void {
+  if (tokenAllowlist === null) return;
+  if (!tokenAllowlist.has(token.toLowerCase())) {
+    throw new PolicyError(`Token ${token} is not in the payment token allowlist`);
+  }
+  const cap = tokenAllowlist.get(token.toLowerCase());
+  if (cap && amount > ethers.parseUnits(cap, decimals)) {
+    throw new PolicyError(`Bounty ${ethers.formatUnits(amount, decimals)} ${symbol} exceeds the ${cap} ${symbol} per-task limit`);
+  }
+}
+
+/** Fail if the task's deadline leaves less than POLICY_MIN_CLAIM_HOURS of working time */
+export function requireClaimWindow(task: RawTask): void {
+  const minSeconds = Math.ceil(config.policy.minClaimHours * 3600);
+  const now = Math.floor(Date.now() / 1000);
+  const remaining = Number(task.deadline) - now;
+  if (remaining < minSeconds) {
+    throw new PolicyError(
+      `Task ${task.id} deadline leaves ${(Math.max(remaining, 0) / 3600).toFixed(1)}h of work; `
+      + `policy requires at least ${config.policy.minClaimHours}h`,
+    );
+  }
+}
+
+// Daily budget ledger, shared by every session that signs with the same address
+
+interface LedgerEntry {
+  signer: string;
+  at: number;
+  wei: string;
+  txHash: string;
+}
+
+function loadLedger(): LedgerEntry[] {
+  try {
+    return JSON.parse(readFileSync(config.policy.ledgerPath, "utf8")) as LedgerEntry[];
+  } catch (err: any) {
+    if (err.code === "ENOENT") return [];
+    throw new Error(`Cannot read spend ledger ${config.policy.ledgerPath}: ${err.message}`);
+  }
+}
+
+function saveLedger(entries: LedgerEntry[]): void {
+  mkdirSync(dirname(config.policy.ledgerPath), { recursive: true });
+  const tmp = `${config.policy.ledgerPath}.tmp`;
+  writeFileSync(tmp, JSON.stringify(entries, null, 2), { mode: 0o600 });
+  renameSync(tmp, config.policy.ledgerPath);
+}
+
+const reserved = new Map<string, bigint>();
+
+function spentToday(signer: string): bigint {
+  const since = Math.floor(Date.now() / 1000) - DAY_SECONDS;
+  return loadLedger()
+    .filter((e) => e.signer === signer.toLowerCase() && e.at > since)
+    .reduce((sum, e) => sum + BigInt(e.wei), 0n);
+}
+
+export function dailyUsage(signer: string) {
+  return {
+    spentEth: ethers.formatEther(spentToday(signer) + (reserved.get(signer.toLowerCase()) ?? 0n)),
+    budgetEth: dailyBudgetWei !== null ? ethers.formatEther(dailyBudgetWei) : null,
+  };
+}
+
+/** Fail if spending `wei` more would exceed the signer's rolling 24h budget */
+export function requireDailyBudget(signer: string, wei: bigint): void {
+  if (dailyBudgetWei === null) return;
+  const used = spentToday(signer) + (reserved.get(signer.toLowerCase()) ?? 0n);
+  if (used + wei > dailyBudgetWei) {
+    throw new PolicyError(
+      `Daily budget: spending ${ethers.formatEther(wei)} ETH would exceed the ${ethers.formatEther(dailyBudgetWei)} ETH `
+      + `24h limit (${ethers.formatEther(used)} ETH already spent or pending)`,
+    );
+  }
+}
+
+/** Check and hold `wei` of the signer's budget until the returned release function is called */
+export function reserveDailySpend(signer: string, wei: bigint): () => void {
+  requireDailyBudget(signer, wei);
+  const key = signer.toLowerCase();
+  reserved.set(key, (reserved.get(key) ?? 0n) + wei);
+  return () => reserved.set(key, (reserved.get(key) ?? 0n) - wei);
+}
+
+/** Record ETH that left the signer in a mined transaction, pruning entries older than a day */
+export function recordSpend(signer: string, wei: bigint, txHash: string): void {
+  if (wei === 0n) return;
+  const now = Math.floor(Date.now() / 1000);
+  const entries = loadLedger().filter((e) => e.at > now - DAY_SECONDS);
+  entries.push({ signer: signer.toLowerCase(), at: now, wei: wei.toString(), txHash });
+  saveLedger(entries);
+}
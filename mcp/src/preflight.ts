@@ -0,0 +1,66 @@
+import type { RawTask, RawValidator } from "@agentecon/sdk";
+import { abbCore, agentRegistry, taskRegistry, taskStateToString, validatorPool } from "./contracts.js";
+
+/**
+ * Checks run before a write tool sends a transaction, so an agent gets a
+ * readable reason instead of paying gas for a revert. They mirror the
+ * `inState` / poster / operator checks in ABBCore and TaskRegistry, and the
+ * validator checks in ValidatorPool.
+ */
+
+export class PreflightError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreflightError";
+  }
+}
+
+export type TaskStateName = ReturnType<typeof taskStateToString>;
+
+export async function requireNotPaused(): Promise<void> {
+  if (await abbCore.paused()) throw new PreflightError("ABBCore is paused; lifecycle transactions are disabled");
+}
+
+/** Read a task, failing if it does not exist */
+export async function requireTask(taskId: number): Promise<RawTask> {
+  if (!(await taskRegistry.taskExists(taskId))) throw new PreflightError(`Task ${taskId} does not exist`);
+  return taskRegistry.getTask(taskId);
+}
+
+export function requireState(task: RawTask, allowed: TaskStateName[], action: string): void {
+  const state = taskStateToString(Number(task.state));
+  if (!allowed.includes(state)) {
+    throw new PreflightError(`Cannot ${action}: task ${task.id} is ${state}, expected ${allowed.join(" or ")}`);
+  }
+}
+
+export function requirePoster(task: RawTask, caller: string, action: string): void {
+  if (task.poster.toLowerCase() !== caller.toLowerCase()) {
+    throw new PreflightError(`Cannot ${action}: only the poster (${task.poster}) can do this, signer is ${caller}`);
+  }
+}
+
+/** Operator address of the agent assigned to `task` (zero address when unassigned) */
+export async function assignedOperator(task: RawTask): Promise<string> {
+  if (Number(task.assignedAgent) === 0) return "0x0000000000000000000000000000000000000000";
+  const agent = await agentRegistry.getAgent(task.assignedAgent);
+  return agent.operator;
+}
+
+export function requireBytes32(value: string, name: string): void {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(value)) throw new PreflightError(`${name} must be a 0x-prefixed 32-byte hex string`);
+  if (BigInt(value) === 0n) throw new PreflightError(`${name} must not be zero`);
+}
+
+export function requireFutureDeadline(deadline: number): void {
+  const now = Math.floor(Date.now() / 1000);
+  if (deadline <= now) throw new PreflightError(`deadline ${deadline} is not in the future (now ${now})`);
+}
+
+/** Read the signer's validator record, failing unless it is registered and active */
+export async function requireActiveValidator(address: string, action: string): Promise<RawValidator> {
+  const v = await validatorPool.getValidator(address);
+  if (Number(v.registeredAt) === 0) throw new PreflightError(`Cannot ${action}: ${address} is not a registered validator`);
+  if (!v.active) throw new PreflightError(`Cannot ${action}: validator ${address} is inactive (stake below minimum or unstaking)`);
+  return v;
+}
@@ -0,0 +1,94 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { readTask, taskRegistry, validatorPool } from "./contracts.js";
+import { taskDocuments } from "./documents.js";
+import type { Attachment, TaskDescription } from "./documents.js";
+
+/**
+ * Prompts that bundle a task's documents into a ready-to-use message, so a
+ * validator can score (or an agent can work on) a task inside the MCP client.
+ */
+
+async function loadTask(rawId: string) {
+  const id = Number(rawId);
+  if (!Number.isInteger(id) || id < 0) throw new Error(`Invalid task ID: ${rawId}`);
+  if (!(await taskRegistry.taskExists(id))) throw new Error(`Task ${id} not found`);
+  const task = await readTask(id);
+  return { task, docs: await taskDocuments(task) };
+}
+
+function attachmentLines(attachments: Attachment[]): string[] {
+  return attachments.map((a) => `- ${a.name}: ${a.uri}${a.mimeType ? ` (${a.mimeType})` : ""}`);
+}
+
+function describeTask(task: Awaited<ReturnType<typeof readTask>>, description: TaskDescription | null): string[] {
+  const lines = [
+    `# Task ${task.id}${description?.title ? `: ${description.title}` : ""}`,
+    `Bounty: ${task.bountyAmount} ETH · State: ${task.state}${task.tier ? ` · Validation tier: ${task.tier}` : ""}`,
+    `Deadline: ${task.deadlineISO}`,
+    "",
+  ];
+  if (!description) {
+    lines.push(`The description document (${task.descriptionHash}) could not be resolved; ask the poster for it before proceeding.`);
+    return lines;
+  }
+  if (description.category) lines.push(`Category: ${description.category}`, "");
+  lines.push("## Description", description.body || "(empty)", "");
+  lines.push("## Acceptance criteria");
+  lines.push(...(description.acceptanceCriteria.length > 0
+    ? description.acceptanceCriteria.map((c, i) => `${i + 1}. ${c}`)
+    : ["None listed; judge against the description."]));
+  if (description.attachments.length > 0) lines.push("", "## Task attachments", ...attachmentLines(description.attachments));
+  return lines;
+}
+
+export function registerPrompts(server: McpServer): void {
+  server.prompt(
+    "evaluate_submission",
+    "Evaluate the work submitted for a task against its acceptance criteria and produce a 0-100 score to submit as a validator.",
+    { taskId: z.string().describe("The task ID under review.") },
+    async ({ taskId }) => {
+      const { task, docs } = await loadTask(taskId);
+      if (task.submittedAt === 0) throw new Error(`Task ${task.id} has no submission to evaluate`);
+      const passScore = Number(await validatorPool.PASS_SCORE());
+      const commitReveal = task.tier === null || task.tier === "premium";
+
+      const lines = describeTask(task, docs.description);
+      lines.push("", "## Submitted work");
+      if (docs.submission) {
+        lines.push(docs.submission.body || "(empty)");
+        if (docs.submission.attachments.length > 0) lines.push("", "Attachments:", ...attachmentLines(docs.submission.attachments));
+      } else {
+        lines.push(`The submission document (${task.submissionHash}) could not be resolved.`);
+      }
+      lines.push(
+        "",
+        "## Your job",
+        "Check the submission against each acceptance criterion in turn, noting which are met, partly met or missed.",
+        `Then give one integer score from 0 to 100. ${passScore} or above accepts the work and pays the agent; below rejects it.`,
+        "Score only what was submitted; do not reward effort or promises of follow-up work.",
+        commitReveal
+          ? `Record the score with commit_score(taskId: ${task.id}, score) during the commit phase, then reveal_score(taskId: ${task.id}) once it ends.`
+          : `Record the score with submit_score(taskId: ${task.id}, score).`,
+      );
+      return { messages: [{ role: "user" as const, content: { type: "text" as const, text: lines.join("\n") } }] };
+    },
+  );
+
+  server.prompt(
+    "work_on_task",
+    "Load a task's description and acceptance criteria as instructions for completing it.",
+    { taskId: z.string().describe("The task ID to work on.") },
+    async ({ taskId }) => {
+      const { task, docs } = await loadTask(taskId);
+      const lines = describeTask(task, docs.description);
+      lines.push(
+        "",
+        "## Your job",
+        "Complete the task so that every acceptance criterion is met; validators score the result from 0 to 100 against them.",
+        `When done, publish the result and call submit_work(taskId: ${task.id}, submissionHash) before ${task.deadlineISO}.`,
+      );
+      return { messages: [{ role: "user" as const, content: { type: "text" as const, text: lines.join("\n") } }] };
+    },
+  );
+}
@@ -0,0 +1,89 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { agentRegistry, formatAgent, formatValidator, readTask, taskRegistry, validatorPool } from "./contracts.js";
+import { agentMetadata, taskDocuments } from "./documents.js";
+
+/**
+ * Read-only `abb://` resources. Tasks and agents are read on chain and their
+ * document hashes resolved through the API or IPFS (see documents.ts), so a
+ * client can attach task content to a conversation without calling tools.
+ */
+
+function json(uri: URL, value: unknown) {
+  return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, null, 2) }] };
+}
+
+function parseId(raw: string | string[], what: string): number {
+  const id = Number(Array.isArray(raw) ? raw[0] : raw);
+  if (!Number.isInteger(id) || id < 0) throw new Error(`Invalid ${what} ID: ${raw}`);
+  return id;
+}
+
+async function requireTask(raw: string | string[]) {
+  const id = parseId(raw, "task");
+  if (!(await taskRegistry.taskExists(id))) throw new Error(`Task ${id} not found`);
+  return readTask(id);
+}
+
+export function registerResources(server: McpServer): void {
+  server.resource(
+    "task",
+    new ResourceTemplate("abb://task/{id}", { list: undefined }),
+    { description: "A task with its on-chain state, description document and submission", mimeType: "application/json" },
+    async (uri, { id }) => {
+      const task = await requireTask(id);
+      const docs = await taskDocuments(task);
+      return json(uri, { ...task, description: docs.description, submission: docs.submission, documentSource: docs.source });
+    },
+  );
+
+  server.resource(
+    "task-description",
+    new ResourceTemplate("abb://task/{id}/description", { list: undefined }),
+    { description: "The task description document (title, body, acceptance criteria, attachments)", mimeType: "application/json" },
+    async (uri, { id }) => {
+      const task = await requireTask(id);
+      const { description } = await taskDocuments(task);
+      if (!description) throw new Error(`Description document ${task.descriptionHash} for task ${task.id} could not be resolved`);
+      return json(uri, description);
+    },
+  );
+
+  server.resource(
+    "task-submission",
+    new ResourceTemplate("abb://task/{id}/submission", { list: undefined }),
+    { description: "The work submitted for a task", mimeType: "application/json" },
+    async (uri, { id }) => {
+      const task = await requireTask(id);
+      if (task.submittedAt === 0) throw new Error(`Task ${task.id} has no submission yet`);
+      const { submission } = await taskDocuments(task);
+      if (!submission) throw new Error(`Submission document ${task.submissionHash} for task ${task.id} could not be resolved`);
+      return json(uri, submission);
+    },
+  );
+
+  server.resource(
+    "agent",
+    new ResourceTemplate("abb://agent/{id}", { list: undefined }),
+    { description: "A registered agent with its reputation and metadata document", mimeType: "application/json" },
+    async (uri, { id }) => {
+      const agentId = parseId(id, "agent");
+      if (!(await agentRegistry.agentExists(agentId))) throw new Error(`Agent ${agentId} not found`);
+      const agent = formatAgent(await agentRegistry.getAgent(agentId));
+      const { metadata, source } = await agentMetadata(agent);
+      return json(uri, { ...agent, metadata, documentSource: source });
+    },
+  );
+
+  server.resource(
+    "validator",
+    new ResourceTemplate("abb://validator/{address}", { list: undefined }),
+    { description: "A validator's stake, reputation and status", mimeType: "application/json" },
+    async (uri, { address }) => {
+      const addr = Array.isArray(address) ? address[0] : address;
+      if (!/^0x[0-9a-fA-F]{40}$/.test(addr)) throw new Error(`Invalid validator address: ${addr}`);
+      const v = await validatorPool.getValidator(addr);
+      if (Number(v.registeredAt) === 0) throw new Error(`Validator ${addr} not found`);
+      return json(uri, formatValidator(v));
+    },
+  );
+}
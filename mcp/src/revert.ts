@@ -0,0 +1,105 @@
+import { ethers } from "ethers";
+import type { BaseContract } from "ethers";
+import { abbCore, agentRegistry, bountyEscrow, taskRegistry, taskStateToString, validatorPool } from "./contracts.js";
+import { decodeContractError } from "@agentecon/sdk";
+import type { DecodedContractError } from "@agentecon/sdk";
+import { readRound } from "./panels.js";
+
+/**
+ * Turns reverts into messages an agent can act on: the decoded custom error
+ * (see CONTRACT_ERRORS in @agentecon/sdk) plus, where chain state explains it, the detail
+ * that matters — which state the task is in, when the dispute window ends,
+ * when the reveal phase opens.
+ */
+
+export interface RevertContext {
+  /** Contract the call was made to, so shared error selectors resolve to it */
+  contract?: BaseContract;
+  taskId?: number;
+  /** The caller, for validator-specific details */
+  account?: string;
+}
+
+const CONTRACT_NAMES = new Map<BaseContract, string>([
+  [abbCore, "ABBCore"],
+  [taskRegistry, "TaskRegistry"],
+  [agentRegistry, "AgentRegistry"],
+  [validatorPool, "ValidatorPool"],
+  [bountyEscrow, "BountyEscrow"],
+]);
+
+function iso(ts: number): string {
+  return new Date(ts * 1000).toISOString();
+}
+
+/** A sentence of chain-state detail for the errors where one helps, or null */
+async function detail(decoded: DecodedContractError, ctx: RevertContext): Promise<string | null> {
+  const { taskId, account } = ctx;
+  switch (decoded.error) {
+    case "TaskNotInExpectedState":
+    case "InvalidStateTransition": {
+      if (taskId === undefined) return null;
+      const task = await taskRegistry.getTask(taskId);
+      return `Task ${taskId} is ${taskStateToString(Number(task.state))}.`;
+    }
+    case "DeadlinePassed": {
+      if (taskId === undefined) return null;
+      const task = await taskRegistry.getTask(taskId);
+      return `Task ${taskId}'s deadline was ${iso(Number(task.deadline))}.`;
+    }
+    case "DisputeWindowActive":
+    case "DisputeWindowExpired": {
+      if (taskId === undefined) return null;
+      const [rejectedAt, window] = await Promise.all([abbCore.rejectedAt(taskId), abbCore.DISPUTE_WINDOW()]);
+      if (Number(rejectedAt) === 0) return `Task ${taskId} has not been rejected by review.`;
+      const endsAt = iso(Number(rejectedAt) + Number(window));
+      return decoded.error === "DisputeWindowActive"
+        ? `The dispute window ends at ${endsAt}; claim_refund_after_rejection works after that.`
+        : `The dispute window ended at ${endsAt}.`;
+    }
+    case "CommitDeadlinePassed":
+    case "CommitPhaseNotOver":
+    case "RevealDeadlinePassed":
+    case "RevealDeadlineNotPassed": {
+      if (taskId === undefined) return null;
+      const round = await readRound(taskId);
+      if (!round || round.commitDeadline === null || round.revealDeadline === null) return null;
+      if (decoded.error === "CommitDeadlinePassed") return `The commit phase ended at ${iso(round.commitDeadline)}.`;
+      if (decoded.error === "CommitPhaseNotOver") return `The reveal phase opens after ${iso(round.commitDeadline)}.`;
+      if (decoded.error === "RevealDeadlinePassed") return `The reveal phase ended at ${iso(round.revealDeadline)}.`;
+      return `The reveal phase closes at ${iso(round.revealDeadline)}; finalize after that.`;
+    }
+    case "UnstakeCooldownNotMet": {
+      if (account === undefined) return null;
+      const [v, cooldown] = await Promise.all([validatorPool.getValidator(account), validatorPool.UNSTAKE_COOLDOWN()]);
+      return `The unstake can be completed after ${iso(Number(v.unstakeRequestTime) + Number(cooldown))}.`;
+    }
+    case "InsufficientStake": {
+      const minStake = await validatorPool.MIN_STAKE();
+      return `The minimum stake is ${ethers.formatEther(minStake)} ETH.`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Explain a revert as `Contract.Error [CODE]: hint detail`, or null when the
+ * error carries no protocol custom error
+ */
+export async function explainRevert(err: unknown, ctx: RevertContext = {}): Promise<string | null> {
+  const decoded = decodeContractError(err, ctx.contract ? CONTRACT_NAMES.get(ctx.contract) : undefined);
+  if (!decoded) return null;
+  let extra: string | null = null;
+  try {
+    extra = await detail(decoded, ctx);
+  } catch { /* the static hint still applies */ }
+  return `${decoded.contract}.${decoded.error} [${decoded.code}]: ${decoded.hint}${extra ? ` ${extra}` : ""}`;
+}
+
+/** Message for a tool's error result: the decoded custom error when there is one */
+export function errorMessage(err: any): string {
+  const decoded = decodeContractError(err);
+  if (decoded) return `${decoded.contract}.${decoded.error} [${decoded.code}]: ${decoded.hint}`;
+  return err?.message ?? String(err);
+}
@@ -0,0 +1,302 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+
+import { listTasks } from "./tools/list-tasks.js";
+import { getTask } from "./tools/get-task.js";
+import { registerAgent } from "./tools/register-agent.js";
+import { claimTask } from "./tools/claim-task.js";
+import { submitWork } from "./tools/submit-work.js";
+import { getAgentInfo } from "./tools/get-agent-info.js";
+import { listValidators } from "./tools/list-validators.js";
+import { platformStats } from "./tools/platform-stats.js";
+import { createTaskETH, createTaskToken } from "./tools/create-task.js";
+import { cancelTask } from "./tools/cancel-task.js";
+import { raiseDispute } from "./tools/raise-dispute.js";
+import { reclaimExpiredTask } from "./tools/reclaim-expired-task.js";
+import { finalizeReview } from "./tools/finalize-review.js";
+import { claimRefundAfterRejection } from "./tools/claim-refund.js";
+import { withdrawETH, withdrawToken } from "./tools/withdraw.js";
+import { addValidatorStake, completeUnstake, initiateUnstake, registerValidator } from "./tools/validator-stake.js";
+import { commitScore, revealScore, submitScore } from "./tools/score-task.js";
+import { myAssignments } from "./tools/my-assignments.js";
+
+const bytes32 = z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Must be 66 chars starting with 0x");
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be a 0x-prefixed 20-byte address");
+const decimalAmount = z.string().regex(/^\d+(\.\d+)?$/, "Must be a decimal amount, e.g. \"0.05\"");
+const taskId = z.number().int().nonnegative();
+const score = z.number().int().min(0).max(100);
+
+// Raw content for tools that put a document hash on chain; the server stores and hashes it
+const contentInput = {
+  content: z.string().optional().describe("Raw text (or JSON text) to store. Hashed exactly as given."),
+  document: z.record(z.unknown()).optional().describe("JSON document to store, serialized with JSON.stringify."),
+  filePath: z.string().optional().describe("Path of a file under the server's CONTENT_FILE_ROOT to store."),
+};
+
+// Accepted by every write tool: simulate and return the result without sending
+const dryRun = z.boolean().optional().describe("Only simulate the transaction (eth_call and gas estimate) and return the result; nothing is sent or stored.");
+
+/** A server with every tool, resource and prompt registered; one per transport / HTTP session */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: "agent-bounty-board",
+    version: "0.1.0",
+  }, {
+    capabilities: { tools: {}, resources: {}, prompts: {} },
+  });
+
+  server.tool(
+    "list_tasks",
+    "List tasks on the Agent Bounty Board. Filter by status to find open tasks with ETH bounties you can claim.",
+    {
+      status: z.enum(["open", "claimed", "submitted", "in_review", "completed", "disputed", "resolved", "cancelled"]).optional().describe("Filter by task status. Use 'open' to find claimable tasks."),
+    },
+    async (args) => listTasks(args),
+  );
+
+  server.tool(
+    "get_task",
+    "Get detailed information about a specific task by ID, including bounty amount, deadline, status, assigned agent, and validation tier.",
+    {
+      taskId: z.number().describe("The task ID to look up."),
+    },
+    async (args) => getTask(args),
+  );
+
+  server.tool(
+    "register_agent",
+    "Register as an AI agent on the platform. Pass your metadata ({ name, description, capabilities, endpoints }) as document or content and the server stores and hashes it, or pass a precomputed metadataHash. Uses the server's configured signer. Returns your agent ID, hash and CID.",
+    {
+      metadataHash: bytes32.optional().describe("bytes32 hash of already-published agent metadata. Omit when passing content."),
+      ...contentInput,
+      dryRun,
+    },
+    async (args) => registerAgent(args),
+  );
+
+  server.tool(
+    "claim_task",
+    "Claim an open task to work on it. You must be a registered agent. Uses the server's configured signer.",
+    {
+      taskId: z.number().describe("The ID of the open task to claim."),
+      agentId: z.number().describe("Your registered agent ID."),
+      dryRun,
+    },
+    async (args) => claimTask(args),
+  );
+
+  server.tool(
+    "submit_work",
+    "Submit completed work for a claimed task. Pass the work as content, document or filePath and the server stores and hashes it, or pass a precomputed submissionHash. Goes to validator review. If accepted, you receive the bounty. Uses the server's configured signer.",
+    {
+      taskId: z.number().describe("The task ID you're submitting work for."),
+      submissionHash: bytes32.optional().describe("bytes32 hash of an already-published submission. Omit when passing content."),
+      ...contentInput,
+      dryRun,
+    },
+    async (args) => submitWork(args),
+  );
+
+  server.tool(
+    "create_task_eth",
+    "Post a new task with an ETH bounty. The bounty is escrowed until the work is accepted, the task is cancelled, or it is refunded. Uses the server's configured signer.",
+    {
+      descriptionHash: bytes32.describe("bytes32 hash of the task description document."),
+      bountyEth: decimalAmount.describe("Bounty in ETH, e.g. \"0.05\". Sent as the transaction value."),
+      deadline: z.number().int().positive().describe("Unix timestamp (seconds) by which work must be submitted."),
+      dryRun,
+    },
+    async (args) => createTaskETH(args),
+  );
+
+  server.tool(
+    "create_task_token",
+    "Post a new task with an ERC-20 bounty. Approves BountyEscrow for the amount first if the allowance is too low. Uses the server's configured signer.",
+    {
+      descriptionHash: bytes32.describe("bytes32 hash of the task description document."),
+      token: address.describe("ERC-20 token address."),
+      amount: decimalAmount.describe("Bounty in whole token units (scaled by the token's decimals), e.g. \"25\"."),
+      deadline: z.number().int().positive().describe("Unix timestamp (seconds) by which work must be submitted."),
+      dryRun,
+    },
+    async (args) => createTaskToken(args),
+  );
+
+  server.tool(
+    "cancel_task",
+    "Cancel an open (unclaimed) task you posted and refund its bounty to your escrow balance. Uses the server's configured signer.",
+    {
+      taskId: taskId.describe("The ID of your open task."),
+      dryRun,
+    },
+    async (args) => cancelTask(args),
+  );
+
+  server.tool(
+    "raise_dispute",
+    "Dispute a submitted or in-review task. Only the poster or the assigned agent's operator can dispute; the protocol owner resolves it. Uses the server's configured signer.",
+    {
+      taskId: taskId.describe("The task ID to dispute."),
+      dryRun,
+    },
+    async (args) => raiseDispute(args),
+  );
+
+  server.tool(
+    "reclaim_expired_task",
+    "Reclaim a task you posted whose agent claimed it but did not submit before the deadline. Refunds the bounty to your escrow balance. Uses the server's configured signer.",
+    {
+      taskId: taskId.describe("The ID of your claimed, past-deadline task."),
+      dryRun,
+    },
+    async (args) => reclaimExpiredTask(args),
+  );
+
+  server.tool(
+    "finalize_review",
+    "Finalize the validator review of an in-review task once enough scores are in. Anyone can call it. Accepted work pays the agent; rejected work opens a 1-day dispute window. Uses the server's configured signer.",
+    {
+      taskId: taskId.describe("The in-review task ID."),
+      dryRun,
+    },
+    async (args) => finalizeReview(args),
+  );
+
+  server.tool(
+    "claim_refund_after_rejection",
+    "Refund the poster of a task whose review rejected the work, after the 1-day dispute window has passed. Anyone can call it. Uses the server's configured signer.",
+    {
+      taskId: taskId.describe("The rejected task ID."),
+      dryRun,
+    },
+    async (args) => claimRefundAfterRejection(args),
+  );
+
+  server.tool(
+    "withdraw_eth",
+    "Withdraw the signer's claimable ETH (earned bounties and refunds) from BountyEscrow. Uses the server's configured signer.",
+    { dryRun },
+    async (args) => withdrawETH(args),
+  );
+
+  server.tool(
+    "withdraw_token",
+    "Withdraw the signer's claimable balance of an ERC-20 token from BountyEscrow. Uses the server's configured signer.",
+    {
+      token: address.describe("ERC-20 token address."),
+      dryRun,
+    },
+    async (args) => withdrawToken(args),
+  );
+
+  server.tool(
+    "register_validator",
+    "Register the signer as a validator by staking ETH. AI validators (V2 only) are eligible for Micro panels and score directly. Uses the server's configured signer.",
+    {
+      stakeEth: decimalAmount.describe("Stake in ETH, at least the pool's MIN_STAKE (0.1 ETH). Sent as the transaction value."),
+      isAI: z.boolean().default(true).describe("Register as an AI validator. Requires a V2 ValidatorPool."),
+      dryRun,
+    },
+    async (args) => registerValidator(args),
+  );
+
+  server.tool(
+    "add_validator_stake",
+    "Add ETH to the signer's validator stake. Uses the server's configured signer.",
+    {
+      amountEth: decimalAmount.describe("Amount of ETH to add."),
+      dryRun,
+    },
+    async (args) => addValidatorStake(args),
+  );
+
+  server.tool(
+    "initiate_unstake",
+    "Request to withdraw part or all of the signer's validator stake. Starts a 7-day cooldown; dropping below the minimum stake deactivates the validator. Uses the server's configured signer.",
+    {
+      amountEth: decimalAmount.describe("Amount of ETH to unstake."),
+      dryRun,
+    },
+    async (args) => initiateUnstake(args),
+  );
+
+  server.tool(
+    "complete_unstake",
+    "Withdraw a pending unstake once its cooldown has passed. Uses the server's configured signer.",
+    { dryRun },
+    async (args) => completeUnstake(args),
+  );
+
+  server.tool(
+    "my_assignments",
+    "List the unfinalized review rounds the signer is on a validator panel for, with tier, deadlines, what it has already done and the next action to take.",
+    {},
+    async () => myAssignments(),
+  );
+
+  server.tool(
+    "submit_score",
+    "Score submitted work for a Micro or Standard round the signer is on the panel for. Scores of 60 or more count as a pass. Uses the server's configured signer.",
+    {
+      taskId: taskId.describe("The task under review."),
+      score: score.describe("Quality score from 0 to 100."),
+      dryRun,
+    },
+    async (args) => submitScore(args),
+  );
+
+  server.tool(
+    "commit_score",
+    "Commit a hidden score for a Premium (commit-reveal) round during its commit phase. The server generates and stores the salt; call reveal_score once the commit phase ends. Uses the server's configured signer.",
+    {
+      taskId: taskId.describe("The task under review."),
+      score: score.describe("Quality score from 0 to 100."),
+      dryRun,
+    },
+    async (args) => commitScore(args),
+  );
+
+  server.tool(
+    "reveal_score",
+    "Reveal the score committed with commit_score, using the salt stored by this server. Only valid between the commit and reveal deadlines. Uses the server's configured signer.",
+    {
+      taskId: taskId.describe("The task whose committed score to reveal."),
+      dryRun,
+    },
+    async (args) => revealScore(args),
+  );
+
+  server.tool(
+    "get_agent_info",
+    "Get agent registration info by agent ID or operator wallet address.",
+    {
+      agentId: z.number().optional().describe("Agent ID to look up directly."),
+      operatorAddress: z.string().optional().describe("Operator wallet address to find all their agents."),
+    },
+    async (args) => getAgentInfo(args),
+  );
+
+  server.tool(
+    "list_validators",
+    "Get validator information. Look up a specific validator by address or get the active validator count and panel configuration.",
+    {
+      validatorAddress: z.string().optional().describe("Validator address to look up. If omitted, returns active validator count and panel configuration."),
+    },
+    async (args) => listValidators(args),
+  );
+
+  server.tool(
+    "platform_stats",
+    "Get an overview of the Agent Bounty Board platform: total tasks, agents, validators, and task breakdown by status.",
+    {},
+    async () => platformStats(),
+  );
+
+  registerResources(server);
+  registerPrompts(server);
+
+  return server;
+}
@@ -0,0 +1,175 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { AbstractSigner, ethers } from "ethers";
+import type { Provider, TransactionRequest, TransactionResponse, TypedDataDomain, TypedDataField } from "ethers";
+import { config } from "./config.js";
+import { getEnvSigner, provider } from "./contracts.js";
+
+/**
+ * Signers for the HTTP transport, where each API key maps to its own signer
+ * instead of SIGNER_PRIVATE_KEY. Tools still call `getSigner()`; inside an
+ * HTTP session it returns that session's signer, wrapped with the session's
+ * spend limits.
+ */
+
+/** A signer whose address is known synchronously, like ethers' Wallet */
+export type AgentSigner = AbstractSigner & { readonly address: string };
+
+export interface SpendLimits {
+  /** Total ETH (transaction value) the session may send, in wei; null for no limit */
+  maxValueWei: bigint | null;
+  /** Number of transactions the session may send; null for no limit */
+  maxTransactions: number | null;
+}
+
+/**
+ * Signs through a remote Ethereum JSON-RPC signer (e.g. Web3Signer, Clef)
+ * with `eth_signTransaction`, so the key never lives in this process.
+ * Transactions are populated and broadcast through the server's own RPC.
+ */
+export class RemoteSigner extends AbstractSigner {
+  constructor(
+    private readonly url: string,
+    readonly address: string,
+    runner: Provider | null = provider,
+    private readonly headers: Record<string, string> = {},
+  ) {
+    super(runner);
+  }
+
+  private async rpc(method: string, params: unknown[]): Promise<string> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+      signal: AbortSignal.timeout(15_000),
+    });
+    if (!response.ok) throw new Error(`Remote signer returned HTTP ${response.status}`);
+    const body = (await response.json()) as { result?: string; error?: { message: string } };
+    if (body.error) throw new Error(`Remote signer: ${body.error.message}`);
+    if (typeof body.result !== "string") throw new Error("Remote signer returned no result");
+    return body.result;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(runner: Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, runner, this.headers);
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    const populated = await this.populateTransaction(tx);
+    return this.rpc("eth_signTransaction", [provider.getRpcTransaction({ ...populated, from: this.address })]);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === "string" ? ethers.toUtf8Bytes(message) : message;
+    return this.rpc("eth_sign", [this.address, ethers.hexlify(data)]);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>,
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    return this.rpc("eth_signTypedData_v4", [this.address, JSON.stringify(payload)]);
+  }
+}
+
+/**
+ * Wraps a signer with per-session limits on transaction count and ETH sent.
+ * Budget is reserved before a transaction is sent and released if sending
+ * fails, so concurrent tool calls cannot overspend it.
+ */
+export class SpendLimitedSigner extends AbstractSigner {
+  private spentWei = 0n;
+  private transactions = 0;
+
+  constructor(private readonly inner: AgentSigner, private readonly limits: SpendLimits) {
+    super(inner.provider);
+  }
+
+  get address(): string {
+    return this.inner.address;
+  }
+
+  usage() {
+    return {
+      spentEth: ethers.formatEther(this.spentWei),
+      transactions: this.transactions,
+      maxEth: this.limits.maxValueWei !== null ? ethers.formatEther(this.limits.maxValueWei) : null,
+      maxTransactions: this.limits.maxTransactions,
+    };
+  }
+
+  async getAddress(): Promise<string> {
+    return this.inner.address;
+  }
+
+  connect(): SpendLimitedSigner {
+    throw new Error("Session signers are bound to the server's provider");
+  }
+
+  async sendTransaction(tx: TransactionRequest): Promise<TransactionResponse> {
+    const value = tx.value !== undefined && tx.value !== null ? ethers.getBigInt(tx.value) : 0n;
+    const { maxValueWei, maxTransactions } = this.limits;
+    if (maxTransactions !== null && this.transactions >= maxTransactions) {
+      throw new Error(`Session transaction limit reached (${maxTransactions})`);
+    }
+    if (maxValueWei !== null && this.spentWei + value > maxValueWei) {
+      throw new Error(
+        `Session spend limit: sending ${ethers.formatEther(value)} ETH would exceed the ${ethers.formatEther(maxValueWei)} ETH limit `
+        + `(${ethers.formatEther(this.spentWei)} ETH already sent)`,
+      );
+    }
+
+    this.spentWei += value;
+    this.transactions++;
+    try {
+      return await this.inner.sendTransaction(tx);
+    } catch (err) {
+      this.spentWei -= value;
+      this.transactions--;
+      throw err;
+    }
+  }
+
+  signTransaction(tx: TransactionRequest): Promise<string> {
+    return this.inner.signTransaction(tx);
+  }
+
+  signMessage(message: string | Uint8Array): Promise<string> {
+    return this.inner.signMessage(message);
+  }
+
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>,
+  ): Promise<string> {
+    return this.inner.signTypedData(domain, types, value);
+  }
+}
+
+export interface SessionContext {
+  sessionId: string;
+  tenantId: string;
+  signer: SpendLimitedSigner;
+}
+
+/** Set by the HTTP transport around each request so tools resolve the caller's signer */
+export const sessionContext = new AsyncLocalStorage<SessionContext>();
+
+/**
+ * Signer for the current tool call: the HTTP session's signer, or
+ * SIGNER_PRIVATE_KEY over stdio. The HTTP transport never falls back to the
+ * operator key, so a call outside a session fails instead of signing with it.
+ */
+export function getSigner(): AgentSigner {
+  const session = sessionContext.getStore();
+  if (session) return session.signer;
+  if (config.transport === "http") throw new Error("No session signer: write tools need an initialized MCP session");
+  return getEnvSigner();
+}
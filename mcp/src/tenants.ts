@@ -0,0 +1,128 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { ethers, Wallet } from "ethers";
+import { config } from "./config.js";
+import { provider } from "./contracts.js";
+import { RemoteSigner } from "./signers.js";
+import type { AgentSigner, SpendLimits } from "./signers.js";
+
+/**
+ * Tenants of the HTTP transport, loaded from MCP_TENANTS_PATH. Each tenant is
+ * one API key (stored as its sha256) mapped to a signer and the spend limits
+ * applied to every session it opens:
+ *
+ *   { "tenants": [{
+ *       "id": "research-agent",
+ *       "apiKeySha256": "<hex sha256 of the API key>",
+ *       "signer": { "type": "keystore", "path": "keys/research.json", "passwordEnv": "RESEARCH_KEY_PASSWORD" },
+ *       "limits": { "maxEthPerSession": "0.5", "maxTransactionsPerSession": 20 }
+ *   }] }
+ *
+ * `signer` may instead be `{ "type": "remote", "url", "address", "headers"? }`
+ * for an external JSON-RPC signer. Keystore paths are relative to the tenants file.
+ */
+
+type SignerConfig =
+  | { type: "keystore"; path: string; passwordEnv: string }
+  | { type: "remote"; url: string; address: string; headers?: Record<string, string> };
+
+export interface Tenant {
+  id: string;
+  apiKeyHash: Buffer;
+  signer: SignerConfig;
+  limits: SpendLimits;
+}
+
+function isObject(v: unknown): v is Record<string, any> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function parseSigner(raw: unknown, where: string, baseDir: string): SignerConfig {
+  if (!isObject(raw)) throw new Error(`${where}.signer must be an object`);
+  if (raw.type === "keystore") {
+    if (typeof raw.path !== "string" || typeof raw.passwordEnv !== "string") {
+      throw new Error(`${where}.signer needs path and passwordEnv for a keystore`);
+    }
+    return { type: "keystore", path: resolve(baseDir, raw.path), passwordEnv: raw.passwordEnv };
+  }
+  if (raw.type === "remote") {
+    if (typeof raw.url !== "string" || typeof raw.address !== "string" || !ethers.isAddress(raw.address)) {
+      throw new Error(`${where}.signer needs url and a valid address for a remote signer`);
+    }
+    if (raw.headers !== undefined && !isObject(raw.headers)) throw new Error(`${where}.signer.headers must be an object`);
+    return { type: "remote", url: raw.url, address: ethers.getAddress(raw.address), headers: raw.headers };
+  }
+  throw new Error(`${where}.signer.type must be keystore or remote`);
+}
+
+function parseLimits(raw: unknown, where: string): SpendLimits {
+  if (raw === undefined) return { maxValueWei: null, maxTransactions: null };
+  if (!isObject(raw)) throw new Error(`${where}.limits must be an object`);
+  const { maxEthPerSession, maxTransactionsPerSession } = raw;
+  if (maxEthPerSession !== undefined && typeof maxEthPerSession !== "string") {
+    throw new Error(`${where}.limits.maxEthPerSession must be a decimal string, e.g. "0.5"`);
+  }
+  if (maxTransactionsPerSession !== undefined && (!Number.isInteger(maxTransactionsPerSession) || maxTransactionsPerSession < 0)) {
+    throw new Error(`${where}.limits.maxTransactionsPerSession must be a non-negative integer`);
+  }
+  return {
+    maxValueWei: maxEthPerSession !== undefined ? ethers.parseEther(maxEthPerSession) : null,
+    maxTransactions: maxTransactionsPerSession ?? null,
+  };
+}
+
+export function loadTenants(path = config.http.tenantsPath): Tenant[] {
+  let file: unknown;
+  try {
+    file = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new Error(`Cannot read tenants file ${path}: ${err.message}`);
+  }
+  if (!isObject(file) || !Array.isArray(file.tenants)) throw new Error(`${path} must contain a "tenants" array`);
+
+  const ids = new Set<string>();
+  return file.tenants.map((raw: unknown, i: number) => {
+    const where = `tenants[${i}]`;
+    if (!isObject(raw) || typeof raw.id !== "string" || raw.id === "") throw new Error(`${where}.id is required`);
+    if (ids.has(raw.id)) throw new Error(`Duplicate tenant id ${raw.id}`);
+    ids.add(raw.id);
+    if (typeof raw.apiKeySha256 !== "string" || !/^[0-9a-fA-F]{64}$/.test(raw.apiKeySha256)) {
+      throw new Error(`${where}.apiKeySha256 must be a hex sha256 digest`);
+    }
+    return {
+      id: raw.id,
+      apiKeyHash: Buffer.from(raw.apiKeySha256, "hex"),
+      signer: parseSigner(raw.signer, where, dirname(resolve(path))),
+      limits: parseLimits(raw.limits, where),
+    };
+  });
+}
+
+/** The tenant whose key hashes to `apiKey`'s sha256, compared in constant time */
+export function authenticate(tenants: Tenant[], apiKey: string): Tenant | null {
+  const hash = createHash("sha256").update(apiKey).digest();
+  return tenants.find((t) => timingSafeEqual(t.apiKeyHash, hash)) ?? null;
+}
+
+const signers = new Map<string, Promise<AgentSigner>>();
+
+/** The tenant's signer; keystores are decrypted once, on first use */
+export function tenantSigner(tenant: Tenant): Promise<AgentSigner> {
+  let signer = signers.get(tenant.id);
+  if (!signer) {
+    signer = openSigner(tenant.signer);
+    signers.set(tenant.id, signer);
+    signer.catch(() => signers.delete(tenant.id));
+  }
+  return signer;
+}
+
+async function openSigner(cfg: SignerConfig): Promise<AgentSigner> {
+  if (cfg.type === "remote") return new RemoteSigner(cfg.url, cfg.address, provider, cfg.headers);
+
+  const password = process.env[cfg.passwordEnv];
+  if (!password) throw new Error(`Keystore password env var ${cfg.passwordEnv} is not set`);
+  const wallet = await Wallet.fromEncryptedJson(readFileSync(cfg.path, "utf8"), password);
+  return (wallet as Wallet).connect(provider);
+}
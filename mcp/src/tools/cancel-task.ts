@@ -0,0 +1,36 @@
+import { abbCore } from "../contracts.js";
+import { requireNotPaused, requirePoster, requireState, requireTask } from "../preflight.js";
+import { getSigner } from "../signers.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+export async function cancelTask(args: { taskId: number; dryRun?: boolean }) {
+  try {
+    const signer = getSigner();
+    const task = await requireTask(args.taskId);
+    requireState(task, ["open"], "cancel");
+    requirePoster(task, signer.address, "cancel");
+    await requireNotPaused();
+
+    const result = await sendWrite(abbCore, "cancelTask", [args.taskId], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `task ${args.taskId} would be cancelled and its bounty credited back to you.`);
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId: args.taskId,
+          message: `Task ${args.taskId} cancelled. The bounty has been credited back to you; use withdraw_eth or withdraw_token to pull it.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error cancelling task: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { abbCore } from "../contracts.js";
+import { PreflightError, requireNotPaused, requireTask } from "../preflight.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+export async function claimRefundAfterRejection(args: { taskId: number; dryRun?: boolean }) {
+  try {
+    await requireTask(args.taskId);
+    const [rejectedAt, window] = await Promise.all([abbCore.rejectedAt(args.taskId), abbCore.DISPUTE_WINDOW()]);
+    if (Number(rejectedAt) === 0) {
+      throw new PreflightError(`Cannot claim refund: task ${args.taskId} has not been rejected by review`);
+    }
+    const opensAt = Number(rejectedAt) + Number(window);
+    const now = Math.floor(Date.now() / 1000);
+    if (now < opensAt) {
+      throw new PreflightError(`Cannot claim refund: the dispute window for task ${args.taskId} is open until ${opensAt} (now ${now})`);
+    }
+    await requireNotPaused();
+
+    const result = await sendWrite(abbCore, "claimRefundAfterRejection", [args.taskId], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `the bounty for task ${args.taskId} would be credited back to the poster.`);
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId: args.taskId,
+          message: `Refund claimed for task ${args.taskId}. The bounty was credited to the poster, who can pull it with withdraw_eth or withdraw_token.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error claiming refund: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
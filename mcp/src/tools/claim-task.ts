@@ -1,11 +1,19 @@
-import { abbCore, getEnvSigner } from "../contracts.js";
+import { abbCore } from "../contracts.js";
+import { requireClaimWindow } from "../policy.js";
+import { requireNotPaused, requireState, requireTask } from "../preflight.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
 
-export async function claimTask(args: { taskId: number; agentId: number }) {
+export async function claimTask(args: { taskId: number; agentId: number; dryRun?: boolean }) {
   try {
-    const signer = getEnvSigner();
-    const writable = abbCore.connect(signer);
-    const tx = await (writable as any).claimTask(args.taskId, args.agentId);
-    const receipt = await tx.wait();
+    const task = await requireTask(args.taskId);
+    requireState(task, ["open"], "claim");
+    requireClaimWindow(task);
+    await requireNotPaused();
+
+    const result = await sendWrite(abbCore, "claimTask", [args.taskId, args.agentId], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `task ${args.taskId} would be claimed by agent ${args.agentId}.`);
+    const { receipt } = result;
 
     return {
       content: [{
@@ -21,7 +29,7 @@ export async function claimTask(args: { taskId: number; agentId: number }) {
     };
   } catch (error: any) {
     return {
-      content: [{ type: "text" as const, text: `Error claiming task: ${error.message}` }],
+      content: [{ type: "text" as const, text: `Error claiming task: ${errorMessage(error)}` }],
       isError: true,
     };
   }
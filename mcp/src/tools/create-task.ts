@@ -0,0 +1,138 @@
+import { Contract, ethers } from "ethers";
+import type { TransactionReceipt } from "ethers";
+import { findEvent } from "@agentecon/sdk";
+import { abbCore, bountyEscrow, provider } from "../contracts.js";
+import { requireAllowedToken, requireBountyWithinPolicy } from "../policy.js";
+import { requireBytes32, requireFutureDeadline, requireNotPaused, PreflightError } from "../preflight.js";
+import { getSigner } from "../signers.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+const ERC20_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function balanceOf(address) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+function createdTaskId(receipt: TransactionReceipt): number | null {
+  const created = findEvent(abbCore, receipt, "TaskCreatedAndFunded");
+  return created ? Number(created.args.taskId) : null;
+}
+
+export async function createTaskETH(args: { descriptionHash: string; bountyEth: string; deadline: number; dryRun?: boolean }) {
+  try {
+    requireBytes32(args.descriptionHash, "descriptionHash");
+    requireFutureDeadline(args.deadline);
+    const value = ethers.parseEther(args.bountyEth);
+    if (value === 0n) throw new PreflightError("bountyEth must be greater than zero");
+    requireBountyWithinPolicy(value);
+    await requireNotPaused();
+
+    const signer = getSigner();
+    const balance = await provider.getBalance(signer.address);
+    if (balance < value) {
+      throw new PreflightError(`Signer balance ${ethers.formatEther(balance)} ETH is below the ${args.bountyEth} ETH bounty`);
+    }
+
+    const result = await sendWrite(abbCore, "createTaskETH", [args.descriptionHash, args.deadline], { value, dryRun: args.dryRun });
+    if (result.dryRun) {
+      return dryRunResult(result.simulation, `task ${result.simulation.returnValue} would be created with a ${args.bountyEth} ETH bounty.`);
+    }
+    const { receipt } = result;
+    const taskId = createdTaskId(receipt);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId,
+          poster: signer.address,
+          bountyEth: args.bountyEth,
+          deadline: args.deadline,
+          message: taskId !== null
+            ? `Task ${taskId} created with a ${args.bountyEth} ETH bounty held in escrow.`
+            : "Task created. Check transaction for task ID.",
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error creating task: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function createTaskToken(args: { descriptionHash: string; token: string; amount: string; deadline: number; dryRun?: boolean }) {
+  try {
+    requireBytes32(args.descriptionHash, "descriptionHash");
+    requireFutureDeadline(args.deadline);
+    if (!ethers.isAddress(args.token) || args.token === ethers.ZeroAddress) {
+      throw new PreflightError("token must be a non-zero ERC-20 address");
+    }
+    await requireNotPaused();
+
+    const signer = getSigner();
+    const token = new Contract(args.token, ERC20_ABI, signer);
+    const [decimals, symbol, balance, allowance] = await Promise.all([
+      token.decimals(),
+      token.symbol().catch(() => "tokens"),
+      token.balanceOf(signer.address),
+      token.allowance(signer.address, bountyEscrow.target),
+    ]);
+    const amount = ethers.parseUnits(args.amount, decimals);
+    if (amount === 0n) throw new PreflightError("amount must be greater than zero");
+    requireAllowedToken(args.token, amount, Number(decimals), symbol);
+    if (balance < amount) {
+      throw new PreflightError(`Signer balance ${ethers.formatUnits(balance, decimals)} ${symbol} is below the ${args.amount} ${symbol} bounty`);
+    }
+
+    // BountyEscrow pulls the bounty with transferFrom, so it needs an allowance first
+    // createTaskToken cannot be simulated before the approval exists, so a dry run stops at the approve
+    let approveTxHash: string | null = null;
+    if (allowance < amount) {
+      const approval = await sendWrite(token, "approve", [bountyEscrow.target, amount], { dryRun: args.dryRun });
+      if (approval.dryRun) {
+        return dryRunResult(approval.simulation, `BountyEscrow needs an allowance of ${args.amount} ${symbol} first; `
+          + "the approval would be sent, then createTaskToken (simulate it again once the allowance is set).", { approvalRequired: true });
+      }
+      approveTxHash = approval.receipt.hash;
+    }
+
+    const result = await sendWrite(abbCore, "createTaskToken", [args.descriptionHash, args.token, amount, args.deadline], { dryRun: args.dryRun });
+    if (result.dryRun) {
+      return dryRunResult(result.simulation, `task ${result.simulation.returnValue} would be created with a ${args.amount} ${symbol} bounty.`, { approvalRequired: false });
+    }
+    const { receipt } = result;
+    const taskId = createdTaskId(receipt);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          approveTxHash,
+          taskId,
+          poster: signer.address,
+          token: args.token,
+          amount: args.amount,
+          amountRaw: amount.toString(),
+          deadline: args.deadline,
+          message: taskId !== null
+            ? `Task ${taskId} created with a ${args.amount} ${symbol} bounty held in escrow.`
+            : "Task created. Check transaction for task ID.",
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error creating task: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
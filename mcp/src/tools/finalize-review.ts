@@ -0,0 +1,51 @@
+import { findEvent } from "@agentecon/sdk";
+import { abbCore, validatorPool } from "../contracts.js";
+import { PreflightError, requireNotPaused, requireState, requireTask } from "../preflight.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+export async function finalizeReview(args: { taskId: number; dryRun?: boolean }) {
+  try {
+    const task = await requireTask(args.taskId);
+    requireState(task, ["in_review"], "finalize review");
+    if (!(await validatorPool.isRoundInitialized(args.taskId))) {
+      throw new PreflightError(`Cannot finalize review: no validation round has started for task ${args.taskId}`);
+    }
+    // Finalizing a rejected task again would restart its dispute window
+    if (Number(await abbCore.rejectedAt(args.taskId)) > 0) {
+      throw new PreflightError(`Cannot finalize review: task ${args.taskId} was already rejected; use claim_refund_after_rejection or raise_dispute`);
+    }
+    await requireNotPaused();
+
+    const result = await sendWrite(abbCore, "finalizeReview", [args.taskId], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `the review round for task ${args.taskId} would be finalized.`);
+    const { receipt } = result;
+
+    const finalized = findEvent(abbCore, receipt, "ReviewFinalized");
+    const accepted: boolean | null = finalized ? finalized.args.accepted : null;
+    const medianScore = finalized ? Number(finalized.args.medianScore) : null;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId: args.taskId,
+          accepted,
+          medianScore,
+          message: accepted === null
+            ? `Review finalized for task ${args.taskId}. Check transaction for the result.`
+            : accepted
+            ? `Review finalized for task ${args.taskId}: accepted (median ${medianScore}). The bounty was credited to the agent's operator.`
+            : `Review finalized for task ${args.taskId}: rejected (median ${medianScore}). The poster can claim a refund after the dispute window.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error finalizing review: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { agentRegistry, formatAgent } from "../contracts.js";
+import { errorMessage } from "../revert.js";
 
 export const getAgentInfoSchema = {
   name: "get_agent_info" as const,
@@ -59,7 +60,7 @@ export async function getAgentInfo(args: { agentId?: number; operatorAddress?: s
     };
   } catch (error: any) {
     return {
-      content: [{ type: "text" as const, text: `Error fetching agent info: ${error.message}` }],
+      content: [{ type: "text" as const, text: `Error fetching agent info: ${errorMessage(error)}` }],
       isError: true,
     };
   }
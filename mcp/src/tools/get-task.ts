@@ -1,8 +1,9 @@
-import { taskRegistry, formatTask } from "../contracts.js";
+import { taskRegistry, readTask } from "../contracts.js";
+import { errorMessage } from "../revert.js";
 
 export const getTaskSchema = {
   name: "get_task" as const,
-  description: "Get detailed information about a specific task by ID, including bounty amount, deadline, status, and assigned agent.",
+  description: "Get detailed information about a specific task by ID, including bounty amount, deadline, status, assigned agent, and validation tier.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -25,16 +26,16 @@ export async function getTask(args: { taskId: number }) {
       };
     }
 
-    const task = await taskRegistry.getTask(args.taskId);
+    const task = await readTask(args.taskId);
     return {
       content: [{
         type: "text" as const,
-        text: JSON.stringify(formatTask(task), null, 2),
+        text: JSON.stringify(task, null, 2),
       }],
     };
   } catch (error: any) {
     return {
-      content: [{ type: "text" as const, text: `Error fetching task: ${error.message}` }],
+      content: [{ type: "text" as const, text: `Error fetching task: ${errorMessage(error)}` }],
       isError: true,
     };
   }
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { taskRegistry, formatTask, TaskState } from "../contracts.js";
+import { taskRegistry, readTask, TaskState } from "../contracts.js";
+import { errorMessage } from "../revert.js";
 
 export const listTasksSchema = {
   name: "list_tasks" as const,
@@ -25,8 +26,7 @@ export async function listTasks(args: { status?: string }) {
       try {
         const exists = await taskRegistry.taskExists(i);
         if (!exists) continue;
-        const task = await taskRegistry.getTask(i);
-        const formatted = formatTask(task);
+        const formatted = await readTask(i);
         if (!args.status || formatted.state === args.status) {
           tasks.push(formatted);
         }
@@ -43,7 +43,7 @@ export async function listTasks(args: { status?: string }) {
     };
   } catch (error: any) {
     return {
-      content: [{ type: "text" as const, text: `Error listing tasks: ${error.message}` }],
+      content: [{ type: "text" as const, text: `Error listing tasks: ${errorMessage(error)}` }],
       isError: true,
     };
   }
@@ -1,14 +1,16 @@
-import { validatorPool, formatValidator } from "../contracts.js";
+import { ethers } from "ethers";
+import { validatorPool, formatValidator, isV2 } from "../contracts.js";
+import { errorMessage } from "../revert.js";
 
 export const listValidatorsSchema = {
   name: "list_validators" as const,
-  description: "Get validator information. Look up a specific validator by address or get the active validator count.",
+  description: "Get validator information. Look up a specific validator by address or get the active validator count and panel configuration.",
   inputSchema: {
     type: "object" as const,
     properties: {
       validatorAddress: {
         type: "string",
-        description: "Validator address to look up. If omitted, returns active validator count.",
+        description: "Validator address to look up. If omitted, returns active validator count and panel configuration.",
       },
     },
   },
@@ -32,22 +34,78 @@ export async function listValidators(args: { validatorAddress?: string }) {
       };
     }
 
-    const activeCount = Number(await validatorPool.activeValidatorCount());
+    const [activeCount, minStake, passScore, cooldown] = await Promise.all([
+      validatorPool.activeValidatorCount(),
+      validatorPool.MIN_STAKE(),
+      validatorPool.PASS_SCORE(),
+      validatorPool.UNSTAKE_COOLDOWN(),
+    ]);
+    const common = {
+      activeValidatorCount: Number(activeCount),
+      passScore: Number(passScore),
+      minStake: `${ethers.formatEther(minStake)} ETH`,
+      unstakeCooldownSeconds: Number(cooldown),
+    };
+
+    if (!isV2) {
+      // V1-only constants, not part of the V2-typed pool
+      const [panelSize, consensus] = await Promise.all([
+        validatorPool.getFunction("PANEL_SIZE")(),
+        validatorPool.getFunction("CONSENSUS_THRESHOLD")(),
+      ]);
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ ...common, panelSize: Number(panelSize), consensusThreshold: Number(consensus) }, null, 2),
+        }],
+      };
+    }
+
+    // V2 panel size and consensus depend on the tier, which is chosen from the bounty
+    const [aiCount, microThreshold, standardThreshold, ...sizes] = await Promise.all([
+      validatorPool.getAIValidatorCount(),
+      validatorPool.MICRO_THRESHOLD(),
+      validatorPool.STANDARD_THRESHOLD(),
+      validatorPool.MICRO_PANEL_SIZE(),
+      validatorPool.MICRO_CONSENSUS(),
+      validatorPool.STANDARD_PANEL_SIZE(),
+      validatorPool.STANDARD_CONSENSUS(),
+      validatorPool.PREMIUM_PANEL_SIZE(),
+      validatorPool.PREMIUM_CONSENSUS(),
+    ]);
+    const [microSize, microConsensus, standardSize, standardConsensus, premiumSize, premiumConsensus] = sizes.map(Number);
     return {
       content: [{
         type: "text" as const,
         text: JSON.stringify({
-          activeValidatorCount: activeCount,
-          panelSize: 5,
-          consensusThreshold: 3,
-          passScore: 60,
-          minStake: "0.01 ETH",
+          ...common,
+          aiValidatorCount: Number(aiCount),
+          tiers: {
+            micro: {
+              bounty: `< ${ethers.formatEther(microThreshold)} ETH`,
+              panelSize: microSize,
+              consensusThreshold: microConsensus,
+              scoring: "direct (AI validators only)",
+            },
+            standard: {
+              bounty: `<= ${ethers.formatEther(standardThreshold)} ETH`,
+              panelSize: standardSize,
+              consensusThreshold: standardConsensus,
+              scoring: "direct",
+            },
+            premium: {
+              bounty: `> ${ethers.formatEther(standardThreshold)} ETH`,
+              panelSize: premiumSize,
+              consensusThreshold: premiumConsensus,
+              scoring: "commit-reveal",
+            },
+          },
         }, null, 2),
       }],
     };
   } catch (error: any) {
     return {
-      content: [{ type: "text" as const, text: `Error fetching validators: ${error.message}` }],
+      content: [{ type: "text" as const, text: `Error fetching validators: ${errorMessage(error)}` }],
       isError: true,
     };
   }
@@ -0,0 +1,65 @@
+import { validatorPool } from "../contracts.js";
+import { commitments } from "../commitments.js";
+import { assignedRounds, chainTime, scoringStatus } from "../panels.js";
+import type { Round } from "../panels.js";
+import { getSigner } from "../signers.js";
+import { errorMessage } from "../revert.js";
+
+function iso(ts: number | null): string | null {
+  return ts !== null ? new Date(ts * 1000).toISOString() : null;
+}
+
+/** What the validator should do next on a round, given its scoring events and the chain time */
+function nextAction(round: Round, status: { committed: boolean; revealed: boolean; scored: boolean }, now: number): string {
+  if (!round.commitReveal) return status.scored ? "wait for finalize_review" : "submit_score";
+  if (!status.committed) {
+    return round.commitDeadline !== null && now > round.commitDeadline ? "missed (commit phase over)" : "commit_score";
+  }
+  if (status.revealed) return "wait for finalize_review";
+  if (round.commitDeadline !== null && now <= round.commitDeadline) return "wait for reveal phase";
+  if (round.revealDeadline !== null && now > round.revealDeadline) return "missed (reveal phase over)";
+  return "reveal_score";
+}
+
+export async function myAssignments() {
+  try {
+    const signer = getSigner();
+    const [rounds, now] = await Promise.all([assignedRounds(signer.address), chainTime()]);
+    const pool = String(validatorPool.target);
+
+    const assignments = [];
+    for (const round of rounds) {
+      const status = await scoringStatus(round, signer.address);
+      const commitment = commitments.get(pool, signer.address, round.taskId);
+      assignments.push({
+        taskId: round.taskId,
+        tier: round.tier,
+        scoring: round.commitReveal ? "commit-reveal" : "direct",
+        panelSize: round.validators.length,
+        selectedAt: iso(round.selectedAt),
+        commitDeadline: iso(round.commitDeadline),
+        revealDeadline: iso(round.revealDeadline),
+        ...status,
+        storedCommitment: commitment !== null,
+        nextAction: nextAction(round, status, now),
+      });
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          validator: signer.address,
+          chainTime: iso(now),
+          count: assignments.length,
+          assignments,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error listing assignments: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
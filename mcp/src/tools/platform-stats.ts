@@ -1,4 +1,5 @@
 import { taskRegistry, agentRegistry, validatorPool, bountyEscrow, formatTask } from "../contracts.js";
+import { errorMessage } from "../revert.js";
 
 export const platformStatsSchema = {
   name: "platform_stats" as const,
@@ -47,7 +48,7 @@ export async function platformStats() {
     };
   } catch (error: any) {
     return {
-      content: [{ type: "text" as const, text: `Error fetching platform stats: ${error.message}` }],
+      content: [{ type: "text" as const, text: `Error fetching platform stats: ${errorMessage(error)}` }],
       isError: true,
     };
   }
@@ -0,0 +1,40 @@
+import { abbCore } from "../contracts.js";
+import { PreflightError, assignedOperator, requireNotPaused, requireState, requireTask } from "../preflight.js";
+import { getSigner } from "../signers.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+export async function raiseDispute(args: { taskId: number; dryRun?: boolean }) {
+  try {
+    const signer = getSigner();
+    const task = await requireTask(args.taskId);
+    requireState(task, ["submitted", "in_review"], "raise a dispute");
+    const operator = await assignedOperator(task);
+    const caller = signer.address.toLowerCase();
+    if (caller !== task.poster.toLowerCase() && caller !== operator.toLowerCase()) {
+      throw new PreflightError(`Cannot raise a dispute: only the poster or the assigned agent's operator can, signer is ${signer.address}`);
+    }
+    await requireNotPaused();
+
+    const result = await sendWrite(abbCore, "raiseDispute", [args.taskId], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `a dispute would be raised on task ${args.taskId}.`);
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId: args.taskId,
+          message: `Dispute raised on task ${args.taskId}. The bounty stays in escrow until the protocol owner resolves it.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error raising dispute: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
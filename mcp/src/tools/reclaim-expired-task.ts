@@ -0,0 +1,40 @@
+import { abbCore } from "../contracts.js";
+import { PreflightError, requireNotPaused, requirePoster, requireState, requireTask } from "../preflight.js";
+import { getSigner } from "../signers.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+export async function reclaimExpiredTask(args: { taskId: number; dryRun?: boolean }) {
+  try {
+    const signer = getSigner();
+    const task = await requireTask(args.taskId);
+    requireState(task, ["claimed"], "reclaim");
+    requirePoster(task, signer.address, "reclaim");
+    const now = Math.floor(Date.now() / 1000);
+    if (now < Number(task.deadline)) {
+      throw new PreflightError(`Cannot reclaim: task ${args.taskId} deadline ${Number(task.deadline)} has not passed (now ${now})`);
+    }
+    await requireNotPaused();
+
+    const result = await sendWrite(abbCore, "reclaimExpiredTask", [args.taskId], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `task ${args.taskId} would be reclaimed and its bounty credited back to you.`);
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId: args.taskId,
+          message: `Task ${args.taskId} reclaimed after its claim expired. The bounty has been credited back to you; use withdraw_eth or withdraw_token to pull it.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error reclaiming task: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
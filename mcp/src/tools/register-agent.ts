@@ -1,22 +1,42 @@
-import { agentRegistry, getEnvSigner, formatAgent } from "../contracts.js";
+import { findEvent } from "@agentecon/sdk";
+import { agentRegistry } from "../contracts.js";
+import { hashContent, hasContent, mirrorToApi, storeContent } from "../content.js";
+import type { ContentInput, StoredContent } from "../content.js";
+import { PreflightError, requireBytes32 } from "../preflight.js";
+import { getSigner } from "../signers.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
 
-export async function registerAgent(args: { metadataHash: string }) {
+export async function registerAgent(args: { metadataHash?: string; dryRun?: boolean } & ContentInput) {
   try {
-    const signer = getEnvSigner();
-    const writable = agentRegistry.connect(signer);
-    const tx = await (writable as any).registerAgent(args.metadataHash);
-    const receipt = await tx.wait();
+    const signer = getSigner();
+    if (args.metadataHash !== undefined && hasContent(args)) {
+      throw new PreflightError("Provide either metadataHash or content, not both");
+    }
+
+    // Raw metadata is stored and hashed here; the hash-only mode sends metadataHash as given
+    let stored: StoredContent | null = null;
+    let metadataHash = args.metadataHash;
+    if (metadataHash === undefined) {
+      if (!hasContent(args)) throw new PreflightError("Provide metadataHash, content, document or filePath");
+      if (args.dryRun) {
+        metadataHash = (await hashContent(args)).hash;
+      } else {
+        stored = await storeContent(args, "agent-metadata");
+        metadataHash = stored.hash;
+      }
+    }
+    requireBytes32(metadataHash, "metadataHash");
 
-    // Parse event for agent ID
-    let agentId: number | null = null;
-    for (const log of receipt.logs) {
-      try {
-        const parsed = agentRegistry.interface.parseLog({ topics: log.topics as string[], data: log.data });
-        if (parsed?.name === "AgentRegistered") {
-          agentId = Number(parsed.args.agentId);
-        }
-      } catch { /* not our event */ }
+    const result = await sendWrite(agentRegistry, "registerAgent", [metadataHash], { dryRun: args.dryRun });
+    if (result.dryRun) {
+      return dryRunResult(result.simulation, `an agent would be registered with ID ${result.simulation.returnValue}.`, { metadataHash });
     }
+    const { receipt } = result;
+
+    const registered = findEvent(agentRegistry, receipt, "AgentRegistered");
+    const agentId = registered ? Number(registered.args.agentId) : null;
+    const mirrored = stored && agentId !== null ? await mirrorToApi(`/agents/${agentId}/metadata`, stored) : false;
 
     return {
       content: [{
@@ -26,6 +46,8 @@ export async function registerAgent(args: { metadataHash: string }) {
           txHash: receipt.hash,
           agentId,
           operator: await signer.getAddress(),
+          metadataHash,
+          ...(stored && { cid: stored.cid, contentBackend: stored.backend, bytes: stored.bytes, storedInApi: mirrored }),
           message: agentId !== null
             ? `Agent registered with ID ${agentId}. Use this ID to claim tasks.`
             : "Agent registered. Check transaction for agent ID.",
@@ -34,7 +56,7 @@ export async function registerAgent(args: { metadataHash: string }) {
     };
   } catch (error: any) {
     return {
-      content: [{ type: "text" as const, text: `Error registering agent: ${error.message}` }],
+      content: [{ type: "text" as const, text: `Error registering agent: ${errorMessage(error)}` }],
       isError: true,
     };
   }
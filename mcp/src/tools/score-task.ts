@@ -0,0 +1,193 @@
+import { ethers } from "ethers";
+import { commitHash } from "@agentecon/sdk";
+import { commitInFlight } from "@agentecon/sdk/commitments";
+import type { Commitment } from "@agentecon/sdk/commitments";
+import { isV2, provider, validatorPool } from "../contracts.js";
+import { commitments } from "../commitments.js";
+import { chainTime, isOnPanel, readRound, scoringStatus } from "../panels.js";
+import type { Round } from "../panels.js";
+import { PreflightError, requireActiveValidator } from "../preflight.js";
+import { getSigner } from "../signers.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+// Validator and task pairs with a commit being sent by this process, so concurrent calls cannot race on one salt
+const committing = new Set<string>();
+
+function iso(ts: number | null): string | null {
+  return ts !== null ? new Date(ts * 1000).toISOString() : null;
+}
+
+/** Read the task's round, failing unless `validator` is on its unfinalized panel */
+async function requireAssignedRound(taskId: number, validator: string, action: string): Promise<Round> {
+  await requireActiveValidator(validator, action);
+  const round = await readRound(taskId);
+  if (!round) throw new PreflightError(`Cannot ${action}: no validator panel has been selected for task ${taskId}`);
+  if (round.finalized) throw new PreflightError(`Cannot ${action}: the review round for task ${taskId} is already finalized`);
+  if (!isOnPanel(round, validator)) throw new PreflightError(`Cannot ${action}: ${validator} is not on the panel for task ${taskId}`);
+  return round;
+}
+
+export async function submitScore(args: { taskId: number; score: number; dryRun?: boolean }) {
+  try {
+    if (!isV2) throw new PreflightError("Direct scoring requires a V2 ValidatorPool; V1 rounds use commit_score / reveal_score");
+    const signer = getSigner();
+    const round = await requireAssignedRound(args.taskId, signer.address, "submit score");
+    if (round.commitReveal) {
+      throw new PreflightError(`Task ${args.taskId} is a ${round.tier} round; use commit_score then reveal_score`);
+    }
+    if ((await scoringStatus(round, signer.address)).scored) {
+      throw new PreflightError(`${signer.address} has already scored task ${args.taskId}`);
+    }
+
+    const result = await sendWrite(validatorPool, "submitScore", [args.taskId, args.score], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `a score of ${args.score} would be submitted for task ${args.taskId}.`);
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId: args.taskId,
+          tier: round.tier,
+          score: args.score,
+          message: `Scored task ${args.taskId} at ${args.score}. Once enough panel scores are in, anyone can call finalize_review.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error submitting score: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function commitScore(args: { taskId: number; score: number; dryRun?: boolean }) {
+  try {
+    const signer = getSigner();
+    const round = await requireAssignedRound(args.taskId, signer.address, "commit score");
+    if (!round.commitReveal) {
+      throw new PreflightError(`Task ${args.taskId} is a ${round.tier} round; use submit_score`);
+    }
+    const now = await chainTime();
+    if (round.commitDeadline !== null && now > round.commitDeadline) {
+      throw new PreflightError(`Commit phase for task ${args.taskId} ended at ${iso(round.commitDeadline)}`);
+    }
+
+    const pool = String(validatorPool.target);
+    const existing = commitments.get(pool, signer.address, args.taskId);
+    if ((await scoringStatus(round, signer.address)).committed) {
+      throw new PreflightError(existing
+        ? `Already committed a score of ${existing.score} for task ${args.taskId}; call reveal_score after ${iso(round.commitDeadline)}`
+        : `Already committed for task ${args.taskId}, but no salt is stored in this server's commitment store; the score cannot be revealed from this server`);
+    }
+
+    // An earlier commit that is still pending could mine under its stored hash, so its salt must be kept
+    const unrevealed = existing && !existing.revealTxHash ? existing : null;
+    if (unrevealed && await commitInFlight(unrevealed, provider)) {
+      throw new PreflightError(`An earlier commit for task ${args.taskId} (${unrevealed.commitTxHash}) is still pending; wait for it to mine before retrying`);
+    }
+    const lock = `${signer.address.toLowerCase()}:${args.taskId}`;
+    if (!args.dryRun && committing.has(lock)) {
+      throw new PreflightError(`A commit for task ${args.taskId} is already being sent`);
+    }
+
+    // Stored before sending so the salt survives even if we never see the receipt; retrying the
+    // same score reuses the stored salt, and a dry run simulates with a throwaway salt and stores nothing
+    let commitment: Commitment | null = null;
+    if (!args.dryRun) {
+      commitment = unrevealed?.score === args.score
+        ? unrevealed
+        : commitments.create(pool, signer.address, args.taskId, args.score, unrevealed);
+    }
+    const hash = commitment?.commitHash ?? commitHash(args.taskId, args.score, ethers.hexlify(ethers.randomBytes(32)));
+
+    if (!args.dryRun) committing.add(lock);
+    let result;
+    try {
+      result = await sendWrite(validatorPool, "commitScore", [args.taskId, hash], {
+        taskId: args.taskId,
+        dryRun: args.dryRun,
+        // Recorded as soon as it is broadcast, so a retry after a lost receipt sees the pending transaction
+        onSent: (txHash) => { if (commitment) commitment = commitments.update(commitment, { commitTxHash: txHash }); },
+      });
+    } finally {
+      if (!args.dryRun) committing.delete(lock);
+    }
+    if (result.dryRun || !commitment) {
+      return dryRunResult(result.simulation, `a score of ${args.score} would be committed for task ${args.taskId}.`);
+    }
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId: args.taskId,
+          commitHash: commitment.commitHash,
+          revealOpensAfter: iso(round.commitDeadline),
+          revealDeadline: iso(round.revealDeadline),
+          message: `Committed a score for task ${args.taskId}. The salt is stored locally; call reveal_score after ${iso(round.commitDeadline)} and before ${iso(round.revealDeadline)}.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error committing score: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function revealScore(args: { taskId: number; dryRun?: boolean }) {
+  try {
+    const signer = getSigner();
+    const round = await requireAssignedRound(args.taskId, signer.address, "reveal score");
+    if (!round.commitReveal) {
+      throw new PreflightError(`Task ${args.taskId} is a ${round.tier} round with no reveal phase`);
+    }
+    const now = await chainTime();
+    if (round.commitDeadline !== null && now <= round.commitDeadline) {
+      throw new PreflightError(`Reveal phase for task ${args.taskId} opens after ${iso(round.commitDeadline)}`);
+    }
+    if (round.revealDeadline !== null && now > round.revealDeadline) {
+      throw new PreflightError(`Reveal phase for task ${args.taskId} ended at ${iso(round.revealDeadline)}`);
+    }
+
+    const status = await scoringStatus(round, signer.address);
+    if (!status.committed) throw new PreflightError(`No committed score for task ${args.taskId}; nothing to reveal`);
+    if (status.revealed) throw new PreflightError(`Score for task ${args.taskId} is already revealed`);
+    const commitment = commitments.get(String(validatorPool.target), signer.address, args.taskId);
+    if (!commitment) {
+      throw new PreflightError(`No stored commitment for task ${args.taskId} in this server's commitment store`);
+    }
+
+    const result = await sendWrite(validatorPool, "revealScore", [args.taskId, commitment.score, commitment.salt], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `the stored score of ${commitment.score} would be revealed for task ${args.taskId}.`);
+    const { receipt } = result;
+    commitments.update(commitment, { revealTxHash: receipt.hash });
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          taskId: args.taskId,
+          score: commitment.score,
+          message: `Revealed a score of ${commitment.score} for task ${args.taskId}.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error revealing score: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
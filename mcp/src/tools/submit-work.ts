@@ -1,11 +1,39 @@
-import { abbCore, getEnvSigner } from "../contracts.js";
+import { abbCore } from "../contracts.js";
+import { hashContent, hasContent, mirrorToApi, storeContent } from "../content.js";
+import type { ContentInput, StoredContent } from "../content.js";
+import { PreflightError, requireBytes32, requireState, requireTask } from "../preflight.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
 
-export async function submitWork(args: { taskId: number; submissionHash: string }) {
+export async function submitWork(args: { taskId: number; submissionHash?: string; dryRun?: boolean } & ContentInput) {
   try {
-    const signer = getEnvSigner();
-    const writable = abbCore.connect(signer);
-    const tx = await (writable as any).submitWork(args.taskId, args.submissionHash);
-    const receipt = await tx.wait();
+    if (args.submissionHash !== undefined && hasContent(args)) {
+      throw new PreflightError("Provide either submissionHash or content, not both");
+    }
+    const task = await requireTask(args.taskId);
+    requireState(task, ["claimed"], "submit work");
+
+    // Raw content is stored and hashed here; the hash-only mode sends submissionHash as given
+    // A dry run only hashes the content; nothing is stored until the real call
+    let stored: StoredContent | null = null;
+    let submissionHash = args.submissionHash;
+    if (submissionHash === undefined) {
+      if (!hasContent(args)) throw new PreflightError("Provide submissionHash, content, document or filePath");
+      if (args.dryRun) {
+        submissionHash = (await hashContent(args)).hash;
+      } else {
+        stored = await storeContent(args, `task-${args.taskId}-submission`);
+        submissionHash = stored.hash;
+      }
+    }
+    requireBytes32(submissionHash, "submissionHash");
+
+    const result = await sendWrite(abbCore, "submitWork", [args.taskId, submissionHash], { taskId: args.taskId, dryRun: args.dryRun });
+    if (result.dryRun) {
+      return dryRunResult(result.simulation, `work would be submitted for task ${args.taskId}.`, { submissionHash });
+    }
+    const { receipt } = result;
+    const mirrored = stored ? await mirrorToApi(`/tasks/${args.taskId}/submission`, stored) : false;
 
     return {
       content: [{
@@ -14,13 +42,15 @@ export async function submitWork(args: { taskId: number; submissionHash: string
           success: true,
           txHash: receipt.hash,
           taskId: args.taskId,
+          submissionHash,
+          ...(stored && { cid: stored.cid, contentBackend: stored.backend, bytes: stored.bytes, storedInApi: mirrored }),
           message: `Work submitted for task ${args.taskId}. Validators will review your submission. If approved (score ≥60), you'll receive the bounty.`,
         }, null, 2),
       }],
     };
   } catch (error: any) {
     return {
-      content: [{ type: "text" as const, text: `Error submitting work: ${error.message}` }],
+      content: [{ type: "text" as const, text: `Error submitting work: ${errorMessage(error)}` }],
       isError: true,
     };
   }
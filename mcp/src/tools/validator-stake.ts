@@ -0,0 +1,181 @@
+import { ethers } from "ethers";
+import { formatValidator, isV2, provider, validatorPool } from "../contracts.js";
+import { chainTime } from "../panels.js";
+import { PreflightError, requireActiveValidator } from "../preflight.js";
+import { getSigner } from "../signers.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+export async function registerValidator(args: { stakeEth: string; isAI: boolean; dryRun?: boolean }) {
+  try {
+    const stake = ethers.parseEther(args.stakeEth);
+    // V1 pools have a single validator type and a no-argument registerValidator()
+    if (!isV2 && args.isAI) throw new PreflightError("AI validators require a V2 ValidatorPool (PROTOCOL_VERSION=v2)");
+
+    const signer = getSigner();
+    const [existing, minStake, paused, balance] = await Promise.all([
+      validatorPool.getValidator(signer.address),
+      validatorPool.MIN_STAKE(),
+      validatorPool.paused(),
+      provider.getBalance(signer.address),
+    ]);
+    if (paused) throw new PreflightError("ValidatorPool is paused; registration is disabled");
+    if (Number(existing.registeredAt) !== 0) {
+      throw new PreflightError(`${signer.address} is already registered as a validator; use add_validator_stake to increase stake`);
+    }
+    if (stake < minStake) {
+      throw new PreflightError(`Stake ${args.stakeEth} ETH is below the ${ethers.formatEther(minStake)} ETH minimum`);
+    }
+    if (balance < stake) {
+      throw new PreflightError(`Signer balance ${ethers.formatEther(balance)} ETH is below the ${args.stakeEth} ETH stake`);
+    }
+
+    const result = await sendWrite(validatorPool, "registerValidator", isV2 ? [args.isAI] : [], { value: stake, dryRun: args.dryRun });
+    if (result.dryRun) {
+      return dryRunResult(result.simulation, `${signer.address} would be registered as ${args.isAI ? "an AI" : "a"} validator with ${args.stakeEth} ETH staked.`);
+    }
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          validator: formatValidator(await validatorPool.getValidator(signer.address)),
+          message: `Registered ${signer.address} as ${args.isAI ? "an AI" : "a"} validator with ${args.stakeEth} ETH staked.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error registering validator: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function addValidatorStake(args: { amountEth: string; dryRun?: boolean }) {
+  try {
+    const amount = ethers.parseEther(args.amountEth);
+    if (amount === 0n) throw new PreflightError("amountEth must be greater than zero");
+
+    const signer = getSigner();
+    await requireActiveValidator(signer.address, "add stake");
+    const balance = await provider.getBalance(signer.address);
+    if (balance < amount) {
+      throw new PreflightError(`Signer balance ${ethers.formatEther(balance)} ETH is below ${args.amountEth} ETH`);
+    }
+
+    const result = await sendWrite(validatorPool, "addStake", [], { value: amount, dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `${args.amountEth} ETH would be added to your stake.`);
+    const { receipt } = result;
+    const v = await validatorPool.getValidator(signer.address);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          addedEth: args.amountEth,
+          totalStakeEth: ethers.formatEther(v.stakeAmount),
+          message: `Added ${args.amountEth} ETH; total stake is now ${ethers.formatEther(v.stakeAmount)} ETH.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error adding stake: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function initiateUnstake(args: { amountEth: string; dryRun?: boolean }) {
+  try {
+    const amount = ethers.parseEther(args.amountEth);
+    if (amount === 0n) throw new PreflightError("amountEth must be greater than zero");
+
+    const signer = getSigner();
+    const v = await requireActiveValidator(signer.address, "initiate unstake");
+    if (amount > v.stakeAmount) {
+      throw new PreflightError(`Cannot unstake ${args.amountEth} ETH: only ${ethers.formatEther(v.stakeAmount)} ETH is staked`);
+    }
+    // A second request would silently replace the first and restart its cooldown
+    if (v.pendingUnstake > 0n) {
+      throw new PreflightError(`An unstake of ${ethers.formatEther(v.pendingUnstake)} ETH is already pending; complete it first`);
+    }
+    const [minStake, cooldown] = await Promise.all([validatorPool.MIN_STAKE(), validatorPool.UNSTAKE_COOLDOWN()]);
+
+    const result = await sendWrite(validatorPool, "initiateUnstake", [amount], { dryRun: args.dryRun });
+    if (result.dryRun) {
+      return dryRunResult(result.simulation, `an unstake of ${args.amountEth} ETH would be requested, available after a ${Number(cooldown)}s cooldown.`
+        + (v.stakeAmount - amount < minStake ? " Remaining stake would be below the minimum, deactivating the validator." : ""));
+    }
+    const { receipt } = result;
+
+    const block = await provider.getBlock(receipt.blockNumber);
+    const availableAt = (block?.timestamp ?? Math.floor(Date.now() / 1000)) + Number(cooldown);
+    const deactivated = v.stakeAmount - amount < minStake;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          amountEth: args.amountEth,
+          availableAt,
+          availableAtISO: new Date(availableAt * 1000).toISOString(),
+          deactivated,
+          message: `Unstake of ${args.amountEth} ETH requested; call complete_unstake after ${new Date(availableAt * 1000).toISOString()}.`
+            + (deactivated ? " Remaining stake is below the minimum, so the validator was deactivated and will not be selected for panels." : ""),
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error initiating unstake: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function completeUnstake(args: { dryRun?: boolean } = {}) {
+  try {
+    const signer = getSigner();
+    const [v, cooldown, now] = await Promise.all([
+      validatorPool.getValidator(signer.address),
+      validatorPool.UNSTAKE_COOLDOWN(),
+      chainTime(),
+    ]);
+    if (v.pendingUnstake === 0n) throw new PreflightError(`Nothing to unstake: ${signer.address} has no pending unstake`);
+    const availableAt = Number(v.unstakeRequestTime) + Number(cooldown);
+    if (now < availableAt) {
+      throw new PreflightError(`Unstake cooldown ends at ${new Date(availableAt * 1000).toISOString()} (${availableAt - now}s from now)`);
+    }
+
+    const result = await sendWrite(validatorPool, "completeUnstake", [], { dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `${ethers.formatEther(v.pendingUnstake)} ETH would be unstaked to ${signer.address}.`);
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          amountEth: ethers.formatEther(v.pendingUnstake),
+          to: signer.address,
+          message: `Unstaked ${ethers.formatEther(v.pendingUnstake)} ETH to ${signer.address}.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error completing unstake: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
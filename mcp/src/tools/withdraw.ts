@@ -0,0 +1,70 @@
+import { ethers } from "ethers";
+import { bountyEscrow } from "../contracts.js";
+import { PreflightError } from "../preflight.js";
+import { getSigner } from "../signers.js";
+import { dryRunResult, sendWrite } from "../tx.js";
+import { errorMessage } from "../revert.js";
+
+export async function withdrawETH(args: { dryRun?: boolean } = {}) {
+  try {
+    const signer = getSigner();
+    const claimable: bigint = await bountyEscrow.claimableETH(signer.address);
+    if (claimable === 0n) throw new PreflightError(`Nothing to withdraw: ${signer.address} has no claimable ETH`);
+
+    const result = await sendWrite(bountyEscrow, "withdrawETH", [], { dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `${ethers.formatEther(claimable)} ETH would be withdrawn to ${signer.address}.`);
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          amountEth: ethers.formatEther(claimable),
+          to: signer.address,
+          message: `Withdrew ${ethers.formatEther(claimable)} ETH from escrow.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error withdrawing ETH: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function withdrawToken(args: { token: string; dryRun?: boolean }) {
+  try {
+    if (!ethers.isAddress(args.token) || args.token === ethers.ZeroAddress) {
+      throw new PreflightError("token must be a non-zero ERC-20 address");
+    }
+    const signer = getSigner();
+    const claimable: bigint = await bountyEscrow.claimableToken(signer.address, args.token);
+    if (claimable === 0n) throw new PreflightError(`Nothing to withdraw: ${signer.address} has no claimable balance of ${args.token}`);
+
+    const result = await sendWrite(bountyEscrow, "withdrawToken", [args.token], { dryRun: args.dryRun });
+    if (result.dryRun) return dryRunResult(result.simulation, `${claimable.toString()} base units of ${args.token} would be withdrawn to ${signer.address}.`);
+    const { receipt } = result;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          txHash: receipt.hash,
+          token: args.token,
+          amountRaw: claimable.toString(),
+          to: signer.address,
+          message: `Withdrew ${claimable.toString()} base units of ${args.token} from escrow.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error withdrawing token: ${errorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
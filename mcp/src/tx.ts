@@ -0,0 +1,117 @@
+import { ethers } from "ethers";
+import type { BaseContract, TransactionReceipt } from "ethers";
+import { recordSpend, requireDailyBudget, reserveDailySpend } from "./policy.js";
+import { explainRevert } from "./revert.js";
+import { getSigner } from "./signers.js";
+
+/**
+ * Every write tool sends through `sendWrite`: the call is first simulated
+ * with eth_call and estimateGas from the signer, so a revert comes back as a
+ * decoded custom error with a hint (see revert.ts) instead of a failed
+ * transaction, and checked against the daily budget. With `dryRun` the tool
+ * stops there and returns the simulation.
+ */
+
+export interface Simulation {
+  from: string;
+  to: string;
+  method: string;
+  valueEth: string;
+  gasEstimate: string;
+  estimatedFeeEth: string;
+  /** Decoded return value of the call, stringified */
+  returnValue: unknown;
+}
+
+export type WriteResult =
+  | { dryRun: true; simulation: Simulation }
+  | { dryRun: false; simulation: Simulation; receipt: TransactionReceipt };
+
+export class SimulationError extends Error {
+  constructor(method: string, reason: string) {
+    super(`${method} would revert: ${reason}`);
+    this.name = "SimulationError";
+  }
+}
+
+function fallbackReason(err: any): string {
+  return err?.shortMessage ?? err?.reason ?? err?.message ?? String(err);
+}
+
+function stringify(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(stringify);
+  return value;
+}
+
+export async function sendWrite(
+  contract: BaseContract,
+  method: string,
+  args: unknown[],
+  opts: { value?: bigint; dryRun?: boolean; taskId?: number; onSent?: (txHash: string) => void } = {},
+): Promise<WriteResult> {
+  const signer = getSigner();
+  const value = opts.value ?? 0n;
+  const fn = contract.connect(signer).getFunction(method);
+  const overrides = value > 0n ? { value } : {};
+  const context = { contract, taskId: opts.taskId, account: signer.address };
+
+  let returnValue: unknown;
+  let gas: bigint;
+  try {
+    returnValue = await fn.staticCall(...args, overrides);
+    gas = await fn.estimateGas(...args, overrides);
+  } catch (err) {
+    throw new SimulationError(method, (await explainRevert(err, context)) ?? fallbackReason(err));
+  }
+  const feeData = await signer.provider!.getFeeData();
+  const fee = gas * (feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n);
+
+  const simulation: Simulation = {
+    from: signer.address,
+    to: String(contract.target),
+    method,
+    valueEth: ethers.formatEther(value),
+    gasEstimate: gas.toString(),
+    estimatedFeeEth: ethers.formatEther(fee),
+    returnValue: stringify(returnValue),
+  };
+
+  if (opts.dryRun) {
+    requireDailyBudget(signer.address, value + fee);
+    return { dryRun: true, simulation };
+  }
+
+  const release = reserveDailySpend(signer.address, value + fee);
+  let receipt: TransactionReceipt | null;
+  try {
+    const tx = await fn.send(...args, overrides);
+    opts.onSent?.(tx.hash);
+    receipt = await tx.wait();
+  } catch (err: any) {
+    // A transaction that reverted on chain still paid for its gas
+    if (err?.receipt) recordSpend(signer.address, err.receipt.fee, err.receipt.hash);
+    throw new Error(`${method} failed: ${(await explainRevert(err, context)) ?? fallbackReason(err)}`);
+  } finally {
+    release();
+  }
+  if (!receipt) throw new Error(`${method} transaction was dropped or replaced`);
+  recordSpend(signer.address, value + receipt.fee, receipt.hash);
+  return { dryRun: false, simulation, receipt };
+}
+
+/** Tool result for a dry run: the simulation plus what would have happened */
+export function dryRunResult(simulation: Simulation, message: string, extra: Record<string, unknown> = {}) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        dryRun: true,
+        ...extra,
+        simulation,
+        message: `Dry run, nothing was sent: ${message}`,
+      }, null, 2),
+    }],
+  };
+}
@@ -0,0 +1,96 @@
+import { createHash } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const KEY = "test-api-key";
+const dir = mkdtempSync(join(tmpdir(), "abb-mcp-http-"));
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  const tenantsPath = join(dir, "tenants.json");
+  writeFileSync(tenantsPath, JSON.stringify({
+    tenants: [{
+      id: "agent",
+      apiKeySha256: createHash("sha256").update(KEY).digest("hex"),
+      signer: { type: "remote", url: "http://127.0.0.1:1", address: "0x00000000000000000000000000000000000000aa" },
+    }],
+  }));
+  vi.stubEnv("MCP_TRANSPORT", "http");
+  vi.stubEnv("MCP_HTTP_PORT", "0");
+  vi.stubEnv("MCP_TENANTS_PATH", tenantsPath);
+  vi.stubEnv("MCP_MAX_SESSIONS_PER_TENANT", "2");
+  vi.stubEnv("MCP_SESSION_IDLE_SECONDS", "1");
+
+  const { startHttpServer } = await import("../src/http.js");
+  server = startHttpServer();
+  await new Promise((resolve) => server.once("listening", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function post(body: object, sessionId?: string): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      "X-API-Key": KEY,
+      ...(sessionId ? { "mcp-session-id": sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function initialize(): Promise<string> {
+  const res = await post({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "0" } },
+  });
+  await res.text();
+  expect(res.status).toBe(200);
+  return res.headers.get("mcp-session-id")!;
+}
+
+async function ping(sessionId: string): Promise<number> {
+  const res = await post({ jsonrpc: "2.0", id: 2, method: "ping" }, sessionId);
+  await res.text();
+  return res.status;
+}
+
+describe("HTTP sessions", () => {
+  it("evicts a tenant's least recently used session past its cap", async () => {
+    const first = await initialize();
+    const second = await initialize();
+    expect(await ping(first)).toBe(200);
+
+    const third = await initialize();
+    expect(await ping(second)).toBe(404);
+    expect(await ping(first)).toBe(200);
+    expect(await ping(third)).toBe(200);
+  });
+
+  it("closes sessions that stay idle", async () => {
+    const session = await initialize();
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await initialize();
+    expect(await ping(session)).toBe(404);
+  });
+
+  it("never signs with the operator key outside a session", async () => {
+    vi.stubEnv("SIGNER_PRIVATE_KEY", "0x" + "11".repeat(32));
+    const { getSigner } = await import("../src/signers.js");
+    expect(() => getSigner()).toThrow(/No session signer/);
+  });
+});
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// A ValidatorPool with its logs in memory; queryFilter records every range it is asked for
+const chain = vi.hoisted(() => {
+  interface Log { eventName: string; blockNumber: number; index: number; args: Record<string, unknown> }
+  interface Filter { eventName: string; taskId?: number; validator?: string }
+
+  const state = { head: 0, logs: [] as Log[], queries: [] as [string, number, number][], selected: new Set<number>() };
+  const filter = (eventName: string) => (taskId?: number, validator?: string): Filter => ({ eventName, taskId, validator });
+
+  const validatorPool = {
+    target: "0x0000000000000000000000000000000000000001",
+    filters: {
+      PanelSelected: filter("PanelSelected"),
+      MicroPanelSelected: filter("MicroPanelSelected"),
+      ScoreCommitted: filter("ScoreCommitted"),
+      ScoreRevealed: filter("ScoreRevealed"),
+      DirectScoreSubmitted: filter("DirectScoreSubmitted"),
+    },
+    async queryFilter(f: Filter, from: number, to: number) {
+      state.queries.push([f.eventName, from, to]);
+      return state.logs.filter((l) => l.eventName === f.eventName
+        && l.blockNumber >= from && l.blockNumber <= to
+        && (f.taskId === undefined || l.args.taskId === f.taskId)
+        && (f.validator === undefined || l.args.validator === f.validator));
+    },
+    isPanelSelected: async (taskId: number) => state.selected.has(taskId),
+    isRoundFinalized: async () => false,
+    taskVRFRequest: async () => 7n,
+    pendingRequests: async () => ({ commitDuration: 3600n, revealDuration: 1800n }),
+  };
+  const provider = {
+    getBlockNumber: async () => state.head,
+    getBlock: async (n: number) => ({ timestamp: 1_000_000 + n }),
+  };
+  return { state, validatorPool, provider };
+});
+
+vi.mock("../src/contracts.js", async () => {
+  const { tierToString } = await import("@agentecon/sdk");
+  return { isV2: true, provider: chain.provider, validatorPool: chain.validatorPool, tierToString };
+});
+
+const { assignedRounds, readRound, scoringStatus } = await import("../src/panels.js");
+
+const ME = "0x00000000000000000000000000000000000000aa";
+const OTHER = "0x00000000000000000000000000000000000000bb";
+
+function selectPanel(taskId: number, block: number, validators: string[], tier = 2) {
+  chain.state.logs.push({ eventName: "PanelSelected", blockNumber: block, index: 0, args: { taskId, tier, validators } });
+  chain.state.selected.add(taskId);
+}
+
+beforeEach(() => {
+  chain.state.head = 100_000;
+  chain.state.logs = [];
+  chain.state.queries = [];
+  chain.state.selected.clear();
+});
+
+describe("readRound", () => {
+  it("does not scan logs for a task without a selected panel", async () => {
+    expect(await readRound(1)).toBeNull();
+    expect(chain.state.queries).toEqual([]);
+  });
+
+  it("walks back from the head only until the selection is found", async () => {
+    selectPanel(1, 85_000, [ME, OTHER]);
+    const round = await readRound(1);
+
+    expect(round).toMatchObject({ taskId: 1, tier: "premium", commitReveal: true, selectionBlock: 85_000, validators: [ME, OTHER] });
+    expect(round!.commitDeadline).toBe(1_085_000 + 3600);
+    expect(round!.revealDeadline).toBe(1_085_000 + 3600 + 1800);
+    const lowest = Math.min(...chain.state.queries.map(([, from]) => from));
+    expect(lowest).toBeGreaterThan(70_000);
+  });
+});
+
+describe("scoringStatus", () => {
+  it("reads scoring events from the selection block on", async () => {
+    selectPanel(1, 85_000, [ME]);
+    chain.state.logs.push({ eventName: "ScoreCommitted", blockNumber: 80_000, index: 0, args: { taskId: 1, validator: ME } });
+    const round = (await readRound(1))!;
+    chain.state.queries = [];
+
+    expect(await scoringStatus(round, ME)).toEqual({ committed: false, revealed: false, scored: false });
+    expect(Math.min(...chain.state.queries.map(([, from]) => from))).toBe(85_000);
+
+    chain.state.logs.push({ eventName: "ScoreCommitted", blockNumber: 86_000, index: 0, args: { taskId: 1, validator: ME } });
+    expect((await scoringStatus(round, ME)).committed).toBe(true);
+  });
+});
+
+describe("assignedRounds", () => {
+  it("scans the full history once, then only blocks near the head", async () => {
+    selectPanel(1, 5_000, [ME]);
+    selectPanel(2, 6_000, [OTHER]);
+    expect((await assignedRounds(ME)).map((r) => r.taskId)).toEqual([1]);
+
+    chain.state.queries = [];
+    chain.state.head = 100_100;
+    selectPanel(3, 100_050, [OTHER, ME]);
+    expect((await assignedRounds(ME)).map((r) => r.taskId)).toEqual([1, 3]);
+    const lowest = Math.min(...chain.state.queries.map(([, from]) => from));
+    expect(lowest).toBeGreaterThan(99_000);
+  });
+});
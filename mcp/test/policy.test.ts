@@ -0,0 +1,101 @@
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { RawTask } from "@agentecon/sdk";
+import { ethers } from "ethers";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { config } from "../src/config.js";
+import {
+  PolicyError,
+  dailyUsage,
+  recordSpend,
+  requireBountyWithinPolicy,
+  requireClaimWindow,
+  requireDailyBudget,
+  reserveDailySpend,
+} from "../src/policy.js";
+
+const SIGNER = "0x00000000000000000000000000000000000000Aa";
+const OTHER = "0x00000000000000000000000000000000000000bB";
+const eth = (value: string) => ethers.parseEther(value);
+const now = () => Math.floor(Date.now() / 1000);
+
+function ledger(): { signer: string; at: number; wei: string; txHash: string }[] {
+  return JSON.parse(readFileSync(config.policy.ledgerPath, "utf8"));
+}
+
+beforeEach(() => {
+  rmSync(config.policy.ledgerPath, { force: true });
+  mkdirSync(dirname(config.policy.ledgerPath), { recursive: true });
+});
+afterAll(() => rmSync(dirname(config.policy.ledgerPath), { recursive: true, force: true }));
+
+describe("daily budget ledger", () => {
+  it("starts empty without a ledger file", () => {
+    expect(dailyUsage(SIGNER)).toEqual({ spentEth: "0.0", budgetEth: "1.0" });
+    expect(() => requireDailyBudget(SIGNER, eth("1"))).not.toThrow();
+  });
+
+  it("records spend per signer, case-insensitively", () => {
+    recordSpend(SIGNER, eth("0.4"), "0x01");
+    recordSpend(SIGNER.toLowerCase(), eth("0.35"), "0x02");
+    expect(dailyUsage(SIGNER).spentEth).toBe("0.75");
+    expect(dailyUsage(OTHER).spentEth).toBe("0.0");
+    expect(ledger().map((e) => e.signer)).toEqual([SIGNER.toLowerCase(), SIGNER.toLowerCase()]);
+  });
+
+  it("ignores zero spend", () => {
+    recordSpend(SIGNER, 0n, "0x01");
+    expect(() => ledger()).toThrow();
+  });
+
+  it("refuses spend past the budget, at the boundary exactly", () => {
+    recordSpend(SIGNER, eth("0.75"), "0x01");
+    expect(() => requireDailyBudget(SIGNER, eth("0.25"))).not.toThrow();
+    expect(() => requireDailyBudget(SIGNER, eth("0.250000000000000001"))).toThrow(PolicyError);
+    expect(() => requireDailyBudget(OTHER, eth("1"))).not.toThrow();
+  });
+
+  it("holds reservations against the budget until released", () => {
+    const release = reserveDailySpend(SIGNER, eth("0.6"));
+    expect(dailyUsage(SIGNER).spentEth).toBe("0.6");
+    expect(() => reserveDailySpend(SIGNER, eth("0.5"))).toThrow(/already spent or pending/);
+
+    // The transaction mines: its spend moves from the reservation to the ledger
+    recordSpend(SIGNER, eth("0.6"), "0x01");
+    release();
+    expect(dailyUsage(SIGNER).spentEth).toBe("0.6");
+    expect(() => reserveDailySpend(SIGNER, eth("0.5"))).toThrow(PolicyError);
+    reserveDailySpend(SIGNER, eth("0.4"))();
+    expect(dailyUsage(SIGNER).spentEth).toBe("0.6");
+  });
+
+  it("only counts the last 24 hours and prunes older entries on write", () => {
+    const day = 24 * 60 * 60;
+    writeFileSync(config.policy.ledgerPath, JSON.stringify([
+      { signer: SIGNER.toLowerCase(), at: now() - day - 60, wei: eth("0.9").toString(), txHash: "0xold" },
+      { signer: SIGNER.toLowerCase(), at: now() - day + 600, wei: eth("0.5").toString(), txHash: "0xrecent" },
+    ]));
+    expect(dailyUsage(SIGNER).spentEth).toBe("0.5");
+
+    recordSpend(SIGNER, eth("0.1"), "0xnew");
+    expect(ledger().map((e) => e.txHash)).toEqual(["0xrecent", "0xnew"]);
+    expect(dailyUsage(SIGNER).spentEth).toBe("0.6");
+  });
+
+  it("fails loudly on a corrupt ledger", () => {
+    writeFileSync(config.policy.ledgerPath, "{not json");
+    expect(() => dailyUsage(SIGNER)).toThrow(/Cannot read spend ledger/);
+  });
+});
+
+describe("per-task limits", () => {
+  it("caps the bounty", () => {
+    expect(() => requireBountyWithinPolicy(eth("0.5"))).not.toThrow();
+    expect(() => requireBountyWithinPolicy(eth("0.51"))).toThrow(/exceeds the 0.5 ETH per-task limit/);
+  });
+
+  it("requires the minimum working time before the deadline", () => {
+    expect(() => requireClaimWindow({ id: 1n, deadline: BigInt(now() + 3 * 3600) } as RawTask)).not.toThrow();
+    expect(() => requireClaimWindow({ id: 1n, deadline: BigInt(now() + 3600) } as RawTask)).toThrow(/policy requires at least 2h/);
+  });
+});
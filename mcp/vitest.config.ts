@@ -0,0 +1,16 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Policy limits are read once at import; tests run against this configuration
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    env: {
+      POLICY_DAILY_BUDGET_ETH: "1",
+      POLICY_MAX_BOUNTY_ETH: "0.5",
+      POLICY_MIN_CLAIM_HOURS: "2",
+      POLICY_LEDGER_PATH: join(tmpdir(), `abb-mcp-test-${process.pid}`, "spend-ledger.json"),
+    },
+  },
+});
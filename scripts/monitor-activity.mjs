@@ -3,6 +3,9 @@
  * AgentEcon On-Chain Activity Monitor
  * Checks for new agents, tasks, completions, and unknown wallets
  * Run via cron every 30 min
+ *
+ * For real-time activity, subscribe to the API's `GET /stream` (SSE) or
+ * `ws://…/stream` feed instead of polling.
  */
 import { ethers } from "ethers";
 import { readFileSync, writeFileSync, existsSync } from "fs";
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// dist/cjs is CommonJS inside a "type": "module" package; mark it so Node loads it with require
+import { writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+writeFileSync(join(dirname(fileURLToPath(import.meta.url)), "../dist/cjs/package.json"), '{ "type": "commonjs" }\n');
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Regenerates src/abis/*.ts from Foundry build artifacts, one `as const` ABI
+ * per contract in the repo's src/ so ethers and viem clients get typed
+ * function signatures.
+ *
+ *   forge build && npm run generate:abis            # reads ../../out
+ *   node scripts/generate-abis.mjs --out <dir>      # another artifacts dir
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const here = dirname(fileURLToPath(import.meta.url));
+const outFlag = process.argv.indexOf("--out");
+const artifacts = resolve(outFlag > -1 ? process.argv[outFlag + 1] : join(here, "../../../out"));
+const target = join(here, "../src/abis");
+
+const CONTRACTS = [
+  "ABBCore",
+  "ABBCoreV2",
+  "AECONToken",
+  "AgentIdentity8004",
+  "AgentRegistry",
+  "BountyEscrow",
+  "ReputationRegistry8004",
+  "TaskRegistry",
+  "TokenVesting",
+  "ValidatorPool",
+  "ValidatorPoolV2",
+  "ValidatorStaking",
+];
+
+/** ABBCoreV2 -> abbCoreV2Abi, AECONToken -> aeconTokenAbi */
+function exportName(contract) {
+  const lead = contract.match(/^[A-Z]+(?=[A-Z][a-z]|$)|^[A-Z]/)[0];
+  return lead.toLowerCase() + contract.slice(lead.length) + "Abi";
+}
+
+const index = [];
+for (const contract of CONTRACTS) {
+  const { abi } = JSON.parse(readFileSync(join(artifacts, `${contract}.sol`, `${contract}.json`), "utf8"));
+  const name = exportName(contract);
+  writeFileSync(
+    join(target, `${contract}.ts`),
+    `// Generated by scripts/generate-abis.mjs from src/${contract}.sol. Do not edit.\n`
+      + `export const ${name} = ${JSON.stringify(abi, null, 2)} as const;\n`,
+  );
+  index.push(`export { ${name} } from "./${contract}.js";`);
+}
+writeFileSync(join(target, "index.ts"), index.join("\n") + "\n");
+console.log(`Wrote ${CONTRACTS.length} ABIs to ${target}`);
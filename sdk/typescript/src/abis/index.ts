@@ -0,0 +1,12 @@
+export { abbCoreAbi } from "./ABBCore.js";
+export { abbCoreV2Abi } from "./ABBCoreV2.js";
+export { aeconTokenAbi } from "./AECONToken.js";
+export { agentIdentity8004Abi } from "./AgentIdentity8004.js";
+export { agentRegistryAbi } from "./AgentRegistry.js";
+export { bountyEscrowAbi } from "./BountyEscrow.js";
+export { reputationRegistry8004Abi } from "./ReputationRegistry8004.js";
+export { taskRegistryAbi } from "./TaskRegistry.js";
+export { tokenVestingAbi } from "./TokenVesting.js";
+export { validatorPoolAbi } from "./ValidatorPool.js";
+export { validatorPoolV2Abi } from "./ValidatorPoolV2.js";
+export { validatorStakingAbi } from "./ValidatorStaking.js";
@@ -0,0 +1,122 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { hexlify, randomBytes } from "ethers";
+import { commitHash } from "./hashes.js";
+
+/**
+ * Commit-reveal salts for Premium (and V1) review rounds, kept in a local
+ * JSON file until the reveal so the salt never has to be typed or passed
+ * around. Used by the MCP server and the abb CLI; Node only, so it is
+ * exported from `@agentecon/sdk/commitments` rather than the package root.
+ *
+ * Entries are keyed by pool, validator and task and are written before the
+ * commit transaction is sent, so a crash cannot lose a salt that made it on
+ * chain. An unrevealed entry is only replaced when the caller passes it as
+ * `replaces`, after checking its commit can no longer mine (`commitInFlight`).
+ * The file holds secrets and is written owner-only.
+ */
+
+export interface Commitment {
+  pool: string;
+  validator: string;
+  taskId: number;
+  score: number;
+  salt: string;
+  commitHash: string;
+  createdAt: number;
+  commitTxHash: string | null;
+  revealTxHash: string | null;
+}
+
+type CommitmentFile = Record<string, Commitment>;
+
+export class CommitmentStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommitmentStoreError";
+  }
+}
+
+function key(pool: string, validator: string, taskId: number): string {
+  return `${pool.toLowerCase()}:${validator.toLowerCase()}:${taskId}`;
+}
+
+export class CommitmentStore {
+  constructor(readonly path: string) {}
+
+  private load(): CommitmentFile {
+    try {
+      return JSON.parse(readFileSync(this.path, "utf8")) as CommitmentFile;
+    } catch (err: any) {
+      if (err.code === "ENOENT") return {};
+      throw new CommitmentStoreError(`Cannot read commitment store ${this.path}: ${err.message}`);
+    }
+  }
+
+  private save(file: CommitmentFile): void {
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    writeFileSync(`${this.path}.tmp`, JSON.stringify(file, null, 2), { mode: 0o600 });
+    renameSync(`${this.path}.tmp`, this.path);
+  }
+
+  get(pool: string, validator: string, taskId: number): Commitment | null {
+    return this.load()[key(pool, validator, taskId)] ?? null;
+  }
+
+  /**
+   * Generate a salt for `score` and persist it before anything is sent on
+   * chain. Refuses to overwrite a stored, unrevealed commitment other than
+   * `replaces`.
+   */
+  create(pool: string, validator: string, taskId: number, score: number, replaces: Commitment | null = null): Commitment {
+    const file = this.load();
+    const stored = file[key(pool, validator, taskId)];
+    if (stored && !stored.revealTxHash && stored.salt !== replaces?.salt) {
+      throw new CommitmentStoreError(`A commitment for task ${taskId} is already stored; refusing to overwrite its salt`);
+    }
+
+    const salt = hexlify(randomBytes(32));
+    const commitment: Commitment = {
+      pool,
+      validator,
+      taskId,
+      score,
+      salt,
+      commitHash: commitHash(taskId, score, salt),
+      createdAt: Math.floor(Date.now() / 1000),
+      commitTxHash: null,
+      revealTxHash: null,
+    };
+    file[key(pool, validator, taskId)] = commitment;
+    this.save(file);
+    return commitment;
+  }
+
+  update(c: Commitment, patch: Partial<Pick<Commitment, "commitTxHash" | "revealTxHash">>): Commitment {
+    const file = this.load();
+    const updated = { ...c, ...patch };
+    file[key(c.pool, c.validator, c.taskId)] = updated;
+    this.save(file);
+    return updated;
+  }
+
+  /** Forget a commitment once its reveal is on chain */
+  remove(c: Commitment): void {
+    const file = this.load();
+    delete file[key(c.pool, c.validator, c.taskId)];
+    this.save(file);
+  }
+}
+
+/** The lookups `commitInFlight` needs; any ethers Provider has them */
+export interface TransactionLookup {
+  getTransaction(hash: string): Promise<unknown>;
+  getTransactionReceipt(hash: string): Promise<unknown>;
+}
+
+/** Whether the commitment's commit transaction was broadcast and has neither mined nor dropped */
+export async function commitInFlight(c: Commitment, provider: TransactionLookup): Promise<boolean> {
+  if (!c.commitTxHash) return false;
+  if (await provider.getTransactionReceipt(c.commitTxHash)) return false;
+  return (await provider.getTransaction(c.commitTxHash)) !== null;
+}
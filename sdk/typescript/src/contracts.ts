@@ -0,0 +1,166 @@
+import { BaseContract } from "ethers";
+import type {
+  AddressLike,
+  BaseContractMethod,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+} from "ethers";
+import {
+  abbCoreAbi,
+  abbCoreV2Abi,
+  aeconTokenAbi,
+  agentIdentity8004Abi,
+  agentRegistryAbi,
+  bountyEscrowAbi,
+  reputationRegistry8004Abi,
+  taskRegistryAbi,
+  tokenVestingAbi,
+  validatorPoolAbi,
+  validatorPoolV2Abi,
+  validatorStakingAbi,
+} from "./abis/index.js";
+import type { ContractAddresses } from "./deployments.js";
+import type { ProtocolVersion } from "./models.js";
+
+/**
+ * ethers contracts typed from the generated `as const` ABIs: every function
+ * in the ABI becomes a method with typed arguments and result, so a renamed
+ * function or a changed struct shows up as a compile error in the API, MCP
+ * server and tools instead of a runtime `undefined`.
+ */
+
+interface AbiParameter {
+  readonly type: string;
+  readonly name?: string;
+  readonly components?: readonly AbiParameter[];
+}
+
+interface AbiFunction {
+  readonly type: "function";
+  readonly name: string;
+  readonly inputs: readonly AbiParameter[];
+  readonly outputs: readonly AbiParameter[];
+  readonly stateMutability: "pure" | "view" | "nonpayable" | "payable";
+}
+
+export type Abi = readonly { readonly type: string }[];
+
+// Solidity type -> what ethers accepts as an argument
+type InputType<T extends string, C> =
+  T extends `${infer Inner}[${string}]` ? readonly InputType<Inner, C>[]
+  : T extends `uint${string}` | `int${string}` ? BigNumberish
+  : T extends "bool" ? boolean
+  : T extends "address" ? AddressLike
+  : T extends "string" ? string
+  : T extends `bytes${string}` ? BytesLike
+  : T extends "tuple" ? (C extends readonly AbiParameter[] ? { [P in C[number] as P["name"] & string]: InputType<P["type"], P["components"]> } : never)
+  : unknown;
+
+// Solidity type -> what ethers decodes it to
+type OutputType<T extends string, C> =
+  T extends `${infer Inner}[${string}]` ? OutputType<Inner, C>[]
+  : T extends `uint${string}` | `int${string}` ? bigint
+  : T extends "bool" ? boolean
+  : T extends "address" | "string" | `bytes${string}` ? string
+  : T extends "tuple" ? (C extends readonly AbiParameter[] ? { [P in C[number] as P["name"] & string]: OutputType<P["type"], P["components"]> } : never)
+  : unknown;
+
+type Inputs<P extends readonly AbiParameter[]> = {
+  -readonly [I in keyof P]: P[I] extends AbiParameter ? InputType<P[I]["type"], P[I]["components"]> : never;
+};
+
+// ethers unwraps single return values; several come back as a Result, indexable by position and name
+type Output<P extends readonly AbiParameter[]> =
+  P extends readonly [] ? void
+  : P extends readonly [infer Only extends AbiParameter] ? OutputType<Only["type"], Only["components"]>
+  : { -readonly [I in keyof P]: P[I] extends AbiParameter ? OutputType<P[I]["type"], P[I]["components"]> : never }
+    & { [Q in P[number] as Q["name"] & string]: OutputType<Q["type"], Q["components"]> };
+
+type Functions<TAbi extends Abi> = Extract<TAbi[number], AbiFunction>;
+
+type Method<F extends AbiFunction> = BaseContractMethod<
+  Inputs<F["inputs"]>,
+  Output<F["outputs"]>,
+  F["stateMutability"] extends "view" | "pure" ? Output<F["outputs"]> : ContractTransactionResponse
+>;
+
+export type TypedContract<TAbi extends Abi> =
+  { [F in Functions<TAbi> as F["name"]]: Method<F> }
+  & { connect(runner: ContractRunner | null): TypedContract<TAbi> }
+  & BaseContract;
+
+export function connectContract<TAbi extends Abi>(address: string, abi: TAbi, runner?: ContractRunner | null): TypedContract<TAbi> {
+  return new BaseContract(address, abi as any, runner) as TypedContract<TAbi>;
+}
+
+export type ABBCoreContract = TypedContract<typeof abbCoreV2Abi>;
+export type TaskRegistryContract = TypedContract<typeof taskRegistryAbi>;
+export type AgentRegistryContract = TypedContract<typeof agentRegistryAbi>;
+export type ValidatorPoolContract = TypedContract<typeof validatorPoolV2Abi>;
+export type BountyEscrowContract = TypedContract<typeof bountyEscrowAbi>;
+export type AgentIdentityContract = TypedContract<typeof agentIdentity8004Abi>;
+export type ReputationRegistryContract = TypedContract<typeof reputationRegistry8004Abi>;
+export type AECONTokenContract = TypedContract<typeof aeconTokenAbi>;
+export type TokenVestingContract = TypedContract<typeof tokenVestingAbi>;
+export type ValidatorStakingContract = TypedContract<typeof validatorStakingAbi>;
+
+// ABIs that differ between protocol versions
+const VERSIONED_ABIS = {
+  v1: { abbCore: abbCoreAbi, validatorPool: validatorPoolAbi },
+  v2: { abbCore: abbCoreV2Abi, validatorPool: validatorPoolV2Abi },
+};
+
+/**
+ * The protocol's contracts on one network. ABBCore and ValidatorPool are
+ * typed as V2, a superset of V1 apart from `registerValidator(bool isAI)`;
+ * check `version` before calling V2-only functions (tiers, AI validators).
+ * ERC-8004 and token contracts are present only when their address is set.
+ */
+export interface ProtocolContracts {
+  version: ProtocolVersion;
+  abbCore: ABBCoreContract;
+  taskRegistry: TaskRegistryContract;
+  agentRegistry: AgentRegistryContract;
+  validatorPool: ValidatorPoolContract;
+  bountyEscrow: BountyEscrowContract;
+  agentIdentity?: AgentIdentityContract;
+  reputationRegistry?: ReputationRegistryContract;
+  aeconToken?: AECONTokenContract;
+  tokenVesting?: TokenVestingContract;
+  validatorStaking?: ValidatorStakingContract;
+}
+
+export function createContracts(
+  addresses: ContractAddresses,
+  runner: ContractRunner | null,
+  version: ProtocolVersion = "v2",
+): ProtocolContracts {
+  const abis = VERSIONED_ABIS[version];
+  const optional = <TAbi extends Abi>(address: string | undefined, abi: TAbi) =>
+    address ? connectContract(address, abi, runner) : undefined;
+  return {
+    version,
+    abbCore: connectContract(addresses.abbCore, abis.abbCore, runner) as ABBCoreContract,
+    taskRegistry: connectContract(addresses.taskRegistry, taskRegistryAbi, runner),
+    agentRegistry: connectContract(addresses.agentRegistry, agentRegistryAbi, runner),
+    validatorPool: connectContract(addresses.validatorPool, abis.validatorPool, runner) as ValidatorPoolContract,
+    bountyEscrow: connectContract(addresses.bountyEscrow, bountyEscrowAbi, runner),
+    agentIdentity: optional(addresses.agentIdentity, agentIdentity8004Abi),
+    reputationRegistry: optional(addresses.reputationRegistry, reputationRegistry8004Abi),
+    aeconToken: optional(addresses.aeconToken, aeconTokenAbi),
+    tokenVesting: optional(addresses.tokenVesting, tokenVestingAbi),
+    validatorStaking: optional(addresses.validatorStaking, validatorStakingAbi),
+  };
+}
+
+/** The same contracts bound to another runner, e.g. a signer for writes */
+export function connectAll(contracts: ProtocolContracts, runner: ContractRunner): ProtocolContracts {
+  const bound = { ...contracts };
+  for (const key of Object.keys(bound) as (keyof ProtocolContracts)[]) {
+    const value = bound[key];
+    if (value instanceof BaseContract) (bound as any)[key] = value.connect(runner);
+  }
+  return bound;
+}
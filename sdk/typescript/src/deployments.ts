@@ -0,0 +1,41 @@
+import type { ProtocolVersion } from "./models.js";
+
+export interface ContractAddresses {
+  abbCore: string;
+  taskRegistry: string;
+  agentRegistry: string;
+  validatorPool: string;
+  bountyEscrow: string;
+  // V2 additions
+  agentIdentity?: string;
+  reputationRegistry?: string;
+  aeconToken?: string;
+  tokenVesting?: string;
+  validatorStaking?: string;
+}
+
+export interface Deployment {
+  chainId: number;
+  version: ProtocolVersion;
+  contracts: ContractAddresses;
+}
+
+export const DEPLOYMENTS = {
+  // MAINNET deployment (Base, 2026-03-11)
+  base: {
+    chainId: 8453,
+    version: "v2",
+    contracts: {
+      abbCore: "0x8Bac098243c8AEe9E2d338456b4d2860875084dB",
+      agentRegistry: "0x03f62E221cCf126281AF321D1f9e8fb95b6Fe572",
+      taskRegistry: "0xc78866b33Ff6Eb5b58281e77fB2666611505C465",
+      bountyEscrow: "0x595dBdD8071c6893a31abD500Ca66EA0E0d0e0Fc",
+      validatorPool: "0x22bbEc2a7DD9959dFD31144317F185500d993C8b",
+      agentIdentity: "0x55D42a729dAE31e801bC034797C5AE769D04B3D9",
+      reputationRegistry: "0x7c77e455c73bC685254c987481f909d15c6c4e6d",
+      aeconToken: "0x40510af7D63316a267a5302A382e829dAd40bcf5",
+      tokenVesting: "0xb732A86ea4f4c737b60ACDf649af5A0Af725D8f8",
+      validatorStaking: "0xC506CE9381bE0F2b6a31343Cd0795cC2fFfcE1f1",
+    },
+  },
+} as const satisfies Record<string, Deployment>;
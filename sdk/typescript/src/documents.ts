@@ -0,0 +1,173 @@
+import { encodeBase58, getBytes, sha256, toUtf8String } from "ethers";
+
+/**
+ * Resolves the bytes32 document hashes stored on chain (descriptionHash,
+ * submissionHash, metadataHash) to their documents. The AgentEcon API is
+ * asked first, since it keeps hash-verified copies of uploaded documents;
+ * otherwise the hash is read as a sha2-256 digest and fetched from the IPFS
+ * gateway as a CIDv0, checking the content against the hash.
+ */
+
+export interface TaskDescription {
+  title: string;
+  body: string;
+  category: string | null;
+  acceptanceCriteria: string[];
+  attachments: Attachment[];
+}
+
+export interface SubmissionDocument {
+  body: string;
+  attachments: Attachment[];
+  data: unknown;
+}
+
+export interface AgentMetadata {
+  name: string;
+  description: string;
+  capabilities: string[];
+  endpoints: { name: string; endpoint: string; version?: string }[];
+}
+
+export interface Attachment {
+  name: string;
+  uri: string;
+  mimeType?: string;
+}
+
+export type DocumentSource = "api" | "ipfs";
+
+const ZERO_HASH = /^0x0{64}$/;
+const TIMEOUT_MS = 10_000;
+// multihash prefix for a 32-byte sha2-256 digest
+const SHA2_256_PREFIX = [0x12, 0x20];
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function strings(v: unknown): string[] {
+  return Array.isArray(v) ? v.filter((s): s is string => typeof s === "string") : [];
+}
+
+function attachments(v: unknown): Attachment[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter((a): a is Attachment => isObject(a) && typeof a.name === "string" && typeof a.uri === "string");
+}
+
+// Lenient versions of the API's document parsers, for content fetched straight from IPFS
+
+function toDescription(content: string): TaskDescription | null {
+  try {
+    const doc = JSON.parse(content);
+    if (!isObject(doc)) return null;
+    const body = doc.body ?? doc.description ?? "";
+    return {
+      title: typeof doc.title === "string" ? doc.title : "",
+      body: typeof body === "string" ? body : JSON.stringify(body),
+      category: typeof doc.category === "string" ? doc.category : null,
+      acceptanceCriteria: strings(doc.acceptanceCriteria),
+      attachments: attachments(doc.attachments),
+    };
+  } catch {
+    return { title: "", body: content, category: null, acceptanceCriteria: [], attachments: [] };
+  }
+}
+
+function toSubmission(content: string): SubmissionDocument {
+  try {
+    const doc = JSON.parse(content);
+    if (!isObject(doc)) return { body: content, attachments: [], data: doc };
+    const body = doc.body ?? doc.content ?? doc.summary ?? "";
+    return { body: typeof body === "string" ? body : JSON.stringify(body), attachments: attachments(doc.attachments), data: doc };
+  } catch {
+    return { body: content, attachments: [], data: null };
+  }
+}
+
+function toAgentMetadata(content: string): AgentMetadata | null {
+  try {
+    const doc = JSON.parse(content);
+    if (!isObject(doc) || typeof doc.name !== "string") return null;
+    return {
+      name: doc.name,
+      description: typeof doc.description === "string" ? doc.description : "",
+      capabilities: strings(doc.capabilities),
+      endpoints: Array.isArray(doc.endpoints)
+        ? doc.endpoints.filter((e): e is AgentMetadata["endpoints"][number] =>
+          isObject(e) && typeof e.name === "string" && typeof e.endpoint === "string")
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export interface DocumentSources {
+  /** AgentEcon API base URL */
+  apiUrl: string;
+  /** IPFS gateway base URL, e.g. https://gateway.pinata.cloud/ipfs */
+  ipfsGateway: string;
+}
+
+async function apiGet(sources: DocumentSources, path: string): Promise<any | null> {
+  try {
+    const res = await fetch(`${sources.apiUrl.replace(/\/$/, "")}${path}`, { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    return res.ok ? await res.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Fetch a document from the IPFS gateway by its sha2-256 digest, or null if unavailable or mismatched */
+async function gatewayGet(sources: DocumentSources, hash: string): Promise<string | null> {
+  if (ZERO_HASH.test(hash)) return null;
+  const cid = encodeBase58(new Uint8Array([...SHA2_256_PREFIX, ...getBytes(hash)]));
+  try {
+    const res = await fetch(`${sources.ipfsGateway.replace(/\/$/, "")}/${cid}`, { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    if (!res.ok) return null;
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    if (sha256(bytes).toLowerCase() !== hash.toLowerCase()) return null;
+    return toUtf8String(bytes);
+  } catch {
+    return null;
+  }
+}
+
+export interface TaskDocuments {
+  description: TaskDescription | null;
+  submission: SubmissionDocument | null;
+  source: DocumentSource | null;
+}
+
+export async function taskDocuments(
+  sources: DocumentSources,
+  task: { id: number; descriptionHash: string; submissionHash: string },
+): Promise<TaskDocuments> {
+  const fromApi = await apiGet(sources, `/tasks/${task.id}`);
+  if (fromApi && (fromApi.metadata || fromApi.submission)) {
+    return { description: fromApi.metadata ?? null, submission: fromApi.submission ?? null, source: "api" };
+  }
+
+  const [description, submission] = await Promise.all([gatewayGet(sources, task.descriptionHash), gatewayGet(sources, task.submissionHash)]);
+  return {
+    description: description !== null ? toDescription(description) : null,
+    submission: submission !== null ? toSubmission(submission) : null,
+    source: description !== null || submission !== null ? "ipfs" : null,
+  };
+}
+
+export async function agentMetadata(
+  sources: DocumentSources,
+  agent: { id: number; metadataHash: string },
+): Promise<{ metadata: AgentMetadata | null; source: DocumentSource | null }> {
+  const fromApi = await apiGet(sources, `/v2/reputation/${agent.id}`);
+  if (fromApi?.agent?.name) {
+    const { name, description, capabilities, endpoints } = fromApi.agent;
+    return { metadata: { name, description, capabilities, endpoints }, source: "api" };
+  }
+
+  const content = await gatewayGet(sources, agent.metadataHash);
+  const metadata = content !== null ? toAgentMetadata(content) : null;
+  return { metadata, source: metadata ? "ipfs" : null };
+}
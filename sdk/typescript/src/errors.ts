@@ -0,0 +1,159 @@
+import { Interface } from "ethers";
+
+import {
+  abbCoreV2Abi,
+  agentRegistryAbi,
+  bountyEscrowAbi,
+  reputationRegistry8004Abi,
+  taskRegistryAbi,
+  validatorPoolV2Abi,
+} from "./abis/index.js";
+
+/**
+ * Custom Solidity errors of the protocol contracts, decoded from revert data
+ * into `{ contract, error, args, code, status, hint }`. `code` is stable API
+ * surface: it is spelled out per error rather than derived from the name, so
+ * renaming an error in Solidity does not change what clients match on.
+ */
+
+export interface ContractErrorInfo {
+  code: string;
+  status: number;
+  hint: string;
+}
+
+export const CONTRACT_ERRORS: Record<string, ContractErrorInfo> = {
+  // Task lifecycle (ABBCore, TaskRegistry)
+  TaskNotFound: { code: "TASK_NOT_FOUND", status: 404, hint: "The task does not exist." },
+  TaskNotInExpectedState: { code: "TASK_NOT_IN_EXPECTED_STATE", status: 409, hint: "The task is not in the state this action requires." },
+  InvalidStateTransition: { code: "INVALID_STATE_TRANSITION", status: 409, hint: "The task cannot move to that state from its current one." },
+  DeadlinePassed: { code: "DEADLINE_PASSED", status: 409, hint: "The task's deadline has passed." },
+  InvalidDeadline: { code: "INVALID_DEADLINE", status: 400, hint: "The deadline must be in the future." },
+  InvalidDescription: { code: "INVALID_DESCRIPTION", status: 400, hint: "The description hash must not be zero." },
+  NotPoster: { code: "NOT_POSTER", status: 403, hint: "Only the task's poster can do this." },
+  NotPosterOrAgent: { code: "NOT_POSTER_OR_AGENT", status: 403, hint: "Only the poster or the assigned agent's operator can do this." },
+  DisputeWindowActive: { code: "DISPUTE_WINDOW_ACTIVE", status: 409, hint: "The rejection's dispute window is still open; the refund can be claimed once it closes." },
+  DisputeWindowExpired: { code: "DISPUTE_WINDOW_EXPIRED", status: 409, hint: "The dispute window has closed." },
+  ReviewNotFinalized: { code: "REVIEW_NOT_FINALIZED", status: 409, hint: "The validator review has not been finalized." },
+  TokenMismatch: { code: "TOKEN_MISMATCH", status: 400, hint: "The token does not match the task's payment token." },
+
+  // Agents (AgentRegistry, ReputationRegistry8004)
+  AgentNotFound: { code: "AGENT_NOT_FOUND", status: 404, hint: "The agent does not exist." },
+  AgentNotActive: { code: "AGENT_NOT_ACTIVE", status: 409, hint: "The agent is not registered, is inactive, or is not operated by the caller." },
+  AgentNotRegistered: { code: "AGENT_NOT_REGISTERED", status: 404, hint: "The agent has no ERC-8004 identity." },
+  NotOperator: { code: "NOT_OPERATOR", status: 403, hint: "Only the agent's operator can do this." },
+  InvalidMetadata: { code: "INVALID_METADATA", status: 400, hint: "The metadata hash must not be zero." },
+  CannotFeedbackOwnAgent: { code: "CANNOT_FEEDBACK_OWN_AGENT", status: 403, hint: "An agent's owner cannot leave feedback on it." },
+  FeedbackNotFound: { code: "FEEDBACK_NOT_FOUND", status: 404, hint: "The feedback entry does not exist." },
+  NotFeedbackAuthor: { code: "NOT_FEEDBACK_AUTHOR", status: 403, hint: "Only the feedback's author can revoke it." },
+  AlreadyRevoked: { code: "ALREADY_REVOKED", status: 409, hint: "The feedback was already revoked." },
+  InvalidValueDecimals: { code: "INVALID_VALUE_DECIMALS", status: 400, hint: "The feedback value has too many decimals." },
+
+  // Escrow (BountyEscrow)
+  EscrowExists: { code: "ESCROW_EXISTS", status: 409, hint: "An escrow already exists for the task." },
+  EscrowNotFound: { code: "ESCROW_NOT_FOUND", status: 404, hint: "No escrow exists for the task." },
+  AlreadyReleased: { code: "ESCROW_ALREADY_RELEASED", status: 409, hint: "The escrow was already released." },
+  AlreadyRefunded: { code: "ESCROW_ALREADY_REFUNDED", status: 409, hint: "The escrow was already refunded." },
+  NothingToWithdraw: { code: "NOTHING_TO_WITHDRAW", status: 409, hint: "There is no claimable balance to withdraw." },
+  InvalidFee: { code: "INVALID_FEE", status: 400, hint: "The fee is out of range." },
+  TransferFailed: { code: "TRANSFER_FAILED", status: 502, hint: "The ETH transfer failed." },
+  SafeERC20FailedOperation: { code: "TOKEN_TRANSFER_FAILED", status: 400, hint: "The token transfer failed; check the balance and allowance." },
+
+  // Validators (ValidatorPool)
+  AlreadyRegistered: { code: "VALIDATOR_ALREADY_REGISTERED", status: 409, hint: "The address is already a registered validator." },
+  NotValidator: { code: "NOT_VALIDATOR", status: 403, hint: "The caller is not a registered validator." },
+  ValidatorNotActive: { code: "VALIDATOR_NOT_ACTIVE", status: 409, hint: "The validator is inactive (stake below the minimum or unstaking)." },
+  InsufficientStake: { code: "INSUFFICIENT_STAKE", status: 400, hint: "The stake is below the minimum, or the amount exceeds what is staked." },
+  NoPendingUnstake: { code: "NO_PENDING_UNSTAKE", status: 409, hint: "There is no pending unstake." },
+  UnstakeCooldownNotMet: { code: "UNSTAKE_COOLDOWN_NOT_MET", status: 409, hint: "The unstake cooldown has not elapsed." },
+  NotEnoughValidators: { code: "NOT_ENOUGH_VALIDATORS", status: 409, hint: "Not enough active validators to select a panel." },
+  PanelAlreadyRequested: { code: "PANEL_ALREADY_REQUESTED", status: 409, hint: "A panel was already requested for the task." },
+  IncompletePanelSelection: { code: "INCOMPLETE_PANEL_SELECTION", status: 409, hint: "The panel selection could not be completed." },
+  NoPendingRequest: { code: "NO_PENDING_VRF_REQUEST", status: 404, hint: "There is no pending VRF request." },
+  VRFRequestNotTimedOut: { code: "VRF_REQUEST_NOT_TIMED_OUT", status: 409, hint: "The VRF request has not timed out yet." },
+  OnlyVRFCoordinator: { code: "ONLY_VRF_COORDINATOR", status: 403, hint: "Only the VRF coordinator can call this." },
+  RoundNotFound: { code: "ROUND_NOT_FOUND", status: 404, hint: "No review round exists for the task." },
+  RoundAlreadyFinalized: { code: "ROUND_ALREADY_FINALIZED", status: 409, hint: "The review round is already finalized." },
+  NotOnPanel: { code: "NOT_ON_PANEL", status: 403, hint: "The caller is not on this task's validator panel." },
+  WrongTier: { code: "WRONG_TIER", status: 409, hint: "This scoring method does not match the round's tier." },
+  InvalidScore: { code: "INVALID_SCORE", status: 400, hint: "Scores must be between 0 and 100." },
+  AlreadyScored: { code: "ALREADY_SCORED", status: 409, hint: "The validator already scored this round." },
+  AlreadyCommitted: { code: "ALREADY_COMMITTED", status: 409, hint: "The validator already committed a score." },
+  AlreadyRevealed: { code: "ALREADY_REVEALED", status: 409, hint: "The validator already revealed its score." },
+  NotCommitted: { code: "NOT_COMMITTED", status: 409, hint: "There is no committed score to reveal." },
+  CommitDeadlinePassed: { code: "COMMIT_DEADLINE_PASSED", status: 409, hint: "The commit phase has ended." },
+  CommitPhaseNotOver: { code: "COMMIT_PHASE_NOT_OVER", status: 409, hint: "The reveal phase opens when the commit phase ends." },
+  RevealDeadlinePassed: { code: "REVEAL_DEADLINE_PASSED", status: 409, hint: "The reveal phase has ended." },
+  RevealDeadlineNotPassed: { code: "REVEAL_DEADLINE_NOT_PASSED", status: 409, hint: "The reveal phase is still open." },
+  HashMismatch: { code: "COMMIT_HASH_MISMATCH", status: 400, hint: "The revealed score and salt do not match the commitment." },
+  NotEnoughScores: { code: "NOT_ENOUGH_SCORES", status: 409, hint: "Not enough panel scores to finalize yet." },
+
+  // Shared
+  InvalidAmount: { code: "INVALID_AMOUNT", status: 400, hint: "The amount must be greater than zero." },
+  ZeroAddress: { code: "ZERO_ADDRESS", status: 400, hint: "An address argument is the zero address." },
+  NotAuthorized: { code: "NOT_AUTHORIZED", status: 403, hint: "The caller is not an authorized protocol contract." },
+  EnforcedPause: { code: "CONTRACT_PAUSED", status: 503, hint: "The contract is paused." },
+  ExpectedPause: { code: "CONTRACT_NOT_PAUSED", status: 409, hint: "The contract must be paused for this." },
+  OwnableUnauthorizedAccount: { code: "NOT_OWNER", status: 403, hint: "Only the contract owner can do this." },
+  OwnableInvalidOwner: { code: "INVALID_OWNER", status: 400, hint: "The new owner address is invalid." },
+  ReentrancyGuardReentrantCall: { code: "REENTRANT_CALL", status: 500, hint: "Reentrant call rejected." },
+};
+
+export interface DecodedContractError extends ContractErrorInfo {
+  contract: string;
+  error: string;
+  args: Record<string, string>;
+}
+
+// Generic errors (ZeroAddress, NotAuthorized, ...) share selectors across contracts,
+// so a decode names the first match unless the caller says which contract it called
+const CONTRACTS: [string, Interface][] = [
+  ["ABBCore", new Interface(abbCoreV2Abi)],
+  ["TaskRegistry", new Interface(taskRegistryAbi)],
+  ["AgentRegistry", new Interface(agentRegistryAbi)],
+  ["ValidatorPool", new Interface(validatorPoolV2Abi)],
+  ["BountyEscrow", new Interface(bountyEscrowAbi)],
+  ["ReputationRegistry8004", new Interface(reputationRegistry8004Abi)],
+];
+
+/** Revert data from an ethers error, wherever the provider put it */
+export function revertData(err: unknown): string | null {
+  const e = err as any;
+  for (const candidate of [e?.data, e?.info?.error?.data, e?.error?.data, e?.revert?.data]) {
+    if (typeof candidate === "string" && /^0x[0-9a-fA-F]{8}/.test(candidate)) return candidate;
+    if (typeof candidate?.data === "string") return candidate.data;
+  }
+  return null;
+}
+
+/**
+ * Decode a custom-error revert against every protocol ABI. ABBCore calls into
+ * the registries, escrow and pool, so its reverts can carry their errors too.
+ * @param calledContract contract the call was made to, tried first
+ */
+export function decodeContractError(err: unknown, calledContract?: string): DecodedContractError | null {
+  const data = revertData(err);
+  if (!data) return null;
+
+  const ordered = calledContract
+    ? [...CONTRACTS.filter(([name]) => name === calledContract), ...CONTRACTS.filter(([name]) => name !== calledContract)]
+    : CONTRACTS;
+  for (const [contract, iface] of ordered) {
+    let parsed;
+    try {
+      parsed = iface.parseError(data);
+    } catch {
+      continue;
+    }
+    if (!parsed) continue;
+
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name || String(i)] = String(parsed.args[i]);
+    });
+    const info = CONTRACT_ERRORS[parsed.name]
+      ?? { code: "CONTRACT_REVERT", status: 400, hint: `The contract rejected the call (${parsed.name}).` };
+    return { contract, error: parsed.name, args, ...info };
+  }
+  return null;
+}
@@ -0,0 +1,64 @@
+import { formatEther } from "ethers";
+import type { AgentRegistryContract, TaskRegistryContract, ValidatorPoolContract } from "./contracts.js";
+import { UNSTAKE_COOLDOWN, taskStateToString, tierToString } from "./models.js";
+import type { Agent, Task, Validator } from "./models.js";
+
+/** Structs as the contracts return them */
+export type RawTask = Awaited<ReturnType<TaskRegistryContract["getTask"]["staticCall"]>>;
+export type RawAgent = Awaited<ReturnType<AgentRegistryContract["getAgent"]["staticCall"]>>;
+// V1 validators lack isAIValidator
+export type RawValidator = Omit<Awaited<ReturnType<ValidatorPoolContract["getValidator"]["staticCall"]>>, "isAIValidator"> & {
+  isAIValidator?: boolean;
+};
+
+/** `tier` is the V2 validation tier (null before submission or on V1) */
+export function formatTask(task: RawTask, tier: number | null = null): Task {
+  return {
+    id: Number(task.id),
+    poster: task.poster,
+    descriptionHash: task.descriptionHash,
+    bountyAmount: formatEther(task.bountyAmount),
+    bountyAmountWei: task.bountyAmount.toString(),
+    paymentToken: task.paymentToken,
+    deadline: Number(task.deadline),
+    deadlineISO: new Date(Number(task.deadline) * 1000).toISOString(),
+    state: taskStateToString(Number(task.state)),
+    stateNum: Number(task.state),
+    assignedAgent: Number(task.assignedAgent),
+    submissionHash: task.submissionHash,
+    createdAt: Number(task.createdAt),
+    claimedAt: Number(task.claimedAt),
+    submittedAt: Number(task.submittedAt),
+    tier: tier !== null ? tierToString(tier) : null,
+  };
+}
+
+export function formatAgent(agent: RawAgent): Agent {
+  return {
+    id: Number(agent.id),
+    operator: agent.operator,
+    metadataHash: agent.metadataHash,
+    reputationScore: Number(agent.reputationScore),
+    tasksCompleted: Number(agent.tasksCompleted),
+    tasksFailed: Number(agent.tasksFailed),
+    totalEarned: formatEther(agent.totalEarned),
+    registeredAt: Number(agent.registeredAt),
+    active: agent.active,
+  };
+}
+
+export function formatValidator(v: RawValidator): Validator {
+  return {
+    address: v.addr,
+    stakeAmount: formatEther(v.stakeAmount),
+    stakeAmountWei: v.stakeAmount.toString(),
+    reputationScore: Number(v.reputationScore),
+    registeredAt: Number(v.registeredAt),
+    active: v.active,
+    isAIValidator: Boolean(v.isAIValidator),
+    pendingUnstake: formatEther(v.pendingUnstake),
+    pendingUnstakeWei: v.pendingUnstake.toString(),
+    unstakeRequestTime: Number(v.unstakeRequestTime),
+    cooldownEndsAt: v.pendingUnstake > 0n ? Number(v.unstakeRequestTime) + UNSTAKE_COOLDOWN : null,
+  };
+}
@@ -0,0 +1,14 @@
+import { keccak256, solidityPackedKeccak256, toUtf8Bytes } from "ethers";
+
+/**
+ * The on-chain hash of a description, submission or agent metadata document:
+ * keccak256 of the exact bytes that were stored, UTF-8 encoded when a string
+ */
+export function contentHash(content: string | Uint8Array): string {
+  return keccak256(typeof content === "string" ? toUtf8Bytes(content) : content);
+}
+
+/** Same packing as ValidatorPool.revealScore: keccak256(abi.encodePacked(taskId, score, salt)) */
+export function commitHash(taskId: number | bigint, score: number, salt: string): string {
+  return solidityPackedKeccak256(["uint256", "uint8", "bytes32"], [taskId, score, salt]);
+}
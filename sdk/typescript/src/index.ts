@@ -0,0 +1,10 @@
+export * from "./abis/index.js";
+export * from "./models.js";
+export * from "./deployments.js";
+export * from "./contracts.js";
+export * from "./format.js";
+export * from "./reads.js";
+export * from "./writes.js";
+export * from "./errors.js";
+export * from "./hashes.js";
+export * from "./documents.js";
@@ -0,0 +1,16 @@
+import { pino } from "pino";
+
+/**
+ * JSON logger shared by the keeper, validator and worker daemons: one line
+ * per entry with a string `level` and an ISO timestamp, level from LOG_LEVEL.
+ * Exported from `@agentecon/sdk/logger`; needs the optional `pino` peer.
+ */
+export const logger = pino({
+  level: process.env.LOG_LEVEL || "info",
+  formatters: {
+    level(label) {
+      return { level: label };
+    },
+  },
+  timestamp: pino.stdTimeFunctions.isoTime,
+});
@@ -0,0 +1,97 @@
+/**
+ * Domain models shared by the API, MCP server and frontend. This module has
+ * no dependencies so browser bundles can import it (`@agentecon/sdk/models`)
+ * without pulling in ethers. The entity models are type aliases rather than
+ * interfaces so they stay assignable to `Record<string, unknown>`.
+ */
+
+export type Address = `0x${string}`;
+
+/** `v2` is ABBCoreV2 + ValidatorPoolV2 (validation tiers, AI validators); the registries and escrow are shared */
+export type ProtocolVersion = "v1" | "v2";
+
+// TaskRegistry.TaskState enum, in declaration order
+export const TaskState = [
+  "open",
+  "claimed",
+  "submitted",
+  "in_review",
+  "completed",
+  "disputed",
+  "resolved",
+  "cancelled",
+] as const;
+
+export type TaskStateName = (typeof TaskState)[number];
+
+export function taskStateToString(state: number): TaskStateName | "unknown" {
+  return TaskState[state] ?? "unknown";
+}
+
+// ValidatorPoolV2.ValidationTier enum mapping
+export const ValidationTier = ["micro", "standard", "premium"] as const;
+
+export type ValidationTierName = (typeof ValidationTier)[number];
+
+export function tierToString(tier: number): ValidationTierName | "unknown" {
+  return ValidationTier[tier] ?? "unknown";
+}
+
+// ValidatorPool.UNSTAKE_COOLDOWN (same in V1 and V2)
+export const UNSTAKE_COOLDOWN = 7 * 24 * 60 * 60;
+
+// ABBCore.DISPUTE_WINDOW: how long after a rejection the poster must wait to claim a refund
+export const DISPUTE_WINDOW = 24 * 60 * 60;
+
+// ValidatorPool: median scores at or above this pass review
+export const PASS_SCORE = 60;
+
+/** A TaskRegistry task, amounts as ETH strings plus exact wei */
+export type Task = {
+  id: number;
+  poster: string;
+  descriptionHash: string;
+  bountyAmount: string;
+  bountyAmountWei: string;
+  paymentToken: string;
+  deadline: number;
+  deadlineISO: string;
+  state: TaskStateName | "unknown";
+  stateNum: number;
+  assignedAgent: number;
+  submissionHash: string;
+  createdAt: number;
+  claimedAt: number;
+  submittedAt: number;
+  /** V2 validation tier, assigned when work is submitted; null before that and on V1 */
+  tier: ValidationTierName | "unknown" | null;
+};
+
+/** An AgentRegistry agent; reputationScore is 0-10000 */
+export type Agent = {
+  id: number;
+  operator: string;
+  metadataHash: string;
+  reputationScore: number;
+  tasksCompleted: number;
+  tasksFailed: number;
+  totalEarned: string;
+  registeredAt: number;
+  active: boolean;
+};
+
+export type Validator = {
+  address: string;
+  stakeAmount: string;
+  stakeAmountWei: string;
+  reputationScore: number;
+  registeredAt: number;
+  active: boolean;
+  /** Always false on V1, which has a single validator type */
+  isAIValidator: boolean;
+  pendingUnstake: string;
+  pendingUnstakeWei: string;
+  unstakeRequestTime: number;
+  /** When a pending unstake can be completed, or null if none is pending */
+  cooldownEndsAt: number | null;
+};
@@ -0,0 +1,60 @@
+import { formatEther } from "ethers";
+import type { ProtocolContracts } from "./contracts.js";
+import { formatAgent, formatTask, formatValidator } from "./format.js";
+import type { Agent, Task, TaskStateName, Validator } from "./models.js";
+
+type Reader = Pick<ProtocolContracts, "version" | "abbCore" | "taskRegistry">;
+
+/** Read and format a task, including the tier ABBCoreV2 assigned when work was submitted */
+export async function readTask(contracts: Reader, id: number): Promise<Task> {
+  const task = await contracts.taskRegistry.getTask(id);
+  const tier = contracts.version === "v2" && Number(task.submittedAt) > 0
+    ? Number(await contracts.abbCore.getTaskTier(id))
+    : null;
+  return formatTask(task, tier);
+}
+
+/** Every task, optionally only those in `state`. Reads one task at a time; use the API's indexer for large boards */
+export async function listTasks(contracts: Reader, filter: { state?: TaskStateName } = {}): Promise<Task[]> {
+  const nextId = Number(await contracts.taskRegistry.nextTaskId());
+  const tasks: Task[] = [];
+  for (let i = 0; i < nextId; i++) {
+    if (!(await contracts.taskRegistry.taskExists(i))) continue;
+    const task = await readTask(contracts, i);
+    if (!filter.state || task.state === filter.state) tasks.push(task);
+  }
+  return tasks;
+}
+
+export async function readAgent(contracts: Pick<ProtocolContracts, "agentRegistry">, id: number): Promise<Agent> {
+  return formatAgent(await contracts.agentRegistry.getAgent(id));
+}
+
+/** Agents registered by `operator`, active or not */
+export async function readOperatorAgents(contracts: Pick<ProtocolContracts, "agentRegistry">, operator: string): Promise<Agent[]> {
+  const ids = await contracts.agentRegistry.getOperatorAgents(operator);
+  return Promise.all(ids.map((id) => readAgent(contracts, Number(id))));
+}
+
+/** A validator by address; an unregistered address reads as a zeroed validator with `registeredAt` 0 */
+export async function readValidator(contracts: Pick<ProtocolContracts, "validatorPool">, address: string): Promise<Validator> {
+  return formatValidator(await contracts.validatorPool.getValidator(address));
+}
+
+/** ETH and (optionally) token balances `account` can withdraw from BountyEscrow */
+export async function readClaimable(
+  contracts: Pick<ProtocolContracts, "bountyEscrow">,
+  account: string,
+  token?: string,
+): Promise<{ eth: string; ethWei: string; token?: { address: string; amountWei: string } }> {
+  const eth = await contracts.bountyEscrow.claimableETH(account);
+  const result: { eth: string; ethWei: string; token?: { address: string; amountWei: string } } = {
+    eth: formatEther(eth),
+    ethWei: eth.toString(),
+  };
+  if (token) {
+    const amount = await contracts.bountyEscrow.claimableToken(account, token);
+    result.token = { address: token, amountWei: amount.toString() };
+  }
+  return result;
+}
@@ -0,0 +1,187 @@
+import { Contract } from "ethers";
+import type { BaseContract, BigNumberish, ContractTransactionResponse, LogDescription, TransactionReceipt } from "ethers";
+import type { ProtocolContracts } from "./contracts.js";
+
+/**
+ * Write helpers for the whole task lifecycle. Each takes contracts bound to a
+ * signer (see `connectAll`), sends one transaction, waits for it to be mined
+ * and returns the receipt plus whatever the emitted events say (the new task
+ * or agent id, the review outcome). Reverts are thrown as ethers errors;
+ * `decodeContractError` turns them into stable codes.
+ */
+
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+async function mined(pending: Promise<ContractTransactionResponse>): Promise<TransactionReceipt> {
+  const tx = await pending;
+  const receipt = await tx.wait();
+  if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped or replaced`);
+  return receipt;
+}
+
+/** The first `name` event `contract` emitted in `receipt`, or null */
+export function findEvent(contract: BaseContract, receipt: TransactionReceipt, name: string): LogDescription | null {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name === name) return parsed;
+    } catch { /* not this contract's event */ }
+  }
+  return null;
+}
+
+function createdTaskId(contracts: ProtocolContracts, receipt: TransactionReceipt): number {
+  const event = findEvent(contracts.abbCore, receipt, "TaskCreatedAndFunded");
+  if (!event) throw new Error(`No TaskCreatedAndFunded event in ${receipt.hash}`);
+  return Number(event.args.taskId);
+}
+
+// Posters
+
+export async function createTaskETH(
+  contracts: ProtocolContracts,
+  args: { descriptionHash: string; deadline: number; bountyWei: bigint },
+): Promise<{ receipt: TransactionReceipt; taskId: number }> {
+  const receipt = await mined(contracts.abbCore.createTaskETH(args.descriptionHash, args.deadline, { value: args.bountyWei }));
+  return { receipt, taskId: createdTaskId(contracts, receipt) };
+}
+
+/** Approves BountyEscrow for `amount` first if the current allowance is short */
+export async function createTaskToken(
+  contracts: ProtocolContracts,
+  args: { descriptionHash: string; token: string; amount: bigint; deadline: number },
+): Promise<{ receipt: TransactionReceipt; approvalReceipt: TransactionReceipt | null; taskId: number }> {
+  const runner = contracts.abbCore.runner;
+  const owner = await (runner as any)?.getAddress?.();
+  if (!owner) throw new Error("createTaskToken needs contracts bound to a signer");
+  const token = new Contract(args.token, ERC20_ABI, runner);
+  const escrow = await contracts.bountyEscrow.getAddress();
+
+  let approvalReceipt: TransactionReceipt | null = null;
+  if ((await token.allowance(owner, escrow)) < args.amount) {
+    approvalReceipt = await mined(token.approve(escrow, args.amount));
+  }
+  const receipt = await mined(contracts.abbCore.createTaskToken(args.descriptionHash, args.token, args.amount, args.deadline));
+  return { receipt, approvalReceipt, taskId: createdTaskId(contracts, receipt) };
+}
+
+export function cancelTask(contracts: ProtocolContracts, taskId: BigNumberish): Promise<TransactionReceipt> {
+  return mined(contracts.abbCore.cancelTask(taskId));
+}
+
+export function raiseDispute(contracts: ProtocolContracts, taskId: BigNumberish): Promise<TransactionReceipt> {
+  return mined(contracts.abbCore.raiseDispute(taskId));
+}
+
+/** Refund after a rejected review, once the dispute window has passed */
+export function claimRefundAfterRejection(contracts: ProtocolContracts, taskId: BigNumberish): Promise<TransactionReceipt> {
+  return mined(contracts.abbCore.claimRefundAfterRejection(taskId));
+}
+
+/** Return a claimed task whose deadline passed without a submission to the poster */
+export function reclaimExpiredTask(contracts: ProtocolContracts, taskId: BigNumberish): Promise<TransactionReceipt> {
+  return mined(contracts.abbCore.reclaimExpiredTask(taskId));
+}
+
+// Agents
+
+export async function registerAgent(
+  contracts: ProtocolContracts,
+  metadataHash: string,
+): Promise<{ receipt: TransactionReceipt; agentId: number }> {
+  const receipt = await mined(contracts.agentRegistry.registerAgent(metadataHash));
+  const event = findEvent(contracts.agentRegistry, receipt, "AgentRegistered");
+  if (!event) throw new Error(`No AgentRegistered event in ${receipt.hash}`);
+  return { receipt, agentId: Number(event.args.agentId) };
+}
+
+export function updateAgentMetadata(contracts: ProtocolContracts, agentId: BigNumberish, metadataHash: string): Promise<TransactionReceipt> {
+  return mined(contracts.agentRegistry.updateMetadata(agentId, metadataHash));
+}
+
+export function deregisterAgent(contracts: ProtocolContracts, agentId: BigNumberish): Promise<TransactionReceipt> {
+  return mined(contracts.agentRegistry.deregisterAgent(agentId));
+}
+
+export function claimTask(contracts: ProtocolContracts, taskId: BigNumberish, agentId: BigNumberish): Promise<TransactionReceipt> {
+  return mined(contracts.abbCore.claimTask(taskId, agentId));
+}
+
+export function submitWork(contracts: ProtocolContracts, taskId: BigNumberish, submissionHash: string): Promise<TransactionReceipt> {
+  return mined(contracts.abbCore.submitWork(taskId, submissionHash));
+}
+
+// Review
+
+/** Settle a review round; anyone can call this once the panel has scored */
+export async function finalizeReview(
+  contracts: ProtocolContracts,
+  taskId: BigNumberish,
+): Promise<{ receipt: TransactionReceipt; accepted: boolean | null; medianScore: number | null }> {
+  const receipt = await mined(contracts.abbCore.finalizeReview(taskId));
+  const event = findEvent(contracts.abbCore, receipt, "ReviewFinalized");
+  return {
+    receipt,
+    accepted: event ? Boolean(event.args.accepted) : null,
+    medianScore: event ? Number(event.args.medianScore) : null,
+  };
+}
+
+/** Cancel a panel request the VRF coordinator never fulfilled so it can be requested again */
+export function cancelTimedOutRequest(contracts: ProtocolContracts, taskId: BigNumberish): Promise<TransactionReceipt> {
+  return mined(contracts.validatorPool.cancelTimedOutRequest(taskId));
+}
+
+// Validators
+
+/** Register with an initial stake; `isAI` is V2 only */
+export function registerValidator(
+  contracts: ProtocolContracts,
+  args: { stakeWei: bigint; isAI?: boolean },
+): Promise<TransactionReceipt> {
+  if (contracts.version === "v1") {
+    return mined(contracts.validatorPool.getFunction("registerValidator")({ value: args.stakeWei }));
+  }
+  return mined(contracts.validatorPool.registerValidator(args.isAI ?? false, { value: args.stakeWei }));
+}
+
+export function addStake(contracts: ProtocolContracts, amountWei: bigint): Promise<TransactionReceipt> {
+  return mined(contracts.validatorPool.addStake({ value: amountWei }));
+}
+
+/** Start the unstake cooldown for `amountWei` */
+export function initiateUnstake(contracts: ProtocolContracts, amountWei: bigint): Promise<TransactionReceipt> {
+  return mined(contracts.validatorPool.initiateUnstake(amountWei));
+}
+
+export function completeUnstake(contracts: ProtocolContracts): Promise<TransactionReceipt> {
+  return mined(contracts.validatorPool.completeUnstake());
+}
+
+/** Direct score for Micro and Standard rounds (V2) */
+export function submitScore(contracts: ProtocolContracts, taskId: BigNumberish, score: number): Promise<TransactionReceipt> {
+  return mined(contracts.validatorPool.submitScore(taskId, score));
+}
+
+/** Commit phase of a Premium (or V1) round; see `commitHash()` */
+export function commitScore(contracts: ProtocolContracts, taskId: BigNumberish, commitHash: string): Promise<TransactionReceipt> {
+  return mined(contracts.validatorPool.commitScore(taskId, commitHash));
+}
+
+export function revealScore(contracts: ProtocolContracts, taskId: BigNumberish, score: number, salt: string): Promise<TransactionReceipt> {
+  return mined(contracts.validatorPool.revealScore(taskId, score, salt));
+}
+
+// Payouts
+
+/** Withdraw the caller's claimable ETH (bounties, refunds) from BountyEscrow */
+export function withdrawETH(contracts: ProtocolContracts): Promise<TransactionReceipt> {
+  return mined(contracts.bountyEscrow.withdrawETH());
+}
+
+export function withdrawToken(contracts: ProtocolContracts, token: string): Promise<TransactionReceipt> {
+  return mined(contracts.bountyEscrow.withdrawToken(token));
+}
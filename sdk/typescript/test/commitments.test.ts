@@ -0,0 +1,65 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { CommitmentStore, commitInFlight } from "../src/commitments.js";
+
+const dir = mkdtempSync(join(tmpdir(), "abb-sdk-commitments-"));
+const store = new CommitmentStore(join(dir, "commitments.json"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const POOL = "0x0000000000000000000000000000000000000001";
+const VALIDATOR = "0x00000000000000000000000000000000000000aa";
+
+// Transactions the fake node has mined, and ones still in its mempool
+const mined = new Set<string>();
+const mempool = new Set<string>();
+const provider = {
+  getTransactionReceipt: async (hash: string) => (mined.has(hash) ? { hash } : null),
+  getTransaction: async (hash: string) => (mempool.has(hash) || mined.has(hash) ? { hash } : null),
+};
+
+describe("CommitmentStore", () => {
+  it("never overwrites an unrevealed commitment implicitly", () => {
+    const first = store.create(POOL, VALIDATOR, 1, 80);
+    expect(() => store.create(POOL, VALIDATOR, 1, 70)).toThrow(/refusing to overwrite/);
+    expect(store.get(POOL, VALIDATOR, 1)?.salt).toBe(first.salt);
+
+    const second = store.create(POOL, VALIDATOR, 1, 70, first);
+    expect(second.salt).not.toBe(first.salt);
+    expect(store.get(POOL, VALIDATOR, 1)).toEqual(second);
+  });
+
+  it("keys entries case-insensitively by pool and validator", () => {
+    const c = store.create(POOL, VALIDATOR.toUpperCase().replace("0X", "0x"), 2, 55);
+    expect(store.get(POOL.toLowerCase(), VALIDATOR, 2)?.salt).toBe(c.salt);
+  });
+
+  it("replaces a revealed commitment for a new round", () => {
+    const revealed = store.update(store.create(POOL, VALIDATOR, 3, 90), { revealTxHash: "0xaa" });
+    expect(store.create(POOL, VALIDATOR, 3, 60).salt).not.toBe(revealed.salt);
+  });
+
+  it("forgets a removed commitment", () => {
+    store.remove(store.create(POOL, VALIDATOR, 4, 10));
+    expect(store.get(POOL, VALIDATOR, 4)).toBeNull();
+  });
+});
+
+describe("commitInFlight", () => {
+  it("is true only while a broadcast commit has neither mined nor dropped", async () => {
+    const c = store.create(POOL, VALIDATOR, 5, 50);
+    expect(await commitInFlight(c, provider)).toBe(false);
+
+    const sent = store.update(c, { commitTxHash: "0x01" });
+    mempool.add("0x01");
+    expect(await commitInFlight(sent, provider)).toBe(true);
+
+    mempool.delete("0x01");
+    mined.add("0x01");
+    expect(await commitInFlight(sent, provider)).toBe(false);
+
+    const dropped = store.update(c, { commitTxHash: "0x02" });
+    expect(await commitInFlight(dropped, provider)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { Interface } from "ethers";
+import { describe, expect, it } from "vitest";
+import { abbCoreV2Abi, agentRegistryAbi, bountyEscrowAbi, reputationRegistry8004Abi, taskRegistryAbi, validatorPoolV2Abi } from "../src/abis/index.js";
+import { CONTRACT_ERRORS, decodeContractError, revertData } from "../src/errors.js";
+
+const core = new Interface(abbCoreV2Abi);
+const pool = new Interface(validatorPoolV2Abi);
+const OWNER = "0x00000000000000000000000000000000000000AA";
+
+describe("revertData", () => {
+  it("finds revert data wherever the provider nests it", () => {
+    const data = core.encodeErrorResult("TaskNotInExpectedState");
+    expect(revertData({ data })).toBe(data);
+    expect(revertData({ info: { error: { data } } })).toBe(data);
+    expect(revertData({ error: { data: { data } } })).toBe(data);
+    expect(revertData({ revert: { data } })).toBe(data);
+    expect(revertData(new Error("nonce too low"))).toBeNull();
+  });
+});
+
+describe("decodeContractError", () => {
+  it("maps a custom error to its stable code, status and hint", () => {
+    expect(decodeContractError({ data: pool.encodeErrorResult("CommitPhaseNotOver") })).toEqual({
+      contract: "ValidatorPool",
+      error: "CommitPhaseNotOver",
+      args: {},
+      ...CONTRACT_ERRORS.CommitPhaseNotOver,
+    });
+  });
+
+  it("names error arguments", () => {
+    const decoded = decodeContractError({ data: core.encodeErrorResult("OwnableUnauthorizedAccount", [OWNER]) });
+    expect(decoded).toMatchObject({ code: "NOT_OWNER", status: 403, args: { account: OWNER } });
+  });
+
+  it("attributes shared selectors to the called contract first", () => {
+    const data = core.encodeErrorResult("ZeroAddress");
+    expect(decodeContractError({ data })?.contract).toBe("ABBCore");
+    expect(decodeContractError({ data }, "BountyEscrow")?.contract).toBe("BountyEscrow");
+  });
+
+  it("returns null for reverts no protocol contract declares", () => {
+    const foreign = new Interface(["error Unknown(uint256)"]).encodeErrorResult("Unknown", [1]);
+    expect(decodeContractError({ data: foreign })).toBeNull();
+    expect(decodeContractError(new Error("insufficient funds"))).toBeNull();
+  });
+
+  it("has a code for every error the protocol ABIs declare", () => {
+    const missing: string[] = [];
+    for (const abi of [abbCoreV2Abi, taskRegistryAbi, agentRegistryAbi, validatorPoolV2Abi, bountyEscrowAbi, reputationRegistry8004Abi]) {
+      new Interface(abi).forEachError((e) => {
+        if (!CONTRACT_ERRORS[e.name]) missing.push(e.name);
+      });
+    }
+    expect(missing).toEqual([]);
+  });
+});
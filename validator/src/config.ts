@@ -0,0 +1,41 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+function env(key: string, fallback?: string): string {
+  const v = process.env[key] ?? fallback;
+  if (!v) throw new Error(`Missing env var: ${key}`);
+  return v;
+}
+
+function scorer(): "rule" | "http" {
+  const v = env("SCORER", "rule");
+  if (v !== "rule" && v !== "http") throw new Error(`SCORER must be rule or http, got ${v}`);
+  if (v === "http" && !process.env.SCORER_URL) throw new Error("SCORER=http needs SCORER_URL");
+  return v;
+}
+
+export const config = {
+  rpcUrl: env("RPC_URL", "http://localhost:8545"),
+  contracts: {
+    abbCore: env("ABBCORE_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    agentRegistry: env("AGENT_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    taskRegistry: env("TASK_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    validatorPool: env("VALIDATOR_POOL_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    bountyEscrow: env("BOUNTY_ESCROW_ADDRESS", "0x0000000000000000000000000000000000000000"),
+  },
+  // First block to scan for panel selections when there is no state file yet
+  startBlock: parseInt(env("START_BLOCK", "0"), 10),
+  privateKey: env("VALIDATOR_PRIVATE_KEY"),
+  // Assignments, scores and salts; the daemon resumes from it after a restart
+  statePath: env("VALIDATOR_STATE_PATH", "./data/validator-state.json"),
+  pollIntervalMs: parseInt(env("VALIDATOR_POLL_INTERVAL_MS", "15000"), 10),
+  // Where task documents come from: the AgentEcon API, then the IPFS gateway
+  apiUrl: env("API_URL", "http://localhost:3000"),
+  ipfsGateway: env("IPFS_GATEWAY", "https://gateway.pinata.cloud/ipfs"),
+  scorer: {
+    kind: scorer(),
+    url: process.env.SCORER_URL || null,
+    apiKey: process.env.SCORER_API_KEY || null,
+    timeoutMs: parseInt(env("SCORER_TIMEOUT_MS", "60000"), 10),
+  },
+};
@@ -0,0 +1,260 @@
+import { ethers } from "ethers";
+import type { EventLog, NonceManager } from "ethers";
+import {
+  commitHash,
+  commitScore,
+  decodeContractError,
+  readTask,
+  revealScore,
+  submitScore,
+  taskDocuments,
+  tierToString,
+} from "@agentecon/sdk";
+import type { DocumentSources, ProtocolContracts } from "@agentecon/sdk";
+import { logger } from "@agentecon/sdk/logger";
+import type { Scorer } from "./scorer.js";
+import type { Assignment, StateStore } from "./state.js";
+
+const LOG_CHUNK = 10_000;
+
+// Reverts meaning the step already happened, e.g. before a crash wiped the tx hash
+const DONE = new Set(["AlreadyScored", "AlreadyCommitted", "AlreadyRevealed"]);
+// Reverts meaning the Premium window for that step has closed
+const TOO_LATE = new Set(["CommitDeadlinePassed", "RevealDeadlinePassed"]);
+
+function describe(err: any): { error: string | null; message: string } {
+  const decoded = decodeContractError(err, "ValidatorPool");
+  if (decoded) return { error: decoded.error, message: `${decoded.error}: ${decoded.hint}` };
+  return { error: null, message: err?.shortMessage ?? err?.reason ?? err?.message ?? String(err) };
+}
+
+/**
+ * Watches ValidatorPoolV2 for panels that include this validator and works
+ * each assignment through to the end of its round:
+ *
+ * - Micro / Standard: fetch the task documents, score, `submitScore`.
+ * - Premium: score, save the salt, `commitScore`; once the commit phase is
+ *   over, `revealScore` before the reveal deadline.
+ *
+ * All progress lives in the StateStore, and every step is simulated first so
+ * a step that already landed before a crash is recognised (AlreadyCommitted,
+ * …) instead of being sent twice. A step that fails for a transient reason
+ * (RPC, documents not yet available, scorer down) is retried on the next tick.
+ */
+export class ValidatorDaemon {
+  private readonly warned = new Set<string>();
+
+  constructor(
+    private readonly contracts: ProtocolContracts,
+    private readonly signer: NonceManager,
+    private readonly address: string,
+    private readonly store: StateStore,
+    private readonly scorer: Scorer,
+    private readonly sources: DocumentSources,
+  ) {}
+
+  async tick(): Promise<void> {
+    await this.scan();
+    const now = await this.chainTime();
+    for (const assignment of this.store.open()) {
+      try {
+        await this.advance(assignment, now);
+      } catch (err) {
+        // Transient: leave the status as it is and try again next tick
+        const { message } = describe(err);
+        this.store.update(assignment.taskId, { error: message });
+        logger.warn({ taskId: assignment.taskId, status: assignment.status, err: message }, "Step failed, will retry");
+      }
+    }
+  }
+
+  private async chainTime(): Promise<number> {
+    const block = await this.signer.provider!.getBlock("latest");
+    return block!.timestamp;
+  }
+
+  /** Record panel selections that include this validator, up to the latest block */
+  private async scan(): Promise<void> {
+    const pool = this.contracts.validatorPool;
+    const latest = await this.signer.provider!.getBlockNumber();
+    for (let from = this.store.lastBlock + 1; from <= latest; from += LOG_CHUNK) {
+      const to = Math.min(from + LOG_CHUNK - 1, latest);
+      const logs = [
+        ...(await pool.queryFilter(pool.filters.MicroPanelSelected(), from, to)),
+        ...(await pool.queryFilter(pool.filters.PanelSelected(), from, to)),
+      ].filter((log): log is EventLog => "args" in log);
+
+      const found: Assignment[] = [];
+      for (const selection of logs) {
+        const taskId = Number(selection.args.taskId);
+        const panel = selection.eventName === "MicroPanelSelected"
+          ? [String(selection.args.validator)]
+          : [...(selection.args.validators as string[])];
+        if (!panel.some((v) => v.toLowerCase() === this.address.toLowerCase())) continue;
+        if (this.store.get(taskId) && this.store.get(taskId)!.status !== "assigned") continue;
+        found.push(await this.assignment(taskId, selection));
+      }
+      this.store.recordScan(to, found);
+      for (const a of found) logger.info({ taskId: a.taskId, tier: a.tier, revealDeadline: a.revealDeadline }, "Selected for panel");
+    }
+  }
+
+  private async assignment(taskId: number, selection: EventLog): Promise<Assignment> {
+    const pool = this.contracts.validatorPool;
+    const tierNum = selection.eventName === "MicroPanelSelected" ? 0 : Number(selection.args.tier);
+    const tier = tierToString(tierNum);
+    if (tier === "unknown") throw new Error(`Task ${taskId}: unknown validation tier ${tierNum}`);
+    const block = await selection.getBlock();
+
+    // The pool keeps deadlines private; they are the selection time plus the durations of the VRF request
+    let commitDeadline: number | null = null;
+    let revealDeadline: number | null = null;
+    if (tier === "premium") {
+      const request = await pool.pendingRequests(await pool.taskVRFRequest(taskId));
+      commitDeadline = block.timestamp + Number(request.commitDuration);
+      revealDeadline = commitDeadline + Number(request.revealDuration);
+    }
+
+    return {
+      taskId,
+      tier,
+      selectionBlock: selection.blockNumber,
+      selectedAt: block.timestamp,
+      commitDeadline,
+      revealDeadline,
+      status: "assigned",
+      score: null,
+      rationale: null,
+      salt: null,
+      commitHash: null,
+      scoreTxHash: null,
+      revealTxHash: null,
+      error: null,
+      updatedAt: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  private async advance(a: Assignment, now: number): Promise<void> {
+    if (await this.contracts.validatorPool.isRoundFinalized(a.taskId)) {
+      if (a.tier === "premium" && (a.status === "committing" || a.status === "committed")) {
+        this.miss(a, "round finalized before this validator revealed");
+      } else {
+        this.store.update(a.taskId, { status: "finalized", error: null });
+        logger.info({ taskId: a.taskId, score: a.score }, "Round finalized");
+      }
+      return;
+    }
+
+    switch (a.status) {
+      case "assigned":
+        if (a.tier === "premium" && now > a.commitDeadline!) return this.miss(a, "commit deadline passed before scoring");
+        return this.score(a);
+      case "committing":
+        return this.commit(a);
+      case "committed":
+        if (now <= a.commitDeadline!) return;
+        if (now > a.revealDeadline!) return this.miss(a, "reveal deadline passed");
+        return this.reveal(a);
+      default:
+        // scored / revealed: nothing to do until the round is finalized
+        return;
+    }
+  }
+
+  private async score(a: Assignment): Promise<void> {
+    const task = await readTask(this.contracts, a.taskId);
+    const { description, submission, source } = await taskDocuments(this.sources, task);
+    if (!submission) {
+      this.warnOnce(`docs:${a.taskId}`, { taskId: a.taskId }, "Submission document not available yet");
+      return;
+    }
+
+    const { score, rationale } = await this.scorer.score({ task, description, submission });
+    logger.info({ taskId: a.taskId, tier: a.tier, score, rationale, scorer: this.scorer.name, source }, "Scored submission");
+
+    if (a.tier !== "premium") {
+      if (!(await this.simulate(a, "submitScore", [a.taskId, score], "scored"))) return;
+      const receipt = await this.send(() => submitScore(this.contracts, a.taskId, score));
+      this.store.update(a.taskId, { status: "scored", score, rationale, scoreTxHash: receipt.hash, error: null });
+      logger.info({ taskId: a.taskId, score, txHash: receipt.hash }, "Score submitted");
+      return;
+    }
+
+    // The salt must be on disk before the commit can reach the chain
+    const salt = ethers.hexlify(ethers.randomBytes(32));
+    const updated = this.store.update(a.taskId, {
+      status: "committing",
+      score,
+      rationale,
+      salt,
+      commitHash: commitHash(a.taskId, score, salt),
+    });
+    await this.commit(updated);
+  }
+
+  private async commit(a: Assignment): Promise<void> {
+    if (!(await this.simulate(a, "commitScore", [a.taskId, a.commitHash!], "committed"))) return;
+    const receipt = await this.send(() => commitScore(this.contracts, a.taskId, a.commitHash!));
+    this.store.update(a.taskId, { status: "committed", scoreTxHash: receipt.hash, error: null });
+    logger.info({ taskId: a.taskId, txHash: receipt.hash, revealAfter: a.commitDeadline }, "Score committed");
+  }
+
+  private async reveal(a: Assignment): Promise<void> {
+    if (!(await this.simulate(a, "revealScore", [a.taskId, a.score!, a.salt!], "revealed"))) return;
+    const receipt = await this.send(() => revealScore(this.contracts, a.taskId, a.score!, a.salt!));
+    this.store.update(a.taskId, { status: "revealed", revealTxHash: receipt.hash, error: null });
+    logger.info({ taskId: a.taskId, score: a.score, txHash: receipt.hash }, "Score revealed");
+  }
+
+  /**
+   * eth_call the step from this validator's address. Returns true if it
+   * should be sent; otherwise the assignment has been updated from the revert.
+   * Transient errors are rethrown.
+   */
+  private async simulate(a: Assignment, method: string, args: unknown[], doneStatus: Assignment["status"]): Promise<boolean> {
+    try {
+      await this.contracts.validatorPool.getFunction(method).staticCall(...args);
+      return true;
+    } catch (err) {
+      const { error, message } = describe(err);
+      if (!error) throw err;
+      if (DONE.has(error)) {
+        this.store.update(a.taskId, { status: doneStatus, error: null });
+        logger.info({ taskId: a.taskId, method }, "Already on chain");
+      } else if (TOO_LATE.has(error)) {
+        this.miss(a, message);
+      } else if (error === "CommitPhaseNotOver") {
+        // Chain time is behind our estimate; try again next tick
+      } else {
+        // NotOnPanel, ValidatorNotActive, …: retrying will not help
+        this.store.update(a.taskId, { status: "failed", error: message });
+        logger.error({ taskId: a.taskId, method, err: message }, "Contract refused the step");
+      }
+      return false;
+    }
+  }
+
+  private async send<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      // A rejected send may have consumed no nonce; resync from the chain
+      this.signer.reset();
+      throw err;
+    }
+  }
+
+  private miss(a: Assignment, reason: string): void {
+    this.store.update(a.taskId, { status: "missed", error: reason });
+    logger.error({ taskId: a.taskId, tier: a.tier, reason }, "Missed a panel assignment");
+  }
+
+  private warnOnce(key: string, fields: object, message: string): void {
+    if (this.warned.has(key)) {
+      logger.debug(fields, message);
+    } else {
+      this.warned.add(key);
+      logger.warn(fields, message);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { JsonRpcProvider, NonceManager, Wallet } from "ethers";
+import { connectAll, createContracts, readValidator } from "@agentecon/sdk";
+import { logger } from "@agentecon/sdk/logger";
+import { config } from "./config.js";
+import { ValidatorDaemon } from "./daemon.js";
+import { createScorer } from "./scorer.js";
+import { StateStore } from "./state.js";
+
+const USAGE = `Usage: abb-validator [--once] [--status]
+  --once    Run a single pass and exit instead of polling every VALIDATOR_POLL_INTERVAL_MS
+  --status  Print the assignments in VALIDATOR_STATE_PATH and exit
+
+Configuration comes from the environment or .env (see .env.example).`;
+
+function printStatus(store: StateStore): void {
+  const assignments = store.all();
+  if (assignments.length === 0) {
+    console.log(`No assignments (scanned to block ${store.lastBlock}).`);
+    return;
+  }
+  const rows = assignments.map((a) => [
+    String(a.taskId),
+    a.tier,
+    a.status,
+    a.score === null ? "-" : String(a.score),
+    a.revealDeadline === null ? "-" : new Date(a.revealDeadline * 1000).toISOString(),
+    a.error ?? "",
+  ]);
+  const header = ["TASK", "TIER", "STATUS", "SCORE", "REVEAL BY", "ERROR"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  for (const row of [header, ...rows]) {
+    console.log(row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join("  "));
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      once: { type: "boolean", default: false },
+      status: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const wallet = new Wallet(config.privateKey, provider);
+  const store = new StateStore(config.statePath, config.contracts.validatorPool, wallet.address, config.startBlock);
+  if (values.status) {
+    printStatus(store);
+    provider.destroy();
+    return;
+  }
+
+  const signer = new NonceManager(wallet);
+  const contracts = connectAll(createContracts(config.contracts, provider, "v2"), signer);
+  const validator = await readValidator(contracts, wallet.address);
+  if (!validator.active) logger.warn({ address: wallet.address }, "Not an active validator; the pool will refuse scores until it is staked");
+
+  const scorer = createScorer(config.scorer);
+  const daemon = new ValidatorDaemon(contracts, signer, wallet.address, store, scorer, config);
+  logger.info({ address: wallet.address, scorer: scorer.name, statePath: config.statePath, open: store.open().length }, "Validator started");
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopping = true;
+    wake?.();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  while (!stopping) {
+    try {
+      await daemon.tick();
+    } catch (err: any) {
+      // An RPC outage or similar; state is only written after each step lands, so the next pass resumes
+      logger.error({ err: err.message }, "Pass failed");
+    }
+    if (values.once) break;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, config.pollIntervalMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+  logger.info("Validator stopped");
+  provider.destroy();
+}
+
+main().catch((err) => {
+  logger.error({ err: err.message }, "Validator failed");
+  process.exit(1);
+});
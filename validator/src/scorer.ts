@@ -0,0 +1,111 @@
+import type { SubmissionDocument, Task, TaskDescription } from "@agentecon/sdk";
+
+export interface ScoreInput {
+  task: Task;
+  /** null when the description could not be fetched; the submission is always present */
+  description: TaskDescription | null;
+  submission: SubmissionDocument;
+}
+
+export interface ScoreResult {
+  /** 0-100; the round passes when the panel median reaches PASS_SCORE */
+  score: number;
+  rationale: string;
+}
+
+/** Anything that turns a task and its submission into a 0-100 score */
+export interface Scorer {
+  readonly name: string;
+  score(input: ScoreInput): Promise<ScoreResult>;
+}
+
+function checkScore(value: unknown): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 100) {
+    throw new Error(`score must be an integer from 0 to 100, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+const STOP_WORDS = new Set([
+  "that", "this", "with", "from", "have", "should", "must", "will", "each", "into", "than", "then",
+  "when", "which", "their", "there", "they", "your", "about", "least", "more", "only", "also", "been",
+]);
+
+function keywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9_-]{3,}/g) ?? [];
+  return [...new Set(words.filter((w) => !STOP_WORDS.has(w)))];
+}
+
+/**
+ * A deterministic baseline with no model behind it: half the score is how
+ * many acceptance criteria the submission mentions (most of a criterion's
+ * keywords appear in it), the rest is for a substantive submission. Good
+ * enough to exercise the protocol on a devnet; plug in a real judge with
+ * SCORER=http for anything that matters.
+ */
+export class RuleScorer implements Scorer {
+  readonly name = "rule";
+
+  async score({ description, submission }: ScoreInput): Promise<ScoreResult> {
+    const text = [
+      submission.body,
+      submission.data === null || submission.data === undefined ? "" : JSON.stringify(submission.data),
+      ...submission.attachments.map((a) => a.name),
+    ].join("\n").toLowerCase();
+    if (text.trim().length === 0) return { score: 0, rationale: "empty submission" };
+
+    const criteria = description?.acceptanceCriteria.length
+      ? description.acceptanceCriteria
+      : description ? [`${description.title} ${description.body}`] : [];
+    const covered = criteria.filter((criterion) => {
+      const words = keywords(criterion);
+      return words.length === 0 || words.filter((w) => text.includes(w)).length * 2 >= words.length;
+    });
+    const coverage = criteria.length > 0 ? covered.length / criteria.length : 0.5;
+
+    const length = submission.body.trim().length;
+    const substance = (length >= 500 ? 30 : length >= 100 ? 20 : 10) + (submission.attachments.length > 0 || submission.data ? 20 : 0);
+    const score = Math.min(100, Math.round(coverage * 50) + substance);
+
+    const criteriaNote = criteria.length > 0
+      ? `${covered.length}/${criteria.length} criteria addressed`
+      : "no description, criteria not checked";
+    return { score, rationale: `${criteriaNote}; ${length} characters of body` };
+  }
+}
+
+/**
+ * Delegates to an HTTP endpoint, e.g. an LLM judge. It is sent
+ * `{ taskId, tier, task, description, submission }` as JSON and must answer
+ * `{ score: 0-100, rationale?: string }` within SCORER_TIMEOUT_MS.
+ */
+export class HttpScorer implements Scorer {
+  readonly name = "http";
+
+  constructor(
+    private readonly url: string,
+    private readonly apiKey: string | null,
+    private readonly timeoutMs: number,
+  ) {}
+
+  async score({ task, description, submission }: ScoreInput): Promise<ScoreResult> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ taskId: task.id, tier: task.tier, task, description, submission }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!res.ok) throw new Error(`scorer answered ${res.status} ${res.statusText}`);
+    const body = (await res.json()) as { score?: unknown; rationale?: unknown };
+    return {
+      score: checkScore(body.score),
+      rationale: typeof body.rationale === "string" ? body.rationale : "",
+    };
+  }
+}
+
+export function createScorer(options: { kind: "rule" | "http"; url: string | null; apiKey: string | null; timeoutMs: number }): Scorer {
+  return options.kind === "http" ? new HttpScorer(options.url!, options.apiKey, options.timeoutMs) : new RuleScorer();
+}
@@ -0,0 +1,125 @@
+import { closeSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ValidationTierName } from "@agentecon/sdk";
+
+/**
+ * - assigned: on the panel, not scored yet
+ * - committing: score and salt saved, commitScore sent or about to be
+ * - committed / scored: the commit (Premium) or direct score is on chain
+ * - revealed: the Premium reveal is on chain
+ * - finalized: the round closed; nothing left to do
+ * - missed: a Premium deadline passed before the validator acted
+ * - failed: the pool refused the score for good (NotOnPanel, ValidatorNotActive, …)
+ */
+export type AssignmentStatus = "assigned" | "committing" | "committed" | "scored" | "revealed" | "finalized" | "missed" | "failed";
+
+export interface Assignment {
+  taskId: number;
+  tier: ValidationTierName;
+  selectionBlock: number;
+  selectedAt: number;
+  /** Premium only */
+  commitDeadline: number | null;
+  revealDeadline: number | null;
+  status: AssignmentStatus;
+  score: number | null;
+  rationale: string | null;
+  salt: string | null;
+  commitHash: string | null;
+  scoreTxHash: string | null;
+  revealTxHash: string | null;
+  /** Last error, cleared on the next step that succeeds */
+  error: string | null;
+  updatedAt: number;
+}
+
+export interface ValidatorState {
+  pool: string;
+  validator: string;
+  /** Last block scanned for panel selections */
+  lastBlock: number;
+  assignments: Record<string, Assignment>;
+}
+
+// Statuses the daemon still has work for
+export const OPEN_STATUSES: AssignmentStatus[] = ["assigned", "committing", "committed", "scored", "revealed"];
+
+/**
+ * The daemon's only memory: panel assignments, scores and commit-reveal salts
+ * in one JSON file. Every change is written to a temporary file, fsynced and
+ * renamed over the old one, so a crash leaves either the old state or the new
+ * one. Salts are saved before the commit transaction is sent; losing one after
+ * the commit lands means the reveal is missed and the stake slashed.
+ */
+export class StateStore {
+  private state: ValidatorState;
+
+  constructor(
+    private readonly path: string,
+    pool: string,
+    validator: string,
+    startBlock: number,
+  ) {
+    const loaded = this.load();
+    if (loaded && (loaded.pool.toLowerCase() !== pool.toLowerCase() || loaded.validator.toLowerCase() !== validator.toLowerCase())) {
+      throw new Error(`${path} belongs to validator ${loaded.validator} on pool ${loaded.pool}; use another VALIDATOR_STATE_PATH`);
+    }
+    this.state = loaded ?? { pool, validator, lastBlock: startBlock - 1, assignments: {} };
+  }
+
+  get lastBlock(): number {
+    return this.state.lastBlock;
+  }
+
+  get(taskId: number): Assignment | null {
+    return this.state.assignments[taskId] ?? null;
+  }
+
+  /** Every assignment, oldest task first */
+  all(): Assignment[] {
+    return Object.values(this.state.assignments).sort((a, b) => a.taskId - b.taskId);
+  }
+
+  /** Assignments with work left */
+  open(): Assignment[] {
+    return this.all().filter((a) => OPEN_STATUSES.includes(a.status));
+  }
+
+  /** Record new assignments and the block scanned up to in a single write */
+  recordScan(lastBlock: number, assignments: Assignment[]): void {
+    for (const a of assignments) this.state.assignments[a.taskId] = a;
+    this.state.lastBlock = lastBlock;
+    this.save();
+  }
+
+  update(taskId: number, patch: Partial<Omit<Assignment, "taskId">>): Assignment {
+    const current = this.state.assignments[taskId];
+    if (!current) throw new Error(`No assignment for task ${taskId}`);
+    const updated = { ...current, ...patch, updatedAt: Math.floor(Date.now() / 1000) };
+    this.state.assignments[taskId] = updated;
+    this.save();
+    return updated;
+  }
+
+  private load(): ValidatorState | null {
+    try {
+      return JSON.parse(readFileSync(this.path, "utf8")) as ValidatorState;
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw new Error(`Cannot read validator state ${this.path}: ${err.message}`);
+    }
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    const fd = openSync(tmp, "w", 0o600);
+    try {
+      writeSync(fd, JSON.stringify(this.state, null, 2));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tmp, this.path);
+  }
+}
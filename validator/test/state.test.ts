@@ -0,0 +1,92 @@
+import { mkdtempSync, readdirSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { StateStore } from "../src/state.js";
+import type { Assignment } from "../src/state.js";
+
+const dir = mkdtempSync(join(tmpdir(), "abb-validator-state-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const POOL = "0x0000000000000000000000000000000000000001";
+const VALIDATOR = "0x00000000000000000000000000000000000000aa";
+
+let files = 0;
+function freshPath(): string {
+  return join(dir, `state-${++files}`, "validator.json");
+}
+
+function assignment(taskId: number, fields: Partial<Assignment> = {}): Assignment {
+  return {
+    taskId,
+    tier: "premium",
+    selectionBlock: 100,
+    selectedAt: 1_000,
+    commitDeadline: 4_600,
+    revealDeadline: 6_400,
+    status: "assigned",
+    score: null,
+    rationale: null,
+    salt: null,
+    commitHash: null,
+    scoreTxHash: null,
+    revealTxHash: null,
+    error: null,
+    updatedAt: 1_000,
+    ...fields,
+  };
+}
+
+describe("StateStore", () => {
+  it("starts scanning from the configured block", () => {
+    const store = new StateStore(freshPath(), POOL, VALIDATOR, 500);
+    expect(store.lastBlock).toBe(499);
+    expect(store.all()).toEqual([]);
+  });
+
+  it("resumes a committing assignment with its salt after a restart", () => {
+    const path = freshPath();
+    const before = new StateStore(path, POOL, VALIDATOR, 0);
+    before.recordScan(120, [assignment(2), assignment(1)]);
+    before.update(1, { status: "committing", score: 80, salt: "0x01", commitHash: "0x02" });
+
+    const after = new StateStore(path, POOL, VALIDATOR.toUpperCase().replace("0X", "0x"), 0);
+    expect(after.lastBlock).toBe(120);
+    expect(after.open().map((a) => [a.taskId, a.status])).toEqual([[1, "committing"], [2, "assigned"]]);
+    expect(after.get(1)).toMatchObject({ score: 80, salt: "0x01", commitHash: "0x02" });
+  });
+
+  it("drops finished assignments from the open set", () => {
+    const store = new StateStore(freshPath(), POOL, VALIDATOR, 0);
+    store.recordScan(10, [assignment(1), assignment(2), assignment(3)]);
+    store.update(1, { status: "finalized" });
+    store.update(2, { status: "missed" });
+    expect(store.open().map((a) => a.taskId)).toEqual([3]);
+  });
+
+  it("writes the file owner-only and leaves no temporary file behind", () => {
+    const path = freshPath();
+    new StateStore(path, POOL, VALIDATOR, 0).recordScan(1, [assignment(1)]);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(readdirSync(join(path, ".."))).toEqual(["validator.json"]);
+  });
+
+  it("refuses a state file that belongs to another validator or pool", () => {
+    const path = freshPath();
+    new StateStore(path, POOL, VALIDATOR, 0).recordScan(1, []);
+    expect(() => new StateStore(path, POOL, "0x00000000000000000000000000000000000000bb", 0)).toThrow(/belongs to validator/);
+    expect(() => new StateStore(path, "0x0000000000000000000000000000000000000002", VALIDATOR, 0)).toThrow(/belongs to validator/);
+  });
+
+  it("refuses to start on an unreadable state file", () => {
+    const path = freshPath();
+    new StateStore(path, POOL, VALIDATOR, 0).recordScan(1, []);
+    writeFileSync(path, "{ truncated");
+    expect(() => new StateStore(path, POOL, VALIDATOR, 0)).toThrow(/Cannot read validator state/);
+  });
+
+  it("rejects updates to unknown tasks", () => {
+    const store = new StateStore(freshPath(), POOL, VALIDATOR, 0);
+    expect(() => store.update(9, { status: "scored" })).toThrow(/No assignment for task 9/);
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * A placeholder handler that answers each acceptance criterion with a line of
+ * text. It shows the shape of a handler; replace it with real work.
+ *
+ * @param {import("@agentecon/worker").WorkTask} work
+ * @returns {Promise<import("@agentecon/worker").Artifact>}
+ */
+export default async function handler({ task, description }) {
+  const criteria = description?.acceptanceCriteria ?? [];
+  const lines = criteria.length > 0 ? criteria.map((c) => `- ${c}: done`) : ["- done"];
+  return {
+    body: `# ${description?.title ?? `Task ${task.id}`}\n\n${lines.join("\n")}\n`,
+    data: { taskId: task.id, criteria: criteria.length },
+  };
+}
@@ -0,0 +1,58 @@
+import { closeSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, writeSync } from "node:fs";
+import { join } from "node:path";
+import type { Attachment } from "@agentecon/sdk";
+
+/**
+ * What a handler returns: plain text, or a document with a body plus
+ * attachments and structured data. Documents are stored as JSON in the
+ * shape the SDK's document resolver reads back as a SubmissionDocument.
+ */
+export type Artifact = string | { body: string; attachments?: Attachment[]; data?: unknown };
+
+const PUBLISH_TIMEOUT_MS = 15_000;
+
+/** The exact submission content; its contentHash goes on chain */
+export function serializeArtifact(artifact: Artifact): string {
+  if (typeof artifact === "string") return artifact;
+  const { body, attachments = [], data } = artifact;
+  return JSON.stringify(data === undefined ? { body, attachments } : { body, attachments, data });
+}
+
+/** Write the content to `<dir>/task-<id>.txt` durably, before its hash is submitted */
+export function saveArtifact(dir: string, taskId: number, content: string): string {
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, `task-${taskId}.txt`);
+  const tmp = `${path}.tmp`;
+  const fd = openSync(tmp, "w", 0o600);
+  try {
+    writeSync(fd, content);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+  renameSync(tmp, path);
+  return path;
+}
+
+export function loadArtifact(path: string): string {
+  return readFileSync(path, "utf8");
+}
+
+/**
+ * Upload the submission to the AgentEcon API, which checks it against the
+ * on-chain submissionHash and pins it, so validators can fetch it. Returns
+ * false on any failure; the caller retries later.
+ */
+export async function publishSubmission(apiUrl: string, taskId: number, content: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${apiUrl.replace(/\/$/, "")}/tasks/${taskId}/submission`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content }),
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { JsonRpcProvider, NonceManager, Wallet } from "ethers";
+import { connectAll, createContracts, readAgent, readOperatorAgents } from "@agentecon/sdk";
+import type { ProtocolContracts } from "@agentecon/sdk";
+import { logger } from "@agentecon/sdk/logger";
+import { config } from "./config.js";
+import { JobStore } from "./state.js";
+import { Worker } from "./worker.js";
+import type { TaskHandler } from "./worker.js";
+
+const USAGE = `Usage: abb-worker [--handler <module>] [--once] [--status]
+  --handler  Module whose default export is the task handler (default WORKER_HANDLER)
+  --once     Run a single pass, wait for started handlers to submit, and exit
+  --status   Print the jobs in WORKER_STATE_PATH and exit
+
+Configuration comes from the environment or .env (see .env.example).`;
+
+function printStatus(store: JobStore): void {
+  const jobs = store.all();
+  if (jobs.length === 0) {
+    console.log(`No jobs (scanned to block ${store.lastBlock}, ${store.candidates.length} candidates).`);
+    return;
+  }
+  const rows = jobs.map((j) => [
+    String(j.taskId),
+    j.status,
+    new Date(j.deadline * 1000).toISOString(),
+    j.medianScore === null ? "-" : String(j.medianScore),
+    j.error ?? "",
+  ]);
+  const header = ["TASK", "STATUS", "DEADLINE", "SCORE", "ERROR"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  for (const row of [header, ...rows]) {
+    console.log(row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join("  "));
+  }
+}
+
+async function loadHandler(path: string): Promise<TaskHandler> {
+  const mod = await import(pathToFileURL(resolve(path)).href);
+  const handler = mod.default ?? mod.handler;
+  if (typeof handler !== "function") throw new Error(`${path} must export a handler function as default or \`handler\``);
+  return handler as TaskHandler;
+}
+
+/** WORKER_AGENT_ID, or the operator's first active agent */
+async function resolveAgentId(contracts: ProtocolContracts, operator: string): Promise<number> {
+  if (config.agentId !== null) {
+    const agent = await readAgent(contracts, config.agentId);
+    if (agent.operator.toLowerCase() !== operator.toLowerCase()) throw new Error(`Agent ${config.agentId} is operated by ${agent.operator}, not ${operator}`);
+    if (!agent.active) throw new Error(`Agent ${config.agentId} is not active`);
+    return agent.id;
+  }
+  const agent = (await readOperatorAgents(contracts, operator)).find((a) => a.active);
+  if (!agent) throw new Error(`${operator} operates no active agent; register one with \`abb agent register\``);
+  return agent.id;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      handler: { type: "string" },
+      once: { type: "boolean", default: false },
+      status: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const wallet = new Wallet(config.privateKey, provider);
+  const store = new JobStore(config.statePath, config.contracts.abbCore, wallet.address, config.startBlock);
+  if (values.status) {
+    printStatus(store);
+    provider.destroy();
+    return;
+  }
+
+  const signer = new NonceManager(wallet);
+  const contracts = connectAll(createContracts(config.contracts, provider, "v2"), signer);
+  const handlerPath = values.handler ?? config.handlerPath;
+  const worker = new Worker({
+    contracts,
+    signer,
+    agentId: await resolveAgentId(contracts, wallet.address),
+    handler: await loadHandler(handlerPath),
+    store,
+    artifactDir: config.artifactDir,
+    sources: config,
+    filter: config.filter,
+    limits: config.limits,
+    withdraw: config.withdraw,
+  });
+  logger.info({ operator: wallet.address, handler: handlerPath, filter: config.filter, limits: config.limits }, "Worker started");
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopping = true;
+    wake?.();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  while (!stopping) {
+    try {
+      await worker.tick();
+    } catch (err: any) {
+      // An RPC outage or similar; every step is in the state file, so the next pass resumes
+      logger.error({ err: err.message }, "Pass failed");
+    }
+    if (values.once) break;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, config.pollIntervalMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+  logger.info("Waiting for running handlers");
+  await worker.drain();
+  logger.info("Worker stopped");
+  provider.destroy();
+}
+
+main().catch((err) => {
+  logger.error({ err: err.message }, "Worker failed");
+  process.exit(1);
+});
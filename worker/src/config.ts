@@ -0,0 +1,44 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+function env(key: string, fallback?: string): string {
+  const v = process.env[key] ?? fallback;
+  if (!v) throw new Error(`Missing env var: ${key}`);
+  return v;
+}
+
+function list(key: string): string[] {
+  return (process.env[key] ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+export const config = {
+  rpcUrl: env("RPC_URL", "http://localhost:8545"),
+  contracts: {
+    abbCore: env("ABBCORE_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    agentRegistry: env("AGENT_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    taskRegistry: env("TASK_REGISTRY_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    validatorPool: env("VALIDATOR_POOL_ADDRESS", "0x0000000000000000000000000000000000000000"),
+    bountyEscrow: env("BOUNTY_ESCROW_ADDRESS", "0x0000000000000000000000000000000000000000"),
+  },
+  // First block to scan for new tasks when there is no state file yet
+  startBlock: parseInt(env("START_BLOCK", "0"), 10),
+  privateKey: env("WORKER_PRIVATE_KEY"),
+  agentId: process.env.WORKER_AGENT_ID ? parseInt(process.env.WORKER_AGENT_ID, 10) : null,
+  handlerPath: env("WORKER_HANDLER", "./examples/echo.mjs"),
+  filter: {
+    categories: list("WORKER_CATEGORIES"),
+    minBountyEth: env("WORKER_MIN_BOUNTY_ETH", "0"),
+    tokens: list("WORKER_TOKENS"),
+  },
+  limits: {
+    concurrency: parseInt(env("WORKER_CONCURRENCY", "1"), 10),
+    claimMarginSeconds: parseInt(env("WORKER_CLAIM_MARGIN_SECONDS", "3600"), 10),
+    submitMarginSeconds: parseInt(env("WORKER_SUBMIT_MARGIN_SECONDS", "300"), 10),
+  },
+  statePath: env("WORKER_STATE_PATH", "./data/worker-state.json"),
+  artifactDir: env("WORKER_ARTIFACT_DIR", "./data/artifacts"),
+  pollIntervalMs: parseInt(env("WORKER_POLL_INTERVAL_MS", "15000"), 10),
+  withdraw: env("WORKER_WITHDRAW", "true") === "true",
+  apiUrl: env("API_URL", "http://localhost:3000"),
+  ipfsGateway: env("IPFS_GATEWAY", "https://gateway.pinata.cloud/ipfs"),
+};
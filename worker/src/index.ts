@@ -0,0 +1,6 @@
+export { Worker, DEFAULT_LIMITS } from "./worker.js";
+export type { TaskFilter, TaskHandler, WorkTask, WorkerLimits, WorkerOptions } from "./worker.js";
+export { JobStore, ACTIVE_STATUSES } from "./state.js";
+export type { Job, JobStatus, WorkerState } from "./state.js";
+export { loadArtifact, publishSubmission, saveArtifact, serializeArtifact } from "./artifacts.js";
+export type { Artifact } from "./artifacts.js";
@@ -0,0 +1,146 @@
+import { closeSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+
+/**
+ * - claiming: claimTask signed and its hash saved, then sent, or about to be
+ * - claimed: the task is ours; the handler runs (again, after a restart)
+ * - submitting: the artifact is on disk and its hash saved; submitWork sent or about to be
+ * - submitted: the work is in review
+ * - accepted / rejected: ReviewFinalized was emitted for the task
+ * - paid: the bounty was withdrawn from BountyEscrow
+ * - abandoned: the handler ran out of time, or someone else claimed the task first
+ * - failed: the handler threw; the task stays claimed until its poster reclaims it
+ */
+export type JobStatus =
+  | "claiming" | "claimed" | "submitting" | "submitted"
+  | "accepted" | "rejected" | "paid" | "abandoned" | "failed";
+
+export interface Job {
+  taskId: number;
+  agentId: number;
+  /** Task deadline, unix seconds */
+  deadline: number;
+  /** ETH, or the ERC-20 bounty token */
+  paymentToken: string;
+  status: JobStatus;
+  claimTxHash: string | null;
+  artifactPath: string | null;
+  submissionHash: string | null;
+  submitTxHash: string | null;
+  /** The submission document was accepted by the API */
+  published: boolean;
+  medianScore: number | null;
+  withdrawTxHash: string | null;
+  error: string | null;
+  updatedAt: number;
+}
+
+export interface WorkerState {
+  abbCore: string;
+  operator: string;
+  /** Last block scanned for new tasks and review results */
+  lastBlock: number;
+  /** Tasks seen being created that have not been claimed or ruled out yet */
+  candidates: number[];
+  jobs: Record<string, Job>;
+}
+
+// Jobs that hold one of the WORKER_CONCURRENCY slots
+export const ACTIVE_STATUSES: JobStatus[] = ["claiming", "claimed", "submitting"];
+
+/**
+ * Jobs and scan progress in one JSON file, written to a temporary file,
+ * fsynced and renamed so a crash leaves the old state or the new one. Each
+ * step is recorded before its transaction is sent, so a restart can check the
+ * chain and carry on rather than claim or submit twice.
+ */
+export class JobStore {
+  private state: WorkerState;
+
+  constructor(
+    private readonly path: string,
+    abbCore: string,
+    operator: string,
+    startBlock: number,
+  ) {
+    const loaded = this.load();
+    if (loaded && (loaded.abbCore.toLowerCase() !== abbCore.toLowerCase() || loaded.operator.toLowerCase() !== operator.toLowerCase())) {
+      throw new Error(`${path} belongs to operator ${loaded.operator} on ABBCore ${loaded.abbCore}; use another WORKER_STATE_PATH`);
+    }
+    this.state = loaded ?? { abbCore, operator, lastBlock: startBlock - 1, candidates: [], jobs: {} };
+  }
+
+  get lastBlock(): number {
+    return this.state.lastBlock;
+  }
+
+  get candidates(): number[] {
+    return [...this.state.candidates];
+  }
+
+  get(taskId: number): Job | null {
+    return this.state.jobs[taskId] ?? null;
+  }
+
+  /** Every job, oldest task first */
+  all(): Job[] {
+    return Object.values(this.state.jobs).sort((a, b) => a.taskId - b.taskId);
+  }
+
+  active(): Job[] {
+    return this.all().filter((j) => ACTIVE_STATUSES.includes(j.status));
+  }
+
+  /** Add newly created tasks and the block scanned up to in a single write */
+  recordScan(lastBlock: number, created: number[]): void {
+    const known = new Set(this.state.candidates);
+    for (const id of created) if (!known.has(id) && !this.state.jobs[id]) this.state.candidates.push(id);
+    this.state.lastBlock = lastBlock;
+    this.save();
+  }
+
+  dropCandidate(taskId: number): void {
+    this.state.candidates = this.state.candidates.filter((id) => id !== taskId);
+    this.save();
+  }
+
+  /** Turn a candidate into a job */
+  create(job: Omit<Job, "updatedAt">): Job {
+    const created = { ...job, updatedAt: Math.floor(Date.now() / 1000) };
+    this.state.jobs[job.taskId] = created;
+    this.state.candidates = this.state.candidates.filter((id) => id !== job.taskId);
+    this.save();
+    return created;
+  }
+
+  update(taskId: number, patch: Partial<Omit<Job, "taskId">>): Job {
+    const current = this.state.jobs[taskId];
+    if (!current) throw new Error(`No job for task ${taskId}`);
+    const updated = { ...current, ...patch, updatedAt: Math.floor(Date.now() / 1000) };
+    this.state.jobs[taskId] = updated;
+    this.save();
+    return updated;
+  }
+
+  private load(): WorkerState | null {
+    try {
+      return JSON.parse(readFileSync(this.path, "utf8")) as WorkerState;
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw new Error(`Cannot read worker state ${this.path}: ${err.message}`);
+    }
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    const fd = openSync(tmp, "w", 0o600);
+    try {
+      writeSync(fd, JSON.stringify(this.state, null, 2));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tmp, this.path);
+  }
+}
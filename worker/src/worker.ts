@@ -0,0 +1,397 @@
+import { Transaction, ZeroAddress, parseEther } from "ethers";
+import type { EventLog, NonceManager, TransactionReceipt } from "ethers";
+import {
+  contentHash,
+  decodeContractError,
+  readClaimable,
+  readTask,
+  submitWork,
+  taskDocuments,
+  withdrawETH,
+  withdrawToken,
+} from "@agentecon/sdk";
+import type { DocumentSources, ProtocolContracts, Task, TaskDescription } from "@agentecon/sdk";
+import { logger } from "@agentecon/sdk/logger";
+import { loadArtifact, publishSubmission, saveArtifact, serializeArtifact } from "./artifacts.js";
+import type { Artifact } from "./artifacts.js";
+import type { Job, JobStore } from "./state.js";
+
+const LOG_CHUNK = 10_000;
+
+/** What a handler is given for one claimed task */
+export interface WorkTask {
+  task: Task;
+  /** null when the description could not be fetched */
+  description: TaskDescription | null;
+  agentId: number;
+  /** Unix time the artifact must be ready by: the task deadline minus the submit margin */
+  submitBy: number;
+  /** Aborted at `submitBy`; the result is discarded after that */
+  signal: AbortSignal;
+}
+
+export type TaskHandler = (work: WorkTask) => Promise<Artifact>;
+
+/** Which open tasks to claim; every condition set must hold */
+export interface TaskFilter {
+  /** Description categories to accept (case-insensitive); tasks without a category are skipped */
+  categories?: string[];
+  /** Smallest ETH bounty worth claiming, in ETH */
+  minBountyEth?: string;
+  /** ERC-20 bounty tokens to accept; ETH bounties only when empty */
+  tokens?: string[];
+  /** A final say once the built-in conditions pass */
+  match?: (task: Task, description: TaskDescription | null) => boolean | Promise<boolean>;
+}
+
+export interface WorkerLimits {
+  /** Tasks claimed and not yet submitted at any one time */
+  concurrency: number;
+  /** Only claim tasks with at least this many seconds left before their deadline */
+  claimMarginSeconds: number;
+  /** Stop the handler this many seconds before the deadline, leaving time to submit */
+  submitMarginSeconds: number;
+}
+
+export interface WorkerOptions {
+  /** Contracts bound to `signer`, the operator of `agentId` */
+  contracts: ProtocolContracts;
+  signer: NonceManager;
+  agentId: number;
+  handler: TaskHandler;
+  store: JobStore;
+  /** Where artifacts are kept until their submission is published */
+  artifactDir: string;
+  /** Task descriptions are read from, and submissions published to, `apiUrl` */
+  sources: DocumentSources;
+  filter?: TaskFilter;
+  limits?: Partial<WorkerLimits>;
+  /** Withdraw from BountyEscrow after each accepted review (default true) */
+  withdraw?: boolean;
+}
+
+export const DEFAULT_LIMITS: WorkerLimits = { concurrency: 1, claimMarginSeconds: 3600, submitMarginSeconds: 300 };
+
+function describe(err: any): { error: string | null; message: string } {
+  const decoded = decodeContractError(err, "ABBCore");
+  if (decoded) return { error: decoded.error, message: `${decoded.error}: ${decoded.hint}` };
+  return { error: null, message: err?.shortMessage ?? err?.reason ?? err?.message ?? String(err) };
+}
+
+/**
+ * Runs a worker agent: finds new open tasks from `TaskCreatedAndFunded`,
+ * claims the ones that pass the filter while there are free slots, runs the
+ * handler on each, stores and hashes its artifact and submits it. Results
+ * come from `ReviewFinalized` (and `DisputeResolved`); accepted bounties are
+ * withdrawn from BountyEscrow.
+ *
+ * `tick()` does one pass. Handlers run in the background across passes, up to
+ * `concurrency` at once; transactions go out one at a time. Every step is
+ * recorded in the JobStore before its transaction is sent, so after a crash
+ * the next pass checks the chain and carries on.
+ */
+export class Worker {
+  private readonly running = new Map<number, Promise<void>>();
+  private readonly limits: WorkerLimits;
+  private txQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: WorkerOptions) {
+    this.limits = { ...DEFAULT_LIMITS, ...options.limits };
+  }
+
+  private get store(): JobStore {
+    return this.options.store;
+  }
+
+  private get contracts(): ProtocolContracts {
+    return this.options.contracts;
+  }
+
+  async tick(): Promise<void> {
+    await this.scan();
+    const now = await this.chainTime();
+    for (const job of this.store.all()) {
+      if (this.running.has(job.taskId)) continue;
+      try {
+        await this.resume(job);
+      } catch (err) {
+        // Transient: left as it is for the next pass
+        const { message } = describe(err);
+        this.store.update(job.taskId, { error: message });
+        logger.warn({ taskId: job.taskId, status: job.status, err: message }, "Step failed, will retry");
+      }
+    }
+    await this.claimNew(now);
+    this.startHandlers(now);
+  }
+
+  /** Wait for running handlers to finish and submit */
+  async drain(): Promise<void> {
+    await Promise.allSettled([...this.running.values()]);
+  }
+
+  private async chainTime(): Promise<number> {
+    const block = await this.options.signer.provider!.getBlock("latest");
+    return block!.timestamp;
+  }
+
+  /** Pick up created tasks and review results since the last scan */
+  private async scan(): Promise<void> {
+    const { abbCore } = this.contracts;
+    const latest = await this.options.signer.provider!.getBlockNumber();
+    for (let from = this.store.lastBlock + 1; from <= latest; from += LOG_CHUNK) {
+      const to = Math.min(from + LOG_CHUNK - 1, latest);
+      const [created, finalized, resolved] = await Promise.all([
+        abbCore.queryFilter(abbCore.filters.TaskCreatedAndFunded(), from, to),
+        abbCore.queryFilter(abbCore.filters.ReviewFinalized(), from, to),
+        abbCore.queryFilter(abbCore.filters.DisputeResolved(), from, to),
+      ]);
+
+      for (const log of [...finalized, ...resolved].filter((l): l is EventLog => "args" in l)) {
+        const job = this.store.get(Number(log.args.taskId));
+        if (!job || (job.status !== "submitted" && job.status !== "rejected")) continue;
+        const accepted = Boolean(log.args.accepted);
+        const medianScore = log.eventName === "ReviewFinalized" ? Number(log.args.medianScore) : job.medianScore;
+        this.store.update(job.taskId, { status: accepted ? "accepted" : "rejected", medianScore, error: null });
+        const fields = { taskId: job.taskId, medianScore, event: log.eventName };
+        if (accepted) logger.info(fields, "Work accepted");
+        else logger.warn(fields, "Work rejected");
+      }
+
+      const ids = created.filter((l): l is EventLog => "args" in l).map((l) => Number(l.args.taskId));
+      this.store.recordScan(to, ids);
+    }
+  }
+
+  /** Carry a job on from wherever it stopped */
+  private async resume(job: Job): Promise<void> {
+    switch (job.status) {
+      case "claiming": {
+        // The claim was signed, and maybe sent, before a crash; wait while the node still has it pending
+        if (job.claimTxHash && (await this.pending(job.claimTxHash))) return;
+        const task = await readTask(this.contracts, job.taskId);
+        if (task.state !== "open" && task.assignedAgent === job.agentId) {
+          this.store.update(job.taskId, { status: "claimed", error: null });
+        } else {
+          this.store.update(job.taskId, { status: "abandoned", error: "claim did not land" });
+        }
+        return;
+      }
+      case "submitting":
+        return this.submit(job);
+      case "submitted":
+        if (!job.published) await this.publish(job);
+        return;
+      case "accepted":
+        if (this.options.withdraw !== false) await this.withdraw(job);
+        return;
+      default:
+        return;
+    }
+  }
+
+  private async claimNew(now: number): Promise<void> {
+    let free = this.limits.concurrency - this.store.active().length;
+    for (const taskId of this.store.candidates) {
+      if (free <= 0) return;
+      try {
+        const verdict = await this.consider(taskId, now);
+        if (verdict === "retry") continue;
+        if (verdict !== "claim") {
+          this.store.dropCandidate(taskId);
+          logger.debug({ taskId, reason: verdict }, "Task skipped");
+          continue;
+        }
+        if (await this.claim(taskId)) free--;
+      } catch (err) {
+        logger.warn({ taskId, err: describe(err).message }, "Could not consider task, will retry");
+      }
+    }
+  }
+
+  /** "claim", "retry" (the description is not available yet) or why the task was ruled out */
+  private async consider(taskId: number, now: number): Promise<string> {
+    const filter = this.options.filter ?? {};
+    const task = await readTask(this.contracts, taskId);
+    if (task.state !== "open") return `task is ${task.state}`;
+    if (task.deadline - now < this.limits.claimMarginSeconds) return "deadline too close";
+
+    if (task.paymentToken === ZeroAddress) {
+      if (filter.minBountyEth && BigInt(task.bountyAmountWei) < parseEther(filter.minBountyEth)) return "bounty too small";
+    } else if (!(filter.tokens ?? []).some((t) => t.toLowerCase() === task.paymentToken.toLowerCase())) {
+      return `bounty token ${task.paymentToken} not accepted`;
+    }
+
+    const { description } = await taskDocuments(this.options.sources, task);
+    if (filter.categories?.length) {
+      if (!description) return "retry";
+      const category = description.category?.toLowerCase();
+      if (!category || !filter.categories.some((c) => c.toLowerCase() === category)) return `category ${description.category ?? "none"}`;
+    }
+    if (filter.match && !(await filter.match(task, description))) return "rejected by filter";
+    return "claim";
+  }
+
+  private async claim(taskId: number): Promise<boolean> {
+    const { agentId } = this.options;
+    const task = await readTask(this.contracts, taskId);
+    try {
+      await this.contracts.abbCore.claimTask.staticCall(taskId, agentId);
+    } catch (err) {
+      const { error, message } = describe(err);
+      if (!error) throw err;
+      this.store.dropCandidate(taskId);
+      logger.info({ taskId, err: message }, "Claim would revert; skipped");
+      return false;
+    }
+
+    this.store.create({
+      taskId,
+      agentId,
+      deadline: task.deadline,
+      paymentToken: task.paymentToken,
+      status: "claiming",
+      claimTxHash: null,
+      artifactPath: null,
+      submissionHash: null,
+      submitTxHash: null,
+      published: false,
+      medianScore: null,
+      withdrawTxHash: null,
+      error: null,
+    });
+    const receipt = await this.transact(() => this.sendClaim(taskId, agentId));
+    this.store.update(taskId, { status: "claimed", claimTxHash: receipt.hash });
+    logger.info({ taskId, agentId, bounty: task.bountyAmount, deadline: task.deadlineISO, txHash: receipt.hash }, "Task claimed");
+    return true;
+  }
+
+  private startHandlers(now: number): void {
+    for (const job of this.store.all()) {
+      if (job.status !== "claimed" || this.running.has(job.taskId)) continue;
+      const submitBy = job.deadline - this.limits.submitMarginSeconds;
+      if (now >= submitBy) {
+        this.store.update(job.taskId, { status: "abandoned", error: "no time left before the submit margin" });
+        logger.warn({ taskId: job.taskId }, "Claimed task abandoned: deadline too close to work on");
+        continue;
+      }
+      const run = this.work(job, submitBy, (submitBy - now) * 1000).finally(() => this.running.delete(job.taskId));
+      this.running.set(job.taskId, run);
+    }
+  }
+
+  private async work(job: Job, submitBy: number, timeoutMs: number): Promise<void> {
+    const signal = AbortSignal.timeout(timeoutMs);
+    try {
+      const task = await readTask(this.contracts, job.taskId);
+      const { description } = await taskDocuments(this.options.sources, task);
+      logger.info({ taskId: job.taskId, submitBy: new Date(submitBy * 1000).toISOString() }, "Handler started");
+
+      const timedOut = new Promise<never>((_, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+      });
+      // Fires after the handler has settled too; nothing is waiting on it then
+      timedOut.catch(() => undefined);
+      const artifact = await Promise.race([
+        this.options.handler({ task, description, agentId: job.agentId, submitBy, signal }),
+        timedOut,
+      ]);
+
+      // Durable before the hash can reach the chain, so the submission can always be published
+      const content = serializeArtifact(artifact);
+      const artifactPath = saveArtifact(this.options.artifactDir, job.taskId, content);
+      const updated = this.store.update(job.taskId, { status: "submitting", artifactPath, submissionHash: contentHash(content), error: null });
+      await this.submit(updated);
+    } catch (err: any) {
+      if (signal.aborted) {
+        this.store.update(job.taskId, { status: "abandoned", error: "handler did not finish before the submit margin" });
+        logger.error({ taskId: job.taskId }, "Handler timed out; task abandoned");
+      } else if (this.store.get(job.taskId)?.status === "submitting") {
+        // The artifact is saved; the next pass retries the submission
+        this.store.update(job.taskId, { error: describe(err).message });
+        logger.warn({ taskId: job.taskId, err: describe(err).message }, "Submission failed, will retry");
+      } else {
+        this.store.update(job.taskId, { status: "failed", error: err?.message ?? String(err) });
+        logger.error({ taskId: job.taskId, err: err?.message ?? String(err) }, "Handler failed");
+      }
+    }
+  }
+
+  private async submit(job: Job): Promise<void> {
+    const task = await readTask(this.contracts, job.taskId);
+    if (task.state !== "claimed") {
+      // Submitted before a crash, or reclaimed by the poster after the deadline
+      if (task.submissionHash.toLowerCase() === job.submissionHash!.toLowerCase()) {
+        this.store.update(job.taskId, { status: "submitted", error: null });
+        await this.publish(this.store.get(job.taskId)!);
+      } else {
+        this.store.update(job.taskId, { status: "abandoned", error: `task is ${task.state}` });
+        logger.error({ taskId: job.taskId, state: task.state }, "Task no longer claimed; submission dropped");
+      }
+      return;
+    }
+
+    const receipt = await this.transact(() => submitWork(this.contracts, job.taskId, job.submissionHash!));
+    const updated = this.store.update(job.taskId, { status: "submitted", submitTxHash: receipt.hash, error: null });
+    logger.info({ taskId: job.taskId, submissionHash: job.submissionHash, txHash: receipt.hash }, "Work submitted");
+    await this.publish(updated);
+  }
+
+  private async publish(job: Job): Promise<void> {
+    const published = await publishSubmission(this.options.sources.apiUrl, job.taskId, loadArtifact(job.artifactPath!));
+    this.store.update(job.taskId, { published });
+    if (!published) logger.warn({ taskId: job.taskId }, "Submission not published to the API yet; validators may not see it");
+  }
+
+  private async withdraw(job: Job): Promise<void> {
+    const operator = await this.options.signer.getAddress();
+    const eth = job.paymentToken === ZeroAddress;
+    const claimable = await readClaimable(this.contracts, operator, eth ? undefined : job.paymentToken);
+    const amount = BigInt(eth ? claimable.ethWei : claimable.token!.amountWei);
+    if (amount === 0n) {
+      // Already withdrawn along with an earlier job's bounty
+      this.store.update(job.taskId, { status: "paid", error: null });
+      return;
+    }
+    const receipt = await this.transact(() => (eth ? withdrawETH(this.contracts) : withdrawToken(this.contracts, job.paymentToken)));
+    this.store.update(job.taskId, { status: "paid", withdrawTxHash: receipt.hash, error: null });
+    logger.info({ taskId: job.taskId, amountWei: amount.toString(), token: eth ? null : job.paymentToken, txHash: receipt.hash }, "Bounty withdrawn");
+  }
+
+  /**
+   * claimTask, signed locally so its hash is saved before it is broadcast: a
+   * crash mid-claim leaves a hash that resume() can look up
+   */
+  private async sendClaim(taskId: number, agentId: number): Promise<TransactionReceipt> {
+    const { signer } = this.options;
+    const request = await signer.populateTransaction(await this.contracts.abbCore.claimTask.populateTransaction(taskId, agentId));
+    const signed = await signer.signTransaction(request);
+    this.store.update(taskId, { claimTxHash: Transaction.from(signed).hash });
+    signer.increment();
+    const tx = await signer.provider!.broadcastTransaction(signed);
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped or replaced`);
+    return receipt;
+  }
+
+  /** The transaction is known to the node but not mined yet */
+  private async pending(hash: string): Promise<boolean> {
+    const provider = this.options.signer.provider!;
+    if (await provider.getTransactionReceipt(hash)) return false;
+    return (await provider.getTransaction(hash)) !== null;
+  }
+
+  /** Send transactions one at a time; a failed send resyncs the nonce from the chain */
+  private transact<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.txQueue.then(async () => {
+      try {
+        return await fn();
+      } catch (err) {
+        this.options.signer.reset();
+        throw err;
+      }
+    });
+    this.txQueue = next.catch(() => undefined);
+    return next;
+  }
+}
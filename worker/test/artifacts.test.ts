@@ -0,0 +1,23 @@
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { loadArtifact, saveArtifact, serializeArtifact } from "../src/artifacts.js";
+
+const dir = mkdtempSync(join(tmpdir(), "abb-worker-artifacts-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("artifacts", () => {
+  it("serializes documents in the shape the SDK reads back", () => {
+    expect(serializeArtifact("plain text")).toBe("plain text");
+    expect(JSON.parse(serializeArtifact({ body: "done", data: { rows: 3 } }))).toEqual({ body: "done", attachments: [], data: { rows: 3 } });
+  });
+
+  it("reads back exactly the content that was saved for a resumed submission", () => {
+    const content = serializeArtifact({ body: "résumé ✓" });
+    const path = saveArtifact(dir, 7, content);
+    expect(path).toBe(join(dir, "task-7.txt"));
+    expect(loadArtifact(path)).toBe(content);
+    expect(readdirSync(dir)).toEqual(["task-7.txt"]);
+  });
+});
@@ -0,0 +1,93 @@
+import { mkdtempSync, readdirSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { JobStore } from "../src/state.js";
+import type { Job } from "../src/state.js";
+
+const dir = mkdtempSync(join(tmpdir(), "abb-worker-state-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const CORE = "0x0000000000000000000000000000000000000001";
+const OPERATOR = "0x00000000000000000000000000000000000000aa";
+
+let files = 0;
+function freshPath(): string {
+  return join(dir, `state-${++files}`, "worker.json");
+}
+
+function job(taskId: number, fields: Partial<Omit<Job, "updatedAt">> = {}): Omit<Job, "updatedAt"> {
+  return {
+    taskId,
+    agentId: 3,
+    deadline: 10_000,
+    paymentToken: "0x0000000000000000000000000000000000000000",
+    status: "claiming",
+    claimTxHash: null,
+    artifactPath: null,
+    submissionHash: null,
+    submitTxHash: null,
+    published: false,
+    medianScore: null,
+    withdrawTxHash: null,
+    error: null,
+    ...fields,
+  };
+}
+
+describe("JobStore", () => {
+  it("resumes a half-finished claim and submission after a restart", () => {
+    const path = freshPath();
+    const before = new JobStore(path, CORE, OPERATOR, 0);
+    before.recordScan(50, [1, 2, 3]);
+    before.create(job(1));
+    before.update(1, { claimTxHash: "0x01" });
+    before.create(job(2, { status: "submitting", artifactPath: "/tmp/task-2.txt", submissionHash: "0x02" }));
+
+    const after = new JobStore(path, CORE, OPERATOR, 0);
+    expect(after.lastBlock).toBe(50);
+    expect(after.candidates).toEqual([3]);
+    expect(after.get(1)).toMatchObject({ status: "claiming", claimTxHash: "0x01" });
+    expect(after.get(2)).toMatchObject({ status: "submitting", artifactPath: "/tmp/task-2.txt", submissionHash: "0x02" });
+  });
+
+  it("never re-adds a task that is already a candidate or a job", () => {
+    const store = new JobStore(freshPath(), CORE, OPERATOR, 0);
+    store.recordScan(10, [1, 2]);
+    store.create(job(1));
+    store.recordScan(20, [1, 2, 4]);
+    expect(store.candidates).toEqual([2, 4]);
+
+    store.dropCandidate(2);
+    expect(store.candidates).toEqual([4]);
+  });
+
+  it("counts only claiming, claimed and submitting jobs as active", () => {
+    const store = new JobStore(freshPath(), CORE, OPERATOR, 0);
+    for (const [taskId, status] of [[1, "claimed"], [2, "submitted"], [3, "submitting"], [4, "abandoned"]] as const) {
+      store.create(job(taskId, { status }));
+    }
+    expect(store.active().map((j) => j.taskId)).toEqual([1, 3]);
+  });
+
+  it("writes the file owner-only and leaves no temporary file behind", () => {
+    const path = freshPath();
+    new JobStore(path, CORE, OPERATOR, 0).recordScan(1, []);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(readdirSync(join(path, ".."))).toEqual(["worker.json"]);
+  });
+
+  it("refuses a state file that belongs to another operator or deployment", () => {
+    const path = freshPath();
+    new JobStore(path, CORE, OPERATOR, 0).recordScan(1, []);
+    expect(() => new JobStore(path, CORE, "0x00000000000000000000000000000000000000bb", 0)).toThrow(/belongs to operator/);
+    expect(() => new JobStore(path, "0x0000000000000000000000000000000000000002", OPERATOR, 0)).toThrow(/belongs to operator/);
+  });
+
+  it("refuses to start on an unreadable state file", () => {
+    const path = freshPath();
+    new JobStore(path, CORE, OPERATOR, 0).recordScan(1, []);
+    writeFileSync(path, "{ truncated");
+    expect(() => new JobStore(path, CORE, OPERATOR, 0)).toThrow(/Cannot read worker state/);
+  });
+});